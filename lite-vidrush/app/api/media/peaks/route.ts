@@ -0,0 +1,63 @@
+/**
+ * Media Peaks API Route
+ * Returns the waveform peaks of an uploaded audio or video file, decoding
+ * its audio with ffmpeg on the first request
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getWaveformPeaks } from '@/lib/mediaPeaks';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filename = searchParams.get('filename');
+
+    if (!filename) {
+      return NextResponse.json(
+        { success: false, error: 'Filename is required' },
+        { status: 400 }
+      );
+    }
+
+    // Security check: only plain filenames inside the uploads directory
+    const uploadDir = path.join(process.cwd(), 'public', 'uploads');
+    const filePath = path.join(uploadDir, filename);
+    if (path.basename(filename) !== filename || !filePath.startsWith(uploadDir)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid file path' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    const waveform = await getWaveformPeaks(filePath);
+    if (!waveform) {
+      return NextResponse.json(
+        { success: false, error: 'File has no audio' },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ success: true, waveform });
+  } catch (error) {
+    console.error('Peaks error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to extract waveform peaks',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
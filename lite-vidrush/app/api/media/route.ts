@@ -8,6 +8,10 @@ import { IncomingForm } from 'formidable';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { getMediaType, formatFileSize, generateTimestampedFilename } from '@/lib/utils';
+import { deleteMediaMetadata, getMediaMetadata } from '@/lib/mediaProbe';
+import { deleteWaveformPeaks } from '@/lib/mediaPeaks';
+import { deletePannedAudio } from '@/lib/audioPan';
+import { deleteThumbnailSprites } from '@/lib/mediaThumbnails';
 
 // Configure upload limits
 const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
@@ -72,14 +76,12 @@ export async function POST(request: NextRequest) {
     const mediaType = getMediaType(originalName);
     console.log(`📊 File stats: ${stats.size} bytes, type: ${mediaType}`);
 
-    // TODO: Extract media metadata (duration, dimensions, etc.)
-    const metadata = {
-      size: stats.size,
-      // For video/audio files, you would use ffprobe here to get duration, dimensions, etc.
-      // duration: await getMediaDuration(newPath),
-      // width: await getVideoWidth(newPath),
-      // height: await getVideoHeight(newPath),
-    };
+    // Probe duration, dimensions and codecs; an unreadable file still uploads
+    const probed = await getMediaMetadata(newPath);
+    const metadata = { ...probed, size: stats.size };
+    if (probed) {
+      console.log(`🎞️ Media metadata: ${JSON.stringify(probed)}`);
+    }
 
     const result = {
       success: true,
@@ -141,6 +143,7 @@ export async function GET() {
           sizeFormatted: formatFileSize(stats.size),
           mediaType: getMediaType(filename),
           uploadedAt: stats.mtime,
+          metadata: { ...(await getMediaMetadata(filePath)), size: stats.size },
         });
       }
     }
@@ -184,6 +187,10 @@ export async function DELETE(request: NextRequest) {
     }
 
     await fs.unlink(filePath);
+    await deleteMediaMetadata(filePath);
+    await deleteThumbnailSprites(filePath);
+    await deleteWaveformPeaks(filePath);
+    await deletePannedAudio(filePath);
 
     return NextResponse.json({
       success: true,
@@ -205,7 +212,6 @@ export async function DELETE(request: NextRequest) {
 // - Virus scanning
 // - Cloud storage integration (AWS S3, etc.)
 // - CDN integration
-// - File metadata extraction (ffprobe for video/audio)
 // - Image resizing/format conversion
 // - Progress tracking for large uploads
 // - Resume interrupted uploads
@@ -0,0 +1,73 @@
+/**
+ * Media Thumbnails API Route
+ * Returns the thumbnail sprite sheet of an uploaded video, extracting it
+ * with ffmpeg on the first request
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getThumbnailSprite } from '@/lib/mediaThumbnails';
+import { normalizeThumbnailInterval } from '@/lib/filmstrip';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filename = searchParams.get('filename');
+    const intervalParam = searchParams.get('interval');
+
+    if (!filename) {
+      return NextResponse.json(
+        { success: false, error: 'Filename is required' },
+        { status: 400 }
+      );
+    }
+
+    // Security check: only plain filenames inside the uploads directory
+    const uploadDir = path.join(process.cwd(), 'public', 'uploads');
+    const filePath = path.join(uploadDir, filename);
+    if (path.basename(filename) !== filename || !filePath.startsWith(uploadDir)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid file path' },
+        { status: 400 }
+      );
+    }
+
+    const interval = intervalParam === null ? undefined : Number(intervalParam);
+    if (interval !== undefined && !(interval > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Interval must be a positive number of seconds' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    const sprite = await getThumbnailSprite(filePath, normalizeThumbnailInterval(interval));
+    if (!sprite) {
+      return NextResponse.json(
+        { success: false, error: 'File has no video to take thumbnails of' },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ success: true, sprite });
+  } catch (error) {
+    console.error('Thumbnail error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to extract thumbnails',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
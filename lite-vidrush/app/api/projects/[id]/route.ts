@@ -0,0 +1,126 @@
+/**
+ * Single Project API Route
+ * Reads, updates (with revision check) and deletes a stored project
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { parseProjectFile } from '@/lib/project';
+import { deleteProject, getProject, updateProject } from '@/lib/projectStorage';
+
+// Validation schema for updating a project
+const UpdateProjectSchema = z.object({
+  revision: z.number().int().positive(), // Revision the client last saw
+  title: z.string().max(200).optional(),
+  project: z.unknown().optional(),
+  thumbnail: z.string().nullable().optional(),
+});
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const record = await getProject(id);
+
+    if (!record) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, project: record });
+  } catch (error) {
+    console.error('Project load error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load project' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = UpdateProjectSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request format', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { revision, title, thumbnail } = validation.data;
+
+    let projectFile;
+    if (validation.data.project !== undefined) {
+      try {
+        projectFile = parseProjectFile(validation.data.project);
+      } catch (error) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid project', details: error instanceof Error ? error.message : 'Unknown error' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = await updateProject(id, { revision, title, thumbnail, project: projectFile });
+
+    if (result.status === 'not-found') {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    if (result.status === 'conflict') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Revision conflict',
+          message: `Project was modified elsewhere (revision ${result.record.revision}, you sent ${revision}). Reload before saving.`,
+          revision: result.record.revision,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, project: result.record });
+
+  } catch (error) {
+    console.error('Project update error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update project',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteProject(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Project deleted successfully' });
+  } catch (error) {
+    console.error('Project delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete project' },
+      { status: 500 }
+    );
+  }
+}
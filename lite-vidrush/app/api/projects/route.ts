@@ -0,0 +1,74 @@
+/**
+ * Projects API Route
+ * Lists stored projects and creates new ones
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { parseProjectFile } from '@/lib/project';
+import { createProject, listProjects } from '@/lib/projectStorage';
+
+// Validation schema for creating a project
+const CreateProjectSchema = z.object({
+  title: z.string().max(200).optional(),
+  project: z.unknown(),
+  thumbnail: z.string().nullable().optional(),
+});
+
+export async function GET() {
+  try {
+    const projects = await listProjects();
+    return NextResponse.json({ success: true, projects });
+  } catch (error) {
+    console.error('Project list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list projects' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = CreateProjectSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request format', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Older project versions are migrated before being stored
+    let projectFile;
+    try {
+      projectFile = parseProjectFile(validation.data.project);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid project', details: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 400 }
+      );
+    }
+
+    const record = await createProject({
+      title: validation.data.title,
+      project: projectFile,
+      thumbnail: validation.data.thumbnail,
+    });
+
+    console.log(`💾 Created project ${record.id} (${record.title})`);
+    return NextResponse.json({ success: true, project: record }, { status: 201 });
+
+  } catch (error) {
+    console.error('Project create error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create project',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Render Events API Route
+ * Streams the progress of a render job as server-sent events
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRenderQueue } from '@/lib/renderer';
+import { formatServerSentEvent, isFinalRenderEvent } from '@/lib/renderEvents';
+import { RenderEvent } from '@/lib/types';
+
+// Comment sent periodically so proxies keep the connection open
+const HEARTBEAT_INTERVAL = 15000; // ms
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const queue = getRenderQueue();
+  const job = await queue.getJob(id);
+
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: 'Render job not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+      const send = (event: RenderEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+        if (isFinalRenderEvent(event)) close();
+      };
+
+      const unsubscribe = queue.subscribe(id, send);
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL);
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      // The client went away; listen before awaiting anything so a disconnect
+      // in the meantime still cleans up
+      if (request.signal.aborted) {
+        close();
+        return;
+      }
+      request.signal.addEventListener('abort', close, { once: true });
+
+      // Current state first (read after subscribing so no change is missed);
+      // finished jobs only get their result
+      const latest = (await queue.getJob(id)) ?? job;
+      if (latest.state === 'done') send({ type: 'done', job: latest });
+      else if (latest.state === 'failed') send({ type: 'error', job: latest, error: latest.error ?? 'Render failed' });
+      else send({ type: 'status', job: latest });
+    },
+    cancel() {
+      closed = true;
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
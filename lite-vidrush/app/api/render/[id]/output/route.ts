@@ -0,0 +1,54 @@
+/**
+ * Render Output API Route
+ * Downloads the file produced by a finished render job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { getRenderQueue } from '@/lib/renderer';
+import { CONTAINER_MIME_TYPES, getOutputFilename } from '@/lib/renderSettings';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const queue = getRenderQueue();
+    const job = await queue.getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Render job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.state !== 'done') {
+      return NextResponse.json(
+        { success: false, error: `Render job is ${job.state}`, job },
+        { status: 409 }
+      );
+    }
+
+    // Jobs recorded before other containers were supported are always MP4
+    const format = job.outputFormat ?? 'mp4';
+    const outputPath = queue.getOutputPath(id, format);
+    const stats = await fs.stat(outputPath);
+
+    return new NextResponse(Readable.toWeb(createReadStream(outputPath)) as ReadableStream, {
+      status: 200,
+      headers: {
+        'Content-Type': CONTAINER_MIME_TYPES[format],
+        'Content-Disposition': `attachment; filename="${getOutputFilename(id, format)}"`,
+        'Content-Length': stats.size.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Render download error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read render output' },
+      { status: 500 }
+    );
+  }
+}
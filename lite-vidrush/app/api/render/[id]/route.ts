@@ -0,0 +1,63 @@
+/**
+ * Render Job API Route
+ * Reports the progress of a render job and cancels it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRenderQueue } from '@/lib/renderer';
+import { isJobFinished } from '@/lib/renderQueue';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await getRenderQueue().getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Render job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error('Render status error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load render job' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const queue = getRenderQueue();
+    const job = await queue.getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Render job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isJobFinished(job)) {
+      return NextResponse.json(
+        { success: false, error: `Render job already ${job.state}`, job },
+        { status: 409 }
+      );
+    }
+
+    console.log(`🛑 Cancelling render job ${id}`);
+    return NextResponse.json({ success: true, job: queue.cancelJob(id) });
+  } catch (error) {
+    console.error('Render cancel error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to cancel render job' },
+      { status: 500 }
+    );
+  }
+}
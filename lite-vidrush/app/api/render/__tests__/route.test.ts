@@ -0,0 +1,74 @@
+/**
+ * Unit tests for the render API route
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createProjectFile } from '@/lib/project';
+import { DEFAULT_EDITOR_STATE, EditorState, RenderSettings } from '@/lib/types';
+
+const enqueue = vi.fn((input: { settings: RenderSettings }) => ({ id: 'job-1', ...input }));
+
+// Queueing only; the renderer itself needs Remotion and a browser
+vi.mock('@/lib/renderer', () => ({
+  getBundleCacheStatus: async () => 'warm',
+  getRenderQueue: () => ({ enqueue }),
+}));
+
+import { POST } from '../route';
+
+const editorState: EditorState = {
+  ...DEFAULT_EDITOR_STATE,
+  media: [
+    { id: 'a', trackId: 'video-1', src: 'http://localhost:3000/uploads/a.png', startFrame: 0, endFrame: 30, order: 0, type: 'image' },
+  ],
+};
+
+function postRender(body: unknown) {
+  return POST(new NextRequest('http://localhost/api/render', { method: 'POST', body: JSON.stringify(body) }));
+}
+
+describe('Render API', () => {
+  beforeEach(() => {
+    enqueue.mockClear();
+  });
+
+  it('should render a posted project file', async () => {
+    const response = await postRender({ project: createProjectFile({ ...editorState, duration: 60 }) });
+
+    expect(response.status).toBe(202);
+    expect(enqueue.mock.calls[0][0]).toMatchObject({ editorState: { media: editorState.media, duration: 60 } });
+  });
+
+  it('should reject invalid project files', async () => {
+    const response = await postRender({ project: { ...createProjectFile(editorState), version: 99 } });
+
+    expect(response.status).toBe(400);
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should render at the project canvas and frame rate without a preset', async () => {
+    const response = await postRender({
+      editorState: { ...editorState, frameRate: 25, canvas: { ...editorState.canvas, width: 1080, height: 1920 } },
+    });
+
+    expect(response.status).toBe(202);
+    expect(enqueue.mock.calls[0][0].settings).toMatchObject({ width: 1080, height: 1920, fps: 25 });
+  });
+
+  it('should let explicit settings override the rate control of a preset', async () => {
+    const response = await postRender({ editorState, presetId: 'youtube-1080p', settings: { bitrate: '12M' } });
+
+    expect(response.status).toBe(202);
+    const settings = enqueue.mock.calls[0][0].settings;
+    expect(settings).toMatchObject({ width: 1920, height: 1080, bitrate: '12M', audioBitrate: '320k' });
+    expect(settings.crf).toBeUndefined();
+  });
+
+  it('should still reject settings that set both a bitrate and a CRF', async () => {
+    const response = await postRender({ editorState, presetId: 'youtube-1080p', settings: { bitrate: '12M', crf: 20 } });
+
+    expect(response.status).toBe(400);
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+});
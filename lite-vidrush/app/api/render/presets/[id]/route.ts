@@ -0,0 +1,59 @@
+/**
+ * Single Render Preset API Route
+ * Reads and deletes a render preset (built-in presets are read-only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteRenderPreset, getRenderPreset } from '@/lib/presetStorage';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const preset = await getRenderPreset(id);
+
+    if (!preset) {
+      return NextResponse.json(
+        { success: false, error: 'Render preset not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, preset });
+  } catch (error) {
+    console.error('Preset load error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load render preset' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const result = await deleteRenderPreset(id);
+
+    if (result === 'built-in') {
+      return NextResponse.json(
+        { success: false, error: "Built-in presets can't be deleted" },
+        { status: 400 }
+      );
+    }
+    if (result === 'not-found') {
+      return NextResponse.json(
+        { success: false, error: 'Render preset not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Render preset deleted successfully' });
+  } catch (error) {
+    console.error('Preset delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete render preset' },
+      { status: 500 }
+    );
+  }
+}
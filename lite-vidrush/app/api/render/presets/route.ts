@@ -0,0 +1,70 @@
+/**
+ * Render Presets API Route
+ * Lists the built-in and custom render presets and adds custom ones
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DEFAULT_RENDER_SETTINGS, RenderSettings } from '@/lib/types';
+import { RenderSettingsSchema, validateRenderSettings } from '@/lib/renderSettings';
+import { createRenderPreset, listRenderPresets } from '@/lib/presetStorage';
+
+// Validation schema for creating a preset
+// Settings left out fall back to the render defaults
+const CreatePresetSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(300).optional(),
+  settings: RenderSettingsSchema,
+});
+
+export async function GET() {
+  try {
+    const presets = await listRenderPresets();
+    return NextResponse.json({ success: true, presets });
+  } catch (error) {
+    console.error('Preset list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list render presets' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = CreatePresetSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request format', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const settings: RenderSettings = { ...DEFAULT_RENDER_SETTINGS, ...validation.data.settings };
+    const settingsErrors = validateRenderSettings(settings);
+    if (settingsErrors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid render settings', details: settingsErrors.join(' ') },
+        { status: 400 }
+      );
+    }
+
+    const preset = await createRenderPreset({ ...validation.data, settings });
+
+    console.log(`🎛️ Created render preset ${preset.id} (${preset.name})`);
+    return NextResponse.json({ success: true, preset }, { status: 201 });
+
+  } catch (error) {
+    console.error('Preset create error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create render preset',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
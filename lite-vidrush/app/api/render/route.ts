@@ -1,36 +1,43 @@
 /**
  * Render API Route
- * Handles video rendering using Remotion
+ * Queues video renders as background jobs and lists them
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { RenderSettings, DEFAULT_RENDER_SETTINGS } from '@/lib/types';
-import path from 'path';
-import fs from 'fs/promises';
-import os from 'os';
+import { RenderSettings, DEFAULT_RENDER_SETTINGS, DEFAULT_EDITOR_STATE, EditorState } from '@/lib/types';
+import { applyProjectFile, parseProjectFile } from '@/lib/project';
+import { getProject } from '@/lib/projectStorage';
+import { getBundleCacheStatus, getRenderQueue } from '@/lib/renderer';
+import { RenderSettingsSchema, overrideRenderSettings, validateRenderSettings } from '@/lib/renderSettings';
+import { getRenderPreset } from '@/lib/presetStorage';
 
 // Validation schema for render request
+// Either an inline project file, an editorState dump (older clients) or the
+// ID of a stored project is required
 const RenderRequestSchema = z.object({
+  project: z.unknown().optional(),
   editorState: z.object({
+    tracks: z.array(z.any()).optional(),
     media: z.array(z.any()),
     texts: z.array(z.any()),
-    selectedId: z.string().nullable(),
+    transitions: z.array(z.any()).optional(),
+    canvas: z.any().optional(),
+    selectedIds: z.array(z.string()).optional(),
     playhead: z.number(),
     frameRate: z.number(),
     duration: z.number(),
     isPlaying: z.boolean(),
+    masterVolume: z.number().optional(),
+    muted: z.boolean().optional(),
     zoom: z.number(),
     scrollPosition: z.number(),
-  }),
-  settings: z.object({
-    width: z.number().optional(),
-    height: z.number().optional(),
-    fps: z.number().optional(),
-    codec: z.enum(['h264', 'h265']).optional(),
-    bitrate: z.string().optional(),
-    outputFormat: z.enum(['mp4', 'webm']).optional(),
   }).optional(),
+  projectId: z.string().optional(),
+  presetId: z.string().optional(),
+  settings: RenderSettingsSchema.optional(),
+}).refine((data) => data.project || data.editorState || data.projectId, {
+  message: 'Either project, editorState or projectId is required',
 });
 
 export async function POST(request: NextRequest) {
@@ -46,14 +53,61 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { editorState, settings = {} } = validation.data;
+    const { projectId, presetId, settings = {} } = validation.data;
 
-    // Merge with default settings
+    // Presets supply the base settings; explicit settings override them
+    const preset = presetId ? await getRenderPreset(presetId) : null;
+    if (presetId && !preset) {
+      return NextResponse.json(
+        { success: false, error: `Render preset not found: ${presetId}` },
+        { status: 404 }
+      );
+    }
+
+    // Resolve the editor state, loading the stored project when rendering by ID
+    let editorState: EditorState;
+    const inlineProject = validation.data.project ?? validation.data.editorState;
+    if (inlineProject) {
+      // Inline projects go through the migrations like stored ones, so editor
+      // state dumps from older clients (e.g. without tracks) still render correctly
+      try {
+        editorState = applyProjectFile(DEFAULT_EDITOR_STATE, parseProjectFile(inlineProject));
+      } catch (error) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid project', details: error instanceof Error ? error.message : 'Unknown error' },
+          { status: 400 }
+        );
+      }
+    } else {
+      const record = await getProject(projectId!);
+      if (!record) {
+        return NextResponse.json(
+          { success: false, error: `Project not found: ${projectId}` },
+          { status: 404 }
+        );
+      }
+      editorState = applyProjectFile(DEFAULT_EDITOR_STATE, record.project);
+      console.log(`📂 Rendering stored project ${record.id} (revision ${record.revision})`);
+    }
+
+    // Merge with default settings; without a preset or size the output matches the project
     const renderSettings: RenderSettings = {
       ...DEFAULT_RENDER_SETTINGS,
-      ...settings,
+      width: editorState.canvas.width,
+      height: editorState.canvas.height,
+      fps: editorState.frameRate,
+      ...overrideRenderSettings(preset?.settings ?? {}, settings),
     };
 
+    // Reject combinations the encoder can't produce, e.g. H.265 in WebM
+    const settingsErrors = validateRenderSettings(renderSettings);
+    if (settingsErrors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid render settings', details: settingsErrors.join(' ') },
+        { status: 400 }
+      );
+    }
+
     // Validate that we have content to render
     if (editorState.media.length === 0 && editorState.texts.length === 0) {
       return NextResponse.json(
@@ -65,7 +119,6 @@ export async function POST(request: NextRequest) {
     // Check for blob URLs which won't work in server-side rendering
     const hasBlobUrls = editorState.media.some(clip => clip.src.startsWith('blob:'));
 
-    console.log('hasBlobUrls',editorState.media);
     if (hasBlobUrls) {
       return NextResponse.json(
         { 
@@ -78,140 +131,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const startTime = Date.now();
-
-    try {
-      console.log('🎬 Starting server-side video rendering...');
-      
-      // Create temporary directory for output
-      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vidrush-render-'));
-      const outputPath = path.join(tempDir, `render-${Date.now()}.mp4`);
-      
-      console.log(`📁 Temp directory: ${tempDir}`);
-      console.log(`📹 Output path: ${outputPath}`);
-
-      // Dynamically import Remotion packages (server-only)
-      const { bundle } = await import('@remotion/bundler');
-      const { renderMedia, getCompositions } = await import('@remotion/renderer');
-
-      console.log('📦 Starting Remotion bundle process...');
-      
-      // Use a simpler bundling approach
-      const entryPoint = path.resolve(process.cwd(), 'remotion/index.tsx');
-      console.log(`Entry point: ${entryPoint}`);
-      
-      // Check if entry point exists
-      try {
-        await fs.access(entryPoint);
-        console.log('✅ Entry point file exists');
-      } catch (error) {
-        throw new Error(`Entry point file not found: ${entryPoint}`);
-      }
-      
-      const bundleLocation = await bundle({
-        entryPoint,
-        webpackOverride: (config) => {
-          // Minimal webpack override to avoid conflicts
-          return {
-            ...config,
-            resolve: {
-              ...config.resolve,
-              alias: {
-                ...config.resolve?.alias,
-                '@': path.resolve(process.cwd()),
-              },
-              extensions: ['.ts', '.tsx', '.js', '.jsx', '.json'],
-            },
-            externals: {
-              // Don't bundle Next.js specific modules
-              'next': 'commonjs next',
-              'next/server': 'commonjs next/server',
-            },
-          };
-        },
-        onProgress: (progress) => {
-          console.log(`📦 Bundle progress: ${Math.round(progress * 100)}%`);
-        },
-      });
+    // Checked before queueing so the header reflects the state this job starts from
+    const bundleCache = await getBundleCacheStatus();
 
-      console.log(`✅ Bundle created at: ${bundleLocation}`);
+    // Render in the background; clients follow the job at /api/render/[id]
+    const job = getRenderQueue().enqueue({ editorState, settings: renderSettings });
+    console.log(`📦 Render job ${job.id} bundle cache ${bundleCache}`);
 
-      // Get available compositions
-      console.log('🔍 Getting compositions...');
-      const compositions = await getCompositions(bundleLocation, {
-        inputProps: {
-          editorState,
-        },
-      });
-      
-      console.log('📋 Available compositions:', compositions.map(c => c.id));
-      
-      // Find the VideoEditor composition
-      const composition = compositions.find(c => c.id === 'VideoEditor');
-      if (!composition) {
-        throw new Error(`Composition "VideoEditor" not found. Available: ${compositions.map(c => c.id).join(', ')}`);
-      }
-      
-      console.log('✅ Found composition:', composition.id);
-
-      // Render the video with proper configuration
-      console.log('🎥 Starting video render...');
-      console.log('here',editorState);
-      const renderStart = Date.now();
-        await renderMedia({
-          composition,
-          serveUrl: bundleLocation,
-          codec: 'h264',
-          outputLocation: outputPath, 
-          inputProps: {
-            editorState,
-          },
-      
-        onProgress: ({ renderedFrames, encodedFrames }) => {
-          
-        },
-        onDownload: (src) => {
-          console.log(`📥 Downloaded: ${src}`);
-        },
-        overwrite: true,
-        imageFormat: 'jpeg',
-        jpegQuality: 90,
-      });
-
-      const renderEnd = Date.now();
-      console.log(`✅ Video rendered successfully in ${renderEnd - renderStart}ms!`);
-
-      // Read the rendered video file
-      const videoBuffer = await fs.readFile(outputPath);
-      console.log(`📄 Video file size: ${(videoBuffer.length / 1024 / 1024).toFixed(2)}MB`);
-      
-      // Clean up temporary files
-      await fs.rm(tempDir, { recursive: true, force: true });
-      console.log('🧹 Cleaned up temporary files');
-
-      const renderTime = Date.now() - startTime;
-
-      // Return the video as a downloadable response
-      return new NextResponse(videoBuffer as any, {
-        status: 200,
-        headers: {
-          'Content-Type': 'video/mp4',
-          'Content-Disposition': `attachment; filename="vidrush-export-${Date.now()}.mp4"`,
-          'Content-Length': videoBuffer.length.toString(),
-          'X-Render-Time': renderTime.toString(),
-        },
-      });
-
-    } catch (renderError) {
-      console.error('❌ Render failed:', renderError);
-      
-      return NextResponse.json({
-        success: false,
-        error: 'Video rendering failed',
-        details: renderError instanceof Error ? renderError.message : 'Unknown render error',
-        renderTime: Date.now() - startTime,
-      }, { status: 500 });
-    }
+    return NextResponse.json(
+      { success: true, jobId: job.id, job },
+      { status: 202, headers: { 'X-Bundle-Cache': bundleCache } }
+    );
 
   } catch (error) {
     console.error('Render error:', error);
@@ -227,14 +157,14 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// GET endpoint to list the active and recently finished render jobs of this server process
+export async function GET() {
+  return NextResponse.json({ success: true, jobs: getRenderQueue().listJobs() });
+}
+
 // TODO: Implement the following features:
-// - Progress tracking for long renders
-// - Queue system for multiple render requests
 // - Cloud storage integration (AWS S3, etc.)
-// - Render presets (quality settings)
 // - Watermarking
 // - Batch rendering
-// - Render cancellation
-// - Resource cleanup (delete temporary files)
 // - Rate limiting
 // - Authentication/authorization
@@ -5,15 +5,25 @@
 
 'use client';
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useCallback, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { shallow } from 'zustand/shallow';
 import { Timeline } from '@/components/Timeline';
 import { Preview } from '@/components/Preview';
-import { SimplePreview } from '@/components/SimplePreview';
 import { Inspector } from '@/components/Inspector';
+import { MixerPanel } from '@/components/MixerPanel';
 import { PlayControls } from '@/components/PlayControls';
 import { MediaBrowser } from '@/components/MediaBrowser';
+import { ExportDialog } from '@/components/ExportDialog';
+import { ShortcutsDialog } from '@/components/ShortcutsDialog';
 import { Button } from '@/components/ui/Button';
-import { useEditorStore } from '@/lib/store';
+import { useEditorStore, useCanUndo, useCanRedo, useUndoLabel, useRedoLabel } from '@/lib/store';
+import { parseProjectFile, serializeProject, createProjectFile, getProjectFields, PROJECT_FILE_EXTENSION } from '@/lib/project';
+import { fetchProject, createRemoteProject, saveRemoteProject, createAutosave } from '@/lib/projectApi';
+import { getSourceDurationFrames } from '@/lib/timelineOps';
+import { Keymap, loadKeymap, saveKeymap } from '@/lib/keymap';
+import { useCommand, useKeyboardShortcuts } from '@/lib/commands';
+import { cn, downloadBlob, generateTimestampedFilename } from '@/lib/utils';
 import {
   Upload,
   Download,
@@ -21,18 +31,145 @@ import {
   FileText,
   Settings,
   Menu,
-  FolderOpen
+  SlidersHorizontal,
+  Keyboard,
+  FolderOpen,
+  Undo2,
+  Redo2,
+  CloudUpload
 } from 'lucide-react';
 
+// Delay between the last edit and the autosave request
+const AUTOSAVE_DELAY_MS = 2000;
+
+type RemoteSaveStatus = 'loading' | 'saved' | 'pending' | 'saving' | 'conflict' | 'error';
+
+const REMOTE_STATUS_LABELS: Record<RemoteSaveStatus, string> = {
+  loading: 'Loading...',
+  saved: 'All changes saved',
+  pending: 'Unsaved changes',
+  saving: 'Saving...',
+  conflict: 'Conflict - reload required',
+  error: 'Save failed',
+};
+
 export default function EditorPage() {
-  const { addClip, addTextOverlay } = useEditorStore();
-  const [isRendering, setIsRendering] = useState(false);
+  // useSearchParams() needs a Suspense boundary for static rendering
+  return (
+    <Suspense fallback={null}>
+      <Editor />
+    </Suspense>
+  );
+}
+
+function Editor() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const projectId = searchParams.get('project');
+  const { addClip, addTextOverlay, undo, redo, loadProject, frameRate } = useEditorStore();
+  const canUndo = useCanUndo();
+  const canRedo = useCanRedo();
+  const undoLabel = useUndoLabel();
+  const redoLabel = useRedoLabel();
+  const [showExport, setShowExport] = useState(false);
   const [showInspector, setShowInspector] = useState(true);
+  const [showMixer, setShowMixer] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<{ [key: string]: number }>({});
   const [dragActive, setDragActive] = useState(false);
   const [showMediaBrowser, setShowMediaBrowser] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [remoteProject, setRemoteProject] = useState<{ id: string; title: string } | null>(null);
+  const [remoteStatus, setRemoteStatus] = useState<RemoteSaveStatus | null>(null);
+  const revisionRef = useRef(0);
+
+  // Keyboard shortcuts pause while the shortcuts dialog records new bindings
+  useKeyboardShortcuts(keymap, !showShortcuts);
+  useCommand('showShortcuts', () => setShowShortcuts(true));
+
+  const handleKeymapChange = useCallback((next: Keymap) => {
+    setKeymap(next);
+    saveKeymap(next);
+  }, []);
+
+  // Load the project named in the URL (?project=<id>)
+  useEffect(() => {
+    if (!projectId) {
+      setRemoteProject(null);
+      setRemoteStatus(null);
+      return;
+    }
+
+    let cancelled = false;
+    setRemoteStatus('loading');
+
+    fetchProject(projectId)
+      .then((record) => {
+        if (cancelled) return;
+        loadProject(record.project);
+        revisionRef.current = record.revision;
+        setRemoteProject({ id: record.id, title: record.title });
+        setRemoteStatus('saved');
+        console.log(`📂 Loaded project ${record.id} at revision ${record.revision}`);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('❌ Project load error:', error);
+        setRemoteStatus('error');
+        alert(`Could not load project ${projectId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, loadProject]);
+
+  // Autosave document changes to the server once editing pauses
+  useEffect(() => {
+    if (!remoteProject) return;
+
+    const save = async () => {
+      setRemoteStatus('saving');
+      try {
+        const project = createProjectFile(useEditorStore.getState());
+        const result = await saveRemoteProject(remoteProject.id, revisionRef.current, project);
+
+        if (result.status === 'conflict') {
+          // Stop autosaving until the user reloads the newer revision
+          console.warn('⚠️ Autosave conflict:', result.message);
+          setRemoteStatus('conflict');
+          autosave.cancel();
+          unsubscribe();
+          return;
+        }
+
+        revisionRef.current = result.record.revision;
+        setRemoteStatus(autosave.hasPendingChanges() ? 'pending' : 'saved');
+      } catch (error) {
+        console.error('❌ Autosave error:', error);
+        setRemoteStatus('error');
+      }
+    };
+
+    const autosave = createAutosave(save, AUTOSAVE_DELAY_MS);
+
+    const unsubscribe = useEditorStore.subscribe(
+      getProjectFields,
+      () => {
+        setRemoteStatus('pending');
+        autosave.schedule();
+      },
+      { equalityFn: shallow }
+    );
+
+    return () => {
+      autosave.cancel();
+      unsubscribe();
+    };
+  }, [remoteProject]);
 
   // Handle file upload
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -121,17 +258,11 @@ export default function EditorPage() {
             file.type.startsWith('audio/') ? 'audio' : 'image'
         );
 
-        // Calculate duration based on file type
-        let durationFrames = 300; // 10 seconds default
-        if (type === 'image') {
-          durationFrames = 150; // 5 seconds for images
-        }
-        // TODO: Extract actual duration from video/audio metadata
-
+        // Clip length comes from the probed duration (addClip falls back to a default)
         const clipData = {
           src: serverUrl, // IMPORTANT: Use server URL instead of blob URL
           startFrame: 0,
-          endFrame: durationFrames,
+          sourceDuration: getSourceDurationFrames(uploadResult.metadata?.duration, frameRate),
           type: type as 'video' | 'audio' | 'image',
           filename: uploadResult.filename,
           originalName: uploadResult.originalName || file.name,
@@ -164,7 +295,6 @@ export default function EditorPage() {
       addClip({
         ...clipData,
         startFrame,
-        endFrame: startFrame + (clipData.endFrame - clipData.startFrame),
       });
     });
 
@@ -212,8 +342,45 @@ export default function EditorPage() {
     });
   };
 
-  // Handle render
-  const handleRender = async () => {
+  // Save project as a versioned JSON file
+  const handleSaveProject = () => {
+    const json = serializeProject(useEditorStore.getState());
+    const blob = new Blob([json], { type: 'application/json' });
+    downloadBlob(blob, generateTimestampedFilename('vidrush-project', PROJECT_FILE_EXTENSION));
+  };
+
+  // Open a project file, upgrading older versions on the way
+  const handleOpenProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const projectFile = parseProjectFile(JSON.parse(await file.text()));
+      loadProject(projectFile);
+      console.log(`📂 Opened project ${file.name} (saved ${projectFile.savedAt})`);
+    } catch (error) {
+      console.error('❌ Open project error:', error);
+      alert(`Could not open ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Store the current project on the server and switch to autosave
+  const handleSaveOnline = async () => {
+    const title = prompt('Project title', 'Untitled Project');
+    if (title === null) return;
+
+    try {
+      const record = await createRemoteProject(createProjectFile(useEditorStore.getState()), title);
+      router.replace(`/editor?project=${record.id}`);
+    } catch (error) {
+      console.error('❌ Save online error:', error);
+      alert(`Could not save project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Handle render: the export dialog picks a preset and follows the job
+  const handleRender = () => {
     const editorState = useEditorStore.getState();
 
     // Check if there's content to render
@@ -222,77 +389,11 @@ export default function EditorPage() {
       return;
     }
 
-    setIsRendering(true);
-
-    try {
-      console.log('🎬 Starting server-side video render...');
-
-      const response = await fetch('/api/render', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          editorState,
-          settings: {
-            width: 1280,
-            height: 720,
-            fps: 30,
-            codec: 'h264',
-            outputFormat: 'mp4',
-          },
-        }),
-      });
-
-      const contentType = response.headers.get('content-type');
-
-      if (contentType?.includes('application/json')) {
-        // JSON response (could be error or status)
-        const result = await response.json();
-
-        if (response.ok) {
-          // Success JSON response
-          console.log('✅ Render request processed:', result);
-          alert(`✅ ${result.message || 'Render completed successfully!'}`);
-        } else if (response.status === 503) {
-          // Service temporarily unavailable
-          console.log('⚠️ Render service temporarily unavailable:', result);
-          alert(`⚠️ ${result.message}\n\nDetails: ${result.details}`);
-        } else {
-          // Error response
-          throw new Error(result.error || result.message || 'Render failed');
-        }
-      } else {
-        // Binary response (video file)
-        if (response.ok) {
-          const videoBlob = await response.blob();
-          const renderTime = response.headers.get('X-Render-Time');
-
-          console.log(`✅ Video rendered successfully in ${renderTime}ms`);
-
-          // Create download link
-          const url = URL.createObjectURL(videoBlob);
-          const link = document.createElement('a');
-          link.href = url;
-          link.download = `vidrush-export-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.mp4`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(url);
-
-          alert('🎉 Video exported successfully! Check your downloads folder.');
-        } else {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-      }
-    } catch (error) {
-      console.error('❌ Render error:', error);
-      alert(`Rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsRendering(false);
-    }
+    setShowExport(true);
   };
 
+  const closeExportDialog = useCallback(() => setShowExport(false), []);
+
   return (
     <div className="h-screen flex flex-col bg-gray-900 text-white">
       {/* Top toolbar */}
@@ -301,6 +402,50 @@ export default function EditorPage() {
           <h1 className="text-xl font-bold">Lite VidRush</h1>
 
           <div className="flex items-center space-x-2">
+            {/* Project save/open */}
+            <Button variant="outline" size="sm" onClick={handleSaveProject}>
+              <Save size={16} className="mr-2" />
+              Save
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => projectInputRef.current?.click()}
+            >
+              <FolderOpen size={16} className="mr-2" />
+              Open
+            </Button>
+            <input
+              ref={projectInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleOpenProject}
+              className="hidden"
+            />
+
+            {/* Server-side project */}
+            {remoteProject ? (
+              <span
+                className={cn(
+                  'text-xs px-2',
+                  remoteStatus === 'conflict' || remoteStatus === 'error' ? 'text-red-400' : 'text-gray-400'
+                )}
+                title={remoteStatus === 'conflict' ? 'Modified elsewhere - reload to continue saving' : undefined}
+              >
+                {remoteProject.title} • {REMOTE_STATUS_LABELS[remoteStatus ?? 'saved']}
+              </span>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSaveOnline}
+                disabled={remoteStatus === 'loading'}
+              >
+                <CloudUpload size={16} className="mr-2" />
+                Save Online
+              </Button>
+            )}
+
             {/* File upload */}
             <Button
               variant="outline"
@@ -337,6 +482,26 @@ export default function EditorPage() {
               <FileText size={16} className="mr-2" />
               Add Text
             </Button>
+
+            {/* Undo/redo */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={undo}
+              disabled={!canUndo}
+              title={undoLabel ? `Undo ${undoLabel}` : 'Undo'}
+            >
+              <Undo2 size={16} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={redo}
+              disabled={!canRedo}
+              title={redoLabel ? `Redo ${redoLabel}` : 'Redo'}
+            >
+              <Redo2 size={16} />
+            </Button>
           </div>
         </div>
 
@@ -346,11 +511,31 @@ export default function EditorPage() {
           {/* Render button */}
           <Button
             onClick={handleRender}
-            disabled={isRendering}
+            disabled={showExport}
             size="sm"
           >
             <Download size={16} className="mr-2" />
-            {isRendering ? 'Rendering...' : 'Export'}
+            Export
+          </Button>
+
+          {/* Keyboard shortcuts */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowShortcuts(true)}
+            title="Keyboard shortcuts (?)"
+          >
+            <Keyboard size={16} />
+          </Button>
+
+          {/* Toggle mixer */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowMixer(!showMixer)}
+            title="Mixer"
+          >
+            <SlidersHorizontal size={16} />
           </Button>
 
           {/* Toggle inspector */}
@@ -399,7 +584,8 @@ export default function EditorPage() {
           </div>
         </div>
 
-        {/* Right panel - Inspector */}
+        {/* Right panels - Mixer and Inspector */}
+        {showMixer && <MixerPanel />}
         {showInspector && <Inspector />}
       </div>
 
@@ -431,23 +617,8 @@ export default function EditorPage() {
         </div>
       )}
 
-      {/* Render progress overlay */}
-      {isRendering && (
-        <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-50">
-          <div className="bg-gray-800 rounded-lg p-6 text-center min-w-80">
-            <div className="mb-4">
-              <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-blue-500 mx-auto"></div>
-            </div>
-            <h3 className="text-lg font-medium mb-2">Rendering Video</h3>
-            <p className="text-gray-400 mb-4">
-              Server is processing your video...
-            </p>
-            <p className="text-sm text-gray-500">
-              This may take a few moments depending on video length and complexity.
-            </p>
-          </div>
-        </div>
-      )}
+      {/* Render progress */}
+      {showExport && <ExportDialog onClose={closeExportDialog} />}
 
       {/* Media Browser */}
       <MediaBrowser
@@ -456,24 +627,21 @@ export default function EditorPage() {
       />
 
 
-      {/* Keyboard shortcuts help - TODO: Implement */}
-      {false && (
-        <div className="absolute bottom-4 left-4 bg-black/80 rounded px-3 py-2 text-sm text-gray-400">
-          <div>Space: Play/Pause • ←→: Frame step • Del: Delete selected</div>
-        </div>
+      {/* Keyboard shortcuts help and keymap editor */}
+      {showShortcuts && (
+        <ShortcutsDialog
+          keymap={keymap}
+          onChange={handleKeymapChange}
+          onClose={() => setShowShortcuts(false)}
+        />
       )}
     </div>
   );
 }
 
 // TODO: Implement the following features:
-// - Keyboard shortcuts
-// - Project save/load functionality
-// - Undo/redo system
 // - Multiple project tabs
 // - Template system
 // - Asset library/media browser
 // - Collaboration features
-// - Auto-save
-// - Export presets
 // - Batch processing
@@ -3,45 +3,106 @@
  * Represents a single clip in the timeline with drag and resize functionality
  */
 
-import React, { useState, useRef } from 'react';
-import { Clip, TextOverlay } from '@/lib/types';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { Clip, TextOverlay, ThumbnailSprite } from '@/lib/types';
 import { useEditorStore } from '@/lib/store';
 import { cn } from '@/lib/utils';
+import { getKeyframeFrames } from '@/lib/keyframes';
+import { getSpriteBackgroundSize, layoutFilmstrip } from '@/lib/filmstrip';
+import { PeakLevel, getWaveformColumns, pickPeakLevel } from '@/lib/waveform';
+import { fetchThumbnailSprite, fetchWaveformPeaks } from '@/lib/mediaApi';
+import { clampEnvelopeFrame, getClipFades, getEnvelopePoints } from '@/lib/audio';
+import { createSnapContext, snapFrame, snapRange } from '@/lib/snapping';
 import { Trash2, Type, Video, Music, Image, GripVertical } from 'lucide-react';
 
+// Edits picked by modifier or tool: Shift-drag an edge to ripple trim, drag an edge
+// with the roll tool to move the cut shared with the neighbouring clip, drag a clip
+// with the slide tool to move it between its neighbours. Modifiers that pick a gesture
+// are only read when it begins; Ctrl/Cmd toggles the selection and Alt skips snapping
+type EditMode = 'normal' | 'ripple' | 'roll' | 'slide';
+
+// Razor clicks cut items; slip, slide and roll drags edit clips against their source
+// and neighbours
+export type TimelineTool = 'select' | 'razor' | 'slip' | 'slide' | 'roll';
+
 interface ClipItemProps {
   item: Clip | TextOverlay;
   type: 'clip' | 'text';
   pixelsPerFrame: number;
+  locked?: boolean; // Item sits on a locked track
+  tool?: TimelineTool;
+  snapping?: boolean; // Drags and trims snap (Alt held turns it off)
+  onSnap?: (frame: number | null) => void; // Where the snap guide is drawn, null hides it
 }
 
-export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }) => {
-  const { selectedId, selectItem, removeItem, updateClip, updateTextOverlay, trimClip, trimTextOverlay, duration } = useEditorStore();
+export const ClipItem: React.FC<ClipItemProps> = ({
+  item,
+  type,
+  pixelsPerFrame,
+  locked = false,
+  tool = 'select',
+  snapping = false,
+  onSnap,
+}) => {
+  const { media, selectedIds, selectItem, selectItems, moveItems, removeItem, rippleDelete, splitItem, updateClip, updateTextOverlay, trimClip, slipClip, rippleTrim, rollEdit, slideEdit, trimTextOverlay, moveItemToTrack, beginTransaction, endTransaction, seekTo, duration } = useEditorStore();
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState<'left' | 'right' | null>(null);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  // The slip tool slides the source under the clip: pointer x and in-point when the drag began
+  const [slipOrigin, setSlipOrigin] = useState<{ x: number; trimStart: number } | null>(null);
+  const [editMode, setEditMode] = useState<EditMode>('normal');
+  // Item range when a ripple trim began (the item stays put while its head is trimmed)
+  const [resizeOrigin, setResizeOrigin] = useState({ startFrame: 0, length: 0 });
+  // Other selected items moving with this one while it is dragged
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  // Set once the pointer moves during a gesture, so its closing click keeps the selection
+  const movedRef = useRef(false);
   const clipRef = useRef<HTMLDivElement>(null);
-  const isSelected = selectedId === item.id;
+  const isSelected = selectedIds.includes(item.id);
+  const canSlip = type === 'clip' && (item as Clip).type !== 'image';
 
   const width = (item.endFrame - item.startFrame) * pixelsPerFrame;
   const left = item.startFrame * pixelsPerFrame;
   const minWidth = 30; // Minimum clip width in pixels
 
+  // Ctrl/Cmd-click toggles the item in the selection, Shift-click adds it
+  // (on mouse down) and a plain click selects only this item
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    selectItem(item.id);
+    if (movedRef.current) {
+      movedRef.current = false;
+      return;
+    }
+    if (e.ctrlKey || e.metaKey) {
+      selectItems([item.id], 'toggle');
+    } else if (!e.shiftKey) {
+      selectItem(item.id);
+    }
   };
 
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
-    removeItem(item.id);
+    if (e.shiftKey) {
+      rippleDelete(item.id);
+    } else {
+      removeItem(item.id);
+    }
   };
 
   // Drag functionality
   const handleMouseDown = (e: React.MouseEvent) => {
+    if (locked) return;
     if (e.target === e.currentTarget || (e.target as HTMLElement).classList.contains('drag-handle')) {
       e.preventDefault();
       e.stopPropagation();
+      movedRef.current = false;
+
+      if (tool === 'slip' && canSlip) {
+        setSlipOrigin({ x: e.clientX, trimStart: (item as Clip).trimStart ?? 0 });
+        selectItem(item.id);
+        beginTransaction('Slip clip');
+        return;
+      }
 
       const rect = clipRef.current?.getBoundingClientRect();
       if (rect) {
@@ -49,8 +110,31 @@ export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }
           x: e.clientX - rect.left,
           y: e.clientY - rect.top,
         });
+        const sliding = tool === 'slide' && type === 'clip';
+        setEditMode(sliding ? 'slide' : 'normal');
         setIsDragging(true);
-        selectItem(item.id);
+
+        // Dragging a selected item moves the whole selection with it; a slide
+        // moves only this clip
+        const current = useEditorStore.getState().selectedIds;
+        let selection = current;
+        if (sliding) {
+          selection = [item.id];
+          selectItem(item.id);
+        } else if (e.shiftKey) {
+          selection = [...current.filter(id => id !== item.id), item.id];
+          selectItems([item.id], 'add');
+        } else if (!(e.ctrlKey || e.metaKey) && !current.includes(item.id)) {
+          selection = [item.id];
+          selectItem(item.id);
+        }
+        const group = selection.includes(item.id) && selection.length > 1 ? selection : [];
+        setGroupIds(group);
+
+        // The whole drag becomes a single undo step
+        beginTransaction(
+          sliding ? 'Slide clip' : group.length > 0 ? 'Move items' : type === 'clip' ? 'Move clip' : 'Move text'
+        );
       }
     }
   };
@@ -59,14 +143,33 @@ export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }
   const handleResizeStart = (e: React.MouseEvent, side: 'left' | 'right') => {
     e.preventDefault();
     e.stopPropagation();
+    if (locked) return;
+    movedRef.current = false;
+    const mode: Exclude<EditMode, 'slide'> = e.shiftKey ? 'ripple' : tool === 'roll' && type === 'clip' ? 'roll' : 'normal';
+    setEditMode(mode);
+    setResizeOrigin({ startFrame: item.startFrame, length: item.endFrame - item.startFrame });
     setIsResizing(side);
     selectItem(item.id);
+    const labels = { ripple: 'Ripple trim', roll: 'Roll edit', normal: type === 'clip' ? 'Trim clip' : 'Trim text' };
+    beginTransaction(labels[mode]);
   };
 
   // Mouse move handler
   React.useEffect(() => {
+    // Snap points around the item, or null when snapping is off for this move
+    const getSnapContext = (e: MouseEvent, excludeIds: string[] = [item.id]) =>
+      snapping && !e.altKey
+        ? createSnapContext(useEditorStore.getState(), { pixelsPerFrame, excludeIds })
+        : null;
+
     const handleMouseMove = (e: MouseEvent) => {
-      if (isDragging) {
+      movedRef.current = true;
+      let guide: number | null = null;
+      if (slipOrigin) {
+        // The source follows the pointer, so dragging right reveals earlier frames
+        const deltaFrames = Math.round((e.clientX - slipOrigin.x) / pixelsPerFrame);
+        slipClip(item.id, slipOrigin.trimStart - deltaFrames);
+      } else if (isDragging) {
         const timelineRect = clipRef.current?.parentElement?.getBoundingClientRect();
         if (timelineRect) {
           const newLeft = e.clientX - timelineRect.left - dragOffset.x;
@@ -74,12 +177,25 @@ export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }
 
           // Calculate new start frame with minimal constraints (only prevent negative start)
           let newStartFrame = Math.max(0, Math.round(newLeft / pixelsPerFrame));
-          let newEndFrame = newStartFrame + clipDuration;
+
+          // Either edge snaps; slides are bounded by the neighbours and don't snap
+          const snapContext = editMode === 'slide' ? null : getSnapContext(e, groupIds.length > 0 ? groupIds : [item.id]);
+          const snapped = snapContext && snapRange(snapContext, newStartFrame, clipDuration);
+          if (snapped && snapped.startFrame >= 0) {
+            newStartFrame = snapped.startFrame;
+            guide = snapped.point.frame;
+          }
+          const newEndFrame = newStartFrame + clipDuration;
 
           // No timeline duration constraint - clips can extend beyond timeline
 
           // Update clip position
-          if (type === 'clip') {
+          if (editMode === 'slide') {
+            slideEdit(item.id, newStartFrame);
+          } else if (groupIds.length > 0) {
+            // The group keeps its spacing and stops at other items
+            moveItems(groupIds, newStartFrame - item.startFrame);
+          } else if (type === 'clip') {
             updateClip(item.id, {
               startFrame: newStartFrame,
               endFrame: newEndFrame,
@@ -94,9 +210,44 @@ export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }
       } else if (isResizing) {
         const timelineRect = clipRef.current?.parentElement?.getBoundingClientRect();
         if (timelineRect) {
-          const mouseFrame = Math.round((e.clientX - timelineRect.left) / pixelsPerFrame);
+          let mouseFrame = Math.round((e.clientX - timelineRect.left) / pixelsPerFrame);
+          const length = item.endFrame - item.startFrame;
 
-          if (isResizing === 'left') {
+          // The clip touching this edge, whose edge a roll moves along
+          const neighbor = editMode === 'roll'
+            ? media.find(clip =>
+              clip.trackId === item.trackId &&
+              clip.id !== item.id &&
+              (isResizing === 'left' ? clip.endFrame === item.startFrame : clip.startFrame === item.endFrame)
+            )
+            : undefined;
+
+          // A ripple-trimmed head stays put, so there is no edge under the pointer to snap
+          const snapContext = editMode === 'ripple' && isResizing === 'left'
+            ? null
+            : getSnapContext(e, neighbor ? [item.id, neighbor.id] : [item.id]);
+          const snapped = snapContext && snapFrame(snapContext, mouseFrame);
+          if (snapped) {
+            mouseFrame = snapped.frame;
+            guide = snapped.frame;
+          }
+
+          if (editMode === 'roll') {
+            // Move the cut shared with the clip touching this edge
+            if (neighbor) {
+              if (isResizing === 'left') rollEdit(neighbor.id, item.id, mouseFrame);
+              else rollEdit(item.id, neighbor.id, mouseFrame);
+            }
+          } else if (editMode === 'ripple') {
+            if (isResizing === 'left') {
+              // The item stays put, so aim for the total head trim since the drag began
+              const headTrim = Math.min(mouseFrame - resizeOrigin.startFrame, resizeOrigin.length - 10);
+              const applied = resizeOrigin.length - length;
+              rippleTrim(item.id, 'start', item.startFrame + headTrim - applied);
+            } else {
+              rippleTrim(item.id, 'end', Math.max(item.startFrame + 10, mouseFrame));
+            }
+          } else if (isResizing === 'left') {
             // Resize from left (trim start)
             const newStartFrame = Math.max(0, Math.min(mouseFrame, item.endFrame - 10)); // Min 10 frames
             if (type === 'clip') {
@@ -115,17 +266,31 @@ export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }
           }
         }
       }
+      onSnap?.(guide);
     };
 
-    const handleMouseUp = () => {
+    const handleMouseUp = (e: MouseEvent) => {
+      if (isDragging && editMode !== 'slide' && groupIds.length === 0) {
+        // Dropped over another track: move the item there (kind and locks are checked by the store)
+        const trackElement = document.elementFromPoint(e.clientX, e.clientY)?.closest('[data-track-id]');
+        const targetTrackId = trackElement?.getAttribute('data-track-id');
+        if (targetTrackId && targetTrackId !== item.trackId) {
+          moveItemToTrack(item.id, targetTrackId);
+        }
+      }
       setIsDragging(false);
       setIsResizing(null);
+      setSlipOrigin(null);
+      setGroupIds([]);
+      setEditMode('normal');
+      onSnap?.(null);
+      endTransaction();
     };
 
-    if (isDragging || isResizing) {
+    if (isDragging || isResizing || slipOrigin) {
       document.addEventListener('mousemove', handleMouseMove);
       document.addEventListener('mouseup', handleMouseUp);
-      document.body.style.cursor = isDragging ? 'grabbing' : 'ew-resize';
+      document.body.style.cursor = isDragging ? 'grabbing' : slipOrigin ? 'col-resize' : 'ew-resize';
       document.body.style.userSelect = 'none';
 
       return () => {
@@ -135,7 +300,7 @@ export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }
         document.body.style.userSelect = '';
       };
     }
-  }, [isDragging, isResizing, dragOffset, pixelsPerFrame, item, type, updateClip, updateTextOverlay, trimClip, trimTextOverlay, duration]);
+  }, [isDragging, isResizing, slipOrigin, editMode, groupIds, resizeOrigin, dragOffset, pixelsPerFrame, item, type, media, moveItems, updateClip, updateTextOverlay, trimClip, slipClip, rippleTrim, rollEdit, slideEdit, trimTextOverlay, moveItemToTrack, endTransaction, duration, snapping, onSnap]);
 
   const getIcon = () => {
     if (type === 'text') return <Type size={12} />;
@@ -175,20 +340,43 @@ export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }
   return (
     <div
       ref={clipRef}
+      data-item-id={item.id}
       className={cn(
         'absolute top-0 h-12 rounded border-2 border-transparent group transition-all select-none',
         getColor(),
         isSelected && 'border-white shadow-lg ring-2 ring-white/20',
         isDragging && 'cursor-grabbing opacity-80 z-10',
-        !isDragging && 'cursor-grab hover:brightness-110'
+        !isDragging && !locked && 'cursor-grab hover:brightness-110',
+        locked && 'cursor-not-allowed opacity-70'
       )}
       style={{
         left: `${left}px`,
         width: `${Math.max(width, minWidth)}px`,
       }}
+      title={tool === 'slip' && canSlip && !locked ? 'Drag to slip the source' : undefined}
       onClick={handleClick}
       onMouseDown={handleMouseDown}
     >
+      {/* Thumbnails of the visible part of the source */}
+      {type === 'clip' && (item as Clip).type === 'video' && (
+        <Filmstrip clip={item as Clip} width={width} pixelsPerFrame={pixelsPerFrame} />
+      )}
+
+      {/* Audio waveform: the whole clip for audio, a strip along the bottom for video */}
+      {type === 'clip' && (item as Clip).type !== 'image' && (
+        <Waveform clip={item as Clip} width={width} pixelsPerFrame={pixelsPerFrame} />
+      )}
+
+      {/* Volume envelope and fades; points are editable on the selected clip */}
+      {type === 'clip' && (item as Clip).type !== 'image' && (
+        <VolumeEnvelope
+          clip={item as Clip}
+          width={width}
+          pixelsPerFrame={pixelsPerFrame}
+          editable={isSelected && !locked}
+        />
+      )}
+
       {/* Left resize handle */}
       <div
         className={cn(
@@ -208,7 +396,7 @@ export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }
       />
 
       {/* Clip content */}
-      <div className="flex items-center h-full px-2 text-white text-xs pointer-events-none">
+      <div className="relative flex items-center h-full px-2 text-white text-xs pointer-events-none">
         <div className="flex items-center space-x-1 flex-1 min-w-0">
           <GripVertical size={10} className="drag-handle pointer-events-auto opacity-50" />
           {getIcon()}
@@ -218,16 +406,44 @@ export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }
         </div>
       </div>
 
+      {/* Razor: covers the item so clicks cut at the pointer instead of dragging */}
+      {tool === 'razor' && !locked && (
+        <RazorOverlay
+          length={item.endFrame - item.startFrame}
+          pixelsPerFrame={pixelsPerFrame}
+          onCut={(frame) => splitItem(item.id, item.startFrame + frame)}
+        />
+      )}
+
+      {/* Keyframe markers - click to jump to the keyframe */}
+      {getKeyframeFrames(item).map((frame) => (
+        <div
+          key={frame}
+          className="absolute bottom-0.5 w-2 h-2 -ml-1 bg-yellow-300 border border-yellow-700 rotate-45 cursor-pointer pointer-events-auto"
+          style={{ left: `${frame * pixelsPerFrame}px` }}
+          title={`Keyframe at frame ${item.startFrame + frame}`}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            selectItem(item.id);
+            seekTo(item.startFrame + frame);
+          }}
+        />
+      ))}
+
       {/* Delete button - only show on hover or when selected */}
-      <button
-        onClick={handleDelete}
-        className={cn(
-          'absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-black/20 rounded pointer-events-auto',
-          isSelected && 'opacity-100'
-        )}
-      >
-        <Trash2 size={10} />
-      </button>
+      {!locked && (
+        <button
+          onClick={handleDelete}
+          title="Delete (Shift-click to ripple delete)"
+          className={cn(
+            'absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-black/20 rounded pointer-events-auto',
+            isSelected && 'opacity-100'
+          )}
+        >
+          <Trash2 size={10} />
+        </button>
+      )}
 
       {/* Duration indicator */}
       {isSelected && (
@@ -236,18 +452,322 @@ export const ClipItem: React.FC<ClipItemProps> = ({ item, type, pixelsPerFrame }
         </div>
       )}
 
-      {/* Frame indicators */}
+      {/* Frame indicators (source in-point while slipping) */}
       {isSelected && (
         <div className="absolute -top-5 left-0 text-xs text-gray-400">
-          {item.startFrame}-{item.endFrame}
+          {slipOrigin ? `In: ${(item as Clip).trimStart ?? 0}` : `${item.startFrame}-${item.endFrame}`}
         </div>
       )}
     </div>
   );
 };
 
+const FILMSTRIP_HEIGHT = 44; // Clip height inside its border
+
+interface FilmstripProps {
+  clip: Clip;
+  width: number; // Clip width in pixels
+  pixelsPerFrame: number;
+}
+
+// Tiles the clip with thumbnails; the sprite is fetched once per source and
+// only re-tiled when zooming or trimming
+const Filmstrip: React.FC<FilmstripProps> = ({ clip, width, pixelsPerFrame }) => {
+  const frameRate = useEditorStore(state => state.frameRate);
+  const [sprite, setSprite] = useState<ThumbnailSprite | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchThumbnailSprite(clip.src)
+      .then(result => { if (!cancelled) setSprite(result); })
+      .catch(error => console.warn(`⚠️ Could not load thumbnails for ${clip.src}:`, error));
+    return () => { cancelled = true; };
+  }, [clip.src]);
+
+  const tiles = useMemo(
+    () => sprite
+      ? layoutFilmstrip(sprite, { width, height: FILMSTRIP_HEIGHT, pixelsPerFrame, frameRate, trimStart: clip.trimStart })
+      : [],
+    [sprite, width, pixelsPerFrame, frameRate, clip.trimStart]
+  );
+
+  if (!sprite) return null;
+  const backgroundSize = getSpriteBackgroundSize(sprite, FILMSTRIP_HEIGHT);
+
+  return (
+    <div className="absolute inset-0 overflow-hidden rounded-sm opacity-60 pointer-events-none">
+      {tiles.map(tile => (
+        <div
+          key={tile.left}
+          className="absolute top-0 h-full bg-no-repeat"
+          style={{
+            left: `${tile.left}px`,
+            width: `${tile.width}px`,
+            backgroundImage: `url(${sprite.url})`,
+            backgroundSize,
+            backgroundPosition: tile.backgroundPosition,
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const WAVEFORM_CHUNK_WIDTH = 2048; // Pixels per canvas, well below browser canvas limits
+
+interface WaveformProps {
+  clip: Clip;
+  width: number; // Clip width in pixels
+  pixelsPerFrame: number;
+}
+
+// Draws the clip's audio from the level of detail matching the zoom, split
+// into canvases that are only drawn while scrolled into view
+const Waveform: React.FC<WaveformProps> = ({ clip, width, pixelsPerFrame }) => {
+  const frameRate = useEditorStore(state => state.frameRate);
+  const [levels, setLevels] = useState<PeakLevel[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchWaveformPeaks(clip.src)
+      .then(result => { if (!cancelled) setLevels(result); })
+      .catch(error => console.warn(`⚠️ Could not load waveform for ${clip.src}:`, error));
+    return () => { cancelled = true; };
+  }, [clip.src]);
+
+  const pixelsPerSecond = pixelsPerFrame * frameRate;
+  const level = useMemo(
+    () => (levels?.length ? pickPeakLevel(levels, pixelsPerSecond) : null),
+    [levels, pixelsPerSecond]
+  );
+
+  if (!level) return null;
+  const height = clip.type === 'audio' ? FILMSTRIP_HEIGHT : 16;
+  const startSeconds = (clip.trimStart ?? 0) / frameRate;
+  const chunks = Math.ceil(width / WAVEFORM_CHUNK_WIDTH);
+
+  return (
+    <div
+      className={cn('absolute inset-x-0 bottom-0 overflow-hidden pointer-events-none', clip.muted && 'opacity-40')}
+      style={{ height: `${height}px` }}
+    >
+      {Array.from({ length: chunks }, (_, index) => {
+        const left = index * WAVEFORM_CHUNK_WIDTH;
+        return (
+          <WaveformChunk
+            key={index}
+            level={level}
+            left={left}
+            width={Math.min(WAVEFORM_CHUNK_WIDTH, width - left)}
+            height={height}
+            startSeconds={startSeconds + left / pixelsPerSecond}
+            pixelsPerSecond={pixelsPerSecond}
+            gain={clip.volume ?? 1}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+interface WaveformChunkProps {
+  level: PeakLevel;
+  left: number; // Offset within the clip in pixels
+  width: number;
+  height: number;
+  startSeconds: number; // Source time at the chunk's left edge
+  pixelsPerSecond: number;
+  gain: number;
+}
+
+const WaveformChunk: React.FC<WaveformChunkProps> = ({ level, left, width, height, startSeconds, pixelsPerSecond, gain }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof IntersectionObserver === 'undefined') {
+      setVisible(true);
+      return;
+    }
+    const observer = new IntersectionObserver(([entry]) => setVisible(entry.isIntersecting));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!visible || !context) return;
+
+    const columns = getWaveformColumns(level, { startSeconds, pixelsPerSecond, width, gain });
+    const middle = height / 2;
+    context.clearRect(0, 0, width, height);
+    context.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    for (let x = 0; x < columns.length / 2; x++) {
+      const top = middle - columns[x * 2 + 1] * middle;
+      const bottom = middle - columns[x * 2] * middle;
+      context.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }, [visible, level, startSeconds, pixelsPerSecond, width, height, gain]);
+
+  return (
+    <div ref={containerRef} className="absolute top-0 h-full" style={{ left: `${left}px`, width: `${width}px` }}>
+      {visible && <canvas ref={canvasRef} width={Math.ceil(width)} height={height} className="block" />}
+    </div>
+  );
+};
+
+const ENVELOPE_PADDING = 3; // Keeps full and zero volume points inside the clip
+
+interface VolumeEnvelopeProps {
+  clip: Clip;
+  width: number; // Clip width in pixels
+  pixelsPerFrame: number;
+  editable: boolean;
+}
+
+// The clip's volume keyframes drawn as a line from silence (bottom) to full
+// volume (top). Double-click the line to add a point, drag points to shape
+// the envelope and double-click a point to remove it.
+const VolumeEnvelope: React.FC<VolumeEnvelopeProps> = ({ clip, width, pixelsPerFrame, editable }) => {
+  const { addKeyframe, moveKeyframe, updateKeyframe, removeKeyframe, beginTransaction, endTransaction } = useEditorStore();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const height = FILMSTRIP_HEIGHT;
+  const range = height - ENVELOPE_PADDING * 2;
+  const toY = (volume: number) => ENVELOPE_PADDING + (1 - volume) * range;
+
+  const points = useMemo(() => getEnvelopePoints(clip, pixelsPerFrame), [clip, pixelsPerFrame]);
+  const { fadeIn, fadeOut } = getClipFades(clip);
+  const line = points.map(([x, volume]) => `${x},${toY(volume)}`).join(' ');
+
+  // Frame and volume under the pointer
+  const getPointerValue = (e: MouseEvent | React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      frame: (e.clientX - rect.left) / pixelsPerFrame,
+      volume: Math.round(Math.min(1, Math.max(0, 1 - (e.clientY - rect.top - ENVELOPE_PADDING) / range)) * 100) / 100,
+    };
+  };
+
+  const handleAddPoint = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const { frame, volume } = getPointerValue(e);
+    addKeyframe(clip.id, 'volume', Math.round(frame), volume);
+  };
+
+  const handlePointMouseDown = (e: React.MouseEvent, keyframeId: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    beginTransaction('Move envelope point');
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      const { frame, volume } = getPointerValue(moveEvent);
+      // Read the clip fresh: earlier moves in this drag already changed it
+      const current = useEditorStore.getState().media.find(c => c.id === clip.id);
+      if (!current) return;
+      moveKeyframe(clip.id, 'volume', keyframeId, clampEnvelopeFrame(current, keyframeId, frame));
+      updateKeyframe(clip.id, 'volume', keyframeId, { value: volume });
+    };
+    const handleUp = () => {
+      endTransaction();
+      document.removeEventListener('mousemove', handleMove);
+      document.removeEventListener('mouseup', handleUp);
+    };
+    document.addEventListener('mousemove', handleMove);
+    document.addEventListener('mouseup', handleUp);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute top-0 left-0 pointer-events-none overflow-visible"
+      width={Math.max(0, width)}
+      height={height}
+    >
+      {/* Fades shade the area above their ramps */}
+      {fadeIn > 0 && (
+        <polygon points={`0,0 ${fadeIn * pixelsPerFrame},0 0,${height}`} className="fill-black/30" />
+      )}
+      {fadeOut > 0 && (
+        <polygon points={`${width},0 ${width - fadeOut * pixelsPerFrame},0 ${width},${height}`} className="fill-black/30" />
+      )}
+
+      <polyline points={line} fill="none" className="stroke-yellow-300" strokeWidth={1.5} />
+
+      {editable && (
+        <>
+          {/* Wide invisible stroke makes the line easy to hit */}
+          <polyline
+            points={line}
+            fill="none"
+            stroke="transparent"
+            strokeWidth={8}
+            className="pointer-events-auto cursor-copy"
+            onDoubleClick={handleAddPoint}
+          >
+            <title>Double-click to add a volume point</title>
+          </polyline>
+          {(clip.keyframes?.volume ?? []).map((keyframe) => (
+            <circle
+              key={keyframe.id}
+              cx={keyframe.frame * pixelsPerFrame}
+              cy={toY(keyframe.value)}
+              r={4}
+              className="fill-yellow-300 stroke-yellow-700 pointer-events-auto cursor-move"
+              onMouseDown={(e) => handlePointMouseDown(e, keyframe.id)}
+              onClick={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                removeKeyframe(clip.id, 'volume', keyframe.id);
+              }}
+            >
+              <title>{`Volume ${Math.round(keyframe.value * 100)}% at frame ${clip.startFrame + keyframe.frame}`}</title>
+            </circle>
+          ))}
+        </>
+      )}
+    </svg>
+  );
+};
+
+interface RazorOverlayProps {
+  length: number; // Item length in frames
+  pixelsPerFrame: number;
+  onCut: (frame: number) => void; // Frame relative to the item's start
+}
+
+// Shows where a click would cut and cuts there
+const RazorOverlay: React.FC<RazorOverlayProps> = ({ length, pixelsPerFrame, onCut }) => {
+  const [hoverFrame, setHoverFrame] = useState<number | null>(null);
+
+  const getFrame = (e: React.MouseEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.round((e.clientX - rect.left) / pixelsPerFrame);
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-20 cursor-crosshair"
+      onMouseMove={(e) => setHoverFrame(getFrame(e))}
+      onMouseLeave={() => setHoverFrame(null)}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        e.stopPropagation();
+        onCut(getFrame(e));
+      }}
+    >
+      {/* Cuts only land strictly inside the item */}
+      {hoverFrame !== null && hoverFrame > 0 && hoverFrame < length && (
+        <div
+          className="absolute top-0 bottom-0 w-px bg-red-400 pointer-events-none"
+          style={{ left: `${hoverFrame * pixelsPerFrame}px` }}
+        />
+      )}
+    </div>
+  );
+};
+
 // TODO: Implement drag and drop functionality
 // TODO: Add resize handles for trimming clips
 // TODO: Add context menu for clip operations
-// TODO: Add thumbnail preview for video clips
-// TODO: Add waveform visualization for audio clips
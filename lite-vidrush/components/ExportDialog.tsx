@@ -0,0 +1,247 @@
+/**
+ * Export Dialog Component
+ * Picks a render preset, queues the render and follows the job through its
+ * event stream until the result downloads
+ */
+
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_RENDER_SETTINGS, RenderJob, RenderPreset, RenderSettings, RenderStage } from '@/lib/types';
+import { cancelRender, fetchRenderPresets, startRender, streamRenderEvents } from '@/lib/renderApi';
+import { BUILT_IN_PRESETS } from '@/lib/renderPresets';
+import { CODEC_LABELS } from '@/lib/renderSettings';
+import { useEditorStore } from '@/lib/store';
+import { cn, formatDuration } from '@/lib/utils';
+import { Button } from './ui/Button';
+
+interface ExportDialogProps {
+  onClose: () => void;
+}
+
+type Phase = 'queued' | 'bundling' | 'composition' | RenderStage | 'done' | 'failed' | 'cancelled';
+
+const PHASE_LABELS: Record<Phase, string> = {
+  queued: 'Waiting for the renderer...',
+  bundling: 'Bundling composition...',
+  composition: 'Preparing composition...',
+  rendering: 'Rendering frames...',
+  encoding: 'Encoding video...',
+  muxing: 'Muxing audio and video...',
+  done: 'Done',
+  failed: 'Render failed',
+  cancelled: 'Cancelled',
+};
+
+// Start a browser download of a finished render
+function downloadOutput(job: RenderJob) {
+  const link = document.createElement('a');
+  link.href = job.outputUrl!;
+  link.download = `vidrush-export-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.${job.outputFormat}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+// One-line summary of what a preset renders
+function describeSettings(settings: RenderSettings): string {
+  return `${settings.width}×${settings.height} · ${settings.fps} fps · ${CODEC_LABELS[settings.codec]} ${settings.outputFormat.toUpperCase()}`;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ onClose }) => {
+  const [presets, setPresets] = useState<RenderPreset[]>(BUILT_IN_PRESETS);
+  // No preset renders at the project canvas size and frame rate
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const canvas = useEditorStore(state => state.canvas);
+  const frameRate = useEditorStore(state => state.frameRate);
+  const [isStarting, setIsStarting] = useState(false);
+  const [job, setJob] = useState<RenderJob | null>(null);
+
+  // Custom presets come from the server; the built-in ones are known upfront
+  useEffect(() => {
+    fetchRenderPresets()
+      .then(setPresets)
+      .catch(error => console.error('❌ Could not load render presets:', error));
+  }, []);
+
+  const handleExport = async () => {
+    setIsStarting(true);
+    try {
+      console.log(`🎬 Starting server-side video render (${presetId ?? 'project canvas'})...`);
+      const queued = await startRender(useEditorStore.getState(), undefined, presetId ?? undefined);
+      console.log(`📥 Render job ${queued.id} queued`);
+      setJob(queued);
+    } catch (error) {
+      console.error('❌ Render error:', error);
+      alert(`Rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 min-w-80 max-w-md w-full">
+        {job ? (
+          <RenderProgress job={job} onClose={onClose} />
+        ) : (
+          <>
+            <h3 className="text-lg font-medium mb-4">Export Video</h3>
+            <div className="space-y-2 mb-6 max-h-80 overflow-y-auto">
+              <PresetOption
+                name="Match project canvas"
+                summary={describeSettings({ ...DEFAULT_RENDER_SETTINGS, width: canvas.width, height: canvas.height, fps: frameRate })}
+                description="Renders at the canvas size and frame rate set in the project"
+                selected={presetId === null}
+                onSelect={() => setPresetId(null)}
+              />
+              {presets.map(preset => (
+                <PresetOption
+                  key={preset.id}
+                  name={preset.name}
+                  summary={describeSettings(preset.settings)}
+                  description={preset.description}
+                  custom={!preset.builtIn}
+                  selected={preset.id === presetId}
+                  onSelect={() => setPresetId(preset.id)}
+                />
+              ))}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" size="sm" onClick={onClose} disabled={isStarting}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleExport} disabled={isStarting}>
+                {isStarting ? 'Starting...' : 'Export'}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface PresetOptionProps {
+  name: string;
+  summary: string;
+  description?: string;
+  custom?: boolean;
+  selected: boolean;
+  onSelect: () => void;
+}
+
+const PresetOption: React.FC<PresetOptionProps> = ({ name, summary, description, custom, selected, onSelect }) => (
+  <button
+    onClick={onSelect}
+    className={cn(
+      'w-full text-left rounded-md border px-3 py-2 transition-colors',
+      selected ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 hover:border-gray-500'
+    )}
+  >
+    <div className="flex items-center justify-between">
+      <span className="font-medium">{name}</span>
+      {custom && <span className="text-xs text-gray-400">Custom</span>}
+    </div>
+    <div className="text-xs text-gray-400">{summary}</div>
+    {description && <div className="text-xs text-gray-500">{description}</div>}
+  </button>
+);
+
+interface RenderProgressProps {
+  job: RenderJob; // The job as returned when it was queued
+  onClose: () => void;
+}
+
+const RenderProgress: React.FC<RenderProgressProps> = ({ job: initialJob, onClose }) => {
+  const [job, setJob] = useState(initialJob);
+  const [phase, setPhase] = useState<Phase>('queued');
+  const [bundleProgress, setBundleProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    streamRenderEvents(initialJob.id, (event) => {
+      switch (event.type) {
+        case 'status':
+          setJob(event.job);
+          if (event.job.state === 'cancelled') setPhase('cancelled');
+          else if (event.job.state === 'rendering') setPhase(current => (current === 'queued' ? 'bundling' : current));
+          break;
+        case 'bundle':
+          setPhase('bundling');
+          setBundleProgress(event.progress);
+          break;
+        case 'composition':
+          setPhase('composition');
+          break;
+        case 'progress':
+          setJob(event.job);
+          setPhase(event.stage);
+          break;
+        case 'done':
+          setJob(event.job);
+          setPhase('done');
+          console.log(`✅ Render job ${event.job.id} finished`);
+          if (event.job.outputUrl) downloadOutput(event.job);
+          onClose();
+          break;
+        case 'error':
+          setJob(event.job);
+          setPhase('failed');
+          setError(event.error);
+          break;
+      }
+    }, { signal: controller.signal }).catch((streamError) => {
+      if (controller.signal.aborted) return;
+      console.error('❌ Render event stream error:', streamError);
+      setPhase('failed');
+      setError(streamError instanceof Error ? streamError.message : 'Lost connection to the renderer');
+    });
+
+    return () => controller.abort();
+  }, [initialJob.id, onClose]);
+
+  const handleCancel = async () => {
+    try {
+      setJob(await cancelRender(job.id));
+    } catch (cancelError) {
+      console.error('❌ Cancel error:', cancelError);
+    }
+  };
+
+  const finished = phase === 'failed' || phase === 'cancelled';
+  const progress = phase === 'bundling' ? bundleProgress : job.progress;
+
+  return (
+    <div className="text-center">
+      <h3 className="text-lg font-medium mb-2">Rendering Video</h3>
+      <p className="text-gray-400 mb-1">{PHASE_LABELS[phase]}</p>
+      <p className="text-sm text-gray-500 mb-4">
+        {error ?? (job.totalFrames && phase !== 'bundling'
+          ? `Frame ${job.renderedFrames} of ${job.totalFrames} (${job.encodedFrames} encoded)`
+          : ' ')}
+      </p>
+
+      <div className="w-full bg-gray-700 rounded-full h-2 mb-2">
+        <div
+          className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${Math.round(progress * 100)}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-sm text-gray-500 mb-4">
+        <span>{Math.round(progress * 100)}%</span>
+        {job.eta != null && phase !== 'bundling' && <span>{formatDuration(job.eta)} left</span>}
+      </div>
+
+      {finished ? (
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      ) : (
+        <Button variant="outline" size="sm" onClick={handleCancel}>
+          Cancel
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -1,28 +1,62 @@
 /**
  * Inspector Component
- * Shows properties of the selected clip or text overlay
+ * Shows properties of the selected clip or text overlay, the properties a
+ * multiple selection shares, or the project canvas when nothing is selected
  */
 
 import React, { useState } from 'react';
 import { useEditorStore } from '@/lib/store';
-import { Clip, TextOverlay } from '@/lib/types';
+import {
+  AnimatableProperty,
+  Clip,
+  ClipFit,
+  KeyframeEasing,
+  TextOverlay,
+  TransitionAlignment,
+  TransitionDirection,
+  TransitionType,
+} from '@/lib/types';
 import { Button } from './ui/Button';
 import { Slider } from './ui/Slider';
 import { cn } from '@/lib/utils';
+import { resolveTransform, clampCrop } from '@/lib/transform';
+import {
+  applyKeyframes,
+  getAnimatableProperties,
+  getAnimatedValue,
+  KEYFRAME_EASINGS,
+  PROPERTY_LABELS,
+} from '@/lib/keyframes';
+import { getNextAdjacentClip, getSharedProperties } from '@/lib/timelineOps';
+import { getClipFades } from '@/lib/audio';
+import { formatPan } from '@/lib/mixer';
+import { DEFAULT_DIP_COLOR, getMaxTransitionDuration } from '@/lib/transitions';
 
 export const Inspector: React.FC = () => {
-  const { selectedId, getSelectedItem, updateClip, updateTextOverlay, removeItem } = useEditorStore();
+  const { getSelectedItem, getSelectedItems, updateClip, updateTextOverlay, removeItem } = useEditorStore();
   const selectedItem = getSelectedItem();
+  const selectedItems = getSelectedItems();
 
-  if (!selectedItem || !selectedId) {
+  if (selectedItems.length > 1) {
+    return (
+      <div className="w-80 bg-gray-800 border-l border-gray-700 p-4 overflow-y-auto">
+        <h3 className="text-lg font-semibold text-white mb-4">Inspector</h3>
+        <MultiInspector items={selectedItems} />
+      </div>
+    );
+  }
+
+  if (!selectedItem) {
     return (
       <div className="w-80 bg-gray-800 border-l border-gray-700 p-4">
         <h3 className="text-lg font-semibold text-white mb-4">Inspector</h3>
-        <p className="text-gray-400 text-sm">Select a clip or text overlay to edit its properties.</p>
+        <p className="text-gray-400 text-sm mb-4">Select a clip or text overlay to edit its properties.</p>
+        <CanvasInspector />
       </div>
     );
   }
 
+  const selectedId = selectedItem.id;
   const isClip = 'src' in selectedItem;
   const isText = 'text' in selectedItem;
 
@@ -86,6 +120,9 @@ export const Inspector: React.FC = () => {
         {/* Text-specific properties */}
         {isText && <TextInspector text={selectedItem as TextOverlay} textId={selectedId} />}
 
+        {/* Keyframes at the playhead */}
+        <KeyframeInspector item={selectedItem} itemId={selectedId} />
+
         {/* Delete button */}
         <div className="pt-4 border-t border-gray-700">
           <Button
@@ -101,6 +138,161 @@ export const Inspector: React.FC = () => {
   );
 };
 
+// Slider ranges for editing a property on several items at once
+const SHARED_PROPERTY_RANGES: Record<AnimatableProperty, { min: number; max: number; step: number; format: (value: number) => string }> = {
+  'position.x': { min: 0, max: 100, step: 1, format: (value) => `${Math.round(value)}%` },
+  'position.y': { min: 0, max: 100, step: 1, format: (value) => `${Math.round(value)}%` },
+  'scale.width': { min: 0.1, max: 3, step: 0.01, format: (value) => `${value.toFixed(2)}x` },
+  'scale.height': { min: 0.1, max: 3, step: 0.01, format: (value) => `${value.toFixed(2)}x` },
+  rotation: { min: -180, max: 180, step: 1, format: (value) => `${Math.round(value)}°` },
+  opacity: { min: 0, max: 1, step: 0.01, format: (value) => `${Math.round(value * 100)}%` },
+  volume: { min: 0, max: 1, step: 0.01, format: (value) => `${Math.round(value * 100)}%` },
+  fontSize: { min: 12, max: 72, step: 1, format: (value) => `${Math.round(value)}px` },
+};
+
+interface MultiInspectorProps {
+  items: (Clip | TextOverlay)[];
+}
+
+// Edits the properties every selected item has, at the playhead; values that
+// differ between the items show as mixed until they are set
+const MultiInspector: React.FC<MultiInspectorProps> = ({ items }) => {
+  const { media, texts, playhead, setAnimatedProperties, removeItems } = useEditorStore();
+  const ids = items.map((item) => item.id);
+  const properties = getSharedProperties({ media, texts }, ids);
+  const clipCount = items.filter((item) => 'src' in item).length;
+  const textCount = items.length - clipCount;
+
+  return (
+    <div className="space-y-4">
+      <div className="px-3 py-2 bg-gray-700 rounded text-sm text-gray-300">
+        {`${items.length} items selected`}
+        {clipCount > 0 && textCount > 0 && ` (${clipCount} clips, ${textCount} text)`}
+      </div>
+
+      {properties.length > 0 ? (
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-300">Shared Properties</label>
+          {properties.map((property) => {
+            const values = items.map((item) => getAnimatedValue(item, property, playhead - item.startFrame));
+            const mixed = values.some((value) => Math.abs(value - values[0]) > 1e-6);
+            const range = SHARED_PROPERTY_RANGES[property];
+            return (
+              <TransformSlider
+                key={property}
+                label={PROPERTY_LABELS[property]}
+                value={values[0]}
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                format={(value) => (mixed ? 'Mixed' : range.format(value))}
+                onChange={(value) => setAnimatedProperties(ids, property, value, playhead)}
+              />
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">The selected items have no properties in common.</p>
+      )}
+
+      <div className="text-xs text-gray-500">
+        Drag any selected item to move them together • Alt+←/→ nudges the selection
+      </div>
+
+      <div className="pt-4 border-t border-gray-700">
+        <Button variant="destructive" onClick={() => removeItems(ids)} className="w-full">
+          {`Delete ${items.length} Items`}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Common frame sizes, by aspect ratio
+const CANVAS_PRESETS = [
+  { label: '16:9', width: 1920, height: 1080 },
+  { label: '9:16', width: 1080, height: 1920 },
+  { label: '1:1', width: 1080, height: 1080 },
+  { label: '4:5', width: 1080, height: 1350 },
+  { label: '4:3', width: 1440, height: 1080 },
+];
+
+const CLIP_FITS: { value: ClipFit; label: string }[] = [
+  { value: 'fit', label: 'Fit (show layers below)' },
+  { value: 'letterbox', label: 'Letterbox (black bars)' },
+  { value: 'fill', label: 'Fill (crop to frame)' },
+];
+
+const CanvasInspector: React.FC = () => {
+  const { canvas, setCanvas } = useEditorStore();
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-gray-700">
+      <label className="block text-sm font-medium text-gray-300">Canvas</label>
+
+      <div className="grid grid-cols-5 gap-1">
+        {CANVAS_PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            variant={canvas.width === preset.width && canvas.height === preset.height ? 'default' : 'outline'}
+            size="sm"
+            className="px-1"
+            onClick={() => setCanvas({ width: preset.width, height: preset.height })}
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <CanvasSizeInput label="Width" value={canvas.width} onCommit={(width) => setCanvas({ width })} />
+        <CanvasSizeInput label="Height" value={canvas.height} onCommit={(height) => setCanvas({ height })} />
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Background</label>
+        <input
+          type="color"
+          value={canvas.backgroundColor}
+          onChange={(e) => setCanvas({ backgroundColor: e.target.value })}
+          className="w-full h-8 rounded border border-gray-600"
+        />
+      </div>
+    </div>
+  );
+};
+
+interface CanvasSizeInputProps {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+}
+
+// Applied on blur or Enter, so partially typed sizes don't reflow the project
+const CanvasSizeInput: React.FC<CanvasSizeInputProps> = ({ label, value, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    const parsed = parseInt(draft ?? '', 10);
+    if (!Number.isNaN(parsed) && parsed !== value) onCommit(parsed);
+    setDraft(null);
+  };
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-400 mb-1">{label}</label>
+      <input
+        type="number"
+        value={draft ?? value}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        className="w-full px-3 py-2 bg-gray-700 text-white rounded text-sm"
+      />
+    </div>
+  );
+};
+
 interface ClipInspectorProps {
   clip: Clip;
   clipId: string;
@@ -120,15 +312,140 @@ const ClipInspector: React.FC<ClipInspectorProps> = ({ clip, clipId }) => {
         </div>
       </div>
 
-      {/* TODO: Add trim controls */}
-      <div className="space-y-2">
-        <label className="block text-sm font-medium text-gray-300">
-          Trim (TODO)
-        </label>
-        <div className="text-xs text-gray-500">
-          Source trimming controls will be implemented here
+      {/* Transform controls (audio clips have no picture) */}
+      {clip.type !== 'audio' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Fit</label>
+          <select
+            value={clip.fit ?? 'fit'}
+            onChange={(e) => updateClip(clipId, { fit: e.target.value as ClipFit })}
+            className="w-full px-3 py-2 bg-gray-700 text-white rounded text-sm"
+          >
+            {CLIP_FITS.map((fit) => (
+              <option key={fit.value} value={fit.value}>{fit.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      {clip.type !== 'audio' && <TransformInspector item={clip} itemId={clipId} type="clip" />}
+
+      {/* Transition into the next clip on the track */}
+      <TransitionInspector clip={clip} />
+
+      {/* Source trim and sound (stills have neither) */}
+      {clip.type !== 'image' && <TrimInspector clip={clip} />}
+      {clip.type !== 'image' && <AudioInspector clip={clip} />}
+    </div>
+  );
+};
+
+interface TrimInspectorProps {
+  clip: Clip;
+}
+
+const TrimInspector: React.FC<TrimInspectorProps> = ({ clip }) => {
+  const { setClipTrim, slipClip } = useEditorStore();
+  const trimStart = clip.trimStart ?? 0;
+  const trimEnd = clip.trimEnd ?? 0;
+  const length = clip.endFrame - clip.startFrame;
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-300">
+        Trim
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">In (frames)</label>
+          <input
+            type="number"
+            min={0}
+            value={trimStart}
+            onChange={(e) => setClipTrim(clip.id, parseInt(e.target.value) || 0, trimEnd)}
+            className="w-full px-2 py-1 bg-gray-700 text-white rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Out handle (frames)</label>
+          <input
+            type="number"
+            min={0}
+            value={trimEnd}
+            onChange={(e) => setClipTrim(clip.id, trimStart, parseInt(e.target.value) || 0)}
+            className="w-full px-2 py-1 bg-gray-700 text-white rounded text-sm"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Slip</label>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => slipClip(clip.id, trimStart - 1)}>
+            ◀ 1 frame
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => slipClip(clip.id, trimStart + 1)}>
+            1 frame ▶
+          </Button>
+        </div>
+      </div>
+      <div className="text-xs text-gray-500">
+        {clip.sourceDuration !== undefined
+          ? `Plays source frames ${trimStart}-${trimStart + length} of ${clip.sourceDuration}`
+          : 'Source length unknown'}
+        {' • Drag the clip with the slip tool (Y) to slip'}
+      </div>
+    </div>
+  );
+};
+
+interface AudioInspectorProps {
+  clip: Clip;
+}
+
+// Pan slider label: C for center, otherwise the side and amount
+const AudioInspector: React.FC<AudioInspectorProps> = ({ clip }) => {
+  const { frameRate, setClipFades, setClipPan } = useEditorStore();
+  const { fadeIn, fadeOut } = getClipFades(clip);
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-300">
+        Audio
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Fade in (frames)</label>
+          <input
+            type="number"
+            min={0}
+            value={fadeIn}
+            onChange={(e) => setClipFades(clip.id, parseInt(e.target.value) || 0, fadeOut)}
+            className="w-full px-2 py-1 bg-gray-700 text-white rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Fade out (frames)</label>
+          <input
+            type="number"
+            min={0}
+            value={fadeOut}
+            onChange={(e) => setClipFades(clip.id, fadeIn, parseInt(e.target.value) || 0)}
+            className="w-full px-2 py-1 bg-gray-700 text-white rounded text-sm"
+          />
         </div>
       </div>
+      <TransformSlider
+        label="Pan"
+        value={clip.pan ?? 0}
+        min={-1}
+        max={1}
+        step={0.01}
+        format={formatPan}
+        onChange={(value) => setClipPan(clip.id, value)}
+      />
+      <div className="text-xs text-gray-500">
+        {`Fades ${(fadeIn / frameRate).toFixed(1)}s in, ${(fadeOut / frameRate).toFixed(1)}s out`}
+        {' • Drag the volume line on the clip to shape its envelope'}
+      </div>
     </div>
   );
 };
@@ -162,44 +479,8 @@ const TextInspector: React.FC<TextInspectorProps> = ({ text, textId }) => {
         />
       </div>
 
-      {/* Position controls */}
-      <div className="space-y-3">
-        <label className="block text-sm font-medium text-gray-300">
-          Position
-        </label>
-        <div className="space-y-2">
-          <div>
-            <label className="block text-xs text-gray-400 mb-1">X Position (%)</label>
-            <Slider
-              value={[text.position.x]}
-              onValueChange={([value]) =>
-                updateTextOverlay(textId, {
-                  position: { ...text.position, x: value }
-                })
-              }
-              max={100}
-              step={1}
-              className="w-full"
-            />
-            <span className="text-xs text-gray-400">{text.position.x}%</span>
-          </div>
-          <div>
-            <label className="block text-xs text-gray-400 mb-1">Y Position (%)</label>
-            <Slider
-              value={[text.position.y]}
-              onValueChange={([value]) =>
-                updateTextOverlay(textId, {
-                  position: { ...text.position, y: value }
-                })
-              }
-              max={100}
-              step={1}
-              className="w-full"
-            />
-            <span className="text-xs text-gray-400">{text.position.y}%</span>
-          </div>
-        </div>
-      </div>
+      {/* Transform controls */}
+      <TransformInspector item={text} itemId={textId} type="text" />
 
       {/* Style controls */}
       <div className="space-y-3">
@@ -306,12 +587,434 @@ const TextInspector: React.FC<TextInspectorProps> = ({ text, textId }) => {
   );
 };
 
+interface TransformSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+// Slider whose whole drag is recorded as a single undo step
+const TransformSlider: React.FC<TransformSliderProps> = ({ label, value, min, max, step, format, onChange }) => {
+  const { beginTransaction, endTransaction } = useEditorStore();
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-400 mb-1">{label}</label>
+      <Slider
+        value={[value]}
+        onPointerDown={() => beginTransaction(`Change ${label.toLowerCase()}`)}
+        onValueChange={([newValue]) => onChange(newValue)}
+        onValueCommit={() => endTransaction()}
+        min={min}
+        max={max}
+        step={step}
+        className="w-full"
+      />
+      <span className="text-xs text-gray-400">{format(value)}</span>
+    </div>
+  );
+};
+
+interface TransformInspectorProps {
+  item: Clip | TextOverlay;
+  itemId: string;
+  type: 'clip' | 'text';
+}
+
+const TRANSFORM_PROPERTIES: AnimatableProperty[] = ['position.x', 'position.y', 'scale.width', 'scale.height', 'rotation'];
+
+const TransformInspector: React.FC<TransformInspectorProps> = ({ item, itemId, type }) => {
+  const { playhead, updateClip, updateTextOverlay, setAnimatedProperty } = useEditorStore();
+  // Show values at the playhead; edits to animated properties set keyframes there
+  const frame = playhead - item.startFrame;
+  const { position, scale, rotation, anchor, crop } = resolveTransform(applyKeyframes(item, frame));
+
+  const update = (updates: Partial<Clip> & Partial<TextOverlay>) => {
+    if (type === 'clip') {
+      updateClip(itemId, updates);
+    } else {
+      updateTextOverlay(itemId, updates);
+    }
+  };
+
+  const animate = (property: AnimatableProperty) => (value: number) =>
+    setAnimatedProperty(itemId, property, value, frame);
+
+  const percent = (value: number) => `${Math.round(value)}%`;
+  const factor = (value: number) => `${value.toFixed(2)}x`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-300">
+          Transform
+        </label>
+        <button
+          className="text-xs text-gray-400 hover:text-white"
+          onClick={() =>
+            update({
+              position: { x: 50, y: 50 },
+              scale: { width: 1, height: 1 },
+              rotation: 0,
+              anchor: { x: 0.5, y: 0.5 },
+              // Drop transform animation so the reset values show
+              keyframes: Object.fromEntries(
+                Object.entries(item.keyframes ?? {}).filter(
+                  ([property]) => !TRANSFORM_PROPERTIES.includes(property as AnimatableProperty)
+                )
+              ),
+              ...(type === 'clip' ? { crop: { top: 0, right: 0, bottom: 0, left: 0 } } : {}),
+            })
+          }
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <TransformSlider
+          label="X Position"
+          value={position.x}
+          min={0}
+          max={100}
+          step={1}
+          format={percent}
+          onChange={animate('position.x')}
+        />
+        <TransformSlider
+          label="Y Position"
+          value={position.y}
+          min={0}
+          max={100}
+          step={1}
+          format={percent}
+          onChange={animate('position.y')}
+        />
+        <TransformSlider
+          label="Scale X"
+          value={scale.width}
+          min={0.1}
+          max={3}
+          step={0.01}
+          format={factor}
+          onChange={animate('scale.width')}
+        />
+        <TransformSlider
+          label="Scale Y"
+          value={scale.height}
+          min={0.1}
+          max={3}
+          step={0.01}
+          format={factor}
+          onChange={animate('scale.height')}
+        />
+        <TransformSlider
+          label="Anchor X"
+          value={anchor.x * 100}
+          min={0}
+          max={100}
+          step={1}
+          format={percent}
+          onChange={(x) => update({ anchor: { ...anchor, x: x / 100 } })}
+        />
+        <TransformSlider
+          label="Anchor Y"
+          value={anchor.y * 100}
+          min={0}
+          max={100}
+          step={1}
+          format={percent}
+          onChange={(y) => update({ anchor: { ...anchor, y: y / 100 } })}
+        />
+      </div>
+
+      <TransformSlider
+        label="Rotation"
+        value={rotation}
+        min={-180}
+        max={180}
+        step={1}
+        format={(value) => `${Math.round(value)}°`}
+        onChange={animate('rotation')}
+      />
+
+      {/* Crop is expressed in percent of the clip's frame-sized layer */}
+      {type === 'clip' && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['top', 'right', 'bottom', 'left'] as const).map((side) => (
+            <TransformSlider
+              key={side}
+              label={`Crop ${side.charAt(0).toUpperCase()}${side.slice(1)}`}
+              value={crop[side]}
+              min={0}
+              max={99}
+              step={1}
+              format={percent}
+              onChange={(value) => update({ crop: clampCrop({ ...crop, [side]: value }) })}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TRANSITION_TYPES: { value: TransitionType; label: string }[] = [
+  { value: 'crossfade', label: 'Crossfade' },
+  { value: 'wipe', label: 'Wipe' },
+  { value: 'slide', label: 'Slide' },
+  { value: 'dip-to-color', label: 'Dip to color' },
+];
+
+interface TransitionInspectorProps {
+  clip: Clip;
+}
+
+const TransitionInspector: React.FC<TransitionInspectorProps> = ({ clip }) => {
+  const { tracks, media, transitions, addTransition, updateTransition, removeTransition } = useEditorStore();
+  const next = getNextAdjacentClip({ media }, clip.id);
+  const transition = transitions.find(t => t.fromClipId === clip.id);
+  const isAudioTrack = tracks.find(track => track.id === clip.trackId)?.kind === 'audio';
+
+  if (!next) {
+    return (
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-300">Transition</label>
+        <div className="text-xs text-gray-500">
+          Place another clip right after this one on the same track to add a transition
+        </div>
+      </div>
+    );
+  }
+
+  const alignment = transition?.alignment ?? 'center';
+  const maxDuration = getMaxTransitionDuration(clip, next, alignment);
+
+  if (!transition) {
+    return (
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-300">Transition</label>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={maxDuration < 1}
+          onClick={() => addTransition(clip.id, next.id)}
+        >
+          Add transition to next clip
+        </Button>
+        {maxDuration < 1 && (
+          <div className="text-xs text-gray-500">
+            Not enough handle frames: trim the end of this clip or the start of the next one
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-300">Transition</label>
+        <button
+          className="text-xs text-gray-400 hover:text-white"
+          onClick={() => removeTransition(transition.id)}
+        >
+          Remove
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Type</label>
+          <select
+            value={transition.type}
+            onChange={(e) => updateTransition(transition.id, { type: e.target.value as TransitionType })}
+            className="w-full px-2 py-1 bg-gray-700 text-white rounded text-sm"
+          >
+            {TRANSITION_TYPES.filter(type => !isAudioTrack || type.value === 'crossfade').map((type) => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Alignment</label>
+          <select
+            value={transition.alignment}
+            onChange={(e) => {
+              const newAlignment = e.target.value as TransitionAlignment;
+              // Shorten the transition if the handles cannot cover the new alignment
+              const duration = Math.min(transition.duration, getMaxTransitionDuration(clip, next, newAlignment));
+              updateTransition(transition.id, { alignment: newAlignment, duration });
+            }}
+            className="w-full px-2 py-1 bg-gray-700 text-white rounded text-sm"
+          >
+            <option value="center">Center on cut</option>
+            <option value="start">Start at cut</option>
+            <option value="end">End at cut</option>
+          </select>
+        </div>
+      </div>
+
+      <TransformSlider
+        label="Duration"
+        value={transition.duration}
+        min={1}
+        max={Math.max(1, Math.min(maxDuration, 300))}
+        step={1}
+        format={(value) => `${value} frames`}
+        onChange={(duration) => updateTransition(transition.id, { duration })}
+      />
+
+      {(transition.type === 'wipe' || transition.type === 'slide') && (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">From</label>
+          <select
+            value={transition.direction ?? 'left'}
+            onChange={(e) => updateTransition(transition.id, { direction: e.target.value as TransitionDirection })}
+            className="w-full px-2 py-1 bg-gray-700 text-white rounded text-sm"
+          >
+            <option value="left">Left</option>
+            <option value="right">Right</option>
+            <option value="up">Top</option>
+            <option value="down">Bottom</option>
+          </select>
+        </div>
+      )}
+
+      {transition.type === 'dip-to-color' && (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Color</label>
+          <input
+            type="color"
+            value={transition.color ?? DEFAULT_DIP_COLOR}
+            onChange={(e) => updateTransition(transition.id, { color: e.target.value })}
+            className="w-full h-8 rounded border border-gray-600"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Input step per animatable property
+const PROPERTY_STEPS: Record<AnimatableProperty, number> = {
+  'position.x': 1,
+  'position.y': 1,
+  'scale.width': 0.01,
+  'scale.height': 0.01,
+  rotation: 1,
+  opacity: 0.01,
+  volume: 0.01,
+  fontSize: 1,
+};
+
+interface KeyframeInspectorProps {
+  item: Clip | TextOverlay;
+  itemId: string;
+}
+
+const KeyframeInspector: React.FC<KeyframeInspectorProps> = ({ item, itemId }) => {
+  const { playhead, seekTo, addKeyframe, removeKeyframe, updateKeyframe, setAnimatedProperty } = useEditorStore();
+  const frame = playhead - item.startFrame;
+  const inRange = frame >= 0 && frame <= item.endFrame - item.startFrame;
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-300">
+        Keyframes
+      </label>
+      {!inRange && (
+        <div className="text-xs text-gray-500">
+          Move the playhead over this item to set keyframes
+        </div>
+      )}
+
+      {getAnimatableProperties(item).map((property) => {
+        const keyframes = item.keyframes?.[property] ?? [];
+        const current = keyframes.find(keyframe => keyframe.frame === frame);
+        const previous = [...keyframes].reverse().find(keyframe => keyframe.frame < frame);
+        const next = keyframes.find(keyframe => keyframe.frame > frame);
+        const value = getAnimatedValue(item, property, frame);
+
+        return (
+          <div key={property} className="flex items-center gap-1 text-xs">
+            <button
+              className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+              title="Previous keyframe"
+              disabled={!previous}
+              onClick={() => previous && seekTo(item.startFrame + previous.frame)}
+            >
+              ‹
+            </button>
+            <button
+              className={cn(
+                'w-3 h-3 rotate-45 border disabled:opacity-30',
+                current
+                  ? 'bg-yellow-300 border-yellow-600'
+                  : keyframes.length > 0
+                    ? 'border-yellow-300'
+                    : 'border-gray-500'
+              )}
+              title={current ? 'Delete keyframe' : 'Add keyframe at playhead'}
+              disabled={!inRange}
+              onClick={() =>
+                current
+                  ? removeKeyframe(itemId, property, current.id)
+                  : addKeyframe(itemId, property, frame)
+              }
+            />
+            <button
+              className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+              title="Next keyframe"
+              disabled={!next}
+              onClick={() => next && seekTo(item.startFrame + next.frame)}
+            >
+              ›
+            </button>
+
+            <span className="flex-1 text-gray-400">{PROPERTY_LABELS[property]}</span>
+            <input
+              type="number"
+              value={Number(value.toFixed(2))}
+              step={PROPERTY_STEPS[property]}
+              onChange={(e) => {
+                const newValue = parseFloat(e.target.value);
+                if (!isNaN(newValue)) setAnimatedProperty(itemId, property, newValue, frame);
+              }}
+              className="w-16 px-1 py-0.5 bg-gray-700 text-white rounded"
+            />
+            {current ? (
+              <select
+                value={current.easing}
+                onChange={(e) =>
+                  updateKeyframe(itemId, property, current.id, { easing: e.target.value as KeyframeEasing })
+                }
+                className="w-20 px-1 py-0.5 bg-gray-700 text-white rounded"
+                title="Interpolation to the next keyframe"
+              >
+                {KEYFRAME_EASINGS.map((easing) => (
+                  <option key={easing} value={easing}>{easing}</option>
+                ))}
+              </select>
+            ) : (
+              <span className="w-20" />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
 // TODO: Add the following features:
 // - Color picker with presets
 // - Font family selection
 // - Text shadow/outline controls
 // - Animation presets for text
-// - Keyframe editing for advanced animations
-// - Clip volume controls for audio
 // - Video effects and filters
 // - Speed/duration controls
@@ -6,7 +6,9 @@
 import React, { useState, useEffect } from 'react';
 import { useEditorStore } from '@/lib/store';
 import { Button } from './ui/Button';
-import { formatFileSize } from '@/lib/utils';
+import { formatDuration, formatFileSize } from '@/lib/utils';
+import { getSourceDurationFrames } from '@/lib/timelineOps';
+import { MediaMetadata } from '@/lib/types';
 import {
   Video,
   Music,
@@ -24,6 +26,7 @@ interface MediaFile {
   sizeFormatted: string;
   mediaType: 'video' | 'audio' | 'image' | 'unknown';
   uploadedAt: string;
+  metadata?: MediaMetadata & { size: number };
 }
 
 interface MediaBrowserProps {
@@ -32,7 +35,7 @@ interface MediaBrowserProps {
 }
 
 export const MediaBrowser: React.FC<MediaBrowserProps> = ({ isOpen, onClose }) => {
-  const { addClip } = useEditorStore();
+  const { addClip, frameRate } = useEditorStore();
   const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -89,16 +92,10 @@ export const MediaBrowser: React.FC<MediaBrowserProps> = ({ isOpen, onClose }) =
 
   // Add file to timeline
   const addToTimeline = (file: MediaFile) => {
-    // Calculate duration based on file type
-    let durationFrames = 300; // 10 seconds default
-    if (file.mediaType === 'image') {
-      durationFrames = 150; // 5 seconds for images
-    }
-
     addClip({
       src: `http://localhost:3000${file.url}`, // Convert to full URL
       startFrame: 0,
-      endFrame: durationFrames,
+      sourceDuration: getSourceDurationFrames(file.metadata?.duration, frameRate),
       type: file.mediaType as 'video' | 'audio' | 'image',
     });
   };
@@ -194,7 +191,12 @@ export const MediaBrowser: React.FC<MediaBrowserProps> = ({ isOpen, onClose }) =
                     </div>
 
                     <div className="text-xs text-gray-400">
-                      {file.sizeFormatted}
+                      {[
+                        file.sizeFormatted,
+                        file.metadata?.duration !== undefined && formatDuration(file.metadata.duration),
+                        file.metadata?.width && file.metadata.height && `${file.metadata.width}×${file.metadata.height}`,
+                        file.metadata?.frameRate && `${file.metadata.frameRate} fps`,
+                      ].filter(Boolean).join(' • ')}
                     </div>
 
                     {/* Actions */}
@@ -239,6 +241,5 @@ export const MediaBrowser: React.FC<MediaBrowserProps> = ({ isOpen, onClose }) =
 // - Bulk operations (select multiple files)
 // - File preview with play button for videos
 // - Folder organization
-// - File metadata display (duration, dimensions, etc.)
 // - Thumbnail generation
 // - Drag and drop from media browser to timeline
@@ -0,0 +1,211 @@
+/**
+ * MixerPanel Component
+ * One channel strip per audio-carrying track (fader, pan, mute, solo and a
+ * peak/RMS meter) plus the master strip
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Track } from '@/lib/types';
+import { useEditorStore } from '@/lib/store';
+import { cn } from '@/lib/utils';
+import { formatGain, formatPan, getMeterFill, measureLevels, MeterLevels, SILENT_LEVELS, smoothLevels } from '@/lib/mixer';
+import { getMasterAnalyser, getTrackAnalyser } from '@/remotion/audioGraph';
+import { Slider } from './ui/Slider';
+import { Volume2, VolumeX, Headphones } from 'lucide-react';
+
+interface LevelMeterProps {
+  getAnalyser: () => AnalyserNode | null;
+}
+
+// Polls its analyser once per animation frame while the player runs
+const LevelMeter: React.FC<LevelMeterProps> = ({ getAnalyser }) => {
+  const isPlaying = useEditorStore((state) => state.isPlaying);
+  const [levels, setLevels] = useState<MeterLevels>(SILENT_LEVELS);
+  const getAnalyserRef = useRef(getAnalyser);
+  getAnalyserRef.current = getAnalyser;
+
+  useEffect(() => {
+    if (!isPlaying) {
+      setLevels(SILENT_LEVELS);
+      return;
+    }
+
+    let frame = 0;
+    let samples: Float32Array<ArrayBuffer> | null = null;
+    const update = () => {
+      const analyser = getAnalyserRef.current();
+      if (analyser) {
+        if (samples?.length !== analyser.fftSize) samples = new Float32Array(analyser.fftSize);
+        analyser.getFloatTimeDomainData(samples);
+        const next = measureLevels(samples);
+        setLevels((previous) => smoothLevels(previous, next));
+      }
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const peakFill = getMeterFill(levels.peak);
+  return (
+    <div
+      className="relative h-2 w-full bg-gray-900 rounded overflow-hidden"
+      title={levels.peak === -Infinity ? 'Silent' : `Peak ${levels.peak.toFixed(1)} dB • RMS ${levels.rms.toFixed(1)} dB`}
+    >
+      {/* RMS bar with the peak as a thinner bar over it */}
+      <div
+        className="absolute inset-y-0 left-0 bg-green-600"
+        style={{ width: `${getMeterFill(levels.rms) * 100}%` }}
+      />
+      <div
+        className={cn('absolute left-0 top-0 h-0.5', levels.peak >= 0 ? 'bg-red-500' : 'bg-green-300')}
+        style={{ width: `${peakFill * 100}%` }}
+      />
+    </div>
+  );
+};
+
+interface MixerSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+  undoLabel?: string; // Undo step the whole drag is recorded as
+}
+
+const MixerSlider: React.FC<MixerSliderProps> = ({ label, value, min, max, step, format, onChange, undoLabel }) => {
+  const { beginTransaction, endTransaction } = useEditorStore();
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="w-8 text-xs text-gray-400">{label}</span>
+      <Slider
+        value={[value]}
+        onPointerDown={() => beginTransaction(undoLabel ?? `Change track ${label.toLowerCase()}`)}
+        onValueChange={([newValue]) => onChange(newValue)}
+        onValueCommit={() => endTransaction()}
+        min={min}
+        max={max}
+        step={step}
+        className="flex-1"
+      />
+      <span className="w-16 text-right text-xs text-gray-400">{format(value)}</span>
+    </div>
+  );
+};
+
+interface StripToggleProps {
+  active: boolean;
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+const StripToggle: React.FC<StripToggleProps> = ({ active, title, onClick, children }) => (
+  <button
+    className={cn(
+      'p-1 rounded hover:bg-gray-700',
+      active ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'
+    )}
+    title={title}
+    onClick={onClick}
+  >
+    {children}
+  </button>
+);
+
+interface TrackStripProps {
+  track: Track;
+  silenced: boolean; // Another track is soloed
+}
+
+const TrackStrip: React.FC<TrackStripProps> = ({ track, silenced }) => {
+  const { updateTrack } = useEditorStore();
+
+  return (
+    <div className={cn('p-3 bg-gray-700/50 rounded space-y-2', silenced && 'opacity-50')}>
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-white truncate">{track.name}</span>
+        <div className="flex items-center">
+          <StripToggle
+            active={track.muted}
+            title={track.muted ? 'Unmute track' : 'Mute track'}
+            onClick={() => updateTrack(track.id, { muted: !track.muted })}
+          >
+            {track.muted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+          </StripToggle>
+          <StripToggle
+            active={track.solo}
+            title={track.solo ? 'Unsolo track' : 'Solo track'}
+            onClick={() => updateTrack(track.id, { solo: !track.solo })}
+          >
+            <Headphones size={14} />
+          </StripToggle>
+        </div>
+      </div>
+      <MixerSlider
+        label="Gain"
+        value={track.volume ?? 1.0}
+        min={0}
+        max={1}
+        step={0.01}
+        format={formatGain}
+        onChange={(volume) => updateTrack(track.id, { volume })}
+      />
+      <MixerSlider
+        label="Pan"
+        value={track.pan ?? 0}
+        min={-1}
+        max={1}
+        step={0.01}
+        format={formatPan}
+        onChange={(pan) => updateTrack(track.id, { pan })}
+      />
+      <LevelMeter getAnalyser={() => getTrackAnalyser(track.id)} />
+    </div>
+  );
+};
+
+export const MixerPanel: React.FC = () => {
+  const { tracks, masterVolume, muted, setMasterVolume, toggleMute } = useEditorStore();
+
+  // Text tracks carry no sound
+  const audioTracks = tracks
+    .filter((track) => track.kind !== 'text')
+    .sort((a, b) => a.order - b.order);
+  const anySolo = audioTracks.some((track) => track.solo);
+
+  return (
+    <div className="w-80 bg-gray-800 border-l border-gray-700 p-4 overflow-y-auto space-y-3">
+      <h3 className="text-lg font-semibold text-white">Mixer</h3>
+
+      {audioTracks.map((track) => (
+        <TrackStrip key={track.id} track={track} silenced={anySolo && !track.solo} />
+      ))}
+
+      {/* Master strip */}
+      <div className="p-3 bg-gray-700 rounded space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-white">Master</span>
+          <StripToggle active={muted} title={muted ? 'Unmute' : 'Mute'} onClick={toggleMute}>
+            {muted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+          </StripToggle>
+        </div>
+        <MixerSlider
+          label="Gain"
+          value={masterVolume}
+          min={0}
+          max={1}
+          step={0.01}
+          format={formatGain}
+          onChange={setMasterVolume}
+          undoLabel="Change master gain"
+        />
+        <LevelMeter getAnalyser={getMasterAnalyser} />
+      </div>
+    </div>
+  );
+};
@@ -25,6 +25,7 @@ export const PlayControls: React.FC = () => {
     duration,
     frameRate,
     isPlaying,
+    playbackRate,
     zoom,
     play,
     pause,
@@ -118,6 +119,13 @@ export const PlayControls: React.FC = () => {
 
 
 
+      {/* Shuttle speed (J/K/L) */}
+      {isPlaying && (playbackRate ?? 1) !== 1 && (
+        <div className="text-sm font-mono text-yellow-400">
+          {playbackRate! < 0 ? '◀ ' : '▶ '}{Math.abs(playbackRate!)}x
+        </div>
+      )}
+
       {/* Frame rate indicator */}
       <div className="text-sm text-gray-400">
         {frameRate}fps
@@ -127,11 +135,9 @@ export const PlayControls: React.FC = () => {
 };
 
 // TODO: Implement the following features:
-// - Keyboard shortcuts (spacebar for play/pause, arrow keys for frame stepping)
 // - Loop playback mode
 // - Playback speed controls (0.25x, 0.5x, 1x, 2x, etc.)
 // - Audio waveform in scrubber
-// - Frame-accurate stepping (left/right arrow keys)
 // - Jump to start/end buttons
 // - Time input field for precise positioning
 // - Fullscreen preview mode
@@ -16,10 +16,14 @@ export const Preview: React.FC = () => {
     frameRate,
     duration,
     isPlaying,
+    playbackRate,
+    tracks,
     media,
     texts,
+    transitions,
     masterVolume,
     muted: masterMuted,
+    canvas,
   } = useEditorStore();
 
   const playerRef = useRef<any>(null);
@@ -67,8 +71,8 @@ export const Preview: React.FC = () => {
             useEditorStore.getState().setPlayhead(currentFrame);
           }
 
-          // Check if we've reached the end
-          if (currentFrame >= currentState.duration) {
+          // Check if we've reached the end (or the start when shuttling backwards)
+          if (currentFrame >= currentState.duration || ((currentState.playbackRate ?? 1) < 0 && currentFrame <= 0)) {
             useEditorStore.getState().pause();
           }
         }
@@ -85,10 +89,13 @@ export const Preview: React.FC = () => {
   }, [isPlaying]);
 
   const editorState = {
+    tracks,
     media,
     texts,
-    selectedId: null,
+    transitions,
+    selectedIds: [],
     playhead,
+    canvas,
     frameRate,
     duration,
     isPlaying,
@@ -154,6 +161,8 @@ export const Preview: React.FC = () => {
               step="0.1"
               value={effectiveVolume}
               onChange={handleVolumeChange}
+              onPointerDown={() => useEditorStore.getState().beginTransaction('Change master gain')}
+              onPointerUp={() => useEditorStore.getState().endTransaction()}
               className="w-16 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer"
             />
           </div>
@@ -179,12 +188,13 @@ export const Preview: React.FC = () => {
             component={RootComposition}
             inputProps={{ editorState }}
             durationInFrames={duration}
-            compositionWidth={1280}
-            compositionHeight={720}
+            compositionWidth={canvas.width}
+            compositionHeight={canvas.height}
             fps={frameRate}
             controls={false}
             clickToPlay={false}
             loop={false}
+            playbackRate={playbackRate ?? 1}
             showVolumeControls={false}
             allowFullscreen={false}
             spaceKeyToPlayOrPause={false}
@@ -236,7 +246,7 @@ export const Preview: React.FC = () => {
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
             <div className="space-y-1">
               <div className="text-gray-400 font-medium">Composition</div>
-              <div className="text-white">1280×720 • {frameRate}fps</div>
+              <div className="text-white">{canvas.width}×{canvas.height} • {frameRate}fps</div>
               <div className="text-white">Duration: {(duration / frameRate).toFixed(1)}s</div>
             </div>
             <div className="space-y-1">
@@ -7,10 +7,11 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useEditorStore } from '@/lib/store';
 import { Clip, TextOverlay } from '@/lib/types';
 import { cn } from '@/lib/utils';
+import { resolveTransform, getTransformStyle } from '@/lib/transform';
+import { applyKeyframes } from '@/lib/keyframes';
 
 interface ResizableElementProps {
   item: Clip | TextOverlay;
-  type: 'clip' | 'text';
   children: React.ReactNode;
   containerWidth: number;
   containerHeight: number;
@@ -18,33 +19,24 @@ interface ResizableElementProps {
 
 export const ResizableElement: React.FC<ResizableElementProps> = ({
   item,
-  type,
   children,
   containerWidth,
   containerHeight,
 }) => {
-  const { selectedId, selectItem, updateClip, updateTextOverlay } = useEditorStore();
+  const { playhead, selectedIds, selectItem, setAnimatedProperty, beginTransaction, endTransaction } = useEditorStore();
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState<string | null>(null);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [elementStart, setElementStart] = useState({ x: 0, y: 0, width: 1, height: 1 });
   const elementRef = useRef<HTMLDivElement>(null);
 
-  const isSelected = selectedId === item.id;
+  const isSelected = selectedIds.includes(item.id);
 
-  // Default position and scale
-  const position = type === 'clip'
-    ? (item as Clip).position || { x: 50, y: 50 }
-    : (item as TextOverlay).position;
-
-  const scale = item.scale || { width: 1, height: 1 };
-  const rotation = item.rotation || 0;
-
-  // Convert percentage position to pixels
-  const pixelPosition = {
-    x: (position.x / 100) * containerWidth,
-    y: (position.y / 100) * containerHeight,
-  };
+  // Same transform as the Remotion composition at the playhead, with defaults
+  // filled in; edits to animated properties set keyframes there
+  const frame = playhead - item.startFrame;
+  const transform = resolveTransform(applyKeyframes(item, frame));
+  const { position, scale } = transform;
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -56,6 +48,8 @@ export const ResizableElement: React.FC<ResizableElementProps> = ({
     e.stopPropagation();
 
     selectItem(item.id);
+    // Group the whole gesture into a single undo step
+    beginTransaction(action === 'drag' ? 'Move element' : 'Resize element');
 
     if (action === 'drag') {
       setIsDragging(true);
@@ -93,13 +87,8 @@ export const ResizableElement: React.FC<ResizableElementProps> = ({
         const newX = Math.max(0, Math.min(100, elementStart.x + deltaXPercent));
         const newY = Math.max(0, Math.min(100, elementStart.y + deltaYPercent));
 
-        const newPosition = { x: newX, y: newY };
-
-        if (type === 'clip') {
-          updateClip(item.id, { position: newPosition });
-        } else {
-          updateTextOverlay(item.id, { position: newPosition });
-        }
+        setAnimatedProperty(item.id, 'position.x', newX, frame);
+        setAnimatedProperty(item.id, 'position.y', newY, frame);
       } else if (isResizing) {
         // Calculate scale change based on resize handle
         const scaleFactorX = 1 + (deltaX / containerWidth) * 2; // Adjust sensitivity
@@ -138,17 +127,16 @@ export const ResizableElement: React.FC<ResizableElementProps> = ({
             break;
         }
 
-        if (type === 'clip') {
-          updateClip(item.id, { scale: newScale });
-        } else {
-          updateTextOverlay(item.id, { scale: newScale });
-        }
+        // Only the axes the handle moves, so the other keeps its animation
+        if (/[ew]/.test(isResizing)) setAnimatedProperty(item.id, 'scale.width', newScale.width, frame);
+        if (/[ns]/.test(isResizing)) setAnimatedProperty(item.id, 'scale.height', newScale.height, frame);
       }
     };
 
     const handleMouseUp = () => {
       setIsDragging(false);
       setIsResizing(null);
+      endTransaction();
       document.body.style.cursor = '';
       document.body.style.userSelect = '';
     };
@@ -181,7 +169,7 @@ export const ResizableElement: React.FC<ResizableElementProps> = ({
         document.body.style.userSelect = '';
       };
     }
-  }, [isDragging, isResizing, dragStart, elementStart, containerWidth, containerHeight, item.id, type, updateClip, updateTextOverlay, scale, position]);
+  }, [isDragging, isResizing, dragStart, elementStart, containerWidth, containerHeight, item.id, frame, setAnimatedProperty, endTransaction, scale, position]);
 
   const resizeHandles = [
     { position: 'n', className: 'top-0 left-1/2 -translate-x-1/2 -translate-y-1 cursor-n-resize' },
@@ -201,12 +189,7 @@ export const ResizableElement: React.FC<ResizableElementProps> = ({
         'absolute group',
         isSelected && 'z-10'
       )}
-      style={{
-        left: `${pixelPosition.x}px`,
-        top: `${pixelPosition.y}px`,
-        transform: `translate(-50%, -50%) scale(${scale.width}, ${scale.height}) rotate(${rotation}deg)`,
-        transformOrigin: 'center center',
-      }}
+      style={getTransformStyle(transform)}
       onClick={handleClick}
     >
       {/* Main content */}
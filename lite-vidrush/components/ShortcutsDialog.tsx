@@ -0,0 +1,139 @@
+/**
+ * ShortcutsDialog Component
+ * Lists every command with its key bindings and lets the user remap them
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  assignKey,
+  COMMANDS,
+  CommandCategory,
+  CommandId,
+  findCommand,
+  formatKeyCombo,
+  getDefaultKeymap,
+  getKeyCombo,
+  Keymap,
+  removeKey,
+} from '@/lib/keymap';
+import { cn } from '@/lib/utils';
+import { Button } from './ui/Button';
+import { Plus, X } from 'lucide-react';
+
+interface ShortcutsDialogProps {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+const CATEGORIES: CommandCategory[] = ['Playback', 'Marks', 'Selection', 'Editing', 'Tools', 'View', 'Help'];
+
+export const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ keymap, onChange, onClose }) => {
+  const [recording, setRecording] = useState<CommandId | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+  // Capture the next key press while recording; Escape cancels or closes
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        if (recording) setRecording(null);
+        else onClose();
+        return;
+      }
+      if (!recording) return;
+
+      const combo = getKeyCombo(event);
+      if (!combo) return;
+      event.preventDefault();
+      event.stopPropagation();
+
+      const previous = findCommand(keymap, combo);
+      setNotice(
+        previous && previous !== recording
+          ? `${formatKeyCombo(combo, isMac)} was moved from "${COMMANDS.find(c => c.id === previous)!.label}"`
+          : null
+      );
+      onChange(assignKey(keymap, recording, combo));
+      setRecording(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, keymap, onChange, onClose, isMac]);
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg p-6 w-full max-w-2xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium">Keyboard Shortcuts</h3>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X size={16} />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-2">
+          {CATEGORIES.map(category => (
+            <div key={category}>
+              <div className="text-xs uppercase tracking-wide text-gray-500 mb-1">{category}</div>
+              {COMMANDS.filter(command => command.category === category).map(command => (
+                <div key={command.id} className="flex items-center justify-between py-1 text-sm">
+                  <span className="text-gray-300">{command.label}</span>
+                  <div className="flex items-center gap-1">
+                    {keymap[command.id].map(combo => (
+                      <span
+                        key={combo}
+                        className="flex items-center gap-1 px-2 py-0.5 bg-gray-700 rounded font-mono text-xs text-white"
+                      >
+                        {formatKeyCombo(combo, isMac)}
+                        <button
+                          className="text-gray-500 hover:text-red-400"
+                          title="Remove binding"
+                          onClick={() => onChange(removeKey(keymap, command.id, combo))}
+                        >
+                          <X size={10} />
+                        </button>
+                      </span>
+                    ))}
+                    <button
+                      className={cn(
+                        'px-2 py-0.5 rounded text-xs',
+                        recording === command.id
+                          ? 'bg-blue-600 text-white'
+                          : 'text-gray-500 hover:text-white hover:bg-gray-700'
+                      )}
+                      title="Add binding"
+                      onClick={() => setRecording(recording === command.id ? null : command.id)}
+                    >
+                      {recording === command.id ? 'Press keys…' : <Plus size={12} />}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-700">
+          <span className="text-xs text-gray-400">
+            {notice ?? 'Shortcuts are ignored while typing in a text field'}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setNotice(null);
+              onChange(getDefaultKeymap());
+            }}
+          >
+            Reset to defaults
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
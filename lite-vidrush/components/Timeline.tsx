@@ -3,35 +3,65 @@
  * Main timeline view showing clips and text overlays
  */
 
-import React, { useRef, useCallback, useEffect } from 'react';
+import React, { useRef, useCallback, useEffect, useState } from 'react';
 import { useEditorStore } from '@/lib/store';
-import { ClipItem } from './ClipItem';
-import { framesToTime } from '@/lib/utils';
+import { TrackRow } from './TrackRow';
+import { TimelineTool } from './ClipItem';
+import { cn, framesToTime } from '@/lib/utils';
+import { getItemsInRange, getTracksInOrder, SelectionMode } from '@/lib/timelineOps';
+import { useCommand } from '@/lib/commands';
+import { createSnapContext, getRulerInterval, snapFrame } from '@/lib/snapping';
 import { Button } from '@/components/ui/Button';
-import { Plus, Minus, Maximize2, Minimize2, RotateCcw, ZoomIn, ZoomOut, Move } from 'lucide-react';
+import { Plus, Minus, Maximize2, Minimize2, RotateCcw, ZoomIn, ZoomOut, Move, MousePointer2, Scissors, ChevronsLeftRight, MoveHorizontal, Columns2, Magnet } from 'lucide-react';
 
 export const Timeline: React.FC = () => {
   const {
+    tracks,
     media,
     texts,
+    transitions,
     playhead,
     duration,
     frameRate,
     zoom,
     setPlayhead,
     selectItem,
+    selectItems,
     extendTimeline,
     shrinkTimeline,
     fitTimelineToContent,
     autoAdjustTimeline,
     getTimelineDuration,
     setZoom,
+    addTrack,
+    seekTo,
+    markIn,
+    markOut,
   } = useEditorStore();
 
+  // Tracks top to bottom (order 0 is the top layer)
+  const orderedTracks = getTracksInOrder({ tracks });
+
   // Separate media clips by type
   const videoClips = media.filter(clip => clip.type === 'video' || clip.type === 'image');
   const audioClips = media.filter(clip => clip.type === 'audio');
 
+  // Razor mode: clicking a clip cuts it at the pointer instead of selecting it.
+  // Slip, slide and roll modes: dragging a clip (or its edge, to roll) edits it
+  // against its source and neighbours
+  const [tool, setTool] = useState<TimelineTool>('select');
+  const [snapping, setSnapping] = useState(true);
+  const [snapGuide, setSnapGuide] = useState<number | null>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+
+  // Marquee selection: drag on the timeline background to select the items
+  // it touches (Shift adds to the selection, Ctrl/Cmd toggles)
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [marquee, setMarquee] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+  const marqueeStartRef = useRef<{ x: number; y: number; mode: SelectionMode } | null>(null);
+  // Set when a marquee ends, so its closing click doesn't move the playhead
+  const marqueeUsedRef = useRef(false);
+
   const timelineRef = useRef<HTMLDivElement>(null);
   const timelineContainerRef = useRef<HTMLDivElement>(null);
   const pixelsPerFrame = zoom * 2; // Base scale: 2 pixels per frame
@@ -95,63 +125,153 @@ export const Timeline: React.FC = () => {
     }
   }, [contentDuration, pixelsPerFrame, hasContent, scrollToFrame]);
 
-  // Keyboard navigation support
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (!timelineContainerRef.current) return;
-
-      // Only handle keys when timeline is focused or no input is focused
-      const activeElement = document.activeElement;
-      const isInputFocused = activeElement?.tagName === 'INPUT' || activeElement?.tagName === 'TEXTAREA';
-
-      if (isInputFocused) return;
-
-      switch (e.key) {
-        case 'Home':
-          e.preventDefault();
-          scrollToFrame(0);
-          break;
-        case 'End':
-          e.preventDefault();
-          if (hasContent) scrollToFrame(contentDuration);
-          break;
-        case 'f':
-          if (e.ctrlKey || e.metaKey) {
-            e.preventDefault();
-            if (hasContent) zoomToFit();
-          }
-          break;
-        case 'g':
-          if (e.ctrlKey || e.metaKey) {
-            e.preventDefault();
-            scrollToPlayhead();
-          }
-          break;
-      }
-    };
+  // Timeline navigation commands (see lib/keymap.ts for their bindings)
+  useCommand('goToStart', () => {
+    seekTo(0);
+    scrollToFrame(0);
+  });
+  useCommand('goToEnd', () => {
+    seekTo(contentDuration);
+    if (hasContent) scrollToFrame(contentDuration);
+  });
+  useCommand('zoomToFit', zoomToFit);
+  useCommand('scrollToPlayhead', scrollToPlayhead);
+  useCommand('selectTool', () => setTool('select'));
+  useCommand('razorTool', () => setTool('razor'));
+  useCommand('slipTool', () => setTool('slip'));
+  useCommand('slideTool', () => setTool('slide'));
+  useCommand('rollTool', () => setTool('roll'));
+  useCommand('toggleSnapping', () => setSnapping((on) => !on));
+
+  // Playhead frame under the pointer, snapped to edges and marks unless
+  // snapping is off or Alt is held
+  const getPointerFrame = useCallback((e: { clientX: number; altKey: boolean }) => {
+    if (!timelineRef.current) return null;
 
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [hasContent, contentDuration, scrollToFrame, zoomToFit, scrollToPlayhead]);
+    const rect = timelineRef.current.getBoundingClientRect();
+    const frame = Math.floor((e.clientX - rect.left) / pixelsPerFrame);
+    const snapped = snapping && !e.altKey
+      ? snapFrame(
+        createSnapContext(useEditorStore.getState(), { pixelsPerFrame, includePlayhead: false }),
+        frame
+      )
+      : null;
+    setSnapGuide(snapped ? snapped.frame : null);
+    return Math.max(0, Math.min(snapped ? snapped.frame : frame, duration));
+  }, [pixelsPerFrame, snapping, duration]);
 
   // Handle timeline click to move playhead
   const handleTimelineClick = (e: React.MouseEvent) => {
-    if (!timelineRef.current) return;
-
-    const rect = timelineRef.current.getBoundingClientRect();
-    const clickX = e.clientX - rect.left;
-    const newFrame = Math.floor(clickX / pixelsPerFrame);
+    if (marqueeUsedRef.current) {
+      marqueeUsedRef.current = false;
+      return;
+    }
+    const newFrame = getPointerFrame(e);
+    setSnapGuide(null);
+    if (newFrame === null) return;
 
-    setPlayhead(Math.max(0, Math.min(newFrame, duration)));
+    setPlayhead(newFrame);
     selectItem(null); // Deselect any selected item
   };
 
+  // Drag along the ruler to scrub the playhead
+  useEffect(() => {
+    if (!isScrubbing) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const frame = getPointerFrame(e);
+      if (frame !== null) seekTo(frame);
+    };
+    const handleMouseUp = () => {
+      setIsScrubbing(false);
+      setSnapGuide(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isScrubbing, getPointerFrame, seekTo]);
+
+  // Start a marquee on the background; items, buttons and track controls handle their own presses
+  const handleTimelineMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || !timelineRef.current) return;
+    if ((e.target as HTMLElement).closest('[data-item-id], button')) return;
+
+    e.preventDefault();
+    const rect = timelineRef.current.getBoundingClientRect();
+    marqueeStartRef.current = {
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+      mode: e.ctrlKey || e.metaKey ? 'toggle' : e.shiftKey ? 'add' : 'replace',
+    };
+    marqueeUsedRef.current = false;
+    setIsSelecting(true);
+  };
+
+  useEffect(() => {
+    if (!isSelecting) return;
+
+    // Marquee box in timeline content coordinates; tiny boxes are plain clicks
+    const getBox = (e: MouseEvent) => {
+      const start = marqueeStartRef.current;
+      const rect = timelineRef.current?.getBoundingClientRect();
+      if (!start || !rect) return null;
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      const box = {
+        left: Math.min(start.x, x),
+        top: Math.min(start.y, y),
+        width: Math.abs(x - start.x),
+        height: Math.abs(y - start.y),
+      };
+      return box.width < 4 && box.height < 4 ? null : box;
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      setMarquee(getBox(e));
+    };
+    const handleMouseUp = (e: MouseEvent) => {
+      const box = getBox(e);
+      setIsSelecting(false);
+      setMarquee(null);
+      if (!box || !timelineRef.current || !marqueeStartRef.current) return;
+
+      // Tracks whose rows the box crosses
+      const rect = timelineRef.current.getBoundingClientRect();
+      const trackIds = Array.from(timelineRef.current.querySelectorAll('[data-track-id]'))
+        .filter((row) => {
+          const rowRect = row.getBoundingClientRect();
+          return rowRect.top - rect.top < box.top + box.height && rowRect.bottom - rect.top > box.top;
+        })
+        .map((row) => row.getAttribute('data-track-id')!);
+
+      const ids = getItemsInRange(
+        useEditorStore.getState(),
+        Math.floor(box.left / pixelsPerFrame),
+        Math.floor((box.left + box.width) / pixelsPerFrame),
+        trackIds
+      );
+      selectItems(ids, marqueeStartRef.current.mode);
+      marqueeUsedRef.current = true;
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isSelecting, pixelsPerFrame, selectItems]);
+
   // Generate time markers
   const generateTimeMarkers = () => {
     const markers = [];
-    const markerInterval = Math.max(1, Math.floor(30 / zoom)); // Adjust based on zoom
+    const markerInterval = getRulerInterval(zoom, frameRate); // Adjust based on zoom
 
-    for (let frame = 0; frame <= duration; frame += markerInterval * frameRate) {
+    for (let frame = 0; frame <= duration; frame += markerInterval) {
       markers.push(
         <div
           key={frame}
@@ -174,9 +294,29 @@ export const Timeline: React.FC = () => {
       {/* Timeline header with time markers */}
       <div className="h-8 bg-gray-800 border-b border-gray-700 relative">
         <div
-          className="relative h-full"
+          className="relative h-full cursor-ew-resize"
           style={{ width: `${Math.max(timelineWidth, minTimelineWidth)}px` }}
+          onMouseDown={(e) => {
+            e.preventDefault();
+            const frame = getPointerFrame(e);
+            if (frame !== null) seekTo(frame);
+            setIsScrubbing(true);
+          }}
         >
+          {/* In/out range; an open end runs to the timeline's edge */}
+          {(markIn !== undefined || markOut !== undefined) && (
+            <div
+              className={cn(
+                'absolute top-0 bottom-0 bg-blue-500/20 pointer-events-none',
+                markIn !== undefined && 'border-l-2 border-blue-400',
+                markOut !== undefined && 'border-r-2 border-blue-400'
+              )}
+              style={{
+                left: `${(markIn ?? 0) * pixelsPerFrame}px`,
+                width: `${((markOut ?? duration) - (markIn ?? 0)) * pixelsPerFrame}px`,
+              }}
+            />
+          )}
           {generateTimeMarkers()}
         </div>
       </div>
@@ -187,6 +327,7 @@ export const Timeline: React.FC = () => {
         className="relative cursor-crosshair"
         style={{ width: `${Math.max(timelineWidth, minTimelineWidth)}px` }}
         onClick={handleTimelineClick}
+        onMouseDown={handleTimelineMouseDown}
       >
         {/* Background grid */}
         <div className="absolute inset-0 opacity-10">
@@ -212,58 +353,40 @@ export const Timeline: React.FC = () => {
           </div>
         )}
 
-        {/* Video Track (Video + Images) */}
-        <div className="relative h-16 bg-gray-800/50 border-b border-gray-700">
-          <div className="absolute left-2 top-2 text-xs text-gray-400 font-medium flex items-center gap-2">
-            <div className="w-3 h-3 bg-blue-500 rounded"></div>
+        {/* Tracks */}
+        {orderedTracks.map((track, index) => (
+          <TrackRow
+            key={track.id}
+            track={track}
+            index={index}
+            trackCount={orderedTracks.length}
+            clips={media.filter(clip => clip.trackId === track.id)}
+            texts={texts.filter(text => text.trackId === track.id)}
+            transitions={transitions.filter(transition => transition.trackId === track.id)}
+            pixelsPerFrame={pixelsPerFrame}
+            tool={tool}
+            snapping={snapping}
+            onSnap={setSnapGuide}
+          />
+        ))}
+
+        {/* Add track */}
+        <div
+          className="relative h-8 flex items-center gap-2 px-2 border-b border-gray-700"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Button variant="ghost" size="sm" className="px-2 py-1 h-6 text-xs" onClick={() => addTrack('video')}>
+            <Plus size={12} />
             Video Track
-          </div>
-          <div className="relative mt-6">
-            {videoClips.map((clip) => (
-              <ClipItem
-                key={clip.id}
-                item={clip}
-                type="clip"
-                pixelsPerFrame={pixelsPerFrame}
-              />
-            ))}
-          </div>
-        </div>
-
-        {/* Audio Track */}
-        <div className="relative h-16 bg-gray-800/40 border-b border-gray-700">
-          <div className="absolute left-2 top-2 text-xs text-gray-400 font-medium flex items-center gap-2">
-            <div className="w-3 h-3 bg-green-500 rounded"></div>
+          </Button>
+          <Button variant="ghost" size="sm" className="px-2 py-1 h-6 text-xs" onClick={() => addTrack('audio')}>
+            <Plus size={12} />
             Audio Track
-          </div>
-          <div className="relative mt-6">
-            {audioClips.map((clip) => (
-              <ClipItem
-                key={clip.id}
-                item={clip}
-                type="clip"
-                pixelsPerFrame={pixelsPerFrame}
-              />
-            ))}
-          </div>
-        </div>
-
-        {/* Text Track */}
-        <div className="relative h-16 bg-gray-800/30 border-b border-gray-700">
-          <div className="absolute left-2 top-2 text-xs text-gray-400 font-medium flex items-center gap-2">
-            <div className="w-3 h-3 bg-purple-500 rounded"></div>
+          </Button>
+          <Button variant="ghost" size="sm" className="px-2 py-1 h-6 text-xs" onClick={() => addTrack('text')}>
+            <Plus size={12} />
             Text Track
-          </div>
-          <div className="relative mt-6">
-            {texts.map((text) => (
-              <ClipItem
-                key={text.id}
-                item={text}
-                type="text"
-                pixelsPerFrame={pixelsPerFrame}
-              />
-            ))}
-          </div>
+          </Button>
         </div>
 
         {/* Content End Indicator */}
@@ -278,6 +401,22 @@ export const Timeline: React.FC = () => {
           </div>
         )}
 
+        {/* Marquee selection */}
+        {marquee && (
+          <div
+            className="absolute border border-blue-300 bg-blue-400/10 pointer-events-none z-20"
+            style={{ left: marquee.left, top: marquee.top, width: marquee.width, height: marquee.height }}
+          />
+        )}
+
+        {/* Snap guide */}
+        {snapGuide !== null && (
+          <div
+            className="absolute top-0 bottom-0 w-px bg-cyan-300 pointer-events-none z-20"
+            style={{ left: `${snapGuide * pixelsPerFrame}px` }}
+          />
+        )}
+
         {/* Playhead */}
         <div
           className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none z-10"
@@ -285,34 +424,66 @@ export const Timeline: React.FC = () => {
         >
           <div className="absolute -top-2 -left-2 w-4 h-4 bg-red-500 transform rotate-45" />
         </div>
-
-        {/* Drop zones for new clips - TODO: Implement drag and drop */}
-        <div className="absolute inset-0 pointer-events-none">
-          {/* Video drop zone */}
-          <div className="absolute top-6 left-0 right-0 h-12 border-2 border-dashed border-blue-600/30 opacity-0 hover:opacity-50 transition-opacity">
-            <div className="flex items-center justify-center h-full text-gray-400 text-sm">
-              Drop video/image files here
-            </div>
-          </div>
-
-          {/* Audio drop zone */}
-          <div className="absolute top-22 left-0 right-0 h-12 border-2 border-dashed border-green-600/30 opacity-0 hover:opacity-50 transition-opacity">
-            <div className="flex items-center justify-center h-full text-gray-400 text-sm">
-              Drop audio files here
-            </div>
-          </div>
-
-          {/* Text drop zone */}
-          <div className="absolute top-38 left-0 right-0 h-12 border-2 border-dashed border-purple-600/30 opacity-0 hover:opacity-50 transition-opacity">
-            <div className="flex items-center justify-center h-full text-gray-400 text-sm">
-              Drop text overlays here
-            </div>
-          </div>
-        </div>
       </div>
 
       {/* Timeline controls */}
       <div className="h-8 bg-gray-800 border-t border-gray-700 flex items-center px-4 space-x-4">
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setTool('select')}
+            className={cn('px-1 py-1 h-6 w-6', tool === 'select' && 'bg-gray-700 text-white')}
+            title="Selection tool (V)"
+          >
+            <MousePointer2 size={12} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setTool('razor')}
+            className={cn('px-1 py-1 h-6 w-6', tool === 'razor' && 'bg-gray-700 text-white')}
+            title="Razor tool (C) - click a clip to cut it"
+          >
+            <Scissors size={12} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setTool('slip')}
+            className={cn('px-1 py-1 h-6 w-6', tool === 'slip' && 'bg-gray-700 text-white')}
+            title="Slip tool (Y) - drag a clip to change which part of its source plays"
+          >
+            <ChevronsLeftRight size={12} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setTool('slide')}
+            className={cn('px-1 py-1 h-6 w-6', tool === 'slide' && 'bg-gray-700 text-white')}
+            title="Slide tool (U) - drag a clip between its neighbours"
+          >
+            <MoveHorizontal size={12} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setTool('roll')}
+            className={cn('px-1 py-1 h-6 w-6', tool === 'roll' && 'bg-gray-700 text-white')}
+            title="Roll tool (N) - drag a clip's edge to move the cut with its neighbour"
+          >
+            <Columns2 size={12} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSnapping(!snapping)}
+            className={cn('px-1 py-1 h-6 w-6', snapping && 'bg-gray-700 text-cyan-300')}
+            title={`Snapping ${snapping ? 'on' : 'off'} (S) - hold Alt while dragging to skip it`}
+          >
+            <Magnet size={12} />
+          </Button>
+        </div>
         <div className="flex items-center space-x-2">
           <span className="text-xs text-gray-400">Zoom:</span>
           <Button
@@ -509,11 +680,6 @@ export const Timeline: React.FC = () => {
 
 // TODO: Implement the following features:
 // - Drag and drop support for reordering clips
-// - Multiple video/audio tracks
 // - Track height adjustment
 // - Timeline minimap for navigation
-// - Snap to grid functionality
-// - Keyboard shortcuts (arrow keys, delete, etc.)
 // - Context menu for timeline operations
-// - Waveform visualization for audio clips
-// - Thumbnail previews for video clips
@@ -0,0 +1,204 @@
+/**
+ * TrackRow Component
+ * A single timeline track with its header controls and items
+ */
+
+import React from 'react';
+import { Clip, TextOverlay, Track, Transition } from '@/lib/types';
+import { useEditorStore } from '@/lib/store';
+import { cn } from '@/lib/utils';
+import { ClipItem, TimelineTool } from './ClipItem';
+import { getTransitionClips, getTransitionErrors, getTransitionWindow } from '@/lib/transitions';
+import {
+  Volume2,
+  VolumeX,
+  Headphones,
+  Lock,
+  Unlock,
+  Eye,
+  EyeOff,
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+} from 'lucide-react';
+
+interface TrackRowProps {
+  track: Track;
+  index: number; // Position in the stacking order (0 = top)
+  trackCount: number;
+  clips: Clip[];
+  texts: TextOverlay[];
+  transitions: Transition[]; // Transitions on this track
+  pixelsPerFrame: number;
+  tool?: TimelineTool; // Active timeline tool
+  snapping?: boolean;
+  onSnap?: (frame: number | null) => void; // Snap guide position while an item snaps
+}
+
+const TRACK_COLORS: Record<Track['kind'], string> = {
+  video: 'bg-blue-500',
+  audio: 'bg-green-500',
+  text: 'bg-purple-500',
+};
+
+interface TrackToggleProps {
+  active: boolean;
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+const TrackToggle: React.FC<TrackToggleProps> = ({ active, title, onClick, children }) => (
+  <button
+    className={cn(
+      'p-0.5 rounded hover:bg-gray-700',
+      active ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'
+    )}
+    title={title}
+    onClick={onClick}
+  >
+    {children}
+  </button>
+);
+
+export const TrackRow: React.FC<TrackRowProps> = ({
+  track,
+  index,
+  trackCount,
+  clips,
+  texts,
+  transitions,
+  pixelsPerFrame,
+  tool = 'select',
+  snapping = false,
+  onSnap,
+}) => {
+  const { updateTrack, reorderTracks, removeTrack } = useEditorStore();
+  const itemCount = clips.length + texts.length;
+
+  const handleRemove = () => {
+    if (itemCount > 0 && !confirm(`Delete "${track.name}" and its ${itemCount} item(s)?`)) return;
+    removeTrack(track.id);
+  };
+
+  return (
+    <div
+      data-track-id={track.id}
+      className={cn(
+        'relative h-16 bg-gray-800/40 border-b border-gray-700',
+        track.hidden && 'opacity-50'
+      )}
+    >
+      {/* Track header - clicks here must not move the playhead */}
+      <div
+        className="absolute left-2 top-1 z-20 text-xs text-gray-400 font-medium flex items-center gap-1"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={cn('w-3 h-3 rounded', TRACK_COLORS[track.kind])}></div>
+        <span className="mr-1">{track.name}</span>
+
+        {track.kind !== 'text' && (
+          <>
+            <TrackToggle
+              active={track.muted}
+              title={track.muted ? 'Unmute track' : 'Mute track'}
+              onClick={() => updateTrack(track.id, { muted: !track.muted })}
+            >
+              {track.muted ? <VolumeX size={12} /> : <Volume2 size={12} />}
+            </TrackToggle>
+            <TrackToggle
+              active={track.solo}
+              title={track.solo ? 'Unsolo track' : 'Solo track'}
+              onClick={() => updateTrack(track.id, { solo: !track.solo })}
+            >
+              <Headphones size={12} />
+            </TrackToggle>
+          </>
+        )}
+        <TrackToggle
+          active={track.locked}
+          title={track.locked ? 'Unlock track' : 'Lock track'}
+          onClick={() => updateTrack(track.id, { locked: !track.locked })}
+        >
+          {track.locked ? <Lock size={12} /> : <Unlock size={12} />}
+        </TrackToggle>
+        <TrackToggle
+          active={track.hidden}
+          title={track.hidden ? 'Show track' : 'Hide track'}
+          onClick={() => updateTrack(track.id, { hidden: !track.hidden })}
+        >
+          {track.hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+        </TrackToggle>
+
+        <TrackToggle
+          active={false}
+          title="Move track up"
+          onClick={() => index > 0 && reorderTracks(index, index - 1)}
+        >
+          <ChevronUp size={12} />
+        </TrackToggle>
+        <TrackToggle
+          active={false}
+          title="Move track down"
+          onClick={() => index < trackCount - 1 && reorderTracks(index, index + 1)}
+        >
+          <ChevronDown size={12} />
+        </TrackToggle>
+        {!track.locked && (
+          <TrackToggle active={false} title="Delete track" onClick={handleRemove}>
+            <Trash2 size={12} />
+          </TrackToggle>
+        )}
+      </div>
+
+      <div className="relative mt-6">
+        {clips.map((clip) => (
+          <ClipItem
+            key={clip.id}
+            item={clip}
+            type="clip"
+            pixelsPerFrame={pixelsPerFrame}
+            locked={track.locked}
+            tool={tool}
+            snapping={snapping}
+            onSnap={onSnap}
+          />
+        ))}
+        {texts.map((text) => (
+          <ClipItem
+            key={text.id}
+            item={text}
+            type="text"
+            pixelsPerFrame={pixelsPerFrame}
+            locked={track.locked}
+            tool={tool}
+            snapping={snapping}
+            onSnap={onSnap}
+          />
+        ))}
+
+        {/* Transition markers spanning the frames each transition covers (red when invalid) */}
+        {transitions.map((transition) => {
+          const transitionClips = getTransitionClips({ media: clips }, transition);
+          if (!transitionClips) return null;
+
+          const window = getTransitionWindow(transitionClips.from.endFrame, transition.duration, transition.alignment);
+          const errors = getTransitionErrors({ media: clips, tracks: [track], transitions }, transition);
+          return (
+            <div
+              key={transition.id}
+              className={cn(
+                'absolute top-0 h-12 z-10 pointer-events-none border-x-2 bg-white/20',
+                errors.length > 0 ? 'border-red-500' : 'border-white/70'
+              )}
+              style={{
+                left: `${window.start * pixelsPerFrame}px`,
+                width: `${(window.end - window.start) * pixelsPerFrame}px`,
+              }}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+};
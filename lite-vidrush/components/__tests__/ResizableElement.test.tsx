@@ -0,0 +1,60 @@
+/**
+ * Unit tests for the on-canvas ResizableElement handles
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { ResizableElement } from '../ResizableElement';
+import { useEditorStore } from '@/lib/store';
+
+// 100px canvas, so pixel deltas are percent
+const SIZE = 100;
+
+function addAnimatedClip() {
+  const { addClip, addKeyframe } = useEditorStore.getState();
+  addClip({ trackId: 'video-1', src: 'a.png', startFrame: 0, endFrame: 100, type: 'image' });
+  const { id } = useEditorStore.getState().media[0];
+  addKeyframe(id, 'position.x', 0, 20);
+  addKeyframe(id, 'position.x', 100, 80);
+  return id;
+}
+
+function renderClip(id: string) {
+  const clip = useEditorStore.getState().media.find(c => c.id === id)!;
+  return render(
+    <ResizableElement item={clip} containerWidth={SIZE} containerHeight={SIZE}>
+      <div>clip</div>
+    </ResizableElement>
+  );
+}
+
+describe('ResizableElement', () => {
+  beforeEach(() => {
+    act(() => {
+      useEditorStore.getState().resetState();
+    });
+  });
+
+  it('should draw keyframed items at their value at the playhead', () => {
+    const id = addAnimatedClip();
+    useEditorStore.setState({ playhead: 50 });
+    const { container } = renderClip(id);
+
+    expect((container.firstChild as HTMLElement).style.left).toBe('50%');
+  });
+
+  it('should set a keyframe at the playhead when moving an animated property', () => {
+    const id = addAnimatedClip();
+    useEditorStore.setState({ playhead: 50, selectedIds: [id] });
+    renderClip(id);
+
+    fireEvent.mouseDown(screen.getByText('clip'), { clientX: 0, clientY: 0 });
+    fireEvent.mouseMove(document, { clientX: 10, clientY: 5 });
+    fireEvent.mouseUp(document);
+
+    const clip = useEditorStore.getState().media[0];
+    expect(clip.keyframes?.['position.x']?.map(k => [k.frame, k.value])).toEqual([[0, 20], [50, 60], [100, 80]]);
+    expect(clip.position).toEqual({ x: 50, y: 55 });
+    expect(useEditorStore.getState().history.past.at(-1)?.label).toBe('Move element');
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Server startup hook
+ * Builds the Remotion bundle in the background so the first render doesn't wait for it
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { warmBundleCache } = await import('./lib/renderer');
+    void warmBundleCache();
+  }
+}
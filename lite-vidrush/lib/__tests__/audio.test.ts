@@ -0,0 +1,149 @@
+/**
+ * Unit tests for clip gain (envelope and fades) and stereo pan
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clampEnvelopeFrame,
+  getCombinedPanMatrix,
+  getClipFades,
+  getClipGain,
+  getEnvelopePoints,
+  getFadeGain,
+  getPanFilter,
+  getStereoPanMatrix,
+} from '../audio';
+import { Clip } from '../types';
+
+const clip: Clip = {
+  id: 'clip1',
+  trackId: 'audio-1',
+  src: 'music.mp3',
+  startFrame: 100,
+  endFrame: 200,
+  order: 0,
+  type: 'audio',
+  fadeIn: 20,
+  fadeOut: 40,
+};
+
+// Envelope from full volume at frame 0 down to silence at frame 50
+const withEnvelope: Clip = {
+  ...clip,
+  fadeIn: 0,
+  fadeOut: 0,
+  keyframes: {
+    volume: [
+      { id: 'k1', frame: 0, value: 1, easing: 'linear' },
+      { id: 'k2', frame: 50, value: 0, easing: 'linear' },
+    ],
+  },
+};
+
+describe('getClipFades', () => {
+  it('should shorten fades that overlap', () => {
+    expect(getClipFades({ ...clip, fadeIn: 80, fadeOut: 80 })).toEqual({ fadeIn: 80, fadeOut: 20 });
+    expect(getClipFades({ ...clip, fadeIn: undefined, fadeOut: undefined })).toEqual({ fadeIn: 0, fadeOut: 0 });
+  });
+});
+
+describe('getFadeGain', () => {
+  it('should ramp in and out linearly', () => {
+    expect(getFadeGain(clip, 0)).toBe(0);
+    expect(getFadeGain(clip, 10)).toBe(0.5);
+    expect(getFadeGain(clip, 50)).toBe(1);
+    expect(getFadeGain(clip, 80)).toBe(0.5);
+    expect(getFadeGain(clip, 100)).toBe(0);
+  });
+
+  it('should hold the edge gain in transition handles', () => {
+    expect(getFadeGain(clip, -10)).toBe(0);
+    expect(getFadeGain({ ...clip, fadeIn: 0 }, -10)).toBe(1);
+  });
+});
+
+describe('getClipGain', () => {
+  it('should multiply the volume envelope with the fades', () => {
+    expect(getClipGain(withEnvelope, 25)).toBe(0.5);
+    expect(getClipGain({ ...withEnvelope, fadeIn: 50 }, 25)).toBe(0.25);
+  });
+
+  it('should keep an explicit volume of zero silent', () => {
+    expect(getClipGain({ ...clip, volume: 0, fadeIn: 0, fadeOut: 0 }, 50)).toBe(0);
+  });
+});
+
+describe('getEnvelopePoints', () => {
+  it('should sample the envelope once per frame when zoomed in', () => {
+    const points = getEnvelopePoints(withEnvelope, 4);
+    expect(points).toHaveLength(101);
+    expect(points[25]).toEqual([100, 0.5]);
+    expect(points[100]).toEqual([400, 0]);
+  });
+
+  it('should sample every few pixels when zoomed out', () => {
+    const points = getEnvelopePoints(withEnvelope, 0.5);
+    // Every 6 frames, plus the clip's end
+    expect(points).toHaveLength(18);
+    expect(points[1][0]).toBe(3);
+  });
+});
+
+describe('clampEnvelopeFrame', () => {
+  it('should keep points between their neighbours', () => {
+    expect(clampEnvelopeFrame(withEnvelope, 'k1', 70)).toBe(49);
+    expect(clampEnvelopeFrame(withEnvelope, 'k1', -5)).toBe(0);
+    expect(clampEnvelopeFrame(withEnvelope, 'k2', 0)).toBe(1);
+    expect(clampEnvelopeFrame(withEnvelope, 'k2', 500)).toBe(100);
+  });
+});
+
+describe('getStereoPanMatrix', () => {
+  it('should pass stereo through at center', () => {
+    const [ll, lr, rl, rr] = getStereoPanMatrix(0);
+    expect([ll, rl, rr]).toEqual([1, 0, 1]);
+    expect(lr).toBeCloseTo(0);
+  });
+
+  it('should move the right channel left when panned hard left', () => {
+    const [ll, lr, rl, rr] = getStereoPanMatrix(-1);
+    expect([ll, lr, rl]).toEqual([1, 1, 0]);
+    expect(rr).toBeCloseTo(0);
+  });
+
+  it('should use equal power for partial pans', () => {
+    const [ll, , rl, rr] = getStereoPanMatrix(0.5);
+    expect(ll).toBeCloseTo(Math.SQRT1_2);
+    expect(rl).toBeCloseTo(Math.SQRT1_2);
+    expect(rr).toBe(1);
+  });
+});
+
+describe('getCombinedPanMatrix', () => {
+  it('should match the clip pan alone when the track is centered', () => {
+    const [ll, lr, rl, rr] = getCombinedPanMatrix(0.5);
+    const [el, elr, erl, err] = getStereoPanMatrix(0.5);
+    expect(ll).toBeCloseTo(el);
+    expect(lr).toBeCloseTo(elr);
+    expect(rl).toBeCloseTo(erl);
+    expect(rr).toBeCloseTo(err);
+  });
+
+  it('should apply the track pan after the clip pan', () => {
+    // Hard left then hard right leaves nothing on the left
+    const [ll, lr, rl, rr] = getCombinedPanMatrix(-1, 1);
+    expect(ll).toBeCloseTo(0);
+    expect(lr).toBeCloseTo(0);
+    expect([rl, rr]).toEqual([1, 1]);
+  });
+});
+
+describe('getPanFilter', () => {
+  it('should build an ffmpeg pan filter from the matrix', () => {
+    expect(getPanFilter(-1)).toBe('aformat=channel_layouts=stereo,pan=stereo|c0=1*c0+1*c1|c1=0*c0+0*c1');
+    expect(getPanFilter(0.5)).toBe(
+      'aformat=channel_layouts=stereo,pan=stereo|c0=0.707107*c0+0*c1|c1=0.707107*c0+1*c1'
+    );
+    expect(getPanFilter(0, -1)).toBe('aformat=channel_layouts=stereo,pan=stereo|c0=1*c0+1*c1|c1=0*c0+0*c1');
+  });
+});
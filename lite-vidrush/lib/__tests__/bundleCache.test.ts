@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the Remotion bundle cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createBundleCache, hashSources } from '../bundleCache';
+
+describe('Bundle Cache', () => {
+  let tempDir: string;
+  let sources: string[];
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vidrush-bundle-'));
+    await fs.mkdir(path.join(tempDir, 'remotion'));
+    await fs.writeFile(path.join(tempDir, 'remotion', 'index.tsx'), 'export const a = 1;');
+    await fs.writeFile(path.join(tempDir, 'types.ts'), 'export type A = number;');
+    sources = [path.join(tempDir, 'remotion'), path.join(tempDir, 'types.ts')];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  // Each build gets its own output directory, like Remotion's bundler
+  function createBuilder() {
+    let count = 0;
+    return vi.fn(async (onProgress: (progress: number) => void) => {
+      const location = path.join(tempDir, `bundle-${++count}`);
+      await fs.mkdir(location);
+      onProgress(1);
+      return location;
+    });
+  }
+
+  it('should change the hash when a source file changes', async () => {
+    const before = await hashSources(sources);
+    expect(await hashSources(sources)).toBe(before);
+
+    await fs.writeFile(path.join(tempDir, 'remotion', 'index.tsx'), 'export const a = 2;');
+    expect(await hashSources(sources)).not.toBe(before);
+  });
+
+  it('should change the hash when a file is added', async () => {
+    const before = await hashSources(sources);
+    await fs.writeFile(path.join(tempDir, 'remotion', 'Extra.tsx'), '');
+    expect(await hashSources(sources)).not.toBe(before);
+  });
+
+  it('should reuse the bundle while the sources are unchanged', async () => {
+    const build = createBuilder();
+    const cache = createBundleCache({ sources, build });
+
+    expect(await cache.getStatus()).toBe('miss');
+    const first = await cache.getBundle();
+    expect(await cache.getStatus()).toBe('hit');
+    const second = await cache.getBundle();
+
+    expect(first.status).toBe('miss');
+    expect(second).toMatchObject({ location: first.location, status: 'hit' });
+    expect(build).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rebuild and remove the old bundle when the sources change', async () => {
+    const build = createBuilder();
+    const cache = createBundleCache({ sources, build });
+
+    const first = await cache.getBundle();
+    await first.release();
+    await fs.writeFile(path.join(tempDir, 'types.ts'), 'export type A = string;');
+    expect(await cache.getStatus()).toBe('miss');
+
+    const second = await cache.getBundle();
+    expect(second.status).toBe('miss');
+    expect(second.location).not.toBe(first.location);
+    await expect(fs.access(first.location)).rejects.toThrow();
+  });
+
+  it('should keep an outdated bundle until the renders using it release it', async () => {
+    const build = createBuilder();
+    const cache = createBundleCache({ sources, build });
+
+    const running = await cache.getBundle();
+    const queued = await cache.getBundle();
+    await fs.writeFile(path.join(tempDir, 'types.ts'), 'export type A = string;');
+    await cache.getBundle();
+
+    await running.release();
+    await running.release(); // Releasing twice counts once
+    await expect(fs.access(running.location)).resolves.toBeUndefined();
+
+    await queued.release();
+    await expect(fs.access(running.location)).rejects.toThrow();
+  });
+
+  it('should share a build that is still in progress', async () => {
+    const build = createBuilder();
+    const cache = createBundleCache({ sources, build });
+
+    const [warm, render] = await Promise.all([cache.getBundle(), cache.getBundle()]);
+    expect(build).toHaveBeenCalledTimes(1);
+    expect(render.location).toBe(warm.location);
+  });
+
+  it('should retry after a failed build', async () => {
+    const build = createBuilder();
+    build.mockRejectedValueOnce(new Error('Webpack failed'));
+    const cache = createBundleCache({ sources, build });
+
+    await expect(cache.getBundle()).rejects.toThrow('Webpack failed');
+    expect(await cache.getStatus()).toBe('miss');
+    expect((await cache.getBundle()).status).toBe('miss');
+    expect(build).toHaveBeenCalledTimes(2);
+  });
+});
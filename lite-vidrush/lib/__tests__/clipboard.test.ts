@@ -0,0 +1,117 @@
+/**
+ * Unit tests for copying timeline items through the clipboard
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  CLIPBOARD_MIME_TYPE,
+  getClipboardItems,
+  parseClipboard,
+  readClipboard,
+  serializeClipboard,
+  writeClipboard,
+} from '../clipboard';
+import { CopiedItems, DEFAULT_TEXT_STYLE } from '../types';
+
+const items: CopiedItems = {
+  clips: [
+    { id: 'a', trackId: 'video-1', src: 'a.png', startFrame: 0, endFrame: 30, order: 0, type: 'image' },
+    { id: 'b', trackId: 'video-1', src: 'b.png', startFrame: 30, endFrame: 60, order: 1, type: 'image' },
+  ],
+  texts: [
+    { id: 't', trackId: 'text-1', text: 'Hi', startFrame: 15, endFrame: 45, position: { x: 50, y: 50 }, style: DEFAULT_TEXT_STYLE },
+  ],
+  transitions: [
+    { id: 'ab', trackId: 'video-1', fromClipId: 'a', toClipId: 'b', type: 'crossfade', duration: 10, alignment: 'center' },
+  ],
+};
+
+describe('Clipboard', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should round-trip copied items', () => {
+    const data = parseClipboard(serializeClipboard(items, 30));
+
+    expect(data?.frameRate).toBe(30);
+    expect(getClipboardItems(data!, 30)).toEqual(items);
+  });
+
+  it('should ignore text that is not copied editor items', () => {
+    expect(parseClipboard('hello')).toBeNull();
+    expect(parseClipboard('{"clips": []}')).toBeNull();
+    expect(parseClipboard(serializeClipboard(items, 30).replace('"version":1', '"version":99'))).toBeNull();
+  });
+
+  it('should retime items copied from a project at another frame rate', () => {
+    const data = parseClipboard(serializeClipboard(items, 30))!;
+    const retimed = getClipboardItems(data, 60);
+
+    expect(retimed.clips[1]).toMatchObject({ startFrame: 60, endFrame: 120 });
+    expect(retimed.texts[0]).toMatchObject({ startFrame: 30, endFrame: 90 });
+    expect(retimed.transitions[0].duration).toBe(20);
+  });
+
+  it('should write the custom format alongside plain text', async () => {
+    const write = vi.fn().mockResolvedValue(undefined);
+    const ClipboardItem = vi.fn(function (this: object, data: Record<string, Blob>) {
+      Object.assign(this, { data });
+    });
+    vi.stubGlobal('ClipboardItem', ClipboardItem);
+    vi.stubGlobal('navigator', { clipboard: { write, writeText: vi.fn() } });
+
+    await writeClipboard(items, 30);
+
+    const data: Record<string, Blob> = ClipboardItem.mock.calls[0][0];
+    expect(Object.keys(data)).toEqual([`web ${CLIPBOARD_MIME_TYPE}`, 'text/plain']);
+    expect(data[`web ${CLIPBOARD_MIME_TYPE}`].type).toBe(CLIPBOARD_MIME_TYPE);
+    expect(data['text/plain'].size).toBe(serializeClipboard(items, 30).length);
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to plain text when custom formats are refused', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal('ClipboardItem', vi.fn());
+    vi.stubGlobal('navigator', {
+      clipboard: { write: vi.fn().mockRejectedValue(new Error('NotAllowed')), writeText },
+    });
+
+    await writeClipboard(items, 30);
+
+    expect(parseClipboard(writeText.mock.calls[0][0])).not.toBeNull();
+  });
+
+  it('should read the custom format first, then plain text', async () => {
+    const json = serializeClipboard(items, 25);
+    const item = (types: Record<string, string>) => ({
+      types: Object.keys(types),
+      getType: async (type: string) => ({ text: async () => types[type] }),
+    });
+
+    vi.stubGlobal('navigator', {
+      clipboard: { read: vi.fn().mockResolvedValue([item({ [`web ${CLIPBOARD_MIME_TYPE}`]: json, 'text/plain': 'x' })]) },
+    });
+    expect((await readClipboard())?.frameRate).toBe(25);
+
+    vi.stubGlobal('navigator', { clipboard: { read: vi.fn().mockResolvedValue([item({ 'text/plain': json })]) } });
+    expect((await readClipboard())?.frameRate).toBe(25);
+
+    vi.stubGlobal('navigator', { clipboard: { readText: vi.fn().mockResolvedValue(json) } });
+    expect((await readClipboard())?.frameRate).toBe(25);
+  });
+
+  it('should give null when the clipboard holds something else', async () => {
+    vi.stubGlobal('navigator', { clipboard: { readText: vi.fn().mockResolvedValue('some text') } });
+
+    expect(await readClipboard()).toBeNull();
+  });
+
+  it('should paste the last copy when reading is refused', async () => {
+    vi.stubGlobal('navigator', {});
+    await writeClipboard(items, 24);
+
+    vi.stubGlobal('navigator', { clipboard: { readText: vi.fn().mockRejectedValue(new Error('NotAllowed')) } });
+    expect((await readClipboard())?.frameRate).toBe(24);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for thumbnail sprite planning and filmstrip tiling
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_THUMBNAIL_INTERVAL,
+  MAX_THUMBNAIL_INTERVAL,
+  MIN_THUMBNAIL_INTERVAL,
+  getSpriteBackgroundSize,
+  getThumbnailIndex,
+  layoutFilmstrip,
+  normalizeThumbnailInterval,
+} from '../filmstrip';
+import { planThumbnailSprite } from '../mediaThumbnails';
+import { ThumbnailSprite } from '../types';
+
+// 10 one-second thumbnails of 96×48 in rows of 4
+const sprite: ThumbnailSprite = {
+  url: '/thumbnails/clip.mp4/1.jpg',
+  interval: 1,
+  count: 10,
+  columns: 4,
+  tileWidth: 96,
+  tileHeight: 48,
+};
+
+describe('normalizeThumbnailInterval', () => {
+  it('should clamp intervals and default missing ones', () => {
+    expect(normalizeThumbnailInterval(undefined)).toBe(DEFAULT_THUMBNAIL_INTERVAL);
+    expect(normalizeThumbnailInterval(NaN)).toBe(DEFAULT_THUMBNAIL_INTERVAL);
+    expect(normalizeThumbnailInterval(0.01)).toBe(MIN_THUMBNAIL_INTERVAL);
+    expect(normalizeThumbnailInterval(600)).toBe(MAX_THUMBNAIL_INTERVAL);
+    expect(normalizeThumbnailInterval(2.5)).toBe(2.5);
+  });
+});
+
+describe('getThumbnailIndex', () => {
+  it('should pick the thumbnail at or before a moment', () => {
+    expect(getThumbnailIndex(sprite, 0)).toBe(0);
+    expect(getThumbnailIndex(sprite, 2.9)).toBe(2);
+    expect(getThumbnailIndex(sprite, -1)).toBe(0);
+    expect(getThumbnailIndex(sprite, 99)).toBe(9);
+  });
+});
+
+describe('layoutFilmstrip', () => {
+  it('should tile the clip width, cutting off the last tile', () => {
+    // Drawn at half height, tiles are 48px wide
+    const tiles = layoutFilmstrip(sprite, { width: 120, height: 24, pixelsPerFrame: 2, frameRate: 30 });
+
+    expect(tiles.map(tile => tile.left)).toEqual([0, 48, 96]);
+    expect(tiles.map(tile => tile.width)).toEqual([48, 48, 24]);
+  });
+
+  it('should show the source frame under the middle of each tile', () => {
+    // 30px per second, so each 96px tile spans 3.2 seconds
+    const tiles = layoutFilmstrip(sprite, { width: 300, height: 48, pixelsPerFrame: 1, frameRate: 30 });
+
+    // Middles at 1.6s, 4.8s, 8s and 11.2s (past the end, so the last thumbnail)
+    expect(tiles.map(tile => tile.backgroundPosition)).toEqual([
+      '-96px 0px',
+      '0px -48px',
+      '0px -96px',
+      '-96px -96px',
+    ]);
+  });
+
+  it('should start from the trimmed in-point', () => {
+    const [first] = layoutFilmstrip(sprite, {
+      width: 96, height: 48, pixelsPerFrame: 1, frameRate: 30, trimStart: 150,
+    });
+
+    // 150 frames + 48px = 6.6 seconds in
+    expect(first.backgroundPosition).toBe('-192px -48px');
+  });
+
+  it('should re-tile on zoom from the same sprite', () => {
+    const options = { width: 0, height: 48, frameRate: 30 };
+    const zoomedOut = layoutFilmstrip(sprite, { ...options, width: 150, pixelsPerFrame: 0.5 });
+    const zoomedIn = layoutFilmstrip(sprite, { ...options, width: 600, pixelsPerFrame: 2 });
+
+    expect(zoomedOut).toHaveLength(2);
+    expect(zoomedIn).toHaveLength(7);
+    expect(zoomedIn[0].backgroundPosition).toBe('0px 0px');
+  });
+
+  it('should return no tiles for empty clips', () => {
+    expect(layoutFilmstrip(sprite, { width: 0, height: 48, pixelsPerFrame: 1, frameRate: 30 })).toEqual([]);
+  });
+});
+
+describe('getSpriteBackgroundSize', () => {
+  it('should scale the whole sheet to the clip height', () => {
+    expect(getSpriteBackgroundSize(sprite, 24)).toBe('192px 72px');
+  });
+});
+
+describe('planThumbnailSprite', () => {
+  it('should size tiles to the video aspect ratio', () => {
+    const plan = planThumbnailSprite('clip.mp4', { duration: 12.5, width: 1920, height: 1080 }, 1);
+
+    expect(plan).toEqual({
+      url: '/thumbnails/clip.mp4/1.jpg',
+      interval: 1,
+      count: 13,
+      columns: 13,
+      tileWidth: 86,
+      tileHeight: 48,
+    });
+  });
+
+  it('should widen the interval for long videos', () => {
+    const plan = planThumbnailSprite('long.mp4', { duration: 4000, width: 1080, height: 1920 }, 1);
+
+    expect(plan.interval).toBe(10);
+    expect(plan.count).toBe(400);
+    expect(plan.columns).toBe(20);
+    expect(plan.tileWidth).toBe(28);
+    expect(plan.url).toBe('/thumbnails/long.mp4/1.jpg');
+  });
+});
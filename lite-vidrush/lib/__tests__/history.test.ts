@@ -0,0 +1,156 @@
+/**
+ * Unit tests for undo/redo history helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Patch } from 'immer';
+import {
+  EMPTY_HISTORY,
+  HISTORY_LIMIT,
+  filterHistoryPatches,
+  createHistoryEntry,
+  mergeHistoryEntries,
+  recordHistoryEntry,
+  beginTransaction,
+  endTransaction,
+  takeUndo,
+  takeRedo,
+  HistoryEntry,
+} from '../history';
+
+const replace = (key: string, value: unknown): Patch => ({ op: 'replace', path: [key], value });
+
+const entry = (label: string, from: number, to: number): HistoryEntry => ({
+  label,
+  patches: [replace('duration', to)],
+  inversePatches: [replace('duration', from)],
+});
+
+describe('History', () => {
+  describe('filterHistoryPatches', () => {
+    it('should drop playback and view patches', () => {
+      const patches = [
+        replace('media', []),
+        replace('playhead', 10),
+        replace('isPlaying', true),
+        replace('zoom', 2),
+        replace('duration', 300),
+      ];
+
+      expect(filterHistoryPatches(patches).map(p => p.path[0])).toEqual(['media', 'duration']);
+    });
+  });
+
+  describe('createHistoryEntry', () => {
+    it('should return null when only non-document fields changed', () => {
+      expect(createHistoryEntry('Seek', [replace('playhead', 5)], [replace('playhead', 0)])).toBeNull();
+    });
+
+    it('should keep document patches', () => {
+      const result = createHistoryEntry(
+        'Add clip',
+        [replace('media', [1]), replace('selectedIds', ['a'])],
+        [replace('media', []), replace('selectedIds', [])]
+      );
+
+      expect(result?.label).toBe('Add clip');
+      expect(result?.patches).toHaveLength(1);
+      expect(result?.inversePatches).toHaveLength(1);
+    });
+  });
+
+  describe('mergeHistoryEntries', () => {
+    it('should apply inverse patches in reverse order', () => {
+      const merged = mergeHistoryEntries(entry('Move', 100, 200), entry('Move', 200, 300));
+
+      expect(merged.label).toBe('Move');
+      expect(merged.patches.map(p => p.value)).toEqual([200, 300]);
+      expect(merged.inversePatches.map(p => p.value)).toEqual([200, 100]);
+    });
+  });
+
+  describe('recordHistoryEntry', () => {
+    it('should push entries and clear the redo stack', () => {
+      const history = { ...EMPTY_HISTORY, future: [entry('Old', 0, 1)] };
+      const next = recordHistoryEntry(history, entry('Edit', 1, 2));
+
+      expect(next.past).toHaveLength(1);
+      expect(next.future).toHaveLength(0);
+    });
+
+    it('should ignore null entries', () => {
+      expect(recordHistoryEntry(EMPTY_HISTORY, null)).toBe(EMPTY_HISTORY);
+    });
+
+    it('should cap the undo stack', () => {
+      let history = EMPTY_HISTORY;
+      for (let i = 0; i < HISTORY_LIMIT + 10; i++) {
+        history = recordHistoryEntry(history, entry(`Edit ${i}`, i, i + 1));
+      }
+
+      expect(history.past).toHaveLength(HISTORY_LIMIT);
+      expect(history.past[history.past.length - 1].label).toBe(`Edit ${HISTORY_LIMIT + 9}`);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should collapse entries recorded during a transaction', () => {
+      let history = beginTransaction(EMPTY_HISTORY, 'Drag');
+      history = recordHistoryEntry(history, entry('Edit clip', 0, 1));
+      history = recordHistoryEntry(history, entry('Edit clip', 1, 2));
+      history = recordHistoryEntry(history, entry('Edit clip', 2, 3));
+
+      expect(history.past).toHaveLength(0);
+
+      history = endTransaction(history);
+
+      expect(history.past).toHaveLength(1);
+      expect(history.past[0].label).toBe('Drag');
+      expect(history.past[0].patches).toHaveLength(3);
+      expect(history.pending).toBeNull();
+    });
+
+    it('should not record empty transactions', () => {
+      const history = endTransaction(beginTransaction(EMPTY_HISTORY, 'Click'));
+
+      expect(history.past).toHaveLength(0);
+    });
+
+    it('should join nested transactions into the outer one', () => {
+      let history = beginTransaction(EMPTY_HISTORY, 'Outer');
+      history = beginTransaction(history, 'Inner');
+
+      expect(history.pending?.label).toBe('Outer');
+    });
+  });
+
+  describe('takeUndo / takeRedo', () => {
+    it('should move entries between stacks', () => {
+      const history = recordHistoryEntry(EMPTY_HISTORY, entry('Edit', 0, 1));
+
+      const undone = takeUndo(history);
+      expect(undone?.entry.label).toBe('Edit');
+      expect(undone?.history.past).toHaveLength(0);
+      expect(undone?.history.future).toHaveLength(1);
+
+      const redone = takeRedo(undone!.history);
+      expect(redone?.entry.label).toBe('Edit');
+      expect(redone?.history.past).toHaveLength(1);
+      expect(redone?.history.future).toHaveLength(0);
+    });
+
+    it('should return null when there is nothing to undo or redo', () => {
+      expect(takeUndo(EMPTY_HISTORY)).toBeNull();
+      expect(takeRedo(EMPTY_HISTORY)).toBeNull();
+    });
+
+    it('should close an open transaction before undoing', () => {
+      let history = beginTransaction(EMPTY_HISTORY, 'Drag');
+      history = recordHistoryEntry(history, entry('Edit clip', 0, 1));
+
+      const undone = takeUndo(history);
+      expect(undone?.entry.label).toBe('Drag');
+      expect(undone?.history.pending).toBeNull();
+    });
+  });
+});
@@ -297,12 +297,12 @@ describe('Integration Tests - User Workflows', () => {
       const textId = result.current.texts[0].id;
 
       // 2. Test selection
-      expect(result.current.selectedId).toBe(textId); // Last added is selected
+      expect(result.current.selectedIds).toEqual([textId]); // Last added is selected
 
       act(() => {
         result.current.selectItem(videoId);
       });
-      expect(result.current.selectedId).toBe(videoId);
+      expect(result.current.selectedIds).toEqual([videoId]);
 
       const selectedItem = result.current.getSelectedItem();
       expect(selectedItem?.id).toBe(videoId);
@@ -418,7 +418,7 @@ describe('Integration Tests - User Workflows', () => {
       act(() => {
         result.current.selectItem('non-existent-id');
       });
-      expect(result.current.selectedId).toBe('non-existent-id'); // Store allows this
+      expect(result.current.selectedIds).toEqual(['non-existent-id']); // Store allows this
       expect(result.current.getSelectedItem()).toBeNull(); // But returns null
 
       // 2. Try to update non-existent clip
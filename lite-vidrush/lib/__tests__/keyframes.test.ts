@@ -0,0 +1,160 @@
+/**
+ * Unit tests for keyframe evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateKeyframes,
+  getAnimatedValue,
+  getStaticValue,
+  setStaticValue,
+  applyKeyframes,
+  getAnimatableProperties,
+  getKeyframeFrames,
+} from '../keyframes';
+import { Clip, Keyframe, TextOverlay } from '../types';
+
+const keyframe = (frame: number, value: number, easing: Keyframe['easing'] = 'linear'): Keyframe => ({
+  id: `kf-${frame}`,
+  frame,
+  value,
+  easing,
+});
+
+const clip: Clip = {
+  id: 'clip1',
+  trackId: 'video-1',
+  src: 'test.mp4',
+  startFrame: 100,
+  endFrame: 200,
+  order: 0,
+  type: 'video',
+};
+
+const text: TextOverlay = {
+  id: 'text1',
+  trackId: 'text-1',
+  text: 'Hello',
+  startFrame: 0,
+  endFrame: 100,
+  position: { x: 20, y: 80 },
+  style: {
+    fontSize: 24,
+    fontFamily: 'Arial',
+    color: '#ffffff',
+    opacity: 0.5,
+    fontWeight: 'normal',
+    textAlign: 'center',
+  },
+};
+
+describe('Keyframes', () => {
+  describe('evaluateKeyframes', () => {
+    it('should return the fallback without keyframes', () => {
+      expect(evaluateKeyframes([], 10, 42)).toBe(42);
+    });
+
+    it('should interpolate linearly between keyframes', () => {
+      const keyframes = [keyframe(0, 0), keyframe(10, 100)];
+      expect(evaluateKeyframes(keyframes, 5, 0)).toBe(50);
+    });
+
+    it('should hold values outside the keyframe range', () => {
+      const keyframes = [keyframe(10, 1), keyframe(20, 2)];
+      expect(evaluateKeyframes(keyframes, 0, 0)).toBe(1);
+      expect(evaluateKeyframes(keyframes, 30, 0)).toBe(2);
+    });
+
+    it('should accept unsorted keyframes', () => {
+      const keyframes = [keyframe(10, 100), keyframe(0, 0)];
+      expect(evaluateKeyframes(keyframes, 5, 0)).toBe(50);
+    });
+
+    it('should keep the value until the next keyframe with hold', () => {
+      const keyframes = [keyframe(0, 0, 'hold'), keyframe(10, 100)];
+      expect(evaluateKeyframes(keyframes, 9, 0)).toBe(0);
+      expect(evaluateKeyframes(keyframes, 10, 0)).toBe(100);
+    });
+
+    it('should apply easing curves', () => {
+      const easeIn = evaluateKeyframes([keyframe(0, 0, 'ease-in'), keyframe(10, 100)], 5, 0);
+      const easeOut = evaluateKeyframes([keyframe(0, 0, 'ease-out'), keyframe(10, 100)], 5, 0);
+
+      expect(easeIn).toBeLessThan(50);
+      expect(easeOut).toBeGreaterThan(50);
+    });
+
+    it('should use custom bezier control points', () => {
+      const keyframes: Keyframe[] = [
+        { ...keyframe(0, 0, 'bezier'), bezier: [0, 1, 0, 1] },
+        keyframe(10, 100),
+      ];
+      expect(evaluateKeyframes(keyframes, 5, 0)).toBeGreaterThan(90);
+    });
+  });
+
+  describe('static values', () => {
+    it('should use renderer defaults for missing fields', () => {
+      expect(getStaticValue(clip, 'position.x')).toBe(50);
+      expect(getStaticValue(clip, 'scale.width')).toBe(1);
+      expect(getStaticValue(clip, 'opacity')).toBe(1);
+      expect(getStaticValue(clip, 'volume')).toBe(1);
+    });
+
+    it('should read text style values', () => {
+      expect(getStaticValue(text, 'opacity')).toBe(0.5);
+      expect(getStaticValue(text, 'fontSize')).toBe(24);
+    });
+
+    it('should write values without touching other fields', () => {
+      const updated = setStaticValue(text, 'position.y', 10);
+      expect(updated.position).toEqual({ x: 20, y: 10 });
+      expect(setStaticValue(text, 'fontSize', 48).style.fontSize).toBe(48);
+      expect(text.style.fontSize).toBe(24);
+    });
+  });
+
+  describe('applyKeyframes', () => {
+    it('should bake animated values at a frame', () => {
+      const animated = applyKeyframes(
+        {
+          ...text,
+          keyframes: {
+            'position.x': [keyframe(0, 0), keyframe(100, 100)],
+            fontSize: [keyframe(0, 10), keyframe(100, 30)],
+          },
+        },
+        50
+      );
+
+      expect(animated.position).toEqual({ x: 50, y: 80 });
+      expect(animated.style.fontSize).toBe(20);
+      expect(animated.style.opacity).toBe(0.5);
+    });
+
+    it('should evaluate relative to the item start', () => {
+      const animated = { ...clip, keyframes: { volume: [keyframe(0, 0), keyframe(10, 1)] } };
+      expect(getAnimatedValue(animated, 'volume', 5)).toBe(0.5);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should list properties per item type', () => {
+      expect(getAnimatableProperties(text)).toContain('fontSize');
+      expect(getAnimatableProperties(text)).not.toContain('volume');
+      expect(getAnimatableProperties({ ...clip, type: 'audio' })).toEqual(['volume']);
+      expect(getAnimatableProperties({ ...clip, type: 'image' })).not.toContain('volume');
+    });
+
+    it('should collect distinct keyframe frames', () => {
+      const frames = getKeyframeFrames({
+        ...clip,
+        keyframes: {
+          rotation: [keyframe(20, 0), keyframe(0, 90)],
+          opacity: [keyframe(20, 1)],
+        },
+      });
+      expect(frames).toEqual([0, 20]);
+    });
+  });
+});
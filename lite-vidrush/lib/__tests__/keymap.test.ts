@@ -0,0 +1,243 @@
+/**
+ * Unit tests for the keymap and shortcut dispatch
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  applyKeymapOverrides,
+  assignKey,
+  findCommand,
+  formatKeyCombo,
+  getDefaultKeymap,
+  getKeyCombo,
+  getKeymapOverrides,
+  isEditableTarget,
+  normalizeKeyCombo,
+  removeKey,
+} from '../keymap';
+import { handlePaste, handleShortcut } from '../commands';
+import { serializeClipboard } from '../clipboard';
+import { useEditorStore } from '../store';
+
+// Keydown event fields with nothing held
+function keyEvent(key: string, code: string, modifiers: Partial<KeyboardEvent> = {}) {
+  return { key, code, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers };
+}
+
+describe('normalizeKeyCombo', () => {
+  it('should order modifiers and capitalize letters', () => {
+    expect(normalizeKeyCombo('shift+mod+z')).toBe('Mod+Shift+Z');
+    expect(normalizeKeyCombo('space')).toBe('Space');
+    expect(normalizeKeyCombo('Mod++')).toBe('Mod++');
+    expect(normalizeKeyCombo('+')).toBe('+');
+  });
+
+  it('should reject unknown modifiers and missing keys', () => {
+    expect(normalizeKeyCombo('Hyper+K')).toBeNull();
+    expect(normalizeKeyCombo('')).toBeNull();
+  });
+});
+
+describe('getKeyCombo', () => {
+  it('should treat Ctrl and Cmd alike', () => {
+    expect(getKeyCombo(keyEvent('z', 'KeyZ', { ctrlKey: true }))).toBe('Mod+Z');
+    expect(getKeyCombo(keyEvent('Z', 'KeyZ', { metaKey: true, shiftKey: true }))).toBe('Mod+Shift+Z');
+  });
+
+  it('should read letters from the physical key', () => {
+    // Option+J types a special character on macOS
+    expect(getKeyCombo(keyEvent('∆', 'KeyJ', { altKey: true }))).toBe('Alt+J');
+  });
+
+  it('should leave Shift out of symbols', () => {
+    expect(getKeyCombo(keyEvent('?', 'Slash', { shiftKey: true }))).toBe('?');
+    expect(getKeyCombo(keyEvent('ArrowLeft', 'ArrowLeft', { shiftKey: true }))).toBe('Shift+ArrowLeft');
+    expect(getKeyCombo(keyEvent(' ', 'Space'))).toBe('Space');
+  });
+
+  it('should ignore bare modifiers', () => {
+    expect(getKeyCombo(keyEvent('Shift', 'ShiftLeft', { shiftKey: true }))).toBeNull();
+  });
+});
+
+describe('formatKeyCombo', () => {
+  it('should use platform modifier names', () => {
+    expect(formatKeyCombo('Mod+Shift+Z')).toBe('Ctrl+Shift+Z');
+    expect(formatKeyCombo('Mod+Shift+Z', true)).toBe('⌘⇧Z');
+    expect(formatKeyCombo('Alt+ArrowLeft')).toBe('Alt+←');
+    expect(formatKeyCombo('Mod++')).toBe('Ctrl++');
+  });
+});
+
+describe('remapping', () => {
+  it('should move a combo from its previous command', () => {
+    const keymap = assignKey(getDefaultKeymap(), 'markIn', 'Space');
+
+    expect(findCommand(keymap, 'Space')).toBe('markIn');
+    expect(keymap.playPause).toEqual([]);
+    expect(keymap.markIn).toEqual(['I', 'Space']);
+  });
+
+  it('should store only the commands that differ from the defaults', () => {
+    const keymap = removeKey(assignKey(getDefaultKeymap(), 'markIn', 'Space'), 'markIn', 'I');
+
+    expect(getKeymapOverrides(keymap)).toEqual({ playPause: [], markIn: ['Space'] });
+    expect(getKeymapOverrides(getDefaultKeymap())).toEqual({});
+  });
+
+  it('should restore a keymap from its overrides', () => {
+    const keymap = applyKeymapOverrides({ markIn: ['space'], unknown: ['X'], markOut: ['Hyper+O'] });
+
+    expect(keymap.markIn).toEqual(['Space']);
+    expect(keymap.playPause).toEqual([]);
+    expect(keymap.markOut).toEqual([]);
+    expect(keymap.undo).toEqual(['Mod+Z']);
+  });
+
+  it('should fall back to the defaults for malformed data', () => {
+    expect(applyKeymapOverrides('nonsense')).toEqual(getDefaultKeymap());
+  });
+});
+
+describe('isEditableTarget', () => {
+  it('should recognize text fields and sliders', () => {
+    const text = document.createElement('input');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    const slider = document.createElement('span');
+    slider.setAttribute('role', 'slider');
+
+    expect(isEditableTarget(text)).toBe(true);
+    expect(isEditableTarget(document.createElement('textarea'))).toBe(true);
+    expect(isEditableTarget(slider)).toBe(true);
+    expect(isEditableTarget(checkbox)).toBe(false);
+    expect(isEditableTarget(document.createElement('button'))).toBe(false);
+    expect(isEditableTarget(null)).toBe(false);
+  });
+});
+
+describe('handleShortcut', () => {
+  beforeEach(() => {
+    useEditorStore.getState().resetState();
+  });
+
+  it('should run the bound command and consume the event', () => {
+    const event = new KeyboardEvent('keydown', { key: 'l', code: 'KeyL', cancelable: true });
+
+    expect(handleShortcut(event, getDefaultKeymap())).toBe(true);
+    expect(event.defaultPrevented).toBe(true);
+    expect(useEditorStore.getState().isPlaying).toBe(true);
+  });
+
+  it('should leave key presses in text fields alone', () => {
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    const event = new KeyboardEvent('keydown', { key: 'i', code: 'KeyI', bubbles: true, cancelable: true });
+    let handled = true;
+    input.addEventListener('keydown', (e) => { handled = handleShortcut(e, getDefaultKeymap()); });
+    input.dispatchEvent(event);
+    input.remove();
+
+    expect(handled).toBe(false);
+    expect(event.defaultPrevented).toBe(false);
+    expect(useEditorStore.getState().markIn).toBeUndefined();
+  });
+
+  it('should leave the native copy alone when nothing is selected', () => {
+    const event = new KeyboardEvent('keydown', { key: 'c', code: 'KeyC', ctrlKey: true, cancelable: true });
+
+    expect(handleShortcut(event, getDefaultKeymap())).toBe(false);
+    expect(event.defaultPrevented).toBe(false);
+  });
+
+  it('should leave the keys of editing commands alone when nothing is selected', () => {
+    const events = [
+      new KeyboardEvent('keydown', { key: 'Delete', code: 'Delete', cancelable: true }),
+      new KeyboardEvent('keydown', { key: 'Backspace', code: 'Backspace', shiftKey: true, cancelable: true }),
+      new KeyboardEvent('keydown', { key: 'd', code: 'KeyD', ctrlKey: true, cancelable: true }),
+      new KeyboardEvent('keydown', { key: 'k', code: 'KeyK', ctrlKey: true, cancelable: true }),
+      new KeyboardEvent('keydown', { key: 'K', code: 'KeyK', ctrlKey: true, shiftKey: true, cancelable: true }),
+      new KeyboardEvent('keydown', { key: 'ArrowLeft', code: 'ArrowLeft', altKey: true, cancelable: true }),
+    ];
+
+    for (const event of events) {
+      expect(handleShortcut(event, getDefaultKeymap()), event.code).toBe(false);
+      expect(event.defaultPrevented).toBe(false);
+    }
+  });
+
+  it('should leave the key alone when the command changes nothing', () => {
+    const { addClip, updateTrack } = useEditorStore.getState();
+    addClip({ trackId: 'video-1', src: 'a.png', startFrame: 0, endFrame: 30, type: 'image' });
+    const clip = useEditorStore.getState().media[0];
+    updateTrack(clip.trackId, { locked: true });
+    useEditorStore.setState({ selectedIds: [clip.id] });
+    const event = new KeyboardEvent('keydown', { key: 'Delete', code: 'Delete', cancelable: true });
+
+    expect(handleShortcut(event, getDefaultKeymap())).toBe(false);
+    expect(event.defaultPrevented).toBe(false);
+    expect(useEditorStore.getState().media).toHaveLength(1);
+  });
+
+  it('should consume the key when the selected items change', () => {
+    useEditorStore.getState().addClip({ trackId: 'video-1', src: 'a.png', startFrame: 0, endFrame: 30, type: 'image' });
+    useEditorStore.setState({ selectedIds: [useEditorStore.getState().media[0].id] });
+    const event = new KeyboardEvent('keydown', { key: 'Delete', code: 'Delete', cancelable: true });
+
+    expect(handleShortcut(event, getDefaultKeymap())).toBe(true);
+    expect(event.defaultPrevented).toBe(true);
+    expect(useEditorStore.getState().media).toHaveLength(0);
+  });
+
+  it('should leave Mod+V to the paste event it turns into', () => {
+    const event = new KeyboardEvent('keydown', { key: 'v', code: 'KeyV', ctrlKey: true, cancelable: true });
+
+    expect(handleShortcut(event, getDefaultKeymap())).toBe(false);
+    expect(event.defaultPrevented).toBe(false);
+  });
+
+  it('should use the remapped bindings', () => {
+    const keymap = assignKey(getDefaultKeymap(), 'markIn', 'Mod+M');
+    useEditorStore.setState({ playhead: 42 });
+    handleShortcut(new KeyboardEvent('keydown', { key: 'm', code: 'KeyM', ctrlKey: true }), keymap);
+
+    expect(useEditorStore.getState().markIn).toBe(42);
+  });
+});
+
+describe('handlePaste', () => {
+  beforeEach(() => {
+    useEditorStore.getState().resetState();
+  });
+
+  // jsdom has no ClipboardEvent, so attach the clipboard data by hand
+  function pasteEvent(text: string) {
+    const event = new Event('paste', { cancelable: true }) as ClipboardEvent;
+    Object.defineProperty(event, 'clipboardData', { value: { getData: () => text } });
+    return event;
+  }
+
+  it('should paste copied items at the playhead', () => {
+    const copied = {
+      clips: [{ id: 'a', trackId: 'video-1', src: 'a.png', startFrame: 0, endFrame: 30, order: 0, type: 'image' as const }],
+      texts: [],
+      transitions: [],
+    };
+    useEditorStore.setState({ playhead: 60 });
+    const event = pasteEvent(serializeClipboard(copied, 30));
+
+    expect(handlePaste(event)).toBe(true);
+    expect(event.defaultPrevented).toBe(true);
+    expect(useEditorStore.getState().media[0]).toMatchObject({ startFrame: 60, endFrame: 90 });
+  });
+
+  it('should leave other clipboard contents alone', () => {
+    for (const text of ['', 'some text']) {
+      const event = pasteEvent(text);
+
+      expect(handlePaste(event)).toBe(false);
+      expect(event.defaultPrevented).toBe(false);
+    }
+    expect(useEditorStore.getState().media).toHaveLength(0);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for the /api/media client helpers
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchThumbnailSprite, fetchWaveformPeaks } from '../mediaApi';
+import { encodeWaveform } from '../waveform';
+import { ThumbnailSprite } from '../types';
+
+// The editor stores uploaded clips with the server's origin
+const EDITOR_SRC = 'http://localhost:3000/uploads/holiday%20clip.mp4';
+
+function stubFetch(body: unknown) {
+  const fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => body });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('Media API', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('fetchThumbnailSprite', () => {
+    const sprite: ThumbnailSprite = {
+      url: '/uploads/.thumbnails/sprite.jpg',
+      interval: 1,
+      count: 10,
+      columns: 10,
+      tileWidth: 160,
+      tileHeight: 90,
+    };
+
+    it('should load the sprite of a clip added in the editor', async () => {
+      const fetch = stubFetch({ sprite });
+
+      await expect(fetchThumbnailSprite(EDITOR_SRC, 1)).resolves.toEqual(sprite);
+      expect(fetch).toHaveBeenCalledWith('/api/media/thumbnails?filename=holiday%20clip.mp4&interval=1');
+    });
+
+    it('should skip sources that are not uploads', async () => {
+      const fetch = stubFetch({ sprite });
+
+      await expect(fetchThumbnailSprite('https://example.com/video.mp4')).resolves.toBeNull();
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetchWaveformPeaks', () => {
+    it('should load the peaks of a clip added in the editor', async () => {
+      const peaks = new Int8Array([-10, 20, -5, 5]);
+      const fetch = stubFetch({ waveform: encodeWaveform(2, [{ peaksPerSecond: 1, peaks }]) });
+
+      await expect(fetchWaveformPeaks(EDITOR_SRC)).resolves.toEqual([{ peaksPerSecond: 1, peaks }]);
+      expect(fetch).toHaveBeenCalledWith('/api/media/peaks?filename=holiday%20clip.mp4');
+    });
+
+    it('should skip sources that are not uploads', async () => {
+      const fetch = stubFetch({});
+
+      await expect(fetchWaveformPeaks('blob:http://localhost:3000/1234')).resolves.toBeNull();
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for ffprobe output parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseProbeOutput, parseFrameRate, normalizeRotation } from '../mediaProbe';
+
+describe('parseFrameRate', () => {
+  it('should parse fractional rates', () => {
+    expect(parseFrameRate('30/1')).toBe(30);
+    expect(parseFrameRate('30000/1001')).toBe(29.97);
+  });
+
+  it('should return undefined for unknown rates', () => {
+    expect(parseFrameRate('0/0')).toBeUndefined();
+    expect(parseFrameRate(undefined)).toBeUndefined();
+  });
+});
+
+describe('normalizeRotation', () => {
+  it('should wrap rotations into 0-359 degrees', () => {
+    expect(normalizeRotation(-90)).toBe(270);
+    expect(normalizeRotation(450)).toBe(90);
+    expect(normalizeRotation(-180)).toBe(180);
+  });
+});
+
+describe('parseProbeOutput', () => {
+  it('should extract video and audio stream metadata', () => {
+    const metadata = parseProbeOutput({
+      format: { duration: '12.5', format_name: 'mov,mp4,m4a,3gp,3g2,mj2' },
+      streams: [
+        { codec_type: 'video', codec_name: 'h264', width: 1920, height: 1080, avg_frame_rate: '25/1' },
+        { codec_type: 'audio', codec_name: 'aac', channels: 2, sample_rate: '48000' },
+      ],
+    });
+
+    expect(metadata).toEqual({
+      duration: 12.5,
+      width: 1920,
+      height: 1080,
+      frameRate: 25,
+      videoCodec: 'h264',
+      audioCodec: 'aac',
+      audioChannels: 2,
+      sampleRate: 48000,
+      rotation: 0,
+    });
+  });
+
+  it('should swap dimensions for portrait phone footage', () => {
+    const metadata = parseProbeOutput({
+      format: { duration: '3' },
+      streams: [
+        {
+          codec_type: 'video',
+          width: 1920,
+          height: 1080,
+          side_data_list: [{ side_data_type: 'Display Matrix', rotation: -90 }],
+        },
+      ],
+    });
+
+    expect(metadata.rotation).toBe(90);
+    expect(metadata.width).toBe(1080);
+    expect(metadata.height).toBe(1920);
+  });
+
+  it('should prefer the legacy rotate tag', () => {
+    const metadata = parseProbeOutput({
+      streams: [{ codec_type: 'video', width: 640, height: 480, tags: { rotate: '180' } }],
+    });
+
+    expect(metadata.rotation).toBe(180);
+    expect(metadata.width).toBe(640);
+  });
+
+  it('should report audio-only files without dimensions', () => {
+    const metadata = parseProbeOutput({
+      format: { duration: '61.2', format_name: 'mp3' },
+      streams: [{ codec_type: 'audio', codec_name: 'mp3', channels: 1, sample_rate: '44100' }],
+    });
+
+    expect(metadata).toEqual({ duration: 61.2, audioCodec: 'mp3', audioChannels: 1, sampleRate: 44100 });
+  });
+
+  it('should ignore embedded cover art', () => {
+    const metadata = parseProbeOutput({
+      format: { duration: '200', format_name: 'mp3' },
+      streams: [
+        { codec_type: 'audio', codec_name: 'mp3', channels: 2, sample_rate: '44100' },
+        { codec_type: 'video', codec_name: 'mjpeg', width: 500, height: 500, disposition: { attached_pic: 1 } },
+      ],
+    });
+
+    expect(metadata.width).toBeUndefined();
+    expect(metadata.videoCodec).toBeUndefined();
+  });
+
+  it('should not give still images a duration or frame rate', () => {
+    const metadata = parseProbeOutput({
+      format: { duration: '0.04', format_name: 'png_pipe' },
+      streams: [{ codec_type: 'video', codec_name: 'png', width: 800, height: 600, avg_frame_rate: '25/1' }],
+    });
+
+    expect(metadata).toEqual({ width: 800, height: 600, videoCodec: 'png', rotation: 0 });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for mixer metering and labels
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatGain,
+  formatPan,
+  getMeterFill,
+  measureLevels,
+  smoothLevels,
+  SILENT_LEVELS,
+  toDecibels,
+} from '../mixer';
+
+describe('measureLevels', () => {
+  it('should measure peak and RMS in dBFS', () => {
+    const levels = measureLevels(new Float32Array([1, -1, 1, -1]));
+    expect(levels.peak).toBe(0);
+    expect(levels.rms).toBe(0);
+
+    const half = measureLevels(new Float32Array([0.5, 0, -0.5, 0]));
+    expect(half.peak).toBeCloseTo(toDecibels(0.5));
+    expect(half.rms).toBeCloseTo(toDecibels(Math.sqrt(0.125)));
+  });
+
+  it('should report silence as minus infinity', () => {
+    expect(measureLevels(new Float32Array(4))).toEqual(SILENT_LEVELS);
+    expect(measureLevels(new Float32Array(0))).toEqual(SILENT_LEVELS);
+  });
+});
+
+describe('smoothLevels', () => {
+  it('should rise at once and fall slowly', () => {
+    expect(smoothLevels({ peak: -20, rms: -30 }, { peak: -6, rms: -12 })).toEqual({ peak: -6, rms: -12 });
+    expect(smoothLevels({ peak: -6, rms: -12 }, SILENT_LEVELS)).toEqual({ peak: -7.5, rms: -13.5 });
+  });
+});
+
+describe('getMeterFill', () => {
+  it('should map the meter scale to 0..1', () => {
+    expect(getMeterFill(-Infinity)).toBe(0);
+    expect(getMeterFill(-80)).toBe(0);
+    expect(getMeterFill(-30)).toBe(0.5);
+    expect(getMeterFill(3)).toBe(1);
+  });
+});
+
+describe('labels', () => {
+  it('should label fader gains in dB', () => {
+    expect(formatGain(1)).toBe('0.0 dB');
+    expect(formatGain(0.5)).toBe('-6.0 dB');
+    expect(formatGain(0)).toBe('-∞ dB');
+  });
+
+  it('should label pan positions', () => {
+    expect(formatPan(0)).toBe('C');
+    expect(formatPan(-0.5)).toBe('L 50');
+    expect(formatPan(1)).toBe('R 100');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for server-side render preset storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createRenderPreset,
+  deleteRenderPreset,
+  getPresetsDir,
+  getRenderPreset,
+  listRenderPresets,
+} from '../presetStorage';
+import { BUILT_IN_PRESETS } from '../renderPresets';
+import { DEFAULT_RENDER_SETTINGS } from '../types';
+
+describe('Preset Storage', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vidrush-presets-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tempDir);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list the built-in presets when there are no custom ones', async () => {
+    expect(await listRenderPresets()).toEqual(BUILT_IN_PRESETS);
+  });
+
+  it('should store custom presets after the built-in ones', async () => {
+    const zebra = await createRenderPreset({ name: ' Zebra ', settings: DEFAULT_RENDER_SETTINGS });
+    const alpha = await createRenderPreset({
+      name: 'Alpha',
+      description: 'Team intro',
+      settings: { ...DEFAULT_RENDER_SETTINGS, crf: 20 },
+    });
+
+    expect(zebra).toMatchObject({ name: 'Zebra', builtIn: false });
+    const presets = await listRenderPresets();
+    expect(presets.slice(BUILT_IN_PRESETS.length).map(preset => preset.id)).toEqual([alpha.id, zebra.id]);
+    expect(await getRenderPreset(alpha.id)).toEqual(alpha);
+    expect(path.dirname(getPresetsDir())).toBe(path.join(tempDir, 'public'));
+  });
+
+  it('should find built-in presets by ID', async () => {
+    expect((await getRenderPreset('archive-prores'))?.settings.codec).toBe('prores');
+    expect(await getRenderPreset('missing')).toBeNull();
+    expect(await getRenderPreset('../secrets')).toBeNull();
+  });
+
+  it('should delete custom presets but not built-in ones', async () => {
+    const preset = await createRenderPreset({ name: 'Temp', settings: DEFAULT_RENDER_SETTINGS });
+
+    expect(await deleteRenderPreset(preset.id)).toBe('ok');
+    expect(await deleteRenderPreset(preset.id)).toBe('not-found');
+    expect(await deleteRenderPreset('youtube-1080p')).toBe('built-in');
+    expect(await getRenderPreset('youtube-1080p')).not.toBeNull();
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Unit tests for the project file format
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  createProjectFile,
+  getProjectFields,
+  serializeProject,
+  parseProjectFile,
+  migrateProject,
+  getProjectVersion,
+  applyProjectFile,
+} from '../project';
+import { DEFAULT_CANVAS, DEFAULT_EDITOR_STATE, EditorState } from '../types';
+
+const state: EditorState = {
+  ...DEFAULT_EDITOR_STATE,
+  media: [
+    {
+      id: 'clip1',
+      trackId: 'video-1',
+      src: '/uploads/test.mp4',
+      startFrame: 0,
+      endFrame: 150,
+      order: 0,
+      type: 'video',
+      volume: 0.5,
+      trimStart: 10,
+    },
+  ],
+  texts: [
+    {
+      id: 'text1',
+      trackId: 'text-1',
+      text: 'Hello',
+      startFrame: 30,
+      endFrame: 90,
+      position: { x: 50, y: 80 },
+      style: {
+        fontSize: 32,
+        fontFamily: 'Arial',
+        color: '#ffffff',
+        opacity: 1,
+        fontWeight: 'bold',
+        textAlign: 'center',
+      },
+    },
+  ],
+  frameRate: 25,
+  duration: 600,
+  masterVolume: 0.8,
+  muted: true,
+  playhead: 120,
+  selectedIds: ['clip1'],
+};
+
+describe('Project File', () => {
+  describe('createProjectFile', () => {
+    it('should wrap document fields with format and version', () => {
+      const file = createProjectFile(state);
+
+      expect(file.format).toBe(PROJECT_FORMAT);
+      expect(file.version).toBe(PROJECT_VERSION);
+      expect(file.project.media).toEqual(state.media);
+      expect(file.project.texts).toEqual(state.texts);
+      expect(file.project.frameRate).toBe(25);
+      expect(file.project.duration).toBe(600);
+      expect(file.project.audio).toEqual({ masterVolume: 0.8, muted: true });
+    });
+
+    it('should not include playback or view state', () => {
+      const file = createProjectFile(state);
+
+      expect(file.project).not.toHaveProperty('playhead');
+      expect(file.project).not.toHaveProperty('selectedIds');
+      expect(file.project).not.toHaveProperty('zoom');
+    });
+  });
+
+  describe('getProjectFields', () => {
+    it('should watch every field a project file holds', () => {
+      const fields = getProjectFields(state);
+      const { audio, ...document } = createProjectFile(state).project;
+
+      for (const value of [...Object.values(document), ...Object.values(audio)]) {
+        expect(fields).toContain(value);
+      }
+    });
+  });
+
+  describe('parseProjectFile', () => {
+    it('should round-trip a serialized project', () => {
+      const file = parseProjectFile(JSON.parse(serializeProject(state)));
+
+      expect(file.project.media).toEqual(state.media);
+      expect(file.project.texts).toEqual(state.texts);
+    });
+
+    it('should reject non-object input', () => {
+      expect(() => parseProjectFile(null)).toThrow('JSON object');
+      expect(() => parseProjectFile([1, 2])).toThrow('JSON object');
+    });
+
+    it('should reject files from a newer version', () => {
+      const file = { ...createProjectFile(state), version: PROJECT_VERSION + 1 };
+
+      expect(() => parseProjectFile(file)).toThrow('newer version');
+    });
+
+    it('should report the path of invalid fields', () => {
+      const file = createProjectFile(state);
+      const broken = {
+        ...file,
+        project: { ...file.project, frameRate: -1 },
+      };
+
+      expect(() => parseProjectFile(broken)).toThrow('project.frameRate');
+    });
+  });
+
+  describe('migrations', () => {
+    it('should treat a bare EditorState as version 0', () => {
+      expect(getProjectVersion({ media: [], texts: [] })).toBe(0);
+    });
+
+    it('should upgrade a bare EditorState to the current version', () => {
+      const migrated = migrateProject(JSON.parse(JSON.stringify(state)));
+
+      expect(getProjectVersion(migrated)).toBe(PROJECT_VERSION);
+
+      const file = parseProjectFile(JSON.parse(JSON.stringify(state)));
+      expect(file.project.media).toEqual(state.media);
+      expect(file.project.audio.masterVolume).toBe(0.8);
+    });
+
+    it('should put v1 items onto default tracks', () => {
+      const v1 = {
+        format: 'lite-vidrush-project',
+        version: 1,
+        savedAt: new Date(0).toISOString(),
+        project: {
+          media: [
+            { id: 'v', src: 'a.mp4', startFrame: 0, endFrame: 10, order: 0, type: 'video' },
+            { id: 'a', src: 'a.mp3', startFrame: 0, endFrame: 10, order: 1, type: 'audio' },
+          ],
+          texts: [],
+          frameRate: 30,
+          duration: 300,
+          audio: { masterVolume: 1, muted: false },
+        },
+      };
+
+      const file = parseProjectFile(v1);
+      expect(file.project.tracks.map(t => t.id)).toEqual(['text-1', 'video-1', 'audio-1']);
+      expect(file.project.media.map(c => c.trackId)).toEqual(['video-1', 'audio-1']);
+      expect(file.project.transitions).toEqual([]);
+    });
+
+    it('should fill defaults for missing fields in old documents', () => {
+      const file = parseProjectFile({ media: [], texts: [] });
+
+      expect(file.project.frameRate).toBe(30);
+      expect(file.project.audio).toEqual({ masterVolume: 1, muted: false });
+    });
+
+    it('should give v3 projects the canvas they were rendered at', () => {
+      const v3 = {
+        format: 'lite-vidrush-project',
+        version: 3,
+        savedAt: new Date(0).toISOString(),
+        project: {
+          ...createProjectFile(state).project,
+          canvas: undefined,
+        },
+      };
+
+      expect(parseProjectFile(v3).project.canvas).toEqual(DEFAULT_CANVAS);
+    });
+  });
+
+  describe('applyProjectFile', () => {
+    it('should replace the document and reset playback', () => {
+      const file = createProjectFile(state);
+      const loaded = applyProjectFile({ ...DEFAULT_EDITOR_STATE, zoom: 3 }, file);
+
+      expect(loaded.media).toEqual(state.media);
+      expect(loaded.frameRate).toBe(25);
+      expect(loaded.muted).toBe(true);
+      expect(loaded.playhead).toBe(0);
+      expect(loaded.selectedIds).toEqual([]);
+      expect(loaded.zoom).toBe(3); // View settings are kept
+    });
+
+    it('should restore the canvas', () => {
+      const canvas = { width: 1080, height: 1920, backgroundColor: '#ffffff' };
+      const loaded = applyProjectFile(DEFAULT_EDITOR_STATE, createProjectFile({ ...state, canvas }));
+
+      expect(loaded.canvas).toEqual(canvas);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the /api/projects client helpers
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAutosave, saveRemoteProject } from '../projectApi';
+import { createProjectFile } from '../project';
+import { DEFAULT_EDITOR_STATE } from '../types';
+
+const DELAY = 2000;
+
+// A server that answers each PUT when the test says so, rejecting stale revisions
+function stubProjectServer() {
+  let revision = 1;
+  const responses: Array<() => void> = [];
+  const fetch = vi.fn((_url: string, init: RequestInit) =>
+    new Promise((resolve) => {
+      responses.push(() => {
+        const body = JSON.parse(init.body as string);
+        if (body.revision !== revision) {
+          resolve({ ok: false, status: 409, json: async () => ({ revision, message: 'Conflict' }) });
+          return;
+        }
+        revision += 1;
+        resolve({ ok: true, status: 200, json: async () => ({ project: { id: 'p', revision } }) });
+      });
+    })
+  );
+  vi.stubGlobal('fetch', fetch);
+  return { fetch, respond: () => responses.shift()!() };
+}
+
+describe('Project API', () => {
+  describe('createAutosave', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    it('should save once editing pauses', async () => {
+      const save = vi.fn().mockResolvedValue(undefined);
+      const autosave = createAutosave(save, DELAY);
+
+      autosave.schedule();
+      await vi.advanceTimersByTimeAsync(DELAY / 2);
+      autosave.schedule();
+      await vi.advanceTimersByTimeAsync(DELAY);
+
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(autosave.hasPendingChanges()).toBe(false);
+    });
+
+    it('should wait for a slow save before saving the next change', async () => {
+      const server = stubProjectServer();
+      const results: string[] = [];
+      let revision = 1;
+      const autosave = createAutosave(async () => {
+        const result = await saveRemoteProject('p', revision, createProjectFile(DEFAULT_EDITOR_STATE));
+        results.push(result.status);
+        if (result.status === 'saved') revision = result.record.revision;
+      }, DELAY);
+
+      autosave.schedule();
+      await vi.advanceTimersByTimeAsync(DELAY);
+      expect(server.fetch).toHaveBeenCalledTimes(1);
+
+      // The second change's delay runs out while the first save is in flight
+      autosave.schedule();
+      await vi.advanceTimersByTimeAsync(DELAY);
+      expect(server.fetch).toHaveBeenCalledTimes(1);
+      expect(autosave.hasPendingChanges()).toBe(true);
+
+      server.respond();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(server.fetch).toHaveBeenCalledTimes(2);
+
+      server.respond();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(results).toEqual(['saved', 'saved']);
+      expect(revision).toBe(3);
+      expect(autosave.hasPendingChanges()).toBe(false);
+    });
+
+    it('should not save after being cancelled', async () => {
+      const save = vi.fn().mockResolvedValue(undefined);
+      const autosave = createAutosave(save, DELAY);
+
+      autosave.schedule();
+      autosave.cancel();
+      autosave.schedule();
+      await vi.advanceTimersByTimeAsync(DELAY);
+
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit tests for server-side project storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createProject,
+  getProject,
+  listProjects,
+  updateProject,
+  deleteProject,
+  isValidProjectId,
+  getProjectsDir,
+} from '../projectStorage';
+import { createProjectFile } from '../project';
+import { DEFAULT_EDITOR_STATE } from '../types';
+
+const projectFile = createProjectFile({
+  ...DEFAULT_EDITOR_STATE,
+  media: [
+    { id: 'v1', trackId: 'video-1', src: '/uploads/intro.mp4', startFrame: 0, endFrame: 90, order: 0, type: 'video' },
+    { id: 'i1', trackId: 'video-1', src: '/uploads/logo.png', startFrame: 90, endFrame: 150, order: 1, type: 'image' },
+  ],
+});
+
+describe('Project Storage', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vidrush-projects-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tempDir);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store projects next to public/uploads', () => {
+    expect(getProjectsDir()).toBe(path.join(tempDir, 'public', 'projects'));
+  });
+
+  it('should create a project at revision 1', async () => {
+    const record = await createProject({ title: '  Launch video ', project: projectFile });
+
+    expect(record.title).toBe('Launch video');
+    expect(record.revision).toBe(1);
+    expect(record.createdAt).toBe(record.modifiedAt);
+    expect(record.thumbnail).toBe('/uploads/logo.png'); // First image on the timeline
+
+    const loaded = await getProject(record.id);
+    expect(loaded?.project.project.media).toEqual(projectFile.project.media);
+  });
+
+  it('should default the title', async () => {
+    const record = await createProject({ project: projectFile });
+
+    expect(record.title).toBe('Untitled Project');
+  });
+
+  it('should list project summaries without the document', async () => {
+    await createProject({ title: 'First', project: projectFile });
+    await createProject({ title: 'Second', project: projectFile });
+
+    const projects = await listProjects();
+
+    expect(projects).toHaveLength(2);
+    expect(projects[0]).not.toHaveProperty('project');
+  });
+
+  it('should bump the revision on update', async () => {
+    const record = await createProject({ title: 'Draft', project: projectFile });
+
+    const result = await updateProject(record.id, { revision: 1, title: 'Final' });
+
+    expect(result.status).toBe('ok');
+    if (result.status === 'ok') {
+      expect(result.record.revision).toBe(2);
+      expect(result.record.title).toBe('Final');
+      expect(result.record.createdAt).toBe(record.createdAt);
+    }
+  });
+
+  it('should reject stale revisions', async () => {
+    const record = await createProject({ project: projectFile });
+    await updateProject(record.id, { revision: 1, title: 'Saved elsewhere' });
+
+    const result = await updateProject(record.id, { revision: 1, title: 'Stale' });
+
+    expect(result.status).toBe('conflict');
+    if (result.status === 'conflict') {
+      expect(result.record.revision).toBe(2);
+      expect(result.record.title).toBe('Saved elsewhere');
+    }
+  });
+
+  it('should let only one of two concurrent saves of a revision through', async () => {
+    const record = await createProject({ project: projectFile });
+
+    const results = await Promise.all([
+      updateProject(record.id, { revision: 1, title: 'Tab A' }),
+      updateProject(record.id, { revision: 1, title: 'Tab B' }),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['ok', 'conflict']);
+    expect((await getProject(record.id))?.title).toBe('Tab A');
+    expect(await fs.readdir(getProjectsDir())).toEqual([`${record.id}.json`]);
+  });
+
+  it('should skip unreadable records when listing', async () => {
+    await createProject({ title: 'Good', project: projectFile });
+    await fs.writeFile(path.join(getProjectsDir(), 'broken.json'), '{ not json');
+
+    const projects = await listProjects();
+
+    expect(projects.map(project => project.title)).toEqual(['Good']);
+  });
+
+  it('should report missing projects', async () => {
+    expect(await getProject('missing')).toBeNull();
+    expect((await updateProject('missing', { revision: 1 })).status).toBe('not-found');
+    expect(await deleteProject('missing')).toBe(false);
+  });
+
+  it('should delete projects', async () => {
+    const record = await createProject({ project: projectFile });
+
+    expect(await deleteProject(record.id)).toBe(true);
+    expect(await getProject(record.id)).toBeNull();
+  });
+
+  it('should reject IDs that could escape the projects directory', async () => {
+    expect(isValidProjectId('abc123')).toBe(true);
+    expect(isValidProjectId('../secrets')).toBe(false);
+    expect(isValidProjectId('a/b')).toBe(false);
+    expect(await getProject('../../etc/passwd')).toBeNull();
+  });
+});
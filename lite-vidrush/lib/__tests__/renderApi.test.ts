@@ -0,0 +1,26 @@
+/**
+ * Unit tests for the /api/render client helpers
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { startRender } from '../renderApi';
+import { createProjectFile } from '../project';
+import { DEFAULT_EDITOR_STATE, EditorState } from '../types';
+
+describe('Render API client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the project file rather than the whole store', async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: true, status: 202, json: async () => ({ job: { id: 'job-1' } }) });
+    vi.stubGlobal('fetch', fetch);
+    const state = { ...DEFAULT_EDITOR_STATE, history: { past: [{}], future: [] } } as EditorState;
+
+    await startRender(state, { fps: 25 }, 'youtube-1080p');
+
+    const body = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(Object.keys(body)).toEqual(['project', 'presetId', 'settings']);
+    expect(body.project).toEqual({ ...createProjectFile(state), savedAt: body.project.savedAt });
+  });
+});
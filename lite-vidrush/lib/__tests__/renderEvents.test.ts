@@ -0,0 +1,59 @@
+/**
+ * Unit tests for the render event stream format
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createServerSentEventParser, formatServerSentEvent, isFinalRenderEvent } from '../renderEvents';
+import { RenderEvent, RenderJob } from '../types';
+
+const job = {
+  id: 'abc123',
+  state: 'rendering',
+  progress: 0.5,
+  renderedFrames: 60,
+  encodedFrames: 40,
+  totalFrames: 120,
+  eta: 10,
+} as RenderJob;
+
+function parseAll(chunks: string[]): RenderEvent[] {
+  const events: RenderEvent[] = [];
+  const parse = createServerSentEventParser(event => events.push(event));
+  chunks.forEach(parse);
+  return events;
+}
+
+describe('Render Events', () => {
+  it('should round-trip events through the SSE format', () => {
+    const events: RenderEvent[] = [
+      { type: 'bundle', progress: 0.25 },
+      { type: 'progress', stage: 'rendering', job },
+      { type: 'done', job: { ...job, state: 'done', progress: 1 } },
+    ];
+
+    expect(formatServerSentEvent(events[0])).toBe('event: bundle\ndata: {"type":"bundle","progress":0.25}\n\n');
+    expect(parseAll([events.map(formatServerSentEvent).join('')])).toEqual(events);
+  });
+
+  it('should reassemble messages split across chunks', () => {
+    const message = formatServerSentEvent({ type: 'progress', stage: 'encoding', job });
+    const chunks = [message.slice(0, 7), message.slice(7, 30), message.slice(30)];
+
+    expect(parseAll(chunks)).toEqual([{ type: 'progress', stage: 'encoding', job }]);
+    expect(parseAll([message.slice(0, -1)])).toEqual([]);
+  });
+
+  it('should ignore heartbeat comments and accept CRLF line endings', () => {
+    const message = formatServerSentEvent({ type: 'bundle', progress: 1 }).replace(/\n/g, '\r\n');
+
+    expect(parseAll([': heartbeat\n\n', message])).toEqual([{ type: 'bundle', progress: 1 }]);
+  });
+
+  it('should only treat finished jobs as final', () => {
+    expect(isFinalRenderEvent({ type: 'progress', stage: 'muxing', job })).toBe(false);
+    expect(isFinalRenderEvent({ type: 'status', job })).toBe(false);
+    expect(isFinalRenderEvent({ type: 'status', job: { ...job, state: 'cancelled' } })).toBe(true);
+    expect(isFinalRenderEvent({ type: 'error', job: { ...job, state: 'failed' }, error: 'Boom' })).toBe(true);
+    expect(isFinalRenderEvent({ type: 'done', job: { ...job, state: 'done' } })).toBe(true);
+  });
+});
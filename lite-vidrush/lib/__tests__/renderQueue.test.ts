@@ -0,0 +1,249 @@
+/**
+ * Unit tests for the render job queue
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createRenderQueue,
+  estimateRemaining,
+  isJobFinished,
+  RenderContext,
+  RenderInput,
+} from '../renderQueue';
+import { DEFAULT_EDITOR_STATE, DEFAULT_RENDER_SETTINGS, RenderEvent, RenderJob } from '../types';
+
+const input: RenderInput = { editorState: DEFAULT_EDITOR_STATE, settings: DEFAULT_RENDER_SETTINGS };
+
+// A render the test finishes by hand
+interface ControlledRender {
+  context: RenderContext;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+function createControlledRunner() {
+  const renders: ControlledRender[] = [];
+  const run = vi.fn((_input: RenderInput, context: RenderContext) =>
+    new Promise<void>((resolve, reject) => {
+      renders.push({ context, resolve, reject });
+      context.signal.addEventListener('abort', () => reject(new Error('Cancelled')));
+    })
+  );
+  return { run, renders };
+}
+
+// Let pending promise callbacks and file writes settle
+async function waitFor(check: () => boolean | Promise<boolean>) {
+  for (let i = 0; i < 50; i++) {
+    if (await check()) return;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error('Timed out waiting for condition');
+}
+
+describe('Render Queue', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vidrush-renders-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should queue jobs beyond the concurrency limit', async () => {
+    const { run, renders } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+
+    const first = queue.enqueue(input);
+    const second = queue.enqueue(input);
+    await waitFor(() => renders.length === 1);
+
+    expect((await queue.getJob(first.id))?.state).toBe('rendering');
+    expect((await queue.getJob(second.id))?.state).toBe('queued');
+
+    renders[0].resolve();
+    await waitFor(() => renders.length === 2);
+    expect((await queue.getJob(first.id))?.state).toBe('done');
+    expect((await queue.getJob(second.id))?.state).toBe('rendering');
+  });
+
+  it('should report progress and an ETA', async () => {
+    const { run, renders } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+
+    const job = queue.enqueue(input);
+    await waitFor(() => renders.length === 1);
+    renders[0].context.onProgress({ stage: 'rendering', progress: 0.5, renderedFrames: 60, encodedFrames: 45, totalFrames: 120 });
+
+    const status = await queue.getJob(job.id);
+    expect(status).toMatchObject({ progress: 0.5, renderedFrames: 60, encodedFrames: 45, totalFrames: 120 });
+    expect(status?.eta).not.toBeNull();
+  });
+
+  it('should persist finished jobs with a download URL', async () => {
+    const { run, renders } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+
+    const job = queue.enqueue(input);
+    await waitFor(() => renders.length === 1);
+    renders[0].resolve();
+    await waitFor(async () => (await queue.getJob(job.id))?.state === 'done');
+
+    // A fresh queue (e.g. after a restart) still finds the result on disk
+    const restarted = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+    await waitFor(async () => (await restarted.getJob(job.id)) !== null);
+    expect(await restarted.getJob(job.id)).toMatchObject({
+      state: 'done',
+      progress: 1,
+      outputUrl: `/api/render/${job.id}/output`,
+    });
+  });
+
+  it('should keep only the latest finished jobs in memory', async () => {
+    const { run, renders } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run, maxFinishedJobs: 1 });
+
+    const first = queue.enqueue(input);
+    const second = queue.enqueue(input);
+    await waitFor(() => renders.length === 1);
+    renders[0].resolve();
+    await waitFor(() => renders.length === 2);
+    renders[1].resolve();
+    await waitFor(() => queue.listJobs().length === 1);
+
+    expect(queue.listJobs().map(job => job.id)).toEqual([second.id]);
+    // Evicted jobs are still found on disk
+    expect((await queue.getJob(first.id))?.state).toBe('done');
+  });
+
+  it('should record failures', async () => {
+    const { run, renders } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+
+    const job = queue.enqueue(input);
+    await waitFor(() => renders.length === 1);
+    renders[0].reject(new Error('Codec not supported'));
+    await waitFor(async () => (await queue.getJob(job.id))?.state === 'failed');
+
+    expect((await queue.getJob(job.id))?.error).toBe('Codec not supported');
+  });
+
+  it('should cancel running jobs through the abort signal', async () => {
+    const { run, renders } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+
+    const job = queue.enqueue(input);
+    await waitFor(() => renders.length === 1);
+    queue.cancelJob(job.id);
+
+    expect(renders[0].context.signal.aborted).toBe(true);
+    await waitFor(async () => (await queue.getJob(job.id))?.state === 'cancelled');
+  });
+
+  it('should cancel queued jobs without running them', async () => {
+    const { run, renders } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+
+    queue.enqueue(input);
+    const queued = queue.enqueue(input);
+    await waitFor(() => renders.length === 1);
+
+    expect(queue.cancelJob(queued.id)?.state).toBe('cancelled');
+    renders[0].resolve();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stream events to subscribers until the job finishes', async () => {
+    const { run, renders } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+
+    // Subscribe while the job is still queued so its start is seen too
+    queue.enqueue(input);
+    const job = queue.enqueue(input);
+    const events: RenderEvent[] = [];
+    queue.subscribe(job.id, event => events.push(event));
+    await waitFor(() => renders.length === 1);
+    renders[0].resolve();
+    await waitFor(() => renders.length === 2);
+
+    const { context } = renders[1];
+    context.onBundleProgress(0.5);
+    context.onComposition({ id: 'VideoEditor', width: 1280, height: 720, fps: 30, durationInFrames: 120 });
+    context.onProgress({ stage: 'encoding', progress: 0.9, renderedFrames: 120, encodedFrames: 100, totalFrames: 120 });
+    renders[1].resolve();
+    await waitFor(() => events.some(event => event.type === 'done'));
+
+    expect(events.map(event => event.type)).toEqual(['status', 'bundle', 'composition', 'progress', 'done']);
+    expect(events[3]).toMatchObject({ stage: 'encoding', job: { encodedFrames: 100 } });
+    expect(events[4]).toMatchObject({ job: { state: 'done', outputUrl: `/api/render/${job.id}/output` } });
+  });
+
+  it('should send failures and cancellations as final events', async () => {
+    const { run, renders } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+
+    const failing = queue.enqueue(input);
+    const queued = queue.enqueue(input);
+    const failingEvents: RenderEvent[] = [];
+    const queuedEvents: RenderEvent[] = [];
+    queue.subscribe(failing.id, event => failingEvents.push(event));
+    queue.subscribe(queued.id, event => queuedEvents.push(event));
+    await waitFor(() => renders.length === 1);
+
+    queue.cancelJob(queued.id);
+    renders[0].reject(new Error('Out of memory'));
+    await waitFor(() => failingEvents.some(event => event.type === 'error'));
+
+    expect(failingEvents.at(-1)).toMatchObject({ type: 'error', error: 'Out of memory' });
+    expect(queuedEvents).toEqual([{ type: 'status', job: expect.objectContaining({ state: 'cancelled' }) }]);
+  });
+
+  it('should stop notifying after unsubscribing', async () => {
+    const { run, renders } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+
+    const job = queue.enqueue(input);
+    const listener = vi.fn();
+    const unsubscribe = queue.subscribe(job.id, listener);
+    await waitFor(() => renders.length === 1);
+
+    renders[0].context.onBundleProgress(0.5);
+    unsubscribe();
+    renders[0].context.onBundleProgress(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not find unknown or invalid job IDs', async () => {
+    const { run } = createControlledRunner();
+    const queue = createRenderQueue({ concurrency: 1, outputDir: tempDir, run });
+
+    expect(await queue.getJob('missing')).toBeNull();
+    expect(await queue.getJob('../etc/passwd')).toBeNull();
+  });
+});
+
+describe('estimateRemaining', () => {
+  it('should extrapolate from the time spent so far', () => {
+    expect(estimateRemaining(10000, 0.25)).toBe(30);
+    expect(estimateRemaining(10000, 1)).toBe(0);
+    expect(estimateRemaining(10000, 0)).toBeNull();
+  });
+});
+
+describe('isJobFinished', () => {
+  it('should treat done, failed and cancelled jobs as finished', () => {
+    const job = { state: 'rendering' } as RenderJob;
+    expect(isJobFinished(job)).toBe(false);
+    expect(isJobFinished({ ...job, state: 'done' })).toBe(true);
+    expect(isJobFinished({ ...job, state: 'cancelled' })).toBe(true);
+  });
+});
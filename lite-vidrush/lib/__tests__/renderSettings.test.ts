@@ -0,0 +1,88 @@
+/**
+ * Unit tests for render settings validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CODEC_CONTAINERS, getOutputFilename, overrideRenderSettings, validateRenderSettings } from '../renderSettings';
+import { BUILT_IN_PRESETS } from '../renderPresets';
+import { DEFAULT_RENDER_SETTINGS, RenderCodec, RenderSettings } from '../types';
+
+const settings = (changes: Partial<RenderSettings>): RenderSettings => ({ ...DEFAULT_RENDER_SETTINGS, ...changes });
+
+describe('Render Settings', () => {
+  it('should accept the defaults and every codec in its own containers', () => {
+    expect(validateRenderSettings(DEFAULT_RENDER_SETTINGS)).toEqual([]);
+
+    for (const [codec, containers] of Object.entries(CODEC_CONTAINERS)) {
+      for (const outputFormat of containers) {
+        expect(validateRenderSettings(settings({ codec: codec as RenderCodec, outputFormat }))).toEqual([]);
+      }
+    }
+  });
+
+  it('should reject codecs in containers that cannot hold them', () => {
+    expect(validateRenderSettings(settings({ codec: 'h265', outputFormat: 'webm' }))).toEqual([
+      "H.265 can't be written to webm; use mp4 or mkv.",
+    ]);
+    expect(validateRenderSettings(settings({ codec: 'vp9', outputFormat: 'mp4' }))).toHaveLength(1);
+    expect(validateRenderSettings(settings({ codec: 'gif', outputFormat: 'mp4' }))).toHaveLength(1);
+  });
+
+  it('should check the resolution and frame rate', () => {
+    expect(validateRenderSettings(settings({ width: 0 }))).toHaveLength(1);
+    expect(validateRenderSettings(settings({ height: 720.5 }))).toHaveLength(1);
+    expect(validateRenderSettings(settings({ fps: 0 }))).toHaveLength(1);
+    expect(validateRenderSettings(settings({ fps: 240 }))).toHaveLength(1);
+  });
+
+  it('should require even dimensions for H.264 and H.265 only', () => {
+    expect(validateRenderSettings(settings({ width: 1279 }))).toEqual(['H.264 needs an even width (got 1279).']);
+    expect(validateRenderSettings(settings({ width: 1279, codec: 'vp9', outputFormat: 'webm' }))).toEqual([]);
+  });
+
+  it('should validate bitrates', () => {
+    expect(validateRenderSettings(settings({ bitrate: '8M' }))).toEqual([]);
+    expect(validateRenderSettings(settings({ bitrate: '800k' }))).toEqual([]);
+    expect(validateRenderSettings(settings({ bitrate: 'fast' }))).toHaveLength(1);
+    expect(validateRenderSettings(settings({ codec: 'prores', outputFormat: 'mov', bitrate: '8M' }))).toEqual([
+      "ProRes doesn't take a bitrate.",
+    ]);
+  });
+
+  it('should check CRF against the codec', () => {
+    expect(validateRenderSettings(settings({ crf: 18 }))).toEqual([]);
+    expect(validateRenderSettings(settings({ crf: 60 }))).toEqual(['CRF for H.264 must be a whole number from 1 to 51.']);
+    expect(validateRenderSettings(settings({ crf: 60, codec: 'vp9', outputFormat: 'webm' }))).toEqual([]);
+    expect(validateRenderSettings(settings({ crf: 18, bitrate: '8M' }))).toEqual(['Use either a bitrate or a CRF, not both.']);
+    expect(validateRenderSettings(settings({ crf: 18, codec: 'prores', outputFormat: 'mov' }))).toEqual([
+      "ProRes doesn't take a CRF.",
+    ]);
+  });
+
+  it('should check audio bitrates and pixel formats', () => {
+    expect(validateRenderSettings(settings({ audioBitrate: '320k', pixelFormat: 'yuv420p' }))).toEqual([]);
+    expect(validateRenderSettings(settings({ audioBitrate: 'loud' }))).toHaveLength(1);
+    expect(validateRenderSettings(settings({ codec: 'gif', outputFormat: 'gif', audioBitrate: '128k' }))).toHaveLength(1);
+    expect(validateRenderSettings(settings({ pixelFormat: 'yuva420p' }))).toEqual([
+      "H.264 can't use the yuva420p pixel format.",
+    ]);
+    expect(validateRenderSettings(settings({ codec: 'vp8', outputFormat: 'webm', pixelFormat: 'yuva420p' }))).toEqual([]);
+  });
+
+  it('should replace the rate control of a preset with the one overridden', () => {
+    expect(overrideRenderSettings({ fps: 30, crf: 18 }, { bitrate: '8M' })).toEqual({ fps: 30, bitrate: '8M' });
+    expect(overrideRenderSettings({ bitrate: '8M' }, { crf: 20 })).toEqual({ crf: 20 });
+    expect(overrideRenderSettings({ crf: 18 }, { fps: 60 })).toEqual({ crf: 18, fps: 60 });
+    expect(overrideRenderSettings({ crf: 18 }, { crf: 20, bitrate: '8M' })).toEqual({ crf: 20, bitrate: '8M' });
+  });
+
+  it('should ship only valid built-in presets', () => {
+    for (const preset of BUILT_IN_PRESETS) {
+      expect(validateRenderSettings(preset.settings), preset.id).toEqual([]);
+    }
+  });
+
+  it('should name outputs after their container', () => {
+    expect(getOutputFilename('abc', 'mov')).toBe('vidrush-export-abc.mov');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for timeline snapping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSnapContext, getRulerInterval, getSnapThreshold, snapFrame, snapRange } from '../snapping';
+import { DEFAULT_EDITOR_STATE, EditorState } from '../types';
+
+const state: EditorState = {
+  ...DEFAULT_EDITOR_STATE,
+  media: [
+    { id: 'a', trackId: 'video-1', src: 'a.mp4', startFrame: 0, endFrame: 100, order: 0, type: 'video' },
+    { id: 'b', trackId: 'video-1', src: 'b.mp4', startFrame: 250, endFrame: 400, order: 1, type: 'video' },
+  ],
+  playhead: 170,
+  markIn: 500,
+};
+
+describe('getSnapThreshold', () => {
+  it('should cover fewer frames as the timeline zooms in', () => {
+    expect(getSnapThreshold(2)).toBe(4);
+    expect(getSnapThreshold(8)).toBe(1);
+  });
+});
+
+describe('getRulerInterval', () => {
+  it('should match the ruler ticks', () => {
+    expect(getRulerInterval(1, 30)).toBe(900);
+    expect(getRulerInterval(10, 30)).toBe(90);
+  });
+});
+
+describe('snapFrame', () => {
+  const context = createSnapContext(state, { pixelsPerFrame: 2, excludeIds: ['b'] });
+
+  it('should snap to item edges, the playhead and marks within reach', () => {
+    expect(snapFrame(context, 103)).toMatchObject({ frame: 100, delta: -3, point: { kind: 'edge' } });
+    expect(snapFrame(context, 167)?.point.kind).toBe('playhead');
+    expect(snapFrame(context, 496)?.point.kind).toBe('mark');
+    expect(snapFrame(context, 110)).toBeNull();
+  });
+
+  it('should skip excluded items', () => {
+    expect(snapFrame(context, 252)).toBeNull();
+  });
+
+  it('should snap to whole seconds only when they are far enough apart', () => {
+    expect(snapFrame(context, 212)).toMatchObject({ frame: 210, point: { kind: 'second' } });
+
+    const zoomedOut = createSnapContext({ ...state, zoom: 0.5 }, { pixelsPerFrame: 0.5 });
+    expect(zoomedOut.grids.map(grid => grid.kind)).toEqual(['tick']);
+  });
+
+  it('should leave the playhead out when it is the thing being moved', () => {
+    const scrub = createSnapContext(state, { pixelsPerFrame: 2, includePlayhead: false });
+    expect(scrub.points.some(point => point.kind === 'playhead')).toBe(false);
+  });
+});
+
+describe('snapRange', () => {
+  const context = createSnapContext(state, { pixelsPerFrame: 2, excludeIds: ['b'] });
+
+  it('should snap whichever edge is closer', () => {
+    // Start edge 2 frames from the clip end at 100
+    expect(snapRange(context, 102, 50)).toMatchObject({ startFrame: 100, point: { frame: 100 } });
+    // End edge 1 frame from the playhead at 170
+    expect(snapRange(context, 119, 50)).toMatchObject({ startFrame: 120, point: { kind: 'playhead' } });
+  });
+
+  it('should prefer items over the grid', () => {
+    // The start is a frame from a second, the end three frames from the playhead
+    expect(snapRange(context, 121, 46)).toMatchObject({ startFrame: 124, point: { kind: 'playhead' } });
+  });
+
+  it('should return null when nothing is within reach', () => {
+    expect(snapRange(context, 110, 45)).toBeNull();
+  });
+});
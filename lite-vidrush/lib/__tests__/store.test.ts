@@ -6,6 +6,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useEditorStore } from '../store';
 import { DEFAULT_EDITOR_STATE } from '../types';
+import { createProjectFile } from '../project';
 
 // Mock the animation frame for playback testing
 global.requestAnimationFrame = vi.fn((cb) => {
@@ -30,7 +31,7 @@ describe('Editor Store', () => {
       
       expect(result.current.media).toHaveLength(0);
       expect(result.current.texts).toHaveLength(0);
-      expect(result.current.selectedId).toBeNull();
+      expect(result.current.selectedIds).toEqual([]);
       expect(result.current.playhead).toBe(0);
       expect(result.current.isPlaying).toBe(false);
       expect(result.current.frameRate).toBe(30);
@@ -57,7 +58,7 @@ describe('Editor Store', () => {
       expect(result.current.media[0].src).toBe('test.mp4');
       expect(result.current.media[0].endFrame).toBe(150);
       expect(result.current.duration).toBeGreaterThan(150); // Auto-adjusted
-      expect(result.current.selectedId).toBe(result.current.media[0].id);
+      expect(result.current.selectedIds).toEqual([result.current.media[0].id]);
     });
 
     it('should update clip and extend timeline if needed', () => {
@@ -85,6 +86,28 @@ describe('Editor Store', () => {
       expect(result.current.duration).toBeGreaterThanOrEqual(initialDuration);
     });
 
+    it('should not update clips on locked tracks', () => {
+      const { result } = renderHook(() => useEditorStore());
+
+      act(() => {
+        result.current.addClip({
+          src: 'test.mp4',
+          startFrame: 0,
+          endFrame: 100,
+          type: 'video',
+        });
+      });
+
+      const clip = result.current.media[0];
+
+      act(() => {
+        result.current.updateTrack(clip.trackId, { locked: true });
+        result.current.updateClip(clip.id, { startFrame: 50, endFrame: 150 });
+      });
+
+      expect(result.current.media[0]).toMatchObject({ startFrame: 0, endFrame: 100 });
+    });
+
     it('should remove clip without auto-shrinking timeline', () => {
       const { result } = renderHook(() => useEditorStore());
       
@@ -108,7 +131,7 @@ describe('Editor Store', () => {
 
       expect(result.current.media).toHaveLength(0);
       expect(result.current.duration).toBe(timelineDuration); // Should not shrink
-      expect(result.current.selectedId).toBeNull();
+      expect(result.current.selectedIds).toEqual([]);
     });
 
     it('should trim clip and extend timeline if needed', () => {
@@ -161,7 +184,7 @@ describe('Editor Store', () => {
       expect(result.current.texts).toHaveLength(1);
       expect(result.current.texts[0].text).toBe('Hello World');
       expect(result.current.duration).toBeGreaterThan(200); // Auto-adjusted
-      expect(result.current.selectedId).toBe(result.current.texts[0].id);
+      expect(result.current.selectedIds).toEqual([result.current.texts[0].id]);
     });
 
     it('should update text overlay and extend timeline if needed', () => {
@@ -392,19 +415,19 @@ describe('Editor Store', () => {
       });
 
       const clipId = result.current.media[0].id;
-      expect(result.current.selectedId).toBe(clipId); // Auto-selected
+      expect(result.current.selectedIds).toEqual([clipId]); // Auto-selected
 
       // Deselect
       act(() => {
         result.current.selectItem(null);
       });
-      expect(result.current.selectedId).toBeNull();
+      expect(result.current.selectedIds).toEqual([]);
 
       // Select again
       act(() => {
         result.current.selectItem(clipId);
       });
-      expect(result.current.selectedId).toBe(clipId);
+      expect(result.current.selectedIds).toEqual([clipId]);
     });
 
     it('should get selected item', () => {
@@ -427,6 +450,38 @@ describe('Editor Store', () => {
       expect(selectedItem).toBeTruthy();
       expect(selectedItem?.id).toBe(result.current.media[0].id);
     });
+
+    it('should edit the whole selection as one undo step', () => {
+      const { result } = renderHook(() => useEditorStore());
+
+      act(() => {
+        result.current.addClip({ src: 'a.mp4', startFrame: 0, endFrame: 30, type: 'video' });
+        result.current.addClip({ src: 'b.mp4', startFrame: 40, endFrame: 60, type: 'video' });
+        result.current.selectAll();
+      });
+
+      const ids = result.current.media.map((clip) => clip.id);
+      expect(result.current.getSelectedItems()).toHaveLength(2);
+
+      act(() => {
+        result.current.nudgeItems(result.current.selectedIds, 5);
+      });
+      expect(result.current.media.map((clip) => clip.startFrame)).toEqual([5, 45]);
+
+      act(() => {
+        result.current.removeItems(result.current.selectedIds);
+      });
+      expect(result.current.media).toHaveLength(0);
+      expect(result.current.selectedIds).toEqual([]);
+
+      act(() => {
+        result.current.undo();
+        result.current.selectItems(ids);
+        result.current.undo();
+      });
+      expect(result.current.media.map((clip) => clip.startFrame)).toEqual([0, 40]);
+      expect(result.current.selectedIds).toEqual(ids);
+    });
   });
 
   describe('Audio Controls', () => {
@@ -567,6 +622,212 @@ describe('Editor Store', () => {
     });
   });
 
+  describe('Undo/Redo', () => {
+    it('should undo and redo clip operations', () => {
+      const { result } = renderHook(() => useEditorStore());
+
+      act(() => {
+        result.current.addClip({
+          src: 'test.mp4',
+          startFrame: 0,
+          endFrame: 100,
+          type: 'video',
+        });
+      });
+
+      const clipId = result.current.media[0].id;
+
+      act(() => {
+        result.current.trimClip(clipId, 10, 80);
+      });
+
+      expect(result.current.media[0].startFrame).toBe(10);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.media[0].startFrame).toBe(0);
+      expect(result.current.media[0].endFrame).toBe(100);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.media).toHaveLength(0);
+      expect(result.current.selectedIds).toEqual([]); // Selection pruned
+
+      act(() => {
+        result.current.redo();
+        result.current.redo();
+      });
+
+      expect(result.current.media).toHaveLength(1);
+      expect(result.current.media[0].startFrame).toBe(10);
+      expect(result.current.media[0].endFrame).toBe(80);
+    });
+
+    it('should undo master volume and mute changes', () => {
+      const { result } = renderHook(() => useEditorStore());
+
+      act(() => {
+        result.current.setMasterVolume(0.5);
+        result.current.toggleMute();
+      });
+
+      expect(result.current.history.past.map(entry => entry.label)).toEqual(['Set master volume', 'Mute']);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.muted).toBe(false);
+      expect(result.current.masterVolume).toBe(0.5);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.masterVolume).toBe(1);
+    });
+
+    it('should not record playback changes', () => {
+      const { result } = renderHook(() => useEditorStore());
+
+      act(() => {
+        result.current.setPlayhead(50);
+        result.current.play();
+        result.current.setZoom(2);
+      });
+
+      expect(result.current.history.past).toHaveLength(0);
+    });
+
+    it('should keep playhead untouched when undoing', () => {
+      const { result } = renderHook(() => useEditorStore());
+
+      act(() => {
+        result.current.addTextOverlay({
+          text: 'Hello',
+          startFrame: 0,
+          endFrame: 60,
+          position: { x: 50, y: 50 },
+          style: {
+            fontSize: 24,
+            fontFamily: 'Arial',
+            color: '#ffffff',
+            opacity: 1,
+            fontWeight: 'normal',
+            textAlign: 'center',
+          },
+        });
+        result.current.setPlayhead(30);
+      });
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.texts).toHaveLength(0);
+      expect(result.current.playhead).toBe(30);
+    });
+
+    it('should collapse a transaction into one undo step', () => {
+      const { result } = renderHook(() => useEditorStore());
+
+      act(() => {
+        result.current.addClip({
+          src: 'test.mp4',
+          startFrame: 0,
+          endFrame: 100,
+          type: 'video',
+        });
+      });
+
+      const clipId = result.current.media[0].id;
+
+      act(() => {
+        result.current.beginTransaction('Move clip');
+        result.current.updateClip(clipId, { startFrame: 10, endFrame: 110 });
+        result.current.updateClip(clipId, { startFrame: 20, endFrame: 120 });
+        result.current.updateClip(clipId, { startFrame: 30, endFrame: 130 });
+        result.current.endTransaction();
+      });
+
+      expect(result.current.history.past).toHaveLength(2);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.media[0].startFrame).toBe(0);
+      expect(result.current.media[0].endFrame).toBe(100);
+    });
+
+    it('should clear redo stack after a new change', () => {
+      const { result } = renderHook(() => useEditorStore());
+
+      act(() => {
+        result.current.extendTimeline(5);
+        result.current.undo();
+      });
+
+      expect(result.current.history.future).toHaveLength(1);
+
+      act(() => {
+        result.current.extendTimeline(10);
+      });
+
+      expect(result.current.history.future).toHaveLength(0);
+    });
+
+    it('should clear history on reset', () => {
+      const { result } = renderHook(() => useEditorStore());
+
+      act(() => {
+        result.current.extendTimeline(5);
+        result.current.resetState();
+      });
+
+      expect(result.current.history.past).toHaveLength(0);
+      expect(result.current.history.future).toHaveLength(0);
+    });
+  });
+
+  describe('Project Loading', () => {
+    it('should load a project and clear history', () => {
+      const { result } = renderHook(() => useEditorStore());
+
+      act(() => {
+        result.current.addClip({
+          src: 'old.mp4',
+          startFrame: 0,
+          endFrame: 100,
+          type: 'video',
+        });
+        result.current.setPlayhead(40);
+      });
+
+      act(() => {
+        result.current.loadProject(
+          createProjectFile({
+            ...DEFAULT_EDITOR_STATE,
+            media: [
+              { id: 'loaded', trackId: 'video-1', src: 'new.mp4', startFrame: 0, endFrame: 60, order: 0, type: 'video' },
+            ],
+            frameRate: 24,
+          })
+        );
+      });
+
+      expect(result.current.media).toHaveLength(1);
+      expect(result.current.media[0].id).toBe('loaded');
+      expect(result.current.frameRate).toBe(24);
+      expect(result.current.playhead).toBe(0);
+      expect(result.current.history.past).toHaveLength(0);
+    });
+  });
+
   describe('State Reset', () => {
     it('should reset to default state', () => {
       const { result } = renderHook(() => useEditorStore());
@@ -12,8 +12,30 @@ import {
   reorderClips,
   setPlayhead,
   togglePlayback,
+  shuttle,
+  setMarkIn,
+  setMarkOut,
+  clearMarks,
+  nudgeItem,
+  moveItems,
+  removeItems,
+  rippleDeleteItems,
+  duplicateItems,
+  duplicateItemsInPlace,
+  getCopiedItems,
+  pasteItems,
+  splitItem,
+  splitItems,
+  splitAllAtFrame,
   setZoom,
   selectItem,
+  selectItems,
+  selectAll,
+  selectForward,
+  getSelectedItems,
+  getItemsInRange,
+  getSharedProperties,
+  setAnimatedProperties,
   getTimelineItems,
   getItemsAtFrame,
   calculateTimelineDuration,
@@ -24,8 +46,35 @@ import {
   framesToTime,
   timeToFrames,
   validateTimelineState,
+  addTrack,
+  removeTrack,
+  reorderTracks,
+  updateTrack,
+  moveItemToTrack,
+  getTracksInOrder,
+  isTrackAudible,
+  addKeyframe,
+  moveKeyframe,
+  updateKeyframe,
+  removeKeyframe,
+  setAnimatedProperty,
+  addTransition,
+  updateTransition,
+  removeTransition,
+  getNextAdjacentClip,
+  getSourceDurationFrames,
+  slipClip,
+  setClipTrim,
+  setClipFades,
+  setClipPan,
+  rippleDelete,
+  rippleTrim,
+  rollEdit,
+  slideEdit,
+  retimeEditorState,
+  setCanvas,
 } from '../timelineOps';
-import { DEFAULT_EDITOR_STATE, EditorState, Clip, TextOverlay } from '../types';
+import { DEFAULT_EDITOR_STATE, DEFAULT_TEXT_STYLE, EditorState, Clip, TextOverlay } from '../types';
 
 describe('Timeline Operations', () => {
   describe('addClip', () => {
@@ -46,7 +95,7 @@ describe('Timeline Operations', () => {
         order: 0,
       });
       expect(newState.media[0].id).toBeDefined();
-      expect(newState.selectedId).toBe(newState.media[0].id);
+      expect(newState.selectedIds).toEqual([newState.media[0].id]);
     });
 
     it('should add clip with correct order', () => {
@@ -55,6 +104,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: '1',
+            trackId: 'video-1',
             src: 'test1.mp4',
             startFrame: 0,
             endFrame: 50,
@@ -76,6 +126,63 @@ describe('Timeline Operations', () => {
       expect(newState.media).toHaveLength(2);
       expect(newState.media[1].order).toBe(1);
     });
+
+    it('should size a clip from its source duration', () => {
+      const newState = addClip(DEFAULT_EDITOR_STATE, {
+        src: 'test.mp4',
+        startFrame: 30,
+        sourceDuration: 240,
+        trimStart: 40,
+        type: 'video',
+      });
+
+      expect(newState.media[0]).toMatchObject({ startFrame: 30, endFrame: 230, trimStart: 40, trimEnd: 0 });
+    });
+
+    it('should cap an explicit end frame at the source duration', () => {
+      const newState = addClip(DEFAULT_EDITOR_STATE, {
+        src: 'test.mp4',
+        startFrame: 0,
+        endFrame: 500,
+        sourceDuration: 120,
+        type: 'video',
+      });
+
+      expect(newState.media[0]).toMatchObject({ endFrame: 120, trimStart: 0, trimEnd: 0 });
+    });
+
+    it('should keep the remaining source as a tail handle', () => {
+      const newState = addClip(DEFAULT_EDITOR_STATE, {
+        src: 'test.mp4',
+        startFrame: 0,
+        endFrame: 100,
+        sourceDuration: 300,
+        type: 'video',
+      });
+
+      expect(newState.media[0].trimEnd).toBe(200);
+    });
+
+    it('should fall back to default lengths when the source duration is unknown', () => {
+      const video = addClip(DEFAULT_EDITOR_STATE, { src: 'test.mp4', startFrame: 0, type: 'video' });
+      const image = addClip(DEFAULT_EDITOR_STATE, { src: 'test.png', startFrame: 10, type: 'image' });
+
+      expect(video.media[0].endFrame).toBe(10 * DEFAULT_EDITOR_STATE.frameRate);
+      expect(image.media[0].endFrame).toBe(10 + 5 * DEFAULT_EDITOR_STATE.frameRate);
+      expect(image.media[0].trimEnd).toBeUndefined();
+    });
+  });
+
+  describe('getSourceDurationFrames', () => {
+    it('should convert seconds to frames', () => {
+      expect(getSourceDurationFrames(2.5, 30)).toBe(75);
+      expect(getSourceDurationFrames(0.01, 30)).toBe(1);
+    });
+
+    it('should return undefined for missing durations', () => {
+      expect(getSourceDurationFrames(undefined, 30)).toBeUndefined();
+      expect(getSourceDurationFrames(0, 30)).toBeUndefined();
+    });
   });
 
   describe('addTextOverlay', () => {
@@ -101,7 +208,7 @@ describe('Timeline Operations', () => {
       expect(newState.texts).toHaveLength(1);
       expect(newState.texts[0]).toMatchObject(textData);
       expect(newState.texts[0].id).toBeDefined();
-      expect(newState.selectedId).toBe(newState.texts[0].id);
+      expect(newState.selectedIds).toEqual([newState.texts[0].id]);
     });
   });
 
@@ -112,6 +219,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test1.mp4',
             startFrame: 0,
             endFrame: 50,
@@ -120,6 +228,7 @@ describe('Timeline Operations', () => {
           },
           {
             id: 'clip2',
+            trackId: 'video-1',
             src: 'test2.mp4',
             startFrame: 50,
             endFrame: 100,
@@ -127,7 +236,7 @@ describe('Timeline Operations', () => {
             type: 'video',
           },
         ],
-        selectedId: 'clip1',
+        selectedIds: ['clip1'],
       };
 
       const newState = removeItem(state, 'clip1');
@@ -135,7 +244,7 @@ describe('Timeline Operations', () => {
       expect(newState.media).toHaveLength(1);
       expect(newState.media[0].id).toBe('clip2');
       expect(newState.media[0].order).toBe(0); // Reordered
-      expect(newState.selectedId).toBeNull();
+      expect(newState.selectedIds).toEqual([]);
     });
 
     it('should remove text overlay by id', () => {
@@ -144,6 +253,7 @@ describe('Timeline Operations', () => {
         texts: [
           {
             id: 'text1',
+            trackId: 'text-1',
             text: 'Hello',
             startFrame: 0,
             endFrame: 50,
@@ -158,13 +268,13 @@ describe('Timeline Operations', () => {
             },
           },
         ],
-        selectedId: 'text1',
+        selectedIds: ['text1'],
       };
 
       const newState = removeItem(state, 'text1');
 
       expect(newState.texts).toHaveLength(0);
-      expect(newState.selectedId).toBeNull();
+      expect(newState.selectedIds).toEqual([]);
     });
   });
 
@@ -175,6 +285,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test.mp4',
             startFrame: 0,
             endFrame: 100,
@@ -196,6 +307,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test.mp4',
             startFrame: 0,
             endFrame: 100,
@@ -217,6 +329,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test.mp4',
             startFrame: 10,
             endFrame: 100,
@@ -231,6 +344,166 @@ describe('Timeline Operations', () => {
       expect(newState.media[0].startFrame).toBe(0);
       expect(newState.media[0].endFrame).toBe(90);
     });
+
+    it('should not trim past the end of the source media', () => {
+      const state: EditorState = {
+        ...DEFAULT_EDITOR_STATE,
+        media: [
+          {
+            id: 'clip1',
+            trackId: 'video-1',
+            src: 'test.mp4',
+            startFrame: 0,
+            endFrame: 100,
+            order: 0,
+            type: 'video',
+            sourceDuration: 150,
+            trimStart: 20,
+            trimEnd: 30,
+          },
+        ],
+      };
+
+      const extended = trimClip(state, 'clip1', 0, 400);
+      expect(extended.media[0]).toMatchObject({ endFrame: 130, trimEnd: 0 });
+
+      const shortened = trimClip(state, 'clip1', 0, 60);
+      expect(shortened.media[0]).toMatchObject({ endFrame: 60, trimEnd: 70 });
+    });
+
+    it('should advance the source in-point when trimming the left edge', () => {
+      const state: EditorState = {
+        ...DEFAULT_EDITOR_STATE,
+        media: [
+          {
+            id: 'clip1',
+            trackId: 'video-1',
+            src: 'test.mp4',
+            startFrame: 100,
+            endFrame: 200,
+            order: 0,
+            type: 'video',
+            sourceDuration: 300,
+            trimStart: 50,
+            trimEnd: 150,
+          },
+        ],
+      };
+
+      const shortened = trimClip(state, 'clip1', 130, 200);
+      expect(shortened.media[0]).toMatchObject({ startFrame: 130, endFrame: 200, trimStart: 80, trimEnd: 150 });
+
+      // Extending left stops at the first source frame
+      const extended = trimClip(state, 'clip1', 0, 200);
+      expect(extended.media[0]).toMatchObject({ startFrame: 50, endFrame: 200, trimStart: 0, trimEnd: 150 });
+    });
+
+    it('should not change the source offset of images', () => {
+      const state: EditorState = {
+        ...DEFAULT_EDITOR_STATE,
+        media: [
+          {
+            id: 'img1',
+            trackId: 'video-1',
+            src: 'test.png',
+            startFrame: 0,
+            endFrame: 100,
+            order: 0,
+            type: 'image',
+          },
+        ],
+      };
+
+      const newState = trimClip(state, 'img1', 20, 100);
+      expect(newState.media[0].startFrame).toBe(20);
+      expect(newState.media[0].trimStart).toBeUndefined();
+    });
+  });
+
+  describe('slipClip', () => {
+    const state: EditorState = {
+      ...DEFAULT_EDITOR_STATE,
+      media: [
+        {
+          id: 'clip1',
+          trackId: 'video-1',
+          src: 'test.mp4',
+          startFrame: 100,
+          endFrame: 200,
+          order: 0,
+          type: 'video',
+          sourceDuration: 300,
+          trimStart: 50,
+          trimEnd: 150,
+        },
+      ],
+    };
+
+    it('should change the in-point without moving the clip', () => {
+      const newState = slipClip(state, 'clip1', 120);
+      expect(newState.media[0]).toMatchObject({ startFrame: 100, endFrame: 200, trimStart: 120, trimEnd: 80 });
+    });
+
+    it('should stay within the source media', () => {
+      expect(slipClip(state, 'clip1', -20).media[0]).toMatchObject({ trimStart: 0, trimEnd: 200 });
+      expect(slipClip(state, 'clip1', 500).media[0]).toMatchObject({ trimStart: 200, trimEnd: 0 });
+    });
+
+    it('should not slip clips on locked tracks', () => {
+      const locked = updateTrack(state, 'video-1', { locked: true });
+      expect(slipClip(locked, 'clip1', 120)).toBe(locked);
+    });
+  });
+
+  describe('setClipTrim', () => {
+    const state: EditorState = {
+      ...DEFAULT_EDITOR_STATE,
+      media: [
+        {
+          id: 'clip1',
+          trackId: 'video-1',
+          src: 'test.mp4',
+          startFrame: 100,
+          endFrame: 200,
+          order: 0,
+          type: 'video',
+          sourceDuration: 300,
+          trimStart: 50,
+          trimEnd: 150,
+        },
+      ],
+    };
+
+    it('should resize the clip to the new source range', () => {
+      const newState = setClipTrim(state, 'clip1', 20, 30);
+      expect(newState.media[0]).toMatchObject({ startFrame: 100, endFrame: 350, trimStart: 20, trimEnd: 30 });
+    });
+
+    it('should ignore ranges with no frames left', () => {
+      expect(setClipTrim(state, 'clip1', 200, 100)).toBe(state);
+    });
+  });
+
+  describe('setClipFades / setClipPan', () => {
+    const state = addClip(DEFAULT_EDITOR_STATE, { src: 'a.mp3', startFrame: 0, endFrame: 90, type: 'audio' });
+    const clipId = state.media[0].id;
+
+    it('should round fades and keep them within the clip', () => {
+      expect(setClipFades(state, clipId, 15.4, 30).media[0]).toMatchObject({ fadeIn: 15, fadeOut: 30 });
+      expect(setClipFades(state, clipId, 60, 60).media[0]).toMatchObject({ fadeIn: 60, fadeOut: 30 });
+      expect(setClipFades(state, clipId, -5, 0).media[0]).toMatchObject({ fadeIn: 0, fadeOut: 0 });
+    });
+
+    it('should clamp the pan', () => {
+      expect(setClipPan(state, clipId, -0.25).media[0].pan).toBe(-0.25);
+      expect(setClipPan(state, clipId, 3).media[0].pan).toBe(1);
+    });
+
+    it('should ignore stills', () => {
+      const withImage = addClip(DEFAULT_EDITOR_STATE, { src: 'a.png', startFrame: 0, endFrame: 90, type: 'image' });
+      expect(setClipFades(withImage, withImage.media[0].id, 10, 10)).toBe(withImage);
+      expect(setClipPan(withImage, withImage.media[0].id, 1)).toBe(withImage);
+    });
   });
 
   describe('reorderClips', () => {
@@ -240,6 +513,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test1.mp4',
             startFrame: 0,
             endFrame: 50,
@@ -248,6 +522,7 @@ describe('Timeline Operations', () => {
           },
           {
             id: 'clip2',
+            trackId: 'video-1',
             src: 'test2.mp4',
             startFrame: 50,
             endFrame: 100,
@@ -256,6 +531,7 @@ describe('Timeline Operations', () => {
           },
           {
             id: 'clip3',
+            trackId: 'video-1',
             src: 'test3.mp4',
             startFrame: 100,
             endFrame: 150,
@@ -312,6 +588,74 @@ describe('Timeline Operations', () => {
     });
   });
 
+  describe('shuttle', () => {
+    it('should speed up with each press in the same direction', () => {
+      let state = shuttle(DEFAULT_EDITOR_STATE, 1);
+      expect(state).toMatchObject({ isPlaying: true, playbackRate: 1 });
+
+      state = shuttle(shuttle(shuttle(state, 1), 1), 1);
+      expect(state.playbackRate).toBe(4); // Capped at the fastest speed
+    });
+
+    it('should restart at normal speed when reversing or after pausing', () => {
+      const fast = shuttle(shuttle(DEFAULT_EDITOR_STATE, 1), 1);
+
+      expect(shuttle(fast, -1).playbackRate).toBe(-1);
+      expect(shuttle(fast, 0)).toMatchObject({ isPlaying: false, playbackRate: 1 });
+      expect(togglePlayback(shuttle(fast, 0)).playbackRate).toBe(1);
+    });
+  });
+
+  describe('marks', () => {
+    it('should set in and out points within the timeline', () => {
+      const state = setMarkOut(setMarkIn(DEFAULT_EDITOR_STATE, 30), 5000);
+
+      expect(state.markIn).toBe(30);
+      expect(state.markOut).toBe(DEFAULT_EDITOR_STATE.duration);
+    });
+
+    it('should drop the other mark when they cross', () => {
+      const state = setMarkOut(setMarkIn(DEFAULT_EDITOR_STATE, 30), 90);
+
+      expect(setMarkIn(state, 120)).toMatchObject({ markIn: 120, markOut: undefined });
+      expect(setMarkOut(state, 30)).toMatchObject({ markIn: undefined, markOut: 30 });
+      expect(clearMarks(state)).toMatchObject({ markIn: undefined, markOut: undefined });
+    });
+  });
+
+  describe('nudgeItem', () => {
+    const state: EditorState = {
+      ...DEFAULT_EDITOR_STATE,
+      media: [
+        { id: 'a', trackId: 'video-1', src: 'a.mp4', startFrame: 10, endFrame: 40, order: 0, type: 'video' },
+        { id: 'b', trackId: 'video-1', src: 'b.mp4', startFrame: 45, endFrame: 60, order: 1, type: 'video' },
+      ],
+      texts: [
+        { id: 't', trackId: 'text-1', text: 'Hi', startFrame: 0, endFrame: 30, position: { x: 50, y: 50 }, style: DEFAULT_TEXT_STYLE },
+      ],
+    };
+
+    it('should move clips and text overlays', () => {
+      expect(nudgeItem(state, 'a', -3).media[0]).toMatchObject({ startFrame: 7, endFrame: 37 });
+      expect(nudgeItem(state, 't', 5).texts[0]).toMatchObject({ startFrame: 5, endFrame: 35 });
+    });
+
+    it('should stop at frame 0', () => {
+      expect(nudgeItem(state, 'a', -30).media[0]).toMatchObject({ startFrame: 0, endFrame: 30 });
+      expect(nudgeItem(state, 't', -1)).toBe(state);
+    });
+
+    it('should refuse to overlap the next item', () => {
+      expect(nudgeItem(state, 'a', 5).media[0].startFrame).toBe(15);
+      expect(nudgeItem(state, 'a', 6)).toBe(state);
+    });
+
+    it('should leave locked tracks alone', () => {
+      const locked = updateTrack(state, 'video-1', { locked: true });
+      expect(nudgeItem(locked, 'a', 1)).toBe(locked);
+    });
+  });
+
   describe('setZoom', () => {
     it('should set zoom level', () => {
       const state = DEFAULT_EDITOR_STATE;
@@ -338,6 +682,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test1.mp4',
             startFrame: 50,
             endFrame: 100,
@@ -348,6 +693,7 @@ describe('Timeline Operations', () => {
         texts: [
           {
             id: 'text1',
+            trackId: 'text-1',
             text: 'Hello',
             startFrame: 10,
             endFrame: 60,
@@ -379,6 +725,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test1.mp4',
             startFrame: 0,
             endFrame: 50,
@@ -387,6 +734,7 @@ describe('Timeline Operations', () => {
           },
           {
             id: 'clip2',
+            trackId: 'video-1',
             src: 'test2.mp4',
             startFrame: 40,
             endFrame: 90,
@@ -416,6 +764,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test1.mp4',
             startFrame: 0,
             endFrame: 100,
@@ -426,6 +775,7 @@ describe('Timeline Operations', () => {
         texts: [
           {
             id: 'text1',
+            trackId: 'text-1',
             text: 'Hello',
             startFrame: 50,
             endFrame: 150,
@@ -467,6 +817,72 @@ describe('Timeline Operations', () => {
     });
   });
 
+  describe('retimeEditorState', () => {
+    const withClips = () => {
+      let state = addClip(DEFAULT_EDITOR_STATE, {
+        src: 'a.mp4', startFrame: 0, endFrame: 100, type: 'video', sourceDuration: 150, trimStart: 20,
+      });
+      state = addClip(state, { src: 'b.mp4', startFrame: 100, endFrame: 200, type: 'video', trimStart: 30, fadeOut: 15 });
+      state = addTransition(state, state.media[0].id, state.media[1].id, { duration: 15 });
+      state = addKeyframe(state, state.media[1].id, 'opacity', 45, 0.5);
+      return { ...state, playhead: 90, duration: 300 };
+    };
+
+    it('should keep everything at the same times at a new frame rate', () => {
+      const retimed = retimeEditorState(withClips(), 60);
+
+      expect(retimed).toMatchObject({ frameRate: 60, playhead: 180, duration: 600 });
+      expect(retimed.media[0]).toMatchObject({ startFrame: 0, endFrame: 200, trimStart: 40, trimEnd: 60, sourceDuration: 300 });
+      expect(retimed.media[1]).toMatchObject({ startFrame: 200, endFrame: 400, trimStart: 60, fadeOut: 30 });
+      expect(retimed.media[1].keyframes?.opacity?.[0].frame).toBe(90);
+      expect(retimed.transitions[0].duration).toBe(30);
+      expect(validateTimelineState(retimed)).toEqual([]);
+    });
+
+    it('should keep adjacent clips adjacent when frames round', () => {
+      const retimed = retimeEditorState(withClips(), 24);
+
+      expect(retimed.media[0].endFrame).toBe(80);
+      expect(retimed.media[1].startFrame).toBe(80);
+      expect(retimed.transitions[0].duration).toBe(12);
+    });
+
+    it('should return the same state at the current frame rate', () => {
+      const state = withClips();
+      expect(retimeEditorState(state, 30)).toBe(state);
+    });
+  });
+
+  describe('setCanvas', () => {
+    const withTitle = () => {
+      const state = addTextOverlay(DEFAULT_EDITOR_STATE, {
+        text: 'Title', startFrame: 0, endFrame: 90, position: { x: 25, y: 80 }, style: { ...DEFAULT_TEXT_STYLE, fontSize: 40 },
+      });
+      return addKeyframe(state, state.texts[0].id, 'fontSize', 30, 60);
+    };
+
+    it('should keep percentage positions and scale text with the shorter side', () => {
+      const state = setCanvas(withTitle(), { width: 1080, height: 1920 });
+
+      expect(state.canvas).toMatchObject({ width: 1080, height: 1920 });
+      expect(state.texts[0].position).toEqual({ x: 25, y: 80 });
+      expect(state.texts[0].style.fontSize).toBe(60);
+      expect(state.texts[0].keyframes?.fontSize?.[0].value).toBe(90);
+    });
+
+    it('should leave text alone when only the background changes', () => {
+      const before = withTitle();
+      const state = setCanvas(before, { backgroundColor: '#000000' });
+
+      expect(state.canvas.backgroundColor).toBe('#000000');
+      expect(state.texts).toBe(before.texts);
+    });
+
+    it('should keep sizes even and above the minimum', () => {
+      expect(setCanvas(DEFAULT_EDITOR_STATE, { width: 1081, height: 3 }).canvas).toMatchObject({ width: 1082, height: 16 });
+    });
+  });
+
   describe('validateTimelineState', () => {
     it('should return no errors for valid state', () => {
       const state: EditorState = {
@@ -474,6 +890,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test1.mp4',
             startFrame: 0,
             endFrame: 50,
@@ -482,6 +899,7 @@ describe('Timeline Operations', () => {
           },
           {
             id: 'clip2',
+            trackId: 'video-1',
             src: 'test2.mp4',
             startFrame: 60,
             endFrame: 100,
@@ -501,6 +919,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test1.mp4',
             startFrame: 0,
             endFrame: 60,
@@ -509,6 +928,7 @@ describe('Timeline Operations', () => {
           },
           {
             id: 'clip2',
+            trackId: 'video-1',
             src: 'test2.mp4',
             startFrame: 50,
             endFrame: 100,
@@ -529,6 +949,7 @@ describe('Timeline Operations', () => {
         media: [
           {
             id: 'clip1',
+            trackId: 'video-1',
             src: 'test1.mp4',
             startFrame: 50,
             endFrame: 50,
@@ -537,6 +958,7 @@ describe('Timeline Operations', () => {
           },
           {
             id: 'clip2',
+            trackId: 'video-1',
             src: 'test2.mp4',
             startFrame: -10,
             endFrame: 40,
@@ -551,6 +973,125 @@ describe('Timeline Operations', () => {
       expect(errors.some(e => e.includes('invalid frame range'))).toBe(true);
       expect(errors.some(e => e.includes('negative start frame'))).toBe(true);
     });
+
+    it('should allow overlapping items on different tracks', () => {
+      const withTrack = addTrack(DEFAULT_EDITOR_STATE, 'video');
+      const overlayTrack = getTracksInOrder(withTrack).find(t => t.kind === 'video')!;
+      let state = addClip(withTrack, { src: 'a.mp4', startFrame: 0, endFrame: 100, type: 'video', trackId: 'video-1' });
+      state = addClip(state, { src: 'b.mp4', startFrame: 50, endFrame: 150, type: 'video', trackId: overlayTrack.id });
+
+      expect(validateTimelineState(state)).toHaveLength(0);
+    });
+
+    it('should detect items on missing or incompatible tracks', () => {
+      const state: EditorState = {
+        ...DEFAULT_EDITOR_STATE,
+        media: [
+          { id: 'clip1', trackId: 'nope', src: 'a.mp4', startFrame: 0, endFrame: 10, order: 0, type: 'video' },
+          { id: 'clip2', trackId: 'text-1', src: 'b.mp3', startFrame: 0, endFrame: 10, order: 1, type: 'audio' },
+        ],
+      };
+
+      const errors = validateTimelineState(state);
+      expect(errors.some(e => e.includes('missing track'))).toBe(true);
+      expect(errors.some(e => e.includes('text track'))).toBe(true);
+    });
+  });
+
+  describe('Tracks', () => {
+    it('should place new clips on the top track of their kind', () => {
+      let state = addClip(DEFAULT_EDITOR_STATE, { src: 'a.mp4', startFrame: 0, endFrame: 10, type: 'video' });
+      state = addClip(state, { src: 'b.mp3', startFrame: 0, endFrame: 10, type: 'audio' });
+      state = addTextOverlay(state, {
+        text: 'Title',
+        startFrame: 0,
+        endFrame: 10,
+        position: { x: 50, y: 50 },
+        style: {
+          fontSize: 24,
+          fontFamily: 'Arial',
+          color: '#ffffff',
+          opacity: 1,
+          fontWeight: 'normal',
+          textAlign: 'center',
+        },
+      });
+
+      expect(state.media[0].trackId).toBe('video-1');
+      expect(state.media[1].trackId).toBe('audio-1');
+      expect(state.texts[0].trackId).toBe('text-1');
+    });
+
+    it('should create a track when none of the kind exists', () => {
+      const state = addClip(
+        { ...DEFAULT_EDITOR_STATE, tracks: [] },
+        { src: 'a.mp4', startFrame: 0, endFrame: 10, type: 'image' }
+      );
+
+      expect(state.tracks).toHaveLength(1);
+      expect(state.tracks[0].kind).toBe('video');
+      expect(state.media[0].trackId).toBe(state.tracks[0].id);
+    });
+
+    it('should add a track above existing tracks of the same kind', () => {
+      const state = addTrack(DEFAULT_EDITOR_STATE, 'video');
+      const ordered = getTracksInOrder(state);
+
+      expect(ordered.map(t => t.kind)).toEqual(['text', 'video', 'video', 'audio']);
+      expect(ordered[1].name).toBe('Video 2');
+      expect(ordered.map(t => t.order)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should remove a track with its items', () => {
+      let state = addClip(DEFAULT_EDITOR_STATE, { src: 'a.mp4', startFrame: 0, endFrame: 10, type: 'video' });
+      state = selectItem(state, state.media[0].id);
+      state = removeTrack(state, 'video-1');
+
+      expect(state.tracks.map(t => t.id)).toEqual(['text-1', 'audio-1']);
+      expect(state.media).toHaveLength(0);
+      expect(state.selectedIds).toEqual([]);
+    });
+
+    it('should not remove a locked track', () => {
+      const locked = updateTrack(DEFAULT_EDITOR_STATE, 'video-1', { locked: true });
+      expect(removeTrack(locked, 'video-1')).toBe(locked);
+    });
+
+    it('should reorder tracks', () => {
+      const state = reorderTracks(DEFAULT_EDITOR_STATE, 2, 0);
+      expect(getTracksInOrder(state).map(t => t.id)).toEqual(['audio-1', 'text-1', 'video-1']);
+    });
+
+    it('should move items only to compatible, unlocked tracks', () => {
+      let state = addTrack(DEFAULT_EDITOR_STATE, 'video');
+      const second = state.tracks.find(t => t.kind === 'video' && t.id !== 'video-1')!;
+      state = addClip(state, { src: 'a.mp4', startFrame: 0, endFrame: 10, type: 'video', trackId: 'video-1' });
+      const clipId = state.media[0].id;
+
+      expect(moveItemToTrack(state, clipId, 'audio-1').media[0].trackId).toBe('video-1');
+      expect(moveItemToTrack(state, clipId, second.id).media[0].trackId).toBe(second.id);
+
+      const locked = updateTrack(state, second.id, { locked: true });
+      expect(moveItemToTrack(locked, clipId, second.id).media[0].trackId).toBe('video-1');
+    });
+
+    it('should ignore edits to items on locked tracks', () => {
+      let state = addClip(DEFAULT_EDITOR_STATE, { src: 'a.mp4', startFrame: 0, endFrame: 100, type: 'video' });
+      const clipId = state.media[0].id;
+      state = updateTrack(state, 'video-1', { locked: true });
+
+      expect(trimClip(state, clipId, 10, 50)).toBe(state);
+      expect(removeItem(state, clipId)).toBe(state);
+    });
+
+    it('should honor mute and solo when checking audibility', () => {
+      const muted = updateTrack(DEFAULT_EDITOR_STATE, 'audio-1', { muted: true });
+      expect(isTrackAudible(muted, muted.tracks.find(t => t.id === 'audio-1')!)).toBe(false);
+
+      const solo = updateTrack(DEFAULT_EDITOR_STATE, 'audio-1', { solo: true });
+      expect(isTrackAudible(solo, solo.tracks.find(t => t.id === 'audio-1')!)).toBe(true);
+      expect(isTrackAudible(solo, solo.tracks.find(t => t.id === 'video-1')!)).toBe(false);
+    });
   });
 
   describe('Auto Timeline Duration Management', () => {
@@ -567,6 +1108,7 @@ describe('Timeline Operations', () => {
           media: [
             {
               id: 'clip1',
+              trackId: 'video-1',
               src: 'test.mp4',
               startFrame: 0,
               endFrame: 150,
@@ -577,6 +1119,7 @@ describe('Timeline Operations', () => {
           texts: [
             {
               id: 'text1',
+              trackId: 'text-1',
               text: 'Hello',
               startFrame: 50,
               endFrame: 200,
@@ -606,6 +1149,7 @@ describe('Timeline Operations', () => {
           media: [
             {
               id: 'clip1',
+              trackId: 'video-1',
               src: 'test.mp4',
               startFrame: 0,
               endFrame: 100,
@@ -639,6 +1183,7 @@ describe('Timeline Operations', () => {
           media: [
             {
               id: 'clip1',
+              trackId: 'video-1',
               src: 'test.mp4',
               startFrame: 0,
               endFrame: 100,
@@ -661,6 +1206,7 @@ describe('Timeline Operations', () => {
           media: [
             {
               id: 'clip1',
+              trackId: 'video-1',
               src: 'test.mp4',
               startFrame: 0,
               endFrame: 100,
@@ -684,6 +1230,7 @@ describe('Timeline Operations', () => {
           media: [
             {
               id: 'clip1',
+              trackId: 'video-1',
               src: 'test.mp4',
               startFrame: 0,
               endFrame: 100,
@@ -709,4 +1256,639 @@ describe('Timeline Operations', () => {
       });
     });
   });
+
+  describe('Keyframes', () => {
+    const withClip = () =>
+      addClip(DEFAULT_EDITOR_STATE, { src: 'a.mp4', startFrame: 100, endFrame: 200, type: 'video' });
+
+    it('should add a keyframe with the current value', () => {
+      const state = withClip();
+      const clipId = state.media[0].id;
+      const newState = addKeyframe(state, clipId, 'rotation', 10);
+
+      const keyframes = newState.media[0].keyframes?.rotation;
+      expect(keyframes).toHaveLength(1);
+      expect(keyframes?.[0]).toMatchObject({ frame: 10, value: 0, easing: 'linear' });
+    });
+
+    it('should replace the value of a keyframe on the same frame', () => {
+      let state = withClip();
+      const clipId = state.media[0].id;
+      state = addKeyframe(state, clipId, 'opacity', 10, 0.5);
+      state = addKeyframe(state, clipId, 'opacity', 10, 0.2);
+
+      expect(state.media[0].keyframes?.opacity).toHaveLength(1);
+      expect(state.media[0].keyframes?.opacity?.[0].value).toBe(0.2);
+    });
+
+    it('should clamp keyframes to the item duration', () => {
+      const state = withClip();
+      const clipId = state.media[0].id;
+      const newState = addKeyframe(state, clipId, 'opacity', 500, 1);
+
+      expect(newState.media[0].keyframes?.opacity?.[0].frame).toBe(100);
+    });
+
+    it('should move keyframes and keep them sorted', () => {
+      let state = withClip();
+      const clipId = state.media[0].id;
+      state = addKeyframe(state, clipId, 'opacity', 0, 0);
+      state = addKeyframe(state, clipId, 'opacity', 50, 1);
+      const first = state.media[0].keyframes!.opacity![0];
+      state = moveKeyframe(state, clipId, 'opacity', first.id, 80);
+
+      expect(state.media[0].keyframes?.opacity?.map(k => k.frame)).toEqual([50, 80]);
+    });
+
+    it('should replace a keyframe it is moved onto', () => {
+      let state = withClip();
+      const clipId = state.media[0].id;
+      state = addKeyframe(state, clipId, 'opacity', 0, 0);
+      state = addKeyframe(state, clipId, 'opacity', 50, 1);
+      const first = state.media[0].keyframes!.opacity![0];
+      state = moveKeyframe(state, clipId, 'opacity', first.id, 50);
+
+      expect(state.media[0].keyframes?.opacity).toEqual([{ ...first, frame: 50 }]);
+    });
+
+    it('should update keyframe easing', () => {
+      let state = withClip();
+      const clipId = state.media[0].id;
+      state = addKeyframe(state, clipId, 'opacity', 0, 0);
+      const keyframeId = state.media[0].keyframes!.opacity![0].id;
+      state = updateKeyframe(state, clipId, 'opacity', keyframeId, { easing: 'hold' });
+
+      expect(state.media[0].keyframes?.opacity?.[0].easing).toBe('hold');
+    });
+
+    it('should keep the last value as static when removing the final keyframe', () => {
+      let state = withClip();
+      const clipId = state.media[0].id;
+      state = addKeyframe(state, clipId, 'opacity', 0, 0.3);
+      const keyframeId = state.media[0].keyframes!.opacity![0].id;
+      state = removeKeyframe(state, clipId, 'opacity', keyframeId);
+
+      expect(state.media[0].keyframes?.opacity).toBeUndefined();
+      expect(state.media[0].opacity).toBe(0.3);
+    });
+
+    it('should set static values until a property is animated', () => {
+      let state = withClip();
+      const clipId = state.media[0].id;
+      state = setAnimatedProperty(state, clipId, 'rotation', 45, 10);
+      expect(state.media[0].rotation).toBe(45);
+      expect(state.media[0].keyframes?.rotation).toBeUndefined();
+
+      state = addKeyframe(state, clipId, 'rotation', 0);
+      state = setAnimatedProperty(state, clipId, 'rotation', 90, 20);
+      expect(state.media[0].rotation).toBe(45);
+      expect(state.media[0].keyframes?.rotation?.map(k => [k.frame, k.value])).toEqual([[0, 45], [20, 90]]);
+    });
+
+    it('should ignore keyframe edits on locked tracks', () => {
+      let state = withClip();
+      const clipId = state.media[0].id;
+      state = updateTrack(state, 'video-1', { locked: true });
+
+      expect(addKeyframe(state, clipId, 'opacity', 0, 1)).toBe(state);
+    });
+  });
+
+  describe('Transitions', () => {
+    const withAdjacentClips = (handles = 30) => {
+      let state = addClip(DEFAULT_EDITOR_STATE, {
+        src: 'a.mp4', startFrame: 0, endFrame: 100, type: 'video', trimEnd: handles,
+      });
+      state = addClip(state, {
+        src: 'b.mp4', startFrame: 100, endFrame: 200, type: 'video', trimStart: handles,
+      });
+      return { state, from: state.media[0].id, to: state.media[1].id };
+    };
+
+    it('should find the next adjacent clip on the track', () => {
+      const { state, from, to } = withAdjacentClips();
+      expect(getNextAdjacentClip(state, from)?.id).toBe(to);
+      expect(getNextAdjacentClip(state, to)).toBeUndefined();
+    });
+
+    it('should add a centered crossfade by default', () => {
+      const { state, from, to } = withAdjacentClips();
+      const newState = addTransition(state, from, to);
+
+      expect(newState.transitions).toHaveLength(1);
+      expect(newState.transitions[0]).toMatchObject({
+        trackId: 'video-1', type: 'crossfade', alignment: 'center', duration: 15,
+      });
+      expect(validateTimelineState(newState)).toEqual([]);
+    });
+
+    it('should shorten transitions to the available handles', () => {
+      const { state, from, to } = withAdjacentClips(4);
+      const newState = addTransition(state, from, to, { duration: 30 });
+
+      expect(newState.transitions[0].duration).toBe(8);
+    });
+
+    it('should not add a transition without handles', () => {
+      const { state, from, to } = withAdjacentClips(0);
+      expect(addTransition(state, from, to)).toBe(state);
+    });
+
+    it('should replace the transition at the same cut', () => {
+      const { state, from, to } = withAdjacentClips();
+      let newState = addTransition(state, from, to);
+      newState = addTransition(newState, from, to, { type: 'wipe' });
+
+      expect(newState.transitions).toHaveLength(1);
+      expect(newState.transitions[0].type).toBe('wipe');
+    });
+
+    it('should ignore updates that exceed the handles', () => {
+      const { state, from, to } = withAdjacentClips(10);
+      const withTransition = addTransition(state, from, to, { duration: 10 });
+      const id = withTransition.transitions[0].id;
+
+      expect(updateTransition(withTransition, id, { duration: 40 })).toBe(withTransition);
+      expect(updateTransition(withTransition, id, { alignment: 'start' }).transitions[0].alignment).toBe('start');
+    });
+
+    it('should remove transitions with their clips', () => {
+      const { state, from, to } = withAdjacentClips();
+      const withTransition = addTransition(state, from, to);
+
+      expect(removeItem(withTransition, to).transitions).toEqual([]);
+      expect(removeTransition(withTransition, withTransition.transitions[0].id).transitions).toEqual([]);
+    });
+
+    it('should report transitions broken by later edits', () => {
+      const { state, from, to } = withAdjacentClips();
+      const withTransition = addTransition(state, from, to);
+      const moved = trimClip(withTransition, from, 0, 90);
+
+      expect(validateTimelineState(moved).some(e => e.includes('not adjacent'))).toBe(true);
+    });
+  });
+
+  describe('Ripple, roll and slide edits', () => {
+    const sourceClip = (id: string, startFrame: number, endFrame: number): Clip => ({
+      id,
+      trackId: 'video-1',
+      src: `${id}.mp4`,
+      startFrame,
+      endFrame,
+      order: 0,
+      type: 'video',
+      sourceDuration: 200,
+      trimStart: 50,
+      trimEnd: 200 - 50 - (endFrame - startFrame),
+    });
+
+    // a: 0-100, b: 100-150, c: 150-250, plus a clip on another track
+    const state: EditorState = {
+      ...DEFAULT_EDITOR_STATE,
+      media: [
+        sourceClip('a', 0, 100),
+        sourceClip('b', 100, 150),
+        sourceClip('c', 150, 250),
+        { ...sourceClip('audio', 120, 180), trackId: 'audio-1', type: 'audio' },
+      ],
+    };
+    const clip = (s: EditorState, id: string) => s.media.find(c => c.id === id)!;
+
+    it('should close the gap after a ripple delete', () => {
+      const newState = rippleDelete(state, 'b');
+
+      expect(newState.media.map(c => c.id)).not.toContain('b');
+      expect(clip(newState, 'c')).toMatchObject({ startFrame: 100, endFrame: 200 });
+      expect(clip(newState, 'audio').startFrame).toBe(120); // Other tracks are untouched
+      expect(validateTimelineState(newState)).toEqual([]);
+    });
+
+    it('should shift downstream clips when ripple trimming the end', () => {
+      const newState = rippleTrim(state, 'b', 'end', 130);
+
+      expect(clip(newState, 'b')).toMatchObject({ startFrame: 100, endFrame: 130, trimEnd: 120 });
+      expect(clip(newState, 'c')).toMatchObject({ startFrame: 130, endFrame: 230 });
+      expect(validateTimelineState(newState)).toEqual([]);
+    });
+
+    it('should keep the clip in place when ripple trimming the start', () => {
+      const newState = rippleTrim(state, 'b', 'start', 120);
+
+      expect(clip(newState, 'b')).toMatchObject({ startFrame: 100, endFrame: 130, trimStart: 70 });
+      expect(clip(newState, 'c').startFrame).toBe(130);
+    });
+
+    it('should cap ripple trims at the source length', () => {
+      const newState = rippleTrim(state, 'b', 'end', 500);
+
+      expect(clip(newState, 'b')).toMatchObject({ endFrame: 250, trimEnd: 0 });
+      expect(clip(newState, 'c').startFrame).toBe(250);
+    });
+
+    it('should move the cut between two clips with a roll edit', () => {
+      const newState = rollEdit(state, 'a', 'b', 120);
+
+      expect(clip(newState, 'a')).toMatchObject({ endFrame: 120, trimEnd: 30 });
+      expect(clip(newState, 'b')).toMatchObject({ startFrame: 120, endFrame: 150, trimStart: 70 });
+      expect(clip(newState, 'c').startFrame).toBe(150);
+      expect(validateTimelineState(newState)).toEqual([]);
+    });
+
+    it('should limit roll edits to the available handles', () => {
+      const newState = rollEdit(state, 'a', 'b', 0);
+
+      // b can only reveal its 50 head frames
+      expect(clip(newState, 'b')).toMatchObject({ startFrame: 50, trimStart: 0 });
+      expect(clip(newState, 'a').endFrame).toBe(50);
+    });
+
+    it('should slide a clip while its neighbors absorb the move', () => {
+      const newState = slideEdit(state, 'b', 120);
+
+      expect(clip(newState, 'b')).toMatchObject({ startFrame: 120, endFrame: 170, trimStart: 50 });
+      expect(clip(newState, 'a').endFrame).toBe(120);
+      expect(clip(newState, 'c')).toMatchObject({ startFrame: 170, endFrame: 250, trimStart: 70 });
+      expect(validateTimelineState(newState)).toEqual([]);
+    });
+
+    it('should stop sliding when a neighbor runs out of handles', () => {
+      const newState = slideEdit(state, 'b', 0);
+
+      // c can only extend back over its 50 head frames
+      expect(clip(newState, 'b').startFrame).toBe(50);
+      expect(clip(newState, 'c')).toMatchObject({ startFrame: 100, trimStart: 0 });
+    });
+
+    it('should not edit clips on locked tracks', () => {
+      const locked = updateTrack(state, 'video-1', { locked: true });
+
+      expect(rippleDelete(locked, 'b')).toBe(locked);
+      expect(rippleTrim(locked, 'b', 'end', 130)).toBe(locked);
+      expect(rollEdit(locked, 'a', 'b', 120)).toBe(locked);
+      expect(slideEdit(locked, 'b', 120)).toBe(locked);
+    });
+
+    it('should reject edits that would break a transition', () => {
+      const withTransition = addTransition(state, 'a', 'b', { duration: 20, alignment: 'center' });
+      expect(withTransition.transitions).toHaveLength(1);
+
+      // Rolling the cut left uses up b's head frames needed by the transition
+      const newState = rollEdit(withTransition, 'a', 'b', 55);
+      expect(newState).toBe(withTransition);
+    });
+  });
+
+  describe('splitItem', () => {
+    const clip: Clip = {
+      id: 'a',
+      trackId: 'video-1',
+      src: 'a.mp4',
+      startFrame: 100,
+      endFrame: 200,
+      order: 0,
+      type: 'video',
+      sourceDuration: 300,
+      trimStart: 50,
+      trimEnd: 150,
+      fadeIn: 10,
+      fadeOut: 20,
+    };
+    const state: EditorState = { ...DEFAULT_EDITOR_STATE, media: [clip] };
+
+    it('should continue the source across the cut', () => {
+      const newState = splitItem(state, 'a', 130);
+      const [head, tail] = newState.media;
+
+      expect(head).toMatchObject({ id: 'a', startFrame: 100, endFrame: 130, trimStart: 50, trimEnd: 220 });
+      expect(tail).toMatchObject({ startFrame: 130, endFrame: 200, trimStart: 80, trimEnd: 150 });
+      expect(tail.id).not.toBe('a');
+      expect(validateTimelineState(newState)).toEqual([]);
+    });
+
+    it('should keep the fade-in on the head and the fade-out on the tail', () => {
+      const [head, tail] = splitItem(state, 'a', 130).media;
+
+      expect([head.fadeIn, head.fadeOut]).toEqual([10, 0]);
+      expect([tail.fadeIn, tail.fadeOut]).toEqual([0, 20]);
+    });
+
+    it('should split keyframes without changing the animation', () => {
+      const animated = {
+        ...state,
+        media: [{
+          ...clip,
+          keyframes: {
+            opacity: [
+              { id: 'k1', frame: 0, value: 0, easing: 'linear' as const },
+              { id: 'k2', frame: 60, value: 1, easing: 'linear' as const },
+            ],
+          },
+        }],
+      };
+      const [head, tail] = splitItem(animated, 'a', 130).media;
+
+      expect(head.keyframes?.opacity?.map(k => [k.frame, k.value])).toEqual([[0, 0], [30, 0.5]]);
+      expect(tail.keyframes?.opacity?.map(k => [k.frame, k.value])).toEqual([[0, 0.5], [30, 1]]);
+    });
+
+    it('should split text overlays', () => {
+      const withText = addTextOverlay(DEFAULT_EDITOR_STATE, {
+        text: 'Lower third', startFrame: 0, endFrame: 90, position: { x: 50, y: 80 }, style: DEFAULT_TEXT_STYLE,
+      });
+      const newState = splitItem(withText, withText.texts[0].id, 45);
+
+      expect(newState.texts.map(t => [t.startFrame, t.endFrame, t.text])).toEqual([
+        [0, 45, 'Lower third'],
+        [45, 90, 'Lower third'],
+      ]);
+    });
+
+    it('should ignore frames on or outside the edges and locked tracks', () => {
+      expect(splitItem(state, 'a', 100)).toBe(state);
+      expect(splitItem(state, 'a', 250)).toBe(state);
+      const locked = updateTrack(state, 'video-1', { locked: true });
+      expect(splitItem(locked, 'a', 150)).toBe(locked);
+    });
+
+    it('should hand transitions out of the clip to the tail', () => {
+      let withNext = addClip(state, {
+        src: 'b.mp4', startFrame: 200, endFrame: 260, type: 'video', sourceDuration: 100, trimStart: 20,
+      });
+      withNext = addTransition(withNext, 'a', withNext.media[1].id, { duration: 10 });
+      const newState = splitItem(withNext, 'a', 130);
+
+      expect(newState.transitions[0].fromClipId).toBe(newState.media[1].id);
+      expect(validateTimelineState(newState)).toEqual([]);
+    });
+
+    it('should split every track under a frame', () => {
+      let both = addTextOverlay(state, {
+        text: 'Title', startFrame: 120, endFrame: 180, position: { x: 50, y: 50 }, style: DEFAULT_TEXT_STYLE,
+      });
+      both = splitAllAtFrame(both, 150);
+
+      expect(both.media).toHaveLength(2);
+      expect(both.texts).toHaveLength(2);
+      expect(both.media[1].startFrame).toBe(150);
+      expect(both.texts[1].startFrame).toBe(150);
+    });
+  });
+
+  describe('Multiple selection', () => {
+    // a: 0-30 and b: 40-60 on video-1, c: 10-50 on audio-1, t: 20-50 on text-1
+    const state: EditorState = {
+      ...DEFAULT_EDITOR_STATE,
+      media: [
+        { id: 'a', trackId: 'video-1', src: 'a.mp4', startFrame: 0, endFrame: 30, order: 0, type: 'video' },
+        { id: 'b', trackId: 'video-1', src: 'b.mp4', startFrame: 40, endFrame: 60, order: 1, type: 'video' },
+        { id: 'c', trackId: 'audio-1', src: 'c.mp3', startFrame: 10, endFrame: 50, order: 2, type: 'audio' },
+      ],
+      texts: [
+        { id: 't', trackId: 'text-1', text: 'Hi', startFrame: 20, endFrame: 50, position: { x: 50, y: 50 }, style: DEFAULT_TEXT_STYLE },
+      ],
+      selectedIds: ['a'],
+    };
+
+    it('should replace, extend and toggle the selection', () => {
+      expect(selectItems(state, ['b', 'c']).selectedIds).toEqual(['b', 'c']);
+      expect(selectItems(state, ['b'], 'add').selectedIds).toEqual(['a', 'b']);
+      expect(selectItems(state, ['a', 'b'], 'toggle').selectedIds).toEqual(['b']);
+      expect(selectItem(state, null).selectedIds).toEqual([]);
+    });
+
+    it('should make the last selected item the primary one', () => {
+      const selected = selectItems(selectItems(state, ['c'], 'add'), ['a'], 'add');
+
+      expect(selected.selectedIds).toEqual(['c', 'a']);
+      expect(getSelectedItems(selected).map(item => item.id)).toEqual(['c', 'a']);
+    });
+
+    it('should find the items a marquee covers', () => {
+      expect(getItemsInRange(state, 25, 45, ['video-1'])).toEqual(['a', 'b']);
+      expect(getItemsInRange(state, 45, 25, ['video-1', 'text-1']).sort()).toEqual(['a', 'b', 't']);
+      expect(getItemsInRange(state, 31, 39, ['video-1'])).toEqual([]);
+    });
+
+    it('should select all, or everything from a frame on, skipping locked tracks', () => {
+      expect(selectAll(state).selectedIds.sort()).toEqual(['a', 'b', 'c', 't']);
+      expect(selectForward(state, 20).selectedIds.sort()).toEqual(['b', 't']);
+
+      const locked = updateTrack(state, 'audio-1', { locked: true });
+      expect(selectAll(locked).selectedIds).not.toContain('c');
+    });
+
+    it('should drop deleted items from the selection', () => {
+      const selected = selectItems(state, ['a', 'b', 't']);
+
+      expect(removeItem(selected, 'b').selectedIds).toEqual(['a', 't']);
+      expect(removeTrack(selected, 'text-1').selectedIds).toEqual(['a', 'b']);
+    });
+
+    it('should move a group together', () => {
+      const moved = moveItems(state, ['b', 't'], 5);
+
+      expect(moved.media[1]).toMatchObject({ startFrame: 45, endFrame: 65 });
+      expect(moved.texts[0]).toMatchObject({ startFrame: 25, endFrame: 55 });
+      expect(moved.media[0].startFrame).toBe(0);
+    });
+
+    it('should stop the group at frame 0 and refuse overlaps', () => {
+      const moved = moveItems(state, ['c', 't'], -15);
+      expect(moved.media[2].startFrame).toBe(0);
+      expect(moved.texts[0].startFrame).toBe(10);
+
+      // b would run into a
+      expect(moveItems(state, ['b', 't'], -15)).toBe(state);
+    });
+
+    it('should leave items on locked tracks where they are', () => {
+      const locked = updateTrack(state, 'text-1', { locked: true });
+      const moved = moveItems(locked, ['c', 't'], 10);
+
+      expect(moved.media[2].startFrame).toBe(20);
+      expect(moved.texts[0].startFrame).toBe(20);
+    });
+
+    it('should delete and ripple delete a group', () => {
+      const removed = removeItems(state, ['a', 't']);
+      expect(removed.media.map(clip => clip.id)).toEqual(['b', 'c']);
+      expect(removed.texts).toEqual([]);
+
+      // Both gaps on video-1 close, pulling d back by 50 frames
+      const withD: EditorState = {
+        ...state,
+        media: [...state.media, { ...state.media[0], id: 'd', startFrame: 70, endFrame: 80, order: 3 }],
+      };
+      const rippled = rippleDeleteItems(withD, ['a', 'b']);
+      expect(rippled.media.find(clip => clip.id === 'd')).toMatchObject({ startFrame: 20, endFrame: 30 });
+    });
+
+    it('should split every selected item under a frame', () => {
+      const split = splitItems(state, ['a', 'c', 'b'], 20);
+
+      expect(split.media).toHaveLength(5);
+      expect(split.media.find(clip => clip.id === 'b')?.endFrame).toBe(60);
+    });
+
+    it('should duplicate a group after itself with fresh IDs', () => {
+      const duplicated = duplicateItems(state, ['c', 't']);
+      const copies = getSelectedItems(duplicated);
+
+      expect(copies).toHaveLength(2);
+      expect(copies.map(item => item.id)).not.toContain('c');
+      // The group spans 10-50, so the copies start 40 frames later
+      expect(copies.map(item => [item.trackId, item.startFrame, item.endFrame])).toEqual([
+        ['audio-1', 50, 90],
+        ['text-1', 60, 90],
+      ]);
+      expect(validateTimelineState(duplicated)).toEqual([]);
+    });
+
+    it('should place copies after the tracks\' last items when the space is taken', () => {
+      const duplicated = duplicateItems(state, ['a']);
+      const [copy] = getSelectedItems(duplicated);
+
+      expect(copy).toMatchObject({ trackId: 'video-1', startFrame: 60, endFrame: 90 });
+    });
+
+    it('should copy transitions between duplicated clips', () => {
+      const adjacent: EditorState = {
+        ...DEFAULT_EDITOR_STATE,
+        media: [
+          { id: 'x', trackId: 'video-1', src: 'x.png', startFrame: 0, endFrame: 30, order: 0, type: 'image' },
+          { id: 'y', trackId: 'video-1', src: 'y.png', startFrame: 30, endFrame: 60, order: 1, type: 'image' },
+        ],
+      };
+      const withTransition = addTransition(adjacent, 'x', 'y', { duration: 10 });
+      const duplicated = duplicateItems(withTransition, ['x', 'y']);
+      const [x, y] = duplicated.selectedIds;
+
+      expect(duplicated.transitions).toHaveLength(2);
+      expect(duplicated.transitions[1]).toMatchObject({ fromClipId: x, toClipId: y });
+      expect(validateTimelineState(duplicated)).toEqual([]);
+    });
+
+    it('should list the properties every selected item has', () => {
+      expect(getSharedProperties(state, ['a', 'b'])).toContain('volume');
+      expect(getSharedProperties(state, ['a', 't'])).toEqual(
+        ['position.x', 'position.y', 'scale.width', 'scale.height', 'rotation', 'opacity']
+      );
+      expect(getSharedProperties(state, ['a', 'c'])).toEqual(['volume']);
+      expect(getSharedProperties(state, [])).toEqual([]);
+    });
+
+    it('should set a shared property on every item that has it', () => {
+      const changed = setAnimatedProperties(state, ['a', 'c', 't'], 'opacity', 0.5, 25);
+
+      expect(changed.media[0].opacity).toBe(0.5);
+      expect(changed.media[2].opacity).toBeUndefined(); // Audio has no picture
+      expect(changed.texts[0].style.opacity).toBe(0.5);
+    });
+
+    it('should key animated properties at the frame relative to each item', () => {
+      const animated = addKeyframe(state, 't', 'rotation', 0, 0);
+      const changed = setAnimatedProperties(animated, ['a', 't'], 'rotation', 45, 25);
+
+      expect(changed.media[0].rotation).toBe(45);
+      expect(changed.texts[0].keyframes?.rotation?.map(keyframe => keyframe.frame)).toEqual([0, 5]);
+    });
+  });
+
+  describe('Copy and paste', () => {
+    // a: 0-30 on video-1, c: 10-50 on audio-1, t: 20-50 on text-1
+    const state: EditorState = {
+      ...DEFAULT_EDITOR_STATE,
+      media: [
+        { id: 'a', trackId: 'video-1', src: 'a.mp4', startFrame: 0, endFrame: 30, order: 0, type: 'video' },
+        { id: 'c', trackId: 'audio-1', src: 'c.mp3', startFrame: 10, endFrame: 50, order: 1, type: 'audio' },
+      ],
+      texts: [
+        { id: 't', trackId: 'text-1', text: 'Hi', startFrame: 20, endFrame: 50, position: { x: 50, y: 50 }, style: DEFAULT_TEXT_STYLE },
+      ],
+    };
+
+    it('should copy items with the transitions between them only', () => {
+      const adjacent: EditorState = {
+        ...state,
+        media: [
+          { id: 'x', trackId: 'video-1', src: 'x.png', startFrame: 0, endFrame: 30, order: 0, type: 'image' },
+          { id: 'y', trackId: 'video-1', src: 'y.png', startFrame: 30, endFrame: 60, order: 1, type: 'image' },
+        ],
+      };
+      const withTransition = addTransition(adjacent, 'x', 'y', { duration: 10 });
+
+      expect(getCopiedItems(withTransition, ['x', 'y']).transitions).toHaveLength(1);
+      const copied = getCopiedItems(withTransition, ['x', 't']);
+      expect(copied.clips.map(clip => clip.id)).toEqual(['x']);
+      expect(copied.texts.map(text => text.id)).toEqual(['t']);
+      expect(copied.transitions).toEqual([]);
+    });
+
+    it('should paste at a frame with fresh IDs, keeping the spacing', () => {
+      const pasted = pasteItems(state, getCopiedItems(state, ['c', 't']), 100);
+      const copies = getSelectedItems(pasted);
+
+      expect(copies.map(item => item.id)).not.toContain('c');
+      expect(copies.map(item => [item.trackId, item.startFrame, item.endFrame])).toEqual([
+        ['audio-1', 100, 140],
+        ['text-1', 110, 140],
+      ]);
+      expect(pasted.tracks).toEqual(state.tracks);
+      expect(validateTimelineState(pasted)).toEqual([]);
+    });
+
+    it('should paste onto new tracks when the own tracks are taken', () => {
+      const pasted = pasteItems(state, getCopiedItems(state, ['a', 't']), 10);
+      const copies = getSelectedItems(pasted);
+
+      expect(pasted.tracks).toHaveLength(state.tracks.length + 2);
+      expect(copies.map(item => item.startFrame)).toEqual([10, 30]);
+      expect(copies.map(item => pasted.tracks.find(track => track.id === item.trackId)?.kind)).toEqual([
+        'video',
+        'text',
+      ]);
+      expect(copies.every(item => !state.tracks.some(track => track.id === item.trackId))).toBe(true);
+      expect(validateTimelineState(pasted)).toEqual([]);
+    });
+
+    it('should paste onto new tracks when the own tracks are locked or missing', () => {
+      const copied = getCopiedItems(state, ['a']);
+
+      const locked = updateTrack(state, 'video-1', { locked: true });
+      const [onLocked] = getSelectedItems(pasteItems(locked, copied, 200));
+      expect(onLocked.trackId).not.toBe('video-1');
+
+      const missing = { ...copied, clips: copied.clips.map(clip => ({ ...clip, trackId: 'other-tab' })) };
+      const pasted = pasteItems(state, missing, 200);
+      expect(getSelectedItems(pasted)[0]).toMatchObject({ startFrame: 200, endFrame: 230 });
+      expect(pasted.tracks).toHaveLength(state.tracks.length + 1);
+    });
+
+    it('should paste transitions between pasted clips', () => {
+      const adjacent: EditorState = {
+        ...DEFAULT_EDITOR_STATE,
+        media: [
+          { id: 'x', trackId: 'video-1', src: 'x.png', startFrame: 0, endFrame: 30, order: 0, type: 'image' },
+          { id: 'y', trackId: 'video-1', src: 'y.png', startFrame: 30, endFrame: 60, order: 1, type: 'image' },
+        ],
+      };
+      const withTransition = addTransition(adjacent, 'x', 'y', { duration: 10 });
+      const pasted = pasteItems(withTransition, getCopiedItems(withTransition, ['x', 'y']), 90);
+      const [x, y] = pasted.selectedIds;
+
+      expect(pasted.transitions).toHaveLength(2);
+      expect(pasted.transitions[1]).toMatchObject({ fromClipId: x, toClipId: y, trackId: 'video-1' });
+      expect(validateTimelineState(pasted)).toEqual([]);
+    });
+
+    it('should duplicate in place onto new tracks', () => {
+      const duplicated = duplicateItemsInPlace(state, ['a', 'c']);
+      const copies = getSelectedItems(duplicated);
+
+      expect(copies.map(item => [item.startFrame, item.endFrame])).toEqual([[0, 30], [10, 50]]);
+      expect(duplicated.tracks).toHaveLength(state.tracks.length + 2);
+      expect(duplicateItemsInPlace(state, [])).toBe(state);
+    });
+  });
 });
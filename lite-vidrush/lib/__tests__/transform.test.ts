@@ -0,0 +1,139 @@
+/**
+ * Unit tests for clip and text transforms
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveTransform,
+  clampCrop,
+  getCropClipPath,
+  getTransformStyle,
+  getClipFitStyle,
+  getCanvasFrameStyle,
+  DEFAULT_ANCHOR,
+  DEFAULT_CROP,
+} from '../transform';
+import { Clip, TextOverlay, DEFAULT_CANVAS } from '../types';
+
+const clip: Clip = {
+  id: 'clip1',
+  trackId: 'video-1',
+  src: 'test.mp4',
+  startFrame: 0,
+  endFrame: 100,
+  order: 0,
+  type: 'video',
+};
+
+const text: TextOverlay = {
+  id: 'text1',
+  trackId: 'text-1',
+  text: 'Hello',
+  startFrame: 0,
+  endFrame: 100,
+  position: { x: 10, y: 90 },
+  style: {
+    fontSize: 24,
+    fontFamily: 'Arial',
+    color: '#ffffff',
+    opacity: 1,
+    fontWeight: 'normal',
+    textAlign: 'left',
+  },
+};
+
+describe('Transforms', () => {
+  describe('resolveTransform', () => {
+    it('should default clips to a centered full-frame layer', () => {
+      const transform = resolveTransform(clip);
+
+      expect(transform.position).toEqual({ x: 50, y: 50 });
+      expect(transform.scale).toEqual({ width: 1, height: 1 });
+      expect(transform.rotation).toBe(0);
+      expect(transform.anchor).toEqual(DEFAULT_ANCHOR);
+      expect(transform.crop).toEqual(DEFAULT_CROP);
+    });
+
+    it('should keep explicit values', () => {
+      const transform = resolveTransform({
+        ...clip,
+        position: { x: 80, y: 20 },
+        scale: { width: 0.3, height: 0.3 },
+        rotation: 15,
+        anchor: { x: 1, y: 0 },
+        crop: { top: 10, right: 0, bottom: 10, left: 0 },
+      });
+
+      expect(transform.position).toEqual({ x: 80, y: 20 });
+      expect(transform.rotation).toBe(15);
+      expect(transform.anchor).toEqual({ x: 1, y: 0 });
+      expect(transform.crop.top).toBe(10);
+    });
+
+    it('should never crop text overlays', () => {
+      expect(resolveTransform(text).crop).toEqual(DEFAULT_CROP);
+    });
+  });
+
+  describe('getTransformStyle', () => {
+    it('should place the anchor at the position and pivot around it', () => {
+      const style = getTransformStyle(resolveTransform({
+        ...text,
+        anchor: { x: 0, y: 1 },
+        rotation: 90,
+        scale: { width: 2, height: 1 },
+      }));
+
+      expect(style.left).toBe('10%');
+      expect(style.top).toBe('90%');
+      expect(style.transform).toBe('translate(0%, -100%) rotate(90deg) scale(2, 1)');
+      expect(style.transformOrigin).toBe('0% 100%');
+    });
+
+    it('should center items with the default anchor', () => {
+      const style = getTransformStyle(resolveTransform(clip));
+      expect(style.transform).toBe('translate(-50%, -50%) rotate(0deg) scale(1, 1)');
+    });
+  });
+
+  describe('crop', () => {
+    it('should produce no clip path for an uncropped item', () => {
+      expect(getCropClipPath(DEFAULT_CROP)).toBeUndefined();
+    });
+
+    it('should produce an inset clip path', () => {
+      expect(getCropClipPath({ top: 10, right: 20, bottom: 0, left: 5 })).toBe('inset(10% 20% 0% 5%)');
+    });
+
+    it('should keep part of the item visible', () => {
+      const crop = clampCrop({ top: 60, right: -5, bottom: 60, left: 120 });
+
+      expect(crop.top + crop.bottom).toBeLessThan(100);
+      expect(crop.left + crop.right).toBeLessThan(100);
+      expect(crop.right).toBe(0);
+    });
+  });
+
+  describe('canvas and fit', () => {
+    it('should show the whole picture unless filling', () => {
+      expect(getClipFitStyle().objectFit).toBe('contain');
+      expect(getClipFitStyle('letterbox')).toMatchObject({ objectFit: 'contain', backgroundColor: '#000000' });
+      expect(getClipFitStyle('fill').objectFit).toBe('cover');
+    });
+
+    it('should leave the canvas as is when the output has its size', () => {
+      expect(getCanvasFrameStyle(DEFAULT_CANVAS, 1280, 720)).toMatchObject({
+        left: 0, top: 0, width: 1280, height: 720, transform: 'scale(1)',
+      });
+    });
+
+    it('should scale the canvas uniformly and center it in other sizes', () => {
+      const vertical = { ...DEFAULT_CANVAS, width: 1080, height: 1920 };
+      const style = getCanvasFrameStyle(vertical, 1920, 1080);
+
+      expect(style.transform).toBe('scale(0.5625)');
+      expect(style.left).toBeCloseTo((1920 - 1080 * 0.5625) / 2);
+      expect(style.top).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for transitions between clips
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getTransitionWindow,
+  getMaxTransitionDuration,
+  getTransitionErrors,
+  getActiveTransitions,
+  getClipRenderRange,
+  getClipTransitionAt,
+  getTransitionStyle,
+  getTransitionVolume,
+  getDipOpacity,
+} from '../transitions';
+import { Clip, DEFAULT_EDITOR_STATE, EditorState, Transition } from '../types';
+
+const clipA: Clip = {
+  id: 'a',
+  trackId: 'video-1',
+  src: 'a.mp4',
+  startFrame: 0,
+  endFrame: 100,
+  order: 0,
+  type: 'video',
+  trimEnd: 20,
+};
+
+const clipB: Clip = {
+  id: 'b',
+  trackId: 'video-1',
+  src: 'b.mp4',
+  startFrame: 100,
+  endFrame: 200,
+  order: 1,
+  type: 'video',
+  trimStart: 20,
+};
+
+const crossfade: Transition = {
+  id: 't1',
+  trackId: 'video-1',
+  fromClipId: 'a',
+  toClipId: 'b',
+  type: 'crossfade',
+  duration: 20,
+  alignment: 'center',
+};
+
+const stateWith = (transition: Transition, media: Clip[] = [clipA, clipB]): EditorState => ({
+  ...DEFAULT_EDITOR_STATE,
+  media,
+  transitions: [transition],
+});
+
+describe('Transitions', () => {
+  describe('getTransitionWindow', () => {
+    it('should center the window on the cut', () => {
+      expect(getTransitionWindow(100, 20, 'center')).toEqual({ start: 90, end: 110 });
+      expect(getTransitionWindow(100, 5, 'center')).toEqual({ start: 98, end: 103 });
+    });
+
+    it('should start or end at the cut', () => {
+      expect(getTransitionWindow(100, 20, 'start')).toEqual({ start: 100, end: 120 });
+      expect(getTransitionWindow(100, 20, 'end')).toEqual({ start: 80, end: 100 });
+    });
+  });
+
+  describe('getTransitionErrors', () => {
+    it('should accept a transition covered by handles', () => {
+      expect(getTransitionErrors(stateWith(crossfade), crossfade)).toEqual([]);
+    });
+
+    it('should require head handle frames on the incoming clip', () => {
+      const state = stateWith(crossfade, [clipA, { ...clipB, trimStart: 5 }]);
+      const errors = getTransitionErrors(state, crossfade);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('before clip b');
+    });
+
+    it('should require tail handle frames on the outgoing clip', () => {
+      const transition = { ...crossfade, alignment: 'start' as const, duration: 30 };
+      const errors = getTransitionErrors(stateWith(transition), transition);
+
+      expect(errors.some(e => e.includes('after clip a'))).toBe(true);
+    });
+
+    it('should treat images as having unlimited handles', () => {
+      const media: Clip[] = [
+        { ...clipA, type: 'image', trimEnd: undefined },
+        { ...clipB, type: 'image', trimStart: undefined },
+      ];
+      expect(getTransitionErrors(stateWith(crossfade, media), crossfade)).toEqual([]);
+    });
+
+    it('should reject clips that are not adjacent', () => {
+      const state = stateWith(crossfade, [clipA, { ...clipB, startFrame: 110, endFrame: 210 }]);
+      expect(getTransitionErrors(state, crossfade)[0]).toContain('not adjacent');
+    });
+
+    it('should only allow crossfades on audio tracks', () => {
+      const media: Clip[] = [
+        { ...clipA, type: 'audio', trackId: 'audio-1' },
+        { ...clipB, type: 'audio', trackId: 'audio-1' },
+      ];
+      const wipe = { ...crossfade, trackId: 'audio-1', type: 'wipe' as const };
+      expect(getTransitionErrors(stateWith(wipe, media), wipe).some(e => e.includes('crossfades'))).toBe(true);
+    });
+
+    it('should drop invalid transitions from rendering', () => {
+      const state = stateWith(crossfade, [clipA, { ...clipB, trimStart: 0 }]);
+      expect(getActiveTransitions(state)).toEqual([]);
+    });
+  });
+
+  describe('getMaxTransitionDuration', () => {
+    it('should be limited by the handles for each alignment', () => {
+      const shortHead = { ...clipB, trimStart: 4 };
+      expect(getMaxTransitionDuration(clipA, shortHead, 'start')).toBe(20);
+      expect(getMaxTransitionDuration(clipA, shortHead, 'end')).toBe(4);
+      expect(getMaxTransitionDuration(clipA, shortHead, 'center')).toBe(9);
+    });
+  });
+
+  describe('rendering', () => {
+    it('should extend clips into their handles', () => {
+      expect(getClipRenderRange(clipA, [crossfade])).toEqual({ start: 0, end: 110, head: 0, tail: 10 });
+      expect(getClipRenderRange(clipB, [crossfade])).toEqual({ start: 90, end: 200, head: 10, tail: 0 });
+    });
+
+    it('should report the role and progress of a clip in a transition', () => {
+      expect(getClipTransitionAt(clipA, [crossfade], 100)).toMatchObject({ role: 'from', progress: 0.5 });
+      expect(getClipTransitionAt(clipB, [crossfade], 95)).toMatchObject({ role: 'to', progress: 0.25 });
+      expect(getClipTransitionAt(clipB, [crossfade], 150)).toBeNull();
+    });
+
+    it('should fade in the incoming clip for crossfades', () => {
+      expect(getTransitionStyle(crossfade, 'to', 0.25)).toEqual({ opacity: 0.25 });
+      expect(getTransitionStyle(crossfade, 'from', 0.25)).toEqual({});
+    });
+
+    it('should reveal the incoming clip for wipes and slides', () => {
+      const wipe = { ...crossfade, type: 'wipe' as const, direction: 'right' as const };
+      expect(getTransitionStyle(wipe, 'to', 0.25).clipPath).toBe('inset(0 0 0 75%)');
+
+      const slide = { ...crossfade, type: 'slide' as const, direction: 'up' as const };
+      expect(getTransitionStyle(slide, 'to', 0.5).transform).toBe('translateY(-50%)');
+    });
+
+    it('should swap clips halfway through a dip', () => {
+      const dip = { ...crossfade, type: 'dip-to-color' as const };
+      expect(getTransitionStyle(dip, 'from', 0.25).opacity).toBe(1);
+      expect(getTransitionStyle(dip, 'to', 0.25).opacity).toBe(0);
+      expect(getTransitionStyle(dip, 'to', 0.75).opacity).toBe(1);
+      expect(getDipOpacity(0.5)).toBe(1);
+      expect(getDipOpacity(0)).toBe(0);
+    });
+
+    it('should crossfade audio', () => {
+      expect(getTransitionVolume(crossfade, 'from', 0.25)).toBe(0.75);
+      expect(getTransitionVolume(crossfade, 'to', 0.25)).toBe(0.25);
+    });
+  });
+});
@@ -21,6 +21,7 @@ import {
   sleep,
   getFileExtension,
   generateTimestampedFilename,
+  getUploadFilename,
 } from '../utils';
 
 describe('Utility Functions', () => {
@@ -317,4 +318,17 @@ describe('Utility Functions', () => {
       expect(filename.endsWith('.webm')).toBe(true);
     });
   });
+
+  describe('getUploadFilename', () => {
+    it('should read the filename from absolute and root-relative upload URLs', () => {
+      expect(getUploadFilename('http://localhost:3000/uploads/my%20clip.mp4')).toBe('my clip.mp4');
+      expect(getUploadFilename('/uploads/clip.mp4')).toBe('clip.mp4');
+    });
+
+    it('should ignore other sources', () => {
+      expect(getUploadFilename('https://example.com/video.mp4')).toBeNull();
+      expect(getUploadFilename('blob:http://localhost:3000/1234')).toBeNull();
+      expect(getUploadFilename('http://localhost:3000/uploads/.pan/clip.mp4/0.5.wav')).toBeNull();
+    });
+  });
 });
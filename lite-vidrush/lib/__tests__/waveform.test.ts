@@ -0,0 +1,96 @@
+/**
+ * Unit tests for waveform peak extraction, levels and drawing columns
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildPeakLevels,
+  createPeakAccumulator,
+  decodeWaveformLevels,
+  downsamplePeaks,
+  encodeWaveform,
+  getWaveformColumns,
+  pickPeakLevel,
+} from '../waveform';
+
+describe('createPeakAccumulator', () => {
+  it('should collect min/max pairs across chunks', () => {
+    const accumulator = createPeakAccumulator(4);
+    accumulator.push(Int16Array.from([0, 16384, -32768]));
+    accumulator.push(Int16Array.from([100, 32767, 0]));
+    accumulator.push(Int16Array.from([-16384]));
+
+    // Peaks of [0, 16384, -32768, 100] and the partial [32767, 0, -16384]
+    expect(Array.from(accumulator.finish())).toEqual([-127, 64, -63, 127]);
+  });
+
+  it('should return no peaks for no samples', () => {
+    expect(createPeakAccumulator(10).finish()).toHaveLength(0);
+  });
+});
+
+describe('downsamplePeaks', () => {
+  it('should merge pairs, keeping a partial last group', () => {
+    const peaks = Int8Array.from([-10, 20, -30, 5, -1, 1]);
+    expect(Array.from(downsamplePeaks(peaks, 2))).toEqual([-30, 20, -1, 1]);
+  });
+});
+
+describe('buildPeakLevels', () => {
+  it('should add coarser levels until they get too small', () => {
+    const base = new Int8Array(2000 * 2); // 10 seconds at 200 peaks per second
+    const levels = buildPeakLevels(base);
+
+    expect(levels.map(level => level.peaksPerSecond)).toEqual([200, 50, 12.5]);
+    expect(levels.map(level => level.peaks.length / 2)).toEqual([2000, 500, 125]);
+  });
+});
+
+describe('encodeWaveform / decodeWaveformLevels', () => {
+  it('should round-trip signed peaks through base64', () => {
+    const peaks = Int8Array.from([-127, 127, -1, 0, -64, 64]);
+    const encoded = encodeWaveform(1.5, [{ peaksPerSecond: 200, peaks }]);
+
+    expect(encoded.duration).toBe(1.5);
+    expect(typeof encoded.levels[0].peaks).toBe('string');
+
+    const [decoded] = decodeWaveformLevels(encoded.levels);
+    expect(decoded.peaksPerSecond).toBe(200);
+    expect(Array.from(decoded.peaks)).toEqual(Array.from(peaks));
+  });
+});
+
+describe('pickPeakLevel', () => {
+  const levels = [200, 50, 12.5].map(peaksPerSecond => ({ peaksPerSecond, peaks: new Int8Array(0) }));
+
+  it('should pick the coarsest level with a peak per pixel', () => {
+    expect(pickPeakLevel(levels, 6).peaksPerSecond).toBe(12.5); // 0.1x zoom
+    expect(pickPeakLevel(levels, 60).peaksPerSecond).toBe(200);
+    expect(pickPeakLevel(levels, 50).peaksPerSecond).toBe(50);
+  });
+
+  it('should fall back to the finest level when zoomed in further', () => {
+    expect(pickPeakLevel(levels, 600).peaksPerSecond).toBe(200); // 10x zoom
+  });
+});
+
+describe('getWaveformColumns', () => {
+  // One peak per second: silence, loud, quiet, loud
+  const level = { peaksPerSecond: 1, peaks: Int8Array.from([0, 0, -127, 127, -10, 10, -127, 127]) };
+
+  it('should merge the peaks under each column', () => {
+    const columns = getWaveformColumns(level, { startSeconds: 0, pixelsPerSecond: 0.5, width: 2 });
+    expect(Array.from(columns)).toEqual([-1, 1, -1, 1]);
+  });
+
+  it('should repeat peaks when zoomed in past the level', () => {
+    const columns = getWaveformColumns(level, { startSeconds: 1, pixelsPerSecond: 2, width: 3 });
+    expect(Array.from(columns)).toEqual([-1, 1, -1, 1, -10 / 127, 10 / 127].map(Math.fround));
+  });
+
+  it('should start from the trimmed source time and scale by the gain', () => {
+    const columns = getWaveformColumns(level, { startSeconds: 3, pixelsPerSecond: 1, width: 2, gain: 0.5 });
+    // Second column is past the end of the source
+    expect(Array.from(columns)).toEqual([-0.5, 0.5, 0, 0]);
+  });
+});
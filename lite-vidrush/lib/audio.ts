@@ -0,0 +1,106 @@
+/**
+ * Clip audio
+ * Per-frame gain of a clip (volume envelope and fades) and the stereo pan
+ * law shared by the preview and the renderer
+ */
+
+import { Clip } from './types';
+import { getAnimatedValue, sortKeyframes } from './keyframes';
+
+const ENVELOPE_SAMPLE_SPACING = 3; // Pixels between samples of the drawn envelope
+
+/**
+ * Fade-in and fade-out lengths of a clip, shortened to fit its length
+ */
+export function getClipFades(clip: Clip): { fadeIn: number; fadeOut: number } {
+  const length = clip.endFrame - clip.startFrame;
+  const fadeIn = Math.min(length, Math.max(0, clip.fadeIn ?? 0));
+  const fadeOut = Math.min(length - fadeIn, Math.max(0, clip.fadeOut ?? 0));
+  return { fadeIn, fadeOut };
+}
+
+/**
+ * Linear fade gain at a frame relative to the clip's start
+ * Transition handles outside the clip take the gain of the nearest edge.
+ */
+export function getFadeGain(clip: Clip, clipFrame: number): number {
+  const length = clip.endFrame - clip.startFrame;
+  const frame = Math.min(length, Math.max(0, clipFrame));
+  const { fadeIn, fadeOut } = getClipFades(clip);
+
+  let gain = 1;
+  if (fadeIn > 0 && frame < fadeIn) gain = Math.min(gain, frame / fadeIn);
+  if (fadeOut > 0 && frame > length - fadeOut) gain = Math.min(gain, (length - frame) / fadeOut);
+  return gain;
+}
+
+/**
+ * Gain of a clip at a frame relative to its start: the (keyframed) volume
+ * envelope times the fades
+ */
+export function getClipGain(clip: Clip, clipFrame: number): number {
+  return getAnimatedValue(clip, 'volume', clipFrame) * getFadeGain(clip, clipFrame);
+}
+
+/**
+ * Points of the volume envelope drawn over a clip, as [x in pixels, volume]
+ * Sampled every few pixels (at most once per frame) so eased segments curve.
+ */
+export function getEnvelopePoints(clip: Clip, pixelsPerFrame: number): [number, number][] {
+  const length = clip.endFrame - clip.startFrame;
+  const step = Math.max(1, Math.ceil(ENVELOPE_SAMPLE_SPACING / pixelsPerFrame));
+  const points: [number, number][] = [];
+
+  for (let frame = 0; frame < length; frame += step) {
+    points.push([frame * pixelsPerFrame, getAnimatedValue(clip, 'volume', frame)]);
+  }
+  points.push([length * pixelsPerFrame, getAnimatedValue(clip, 'volume', length)]);
+  return points;
+}
+
+/**
+ * Frame an envelope point can be dragged to: within the clip and strictly
+ * between its neighbours, so dragging never swallows another point
+ */
+export function clampEnvelopeFrame(clip: Clip, keyframeId: string, frame: number): number {
+  const keyframes = sortKeyframes(clip.keyframes?.volume ?? []);
+  const index = keyframes.findIndex(keyframe => keyframe.id === keyframeId);
+  const min = index > 0 ? keyframes[index - 1].frame + 1 : 0;
+  const max = index >= 0 && index < keyframes.length - 1
+    ? keyframes[index + 1].frame - 1
+    : clip.endFrame - clip.startFrame;
+  return Math.min(max, Math.max(min, Math.round(frame)));
+}
+
+/**
+ * Mixing matrix of the Web Audio StereoPannerNode for stereo input
+ * Returns [leftFromLeft, leftFromRight, rightFromLeft, rightFromRight]; -1 is
+ * hard left, 1 hard right. Panning moves one channel into the other.
+ */
+export function getStereoPanMatrix(pan: number): [number, number, number, number] {
+  const clamped = Math.min(1, Math.max(-1, pan));
+  const x = clamped <= 0 ? clamped + 1 : clamped;
+  const gainLeft = Math.cos((x * Math.PI) / 2);
+  const gainRight = Math.sin((x * Math.PI) / 2);
+
+  return clamped <= 0
+    ? [1, gainLeft, 0, gainRight]
+    : [gainLeft, 0, gainRight, 1];
+}
+
+/**
+ * Mixing matrix of a clip's pan followed by its track's pan
+ */
+export function getCombinedPanMatrix(pan: number, trackPan = 0): [number, number, number, number] {
+  const [ca, cb, cc, cd] = getStereoPanMatrix(pan);
+  const [ta, tb, tc, td] = getStereoPanMatrix(trackPan);
+  return [ta * ca + tb * cc, ta * cb + tb * cd, tc * ca + td * cc, tc * cb + td * cd];
+}
+
+/**
+ * ffmpeg audio filter applying the same pans as the preview (mono is upmixed first)
+ */
+export function getPanFilter(pan: number, trackPan = 0): string {
+  const [ll, lr, rl, rr] = getCombinedPanMatrix(pan, trackPan).map(gain => Number(gain.toFixed(6)));
+  return `aformat=channel_layouts=stereo,pan=stereo|c0=${ll}*c0+${lr}*c1|c1=${rl}*c0+${rr}*c1`;
+}
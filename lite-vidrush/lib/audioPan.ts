@@ -0,0 +1,118 @@
+/**
+ * Panned audio for renders
+ * Remotion mixes clip audio without a pan control, so clips panned by
+ * themselves or by their track get a stereo copy of their sound made with
+ * ffmpeg (server-only). Copies are cached next to the uploads per file and pan.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import ffmpegPath from 'ffmpeg-static';
+import { Clip, EditorState } from './types';
+import { getPanFilter } from './audio';
+import { getMediaMetadata } from './mediaProbe';
+import { getUploadFilename } from './utils';
+
+const execFileAsync = promisify(execFile);
+
+const PAN_TIMEOUT = 120000; // ms
+const PAN_DIR = '.pan';
+
+// Pans are stored to two decimals, which is finer than the Inspector and mixer sliders
+function roundPan(pan: number): number {
+  return Math.round(Math.min(1, Math.max(-1, pan)) * 100) / 100;
+}
+
+function getPannedPath(filePath: string, pan: number, trackPan: number): string {
+  const name = trackPan === 0 ? `${pan}.wav` : `${pan}_${trackPan}.wav`;
+  return path.join(path.dirname(filePath), PAN_DIR, path.basename(filePath), name);
+}
+
+/**
+ * Stereo copy of a file's audio with a clip and track pan applied, made on
+ * first use. Returns the path of the copy
+ */
+export async function getPannedAudio(filePath: string, pan: number, trackPan = 0): Promise<string> {
+  const pannedPath = getPannedPath(filePath, roundPan(pan), roundPan(trackPan));
+  try {
+    await fs.access(pannedPath);
+    return pannedPath;
+  } catch {
+    // Not made yet
+  }
+
+  if (!ffmpegPath) throw new Error('ffmpeg binary is not available');
+  await fs.mkdir(path.dirname(pannedPath), { recursive: true });
+
+  // Write to a temp file first so renders never pick up a half-written copy
+  const tempPath = `${pannedPath}.${process.pid}.tmp.wav`;
+  await execFileAsync(
+    ffmpegPath,
+    ['-v', 'error', '-y', '-i', filePath, '-vn', '-af', getPanFilter(roundPan(pan), roundPan(trackPan)), '-c:a', 'pcm_s16le', tempPath],
+    { timeout: PAN_TIMEOUT }
+  );
+  await fs.rename(tempPath, pannedPath);
+
+  console.log(`🎚️ Panned ${path.basename(filePath)} to ${roundPan(pan)} (track ${roundPan(trackPan)})`);
+  return pannedPath;
+}
+
+// URL of a file under public/, on the same origin as the clip's own source
+// (the render's bundle server does not serve the app's public files)
+function getPublicUrl(publicDir: string, filePath: string, src: string): string {
+  const segments = path.relative(publicDir, filePath).split(path.sep);
+  const pathname = `/${segments.map(encodeURIComponent).join('/')}`;
+  try {
+    return new URL(pathname, src).href;
+  } catch {
+    // Root-relative source
+    return pathname;
+  }
+}
+
+/**
+ * Point clips of uploaded media on panned clips or tracks at pre-panned
+ * copies of their audio
+ * Clips without sound, or whose audio ffmpeg can't pan, render unpanned.
+ */
+export async function applyClipPans(editorState: EditorState): Promise<EditorState> {
+  const publicDir = path.join(process.cwd(), 'public');
+
+  // One at a time: clips often share a source and pan
+  const media: Clip[] = [];
+  for (const clip of editorState.media) {
+    const pan = roundPan(clip.pan ?? 0);
+    const trackPan = roundPan(editorState.tracks.find(track => track.id === clip.trackId)?.pan ?? 0);
+    const filename = getUploadFilename(clip.src);
+    if (clip.type === 'image' || (pan === 0 && trackPan === 0) || !filename || path.basename(filename) !== filename) {
+      media.push(clip);
+      continue;
+    }
+
+    const filePath = path.join(publicDir, 'uploads', filename);
+    const metadata = await getMediaMetadata(filePath);
+    if (metadata && !metadata.audioCodec) {
+      media.push(clip);
+      continue;
+    }
+
+    try {
+      const pannedPath = await getPannedAudio(filePath, pan, trackPan);
+      media.push({ ...clip, audioSrc: getPublicUrl(publicDir, pannedPath, clip.src) });
+    } catch (error) {
+      console.warn(`⚠️ Could not pan ${filename}:`, error instanceof Error ? error.message : error);
+      media.push(clip);
+    }
+  }
+
+  return { ...editorState, media };
+}
+
+/**
+ * Remove the panned copies of a deleted upload
+ */
+export async function deletePannedAudio(filePath: string): Promise<void> {
+  await fs.rm(path.join(path.dirname(filePath), PAN_DIR, path.basename(filePath)), { recursive: true, force: true });
+}
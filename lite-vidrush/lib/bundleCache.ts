@@ -0,0 +1,135 @@
+/**
+ * Remotion bundle cache
+ * Keeps the composition bundle between renders and only rebuilds it when
+ * its sources change (server-only)
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type BundleCacheStatus = 'hit' | 'miss';
+
+export type BundleBuilder = (onProgress: (progress: number) => void) => Promise<string>;
+
+export interface BundleCacheOptions {
+  sources: string[]; // Files and directories whose contents key the bundle
+  build: BundleBuilder;
+}
+
+export interface BundleLease {
+  location: string;
+  status: BundleCacheStatus;
+  release: () => Promise<void>; // Call when done serving from the bundle
+}
+
+export interface BundleCache {
+  getStatus: () => Promise<BundleCacheStatus>;
+  getBundle: (onProgress?: (progress: number) => void) => Promise<BundleLease>;
+}
+
+// List the files below a path in a stable order
+async function listFiles(source: string): Promise<string[]> {
+  const stat = await fs.stat(source);
+  if (!stat.isDirectory()) return [source];
+
+  const entries = await fs.readdir(source, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(entry => listFiles(path.join(source, entry.name)))
+  );
+  return nested.flat();
+}
+
+/**
+ * Hash the names and contents of the given files and directories
+ */
+export async function hashSources(sources: string[]): Promise<string> {
+  const hash = createHash('sha256');
+  for (const source of sources) {
+    for (const file of await listFiles(source)) {
+      hash.update(file);
+      hash.update('\0');
+      hash.update(await fs.readFile(file));
+      hash.update('\0');
+    }
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Create a cache holding the latest bundle
+ * Requests arriving while a bundle is being built share that build. An
+ * outdated bundle is removed once the last render using it releases it.
+ */
+export function createBundleCache({ sources, build }: BundleCacheOptions): BundleCache {
+  let cached: { key: string; location: Promise<string> } | null = null;
+  const users = new Map<string, number>(); // Unreleased leases per bundle location
+  const outdated = new Set<string>();
+
+  const remove = async (location: string) => {
+    outdated.delete(location);
+    await fs.rm(location, { recursive: true, force: true }).catch(() => {});
+  };
+
+  const lease = (location: string, status: BundleCacheStatus): BundleLease => {
+    users.set(location, (users.get(location) ?? 0) + 1);
+    let released = false;
+    return {
+      location,
+      status,
+      release: async () => {
+        if (released) return;
+        released = true;
+        const count = (users.get(location) ?? 1) - 1;
+        if (count > 0) {
+          users.set(location, count);
+          return;
+        }
+        users.delete(location);
+        if (outdated.has(location)) await remove(location);
+      },
+    };
+  };
+
+  const getStatus = async (): Promise<BundleCacheStatus> =>
+    cached?.key === await hashSources(sources) ? 'hit' : 'miss';
+
+  return {
+    getStatus,
+
+    getBundle: async (onProgress = () => {}) => {
+      const key = await hashSources(sources);
+
+      if (cached?.key === key) {
+        const location = await cached.location;
+        onProgress(1);
+        return lease(location, 'hit');
+      }
+
+      const previous = cached;
+      const entry = { key, location: build(onProgress) };
+      cached = entry;
+
+      try {
+        const location = await entry.location;
+        console.log(`📦 Bundle cached for sources ${key.slice(0, 12)}`);
+
+        // The outdated bundle goes once no render is serving from it
+        if (previous) {
+          const previousLocation = await previous.location.catch(() => null);
+          if (previousLocation && previousLocation !== location) {
+            if (users.has(previousLocation)) outdated.add(previousLocation);
+            else await remove(previousLocation);
+          }
+        }
+        return lease(location, 'miss');
+      } catch (error) {
+        // Failed builds are retried by the next request
+        if (cached === entry) cached = null;
+        throw error;
+      }
+    },
+  };
+}
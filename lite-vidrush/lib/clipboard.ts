@@ -0,0 +1,137 @@
+/**
+ * Clipboard
+ * Copies timeline items to the system clipboard so they can be pasted in
+ * this or another editor tab. Items are written under a custom MIME type,
+ * plus as plain JSON text for browsers that only allow text.
+ */
+
+import { z } from 'zod';
+import { CopiedItems, DEFAULT_EDITOR_STATE } from './types';
+import { ClipSchema, TextOverlaySchema, TransitionSchema } from './project';
+import { retimeEditorState } from './timelineOps';
+
+export const CLIPBOARD_FORMAT = 'lite-vidrush-clipboard';
+export const CLIPBOARD_VERSION = 1;
+export const CLIPBOARD_MIME_TYPE = 'application/x-lite-vidrush-items+json';
+
+// The async clipboard API only accepts custom formats with a "web " prefix
+const WEB_MIME_TYPE = `web ${CLIPBOARD_MIME_TYPE}`;
+
+const ClipboardSchema = z.object({
+  format: z.literal(CLIPBOARD_FORMAT),
+  version: z.literal(CLIPBOARD_VERSION),
+  frameRate: z.number().positive(),
+  clips: z.array(ClipSchema),
+  texts: z.array(TextOverlaySchema),
+  transitions: z.array(TransitionSchema),
+});
+
+export type ClipboardData = z.infer<typeof ClipboardSchema>;
+
+// What was copied last, for pasting when the system clipboard can't be
+// used (permission denied, insecure context)
+let lastCopy: string | null = null;
+
+/**
+ * Serialize copied items; frames are in the given frame rate
+ */
+export function serializeClipboard(items: CopiedItems, frameRate: number): string {
+  const data: ClipboardData = { format: CLIPBOARD_FORMAT, version: CLIPBOARD_VERSION, frameRate, ...items };
+  return JSON.stringify(data);
+}
+
+/**
+ * Parse clipboard text; anything that isn't copied editor items gives null
+ */
+export function parseClipboard(text: string): ClipboardData | null {
+  try {
+    const result = ClipboardSchema.safeParse(JSON.parse(text));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copied items converted to a project's frame rate
+ */
+export function getClipboardItems(data: ClipboardData, frameRate: number): CopiedItems {
+  const copied = {
+    ...DEFAULT_EDITOR_STATE,
+    frameRate: data.frameRate,
+    media: data.clips,
+    texts: data.texts,
+    transitions: data.transitions,
+  };
+  const retimed = retimeEditorState(copied, frameRate);
+  return { clips: retimed.media, texts: retimed.texts, transitions: retimed.transitions };
+}
+
+/**
+ * Put items on the system clipboard
+ * Browsers without custom clipboard formats get the JSON as text only.
+ */
+export async function writeClipboard(items: CopiedItems, frameRate: number): Promise<void> {
+  const json = serializeClipboard(items, frameRate);
+  lastCopy = json;
+
+  const clipboard = typeof navigator !== 'undefined' ? navigator.clipboard : undefined;
+  if (!clipboard) return;
+
+  if (typeof ClipboardItem !== 'undefined' && clipboard.write) {
+    try {
+      await clipboard.write([
+        new ClipboardItem({
+          [WEB_MIME_TYPE]: new Blob([json], { type: CLIPBOARD_MIME_TYPE }),
+          'text/plain': new Blob([json], { type: 'text/plain' }),
+        }),
+      ]);
+      return;
+    } catch {
+      // Custom formats unsupported; fall through to plain text
+    }
+  }
+
+  try {
+    await clipboard.writeText(json);
+  } catch {
+    // No clipboard access; pasting in this tab still works from lastCopy
+  }
+}
+
+/**
+ * Read copied items from the system clipboard
+ * Returns null when the clipboard holds something else, e.g. text copied
+ * from another app since.
+ */
+export async function readClipboard(): Promise<ClipboardData | null> {
+  const clipboard = typeof navigator !== 'undefined' ? navigator.clipboard : undefined;
+
+  try {
+    if (clipboard?.read) {
+      for (const item of await clipboard.read()) {
+        const type = [WEB_MIME_TYPE, 'text/plain'].find((t) => item.types.includes(t));
+        if (!type) continue;
+        const data = parseClipboard(await (await item.getType(type)).text());
+        if (data) return data;
+      }
+      return null;
+    }
+    if (clipboard?.readText) {
+      return parseClipboard(await clipboard.readText());
+    }
+  } catch {
+    // Reading was refused; fall back to this tab's last copy
+  }
+  return lastCopy ? parseClipboard(lastCopy) : null;
+}
+
+/**
+ * Read copied items from a paste event
+ * Returns null when the clipboard holds something else. Events without
+ * clipboard data fall back to this tab's last copy.
+ */
+export function readClipboardEvent(event: ClipboardEvent): ClipboardData | null {
+  if (event.clipboardData) return parseClipboard(event.clipboardData.getData('text/plain'));
+  return lastCopy ? parseClipboard(lastCopy) : null;
+}
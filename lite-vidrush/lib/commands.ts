@@ -0,0 +1,211 @@
+/**
+ * Command registry
+ * Runs editor commands from key presses. Commands that only touch the store
+ * are built in; commands that need a component (timeline scrolling, dialogs)
+ * are registered by that component while it is mounted.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useEditorStore } from './store';
+import { CommandId, findCommand, getKeyCombo, isEditableTarget, Keymap } from './keymap';
+import { getCopiedItems } from './timelineOps';
+import { ClipboardData, getClipboardItems, readClipboard, readClipboardEvent, writeClipboard } from './clipboard';
+
+// Handlers return false when there was nothing to do, so the key press keeps
+// its default action (e.g. Mod+C copying page text with nothing selected)
+export type CommandHandler = () => boolean | void;
+
+const handlers = new Map<CommandId, CommandHandler>();
+
+// Move the playhead, leaving playback
+function seekBy(frames: number) {
+  const { playhead, seekTo } = useEditorStore.getState();
+  seekTo(playhead + frames);
+}
+
+// Run a store change; returns false when it left the store as it was
+function changesStore(change: () => void): boolean {
+  const before = useEditorStore.getState();
+  change();
+  return useEditorStore.getState() !== before;
+}
+
+// Change the selected items; returns false when nothing is selected or the
+// change did nothing (e.g. only items on locked tracks are selected)
+function changeSelected(change: (selectedIds: string[]) => void): boolean {
+  const { selectedIds } = useEditorStore.getState();
+  if (selectedIds.length === 0) return false;
+  return changesStore(() => change(selectedIds));
+}
+
+// Nudge the selected items together
+function nudgeSelected(frames: number): boolean {
+  return changeSelected(ids => useEditorStore.getState().nudgeItems(ids, frames));
+}
+
+// Put the selected items on the clipboard; returns false when nothing is selected
+function copySelected(): boolean {
+  const state = useEditorStore.getState();
+  if (state.selectedIds.length === 0) return false;
+  void writeClipboard(getCopiedItems(state, state.selectedIds), state.frameRate);
+  return true;
+}
+
+// Paste copied items at the playhead; returns false when there are none
+function pasteData(data: ClipboardData | null): boolean {
+  if (!data) return false;
+  const { playhead, frameRate, pasteItems } = useEditorStore.getState();
+  pasteItems(getClipboardItems(data, frameRate), playhead);
+  return true;
+}
+
+// The browser turns this key into a paste event carrying the clipboard text,
+// which handlePaste reads without asking for clipboard access
+const NATIVE_PASTE_COMBO = 'Mod+V';
+
+const STORE_COMMANDS: Partial<Record<CommandId, CommandHandler>> = {
+  playPause: () => useEditorStore.getState().togglePlayback(),
+  shuttleReverse: () => useEditorStore.getState().shuttle(-1),
+  shuttleStop: () => useEditorStore.getState().shuttle(0),
+  shuttleForward: () => useEditorStore.getState().shuttle(1),
+  stepBack: () => seekBy(-1),
+  stepForward: () => seekBy(1),
+  stepBackSecond: () => seekBy(-useEditorStore.getState().frameRate),
+  stepForwardSecond: () => seekBy(useEditorStore.getState().frameRate),
+  markIn: () => {
+    const { playhead, setMarkIn } = useEditorStore.getState();
+    setMarkIn(playhead);
+  },
+  markOut: () => {
+    const { playhead, setMarkOut } = useEditorStore.getState();
+    setMarkOut(playhead);
+  },
+  goToIn: () => {
+    const { markIn, seekTo } = useEditorStore.getState();
+    if (markIn !== undefined) seekTo(markIn);
+  },
+  goToOut: () => {
+    const { markOut, seekTo } = useEditorStore.getState();
+    if (markOut !== undefined) seekTo(markOut);
+  },
+  clearMarks: () => useEditorStore.getState().clearMarks(),
+  deleteSelected: () => changeSelected(ids => useEditorStore.getState().removeItems(ids)),
+  rippleDeleteSelected: () => changeSelected(ids => useEditorStore.getState().rippleDeleteItems(ids)),
+  duplicateSelected: () => changeSelected(ids => useEditorStore.getState().duplicateItems(ids)),
+  duplicateInPlace: () => changeSelected(ids => useEditorStore.getState().duplicateItemsInPlace(ids)),
+  copy: copySelected,
+  cut: () => {
+    if (!copySelected()) return false;
+    const { selectedIds, cutItems } = useEditorStore.getState();
+    cutItems(selectedIds);
+  },
+  // Keys other than the native paste key read the clipboard themselves
+  paste: () => {
+    void readClipboard().then(pasteData);
+  },
+  splitSelected: () => changeSelected(ids => {
+    const { playhead, splitItems } = useEditorStore.getState();
+    splitItems(ids, playhead);
+  }),
+  splitAll: () => changesStore(() => {
+    const { playhead, splitAllAtFrame } = useEditorStore.getState();
+    splitAllAtFrame(playhead);
+  }),
+  nudgeLeft: () => nudgeSelected(-1),
+  nudgeRight: () => nudgeSelected(1),
+  nudgeLeftSecond: () => nudgeSelected(-useEditorStore.getState().frameRate),
+  nudgeRightSecond: () => nudgeSelected(useEditorStore.getState().frameRate),
+  selectAll: () => useEditorStore.getState().selectAll(),
+  selectForward: () => {
+    const { playhead, selectForward } = useEditorStore.getState();
+    selectForward(playhead);
+  },
+  deselectAll: () => useEditorStore.getState().selectItem(null),
+  undo: () => useEditorStore.getState().undo(),
+  redo: () => useEditorStore.getState().redo(),
+  zoomIn: () => {
+    const { zoom, setZoom } = useEditorStore.getState();
+    setZoom(zoom * 1.5);
+  },
+  zoomOut: () => {
+    const { zoom, setZoom } = useEditorStore.getState();
+    setZoom(zoom / 1.5);
+  },
+};
+
+/**
+ * Run a command; returns false when nothing handles it right now or its
+ * handler had nothing to do
+ */
+export function runCommand(id: CommandId): boolean {
+  const handler = handlers.get(id) ?? STORE_COMMANDS[id];
+  if (!handler) return false;
+  return handler() !== false;
+}
+
+/**
+ * Handle a command from a component, replacing any built-in handler while
+ * the component is mounted
+ */
+export function useCommand(id: CommandId, handler: CommandHandler): void {
+  // The latest handler runs without re-registering on every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    const run = () => handlerRef.current();
+    handlers.set(id, run);
+    return () => {
+      if (handlers.get(id) === run) handlers.delete(id);
+    };
+  }, [id]);
+}
+
+/**
+ * Run the command bound to a keydown event
+ * Returns true when the event was used. Key presses meant for text fields
+ * and sliders are left alone.
+ */
+export function handleShortcut(event: KeyboardEvent, keymap: Keymap): boolean {
+  if (event.defaultPrevented || event.isComposing || isEditableTarget(event.target)) return false;
+
+  const combo = getKeyCombo(event);
+  const id = combo ? findCommand(keymap, combo) : undefined;
+  // Pasting waits for the paste event the key press turns into
+  if (id === 'paste' && combo === NATIVE_PASTE_COMBO) return false;
+  if (!id || !runCommand(id)) return false;
+
+  event.preventDefault();
+  return true;
+}
+
+/**
+ * Paste copied items from a paste event
+ * Returns true when the event was used; other clipboard contents, and pastes
+ * into text fields, keep the browser's default action.
+ */
+export function handlePaste(event: ClipboardEvent): boolean {
+  if (event.defaultPrevented || isEditableTarget(event.target)) return false;
+  if (!pasteData(readClipboardEvent(event))) return false;
+
+  event.preventDefault();
+  return true;
+}
+
+/**
+ * Listen for the keymap's shortcuts on the whole document
+ */
+export function useKeyboardShortcuts(keymap: Keymap, enabled = true): void {
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      handleShortcut(event, keymap);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [keymap, enabled]);
+}
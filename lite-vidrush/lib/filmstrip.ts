@@ -0,0 +1,81 @@
+/**
+ * Filmstrip layout
+ * Thumbnail sprite settings and the tiling of a clip's filmstrip on the
+ * timeline. Pure, so tiles are recomputed on zoom without refetching.
+ */
+
+import { ThumbnailSprite } from './types';
+
+export const DEFAULT_THUMBNAIL_INTERVAL = 1; // Seconds between thumbnails
+export const MIN_THUMBNAIL_INTERVAL = 0.1;
+export const MAX_THUMBNAIL_INTERVAL = 60;
+export const THUMBNAIL_HEIGHT = 48; // Pixels, the height of a timeline clip
+
+// One thumbnail drawn inside a clip
+export interface FilmstripTile {
+  left: number; // Offset within the clip in pixels
+  width: number; // Drawn width (the last tile is cut off at the clip's end)
+  backgroundPosition: string;
+}
+
+/**
+ * Clamp a requested thumbnail interval, falling back to the default
+ */
+export function normalizeThumbnailInterval(interval: number | undefined): number {
+  if (interval === undefined || !Number.isFinite(interval)) return DEFAULT_THUMBNAIL_INTERVAL;
+  return Math.min(MAX_THUMBNAIL_INTERVAL, Math.max(MIN_THUMBNAIL_INTERVAL, interval));
+}
+
+/**
+ * Index of the thumbnail showing a moment of the source
+ */
+export function getThumbnailIndex(sprite: ThumbnailSprite, seconds: number): number {
+  const index = Math.floor(Math.max(0, seconds) / sprite.interval);
+  return Math.min(sprite.count - 1, index);
+}
+
+/**
+ * Tile a clip with thumbnails scaled to its height
+ * Each tile shows the source frame under its middle, so zooming in fills the
+ * gaps with thumbnails from later in the sheet.
+ */
+export function layoutFilmstrip(
+  sprite: ThumbnailSprite,
+  options: {
+    width: number; // Clip width in pixels
+    height: number; // Clip height in pixels
+    pixelsPerFrame: number;
+    frameRate: number; // Timeline frames per second
+    trimStart?: number; // Source frames skipped before the clip
+  }
+): FilmstripTile[] {
+  const { width, height, pixelsPerFrame, frameRate, trimStart = 0 } = options;
+  if (sprite.count < 1 || width <= 0 || height <= 0 || pixelsPerFrame <= 0) return [];
+
+  const scale = height / sprite.tileHeight;
+  const tileWidth = sprite.tileWidth * scale;
+  const tiles: FilmstripTile[] = [];
+
+  for (let left = 0; left < width; left += tileWidth) {
+    const frame = trimStart + (left + tileWidth / 2) / pixelsPerFrame;
+    const index = getThumbnailIndex(sprite, frame / frameRate);
+    const column = index % sprite.columns;
+    const row = Math.floor(index / sprite.columns);
+    tiles.push({
+      left,
+      width: Math.min(tileWidth, width - left),
+      backgroundPosition: `${-column * tileWidth}px ${-row * height}px`,
+    });
+  }
+
+  return tiles;
+}
+
+/**
+ * CSS background size that scales a whole sprite sheet to the clip height
+ */
+export function getSpriteBackgroundSize(sprite: ThumbnailSprite, height: number): string {
+  const scale = height / sprite.tileHeight;
+  const rows = Math.ceil(sprite.count / sprite.columns);
+  return `${sprite.columns * sprite.tileWidth * scale}px ${rows * height}px`;
+}
@@ -0,0 +1,164 @@
+/**
+ * Undo/redo history for the editor store
+ * Every mutating action records an immer patch pair; continuous gestures
+ * (drags, resizes) are grouped into a single entry with transactions
+ */
+
+import { enablePatches, Patch } from 'immer';
+import { EditorState } from './types';
+
+enablePatches();
+
+export interface HistoryEntry {
+  label: string; // Human readable action name, e.g. "Trim clip"
+  patches: Patch[]; // Patches that re-apply the change
+  inversePatches: Patch[]; // Patches that revert the change
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  pending: HistoryEntry | null; // Open transaction collecting patches
+}
+
+// Maximum number of undo steps kept in memory
+export const HISTORY_LIMIT = 100;
+
+// Document fields recorded in history. Playback and view state
+// (playhead, isPlaying, zoom, selection...) is never undone.
+export const HISTORY_KEYS: (keyof EditorState)[] = [
+  'tracks',
+  'media',
+  'texts',
+  'transitions',
+  'canvas',
+  'frameRate',
+  'duration',
+  'masterVolume',
+  'muted',
+];
+
+export const EMPTY_HISTORY: HistoryState = {
+  past: [],
+  future: [],
+  pending: null,
+};
+
+/**
+ * Keep only the patches that touch document fields
+ */
+export function filterHistoryPatches(patches: Patch[]): Patch[] {
+  return patches.filter(patch =>
+    HISTORY_KEYS.includes(patch.path[0] as keyof EditorState)
+  );
+}
+
+/**
+ * Build a history entry from raw immer patches
+ * Returns null when the change did not touch any document field
+ */
+export function createHistoryEntry(
+  label: string,
+  patches: Patch[],
+  inversePatches: Patch[]
+): HistoryEntry | null {
+  const documentPatches = filterHistoryPatches(patches);
+  if (documentPatches.length === 0) return null;
+
+  return {
+    label,
+    patches: documentPatches,
+    inversePatches: filterHistoryPatches(inversePatches),
+  };
+}
+
+/**
+ * Combine two consecutive entries into one
+ * Inverse patches are applied in reverse order when undoing
+ */
+export function mergeHistoryEntries(first: HistoryEntry, second: HistoryEntry): HistoryEntry {
+  return {
+    label: first.label,
+    patches: [...first.patches, ...second.patches],
+    inversePatches: [...second.inversePatches, ...first.inversePatches],
+  };
+}
+
+/**
+ * Record a new entry, either into the open transaction or onto the undo stack
+ */
+export function recordHistoryEntry(history: HistoryState, entry: HistoryEntry | null): HistoryState {
+  if (!entry) return history;
+
+  if (history.pending) {
+    return {
+      ...history,
+      pending: mergeHistoryEntries(history.pending, entry),
+    };
+  }
+
+  return {
+    past: [...history.past, entry].slice(-HISTORY_LIMIT),
+    future: [], // A new change invalidates the redo stack
+    pending: null,
+  };
+}
+
+/**
+ * Open a transaction; subsequent entries collapse into one until it ends
+ */
+export function beginTransaction(history: HistoryState, label: string): HistoryState {
+  if (history.pending) return history; // Nested transactions join the outer one
+
+  return {
+    ...history,
+    pending: { label, patches: [], inversePatches: [] },
+  };
+}
+
+/**
+ * Close the open transaction and push it as a single entry
+ */
+export function endTransaction(history: HistoryState): HistoryState {
+  if (!history.pending) return history;
+
+  const { pending } = history;
+  const closed = { ...history, pending: null };
+  return pending.patches.length > 0 ? recordHistoryEntry(closed, pending) : closed;
+}
+
+/**
+ * Pop the latest entry for undo
+ */
+export function takeUndo(history: HistoryState): { history: HistoryState; entry: HistoryEntry } | null {
+  const closed = endTransaction(history);
+  const entry = closed.past[closed.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    entry,
+    history: {
+      past: closed.past.slice(0, -1),
+      future: [...closed.future, entry],
+      pending: null,
+    },
+  };
+}
+
+/**
+ * Pop the latest undone entry for redo
+ */
+export function takeRedo(history: HistoryState): { history: HistoryState; entry: HistoryEntry } | null {
+  const closed = endTransaction(history);
+  const entry = closed.future[closed.future.length - 1];
+  if (!entry) return null;
+
+  return {
+    entry,
+    history: {
+      past: [...closed.past, entry],
+      future: closed.future.slice(0, -1),
+      pending: null,
+    },
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Keyframe animation
+ * Evaluates keyframe tracks on clips and text overlays with Remotion's
+ * interpolate(), so the editor preview and the final render agree
+ */
+
+import { Easing, interpolate } from 'remotion';
+import {
+  AnimatableProperty,
+  Clip,
+  Keyframe,
+  KeyframeEasing,
+  TextOverlay,
+} from './types';
+
+type AnimatableItem = Clip | TextOverlay;
+
+// Control points for the CSS-style easing presets
+const EASING_CURVES: Record<Exclude<KeyframeEasing, 'linear' | 'hold'>, [number, number, number, number]> = {
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+  bezier: [0.25, 0.1, 0.25, 1], // Used when a bezier keyframe has no control points
+};
+
+export const KEYFRAME_EASINGS: KeyframeEasing[] = [
+  'linear',
+  'ease-in',
+  'ease-out',
+  'ease-in-out',
+  'bezier',
+  'hold',
+];
+
+export const PROPERTY_LABELS: Record<AnimatableProperty, string> = {
+  'position.x': 'X Position',
+  'position.y': 'Y Position',
+  'scale.width': 'Scale X',
+  'scale.height': 'Scale Y',
+  rotation: 'Rotation',
+  opacity: 'Opacity',
+  volume: 'Volume',
+  fontSize: 'Font Size',
+};
+
+/**
+ * Properties that can be animated on an item
+ */
+export function getAnimatableProperties(item: AnimatableItem): AnimatableProperty[] {
+  if ('text' in item) {
+    return ['position.x', 'position.y', 'scale.width', 'scale.height', 'rotation', 'opacity', 'fontSize'];
+  }
+  if (item.type === 'audio') return ['volume'];
+
+  const visual: AnimatableProperty[] = ['position.x', 'position.y', 'scale.width', 'scale.height', 'rotation', 'opacity'];
+  return item.type === 'video' ? [...visual, 'volume'] : visual;
+}
+
+/**
+ * Un-animated value of a property, with the same defaults the renderer uses
+ */
+export function getStaticValue(item: AnimatableItem, property: AnimatableProperty): number {
+  const isText = 'text' in item;
+
+  switch (property) {
+    case 'position.x': return item.position?.x ?? 50;
+    case 'position.y': return item.position?.y ?? 50;
+    case 'scale.width': return item.scale?.width ?? 1;
+    case 'scale.height': return item.scale?.height ?? 1;
+    case 'rotation': return item.rotation ?? 0;
+    case 'opacity': return isText ? item.style.opacity : (item.opacity ?? 1);
+    case 'volume': return isText ? 1 : (item.volume ?? 1);
+    case 'fontSize': return isText ? item.style.fontSize : 0;
+  }
+}
+
+/**
+ * Return a copy of the item with the static value of a property replaced
+ */
+export function setStaticValue<T extends AnimatableItem>(item: T, property: AnimatableProperty, value: number): T {
+  // Narrowed copies are rebuilt from the original item
+  const next: AnimatableItem = { ...item };
+
+  switch (property) {
+    case 'position.x':
+      next.position = { x: value, y: item.position?.y ?? 50 };
+      break;
+    case 'position.y':
+      next.position = { x: item.position?.x ?? 50, y: value };
+      break;
+    case 'scale.width':
+      next.scale = { width: value, height: item.scale?.height ?? 1 };
+      break;
+    case 'scale.height':
+      next.scale = { width: item.scale?.width ?? 1, height: value };
+      break;
+    case 'rotation':
+      next.rotation = value;
+      break;
+    case 'opacity':
+      if ('text' in next) next.style = { ...next.style, opacity: value };
+      else next.opacity = value;
+      break;
+    case 'volume':
+      if (!('text' in next)) next.volume = value;
+      break;
+    case 'fontSize':
+      if ('text' in next) next.style = { ...next.style, fontSize: value };
+      break;
+  }
+
+  return next as T;
+}
+
+/**
+ * Sort keyframes by frame
+ */
+export function sortKeyframes(keyframes: Keyframe[]): Keyframe[] {
+  return [...keyframes].sort((a, b) => a.frame - b.frame);
+}
+
+/**
+ * Easing function used between a keyframe and the next one
+ */
+export function getEasingFunction(keyframe: Keyframe): (t: number) => number {
+  switch (keyframe.easing) {
+    case 'linear':
+    case 'hold':
+      return Easing.linear;
+    case 'bezier': {
+      const [x1, y1, x2, y2] = keyframe.bezier ?? EASING_CURVES.bezier;
+      return Easing.bezier(x1, y1, x2, y2);
+    }
+    default: {
+      const [x1, y1, x2, y2] = EASING_CURVES[keyframe.easing];
+      return Easing.bezier(x1, y1, x2, y2);
+    }
+  }
+}
+
+/**
+ * Evaluate a keyframe track at a frame relative to the item's start
+ * Values are held before the first and after the last keyframe
+ */
+export function evaluateKeyframes(keyframes: Keyframe[], frame: number, fallback: number): number {
+  if (keyframes.length === 0) return fallback;
+
+  const sorted = sortKeyframes(keyframes);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  if (frame <= first.frame) return first.value;
+  if (frame >= last.frame) return last.value;
+
+  const nextIndex = sorted.findIndex(keyframe => keyframe.frame > frame);
+  const from = sorted[nextIndex - 1];
+  const to = sorted[nextIndex];
+
+  if (from.easing === 'hold') return from.value;
+
+  return interpolate(frame, [from.frame, to.frame], [from.value, to.value], {
+    easing: getEasingFunction(from),
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+  });
+}
+
+/**
+ * Check whether a property carries keyframes
+ */
+export function isAnimated(item: AnimatableItem, property: AnimatableProperty): boolean {
+  return (item.keyframes?.[property]?.length ?? 0) > 0;
+}
+
+/**
+ * Value of a property at a frame relative to the item's start
+ */
+export function getAnimatedValue(item: AnimatableItem, property: AnimatableProperty, frame: number): number {
+  return evaluateKeyframes(item.keyframes?.[property] ?? [], frame, getStaticValue(item, property));
+}
+
+/**
+ * Bake all animated properties at a frame into a plain copy of the item
+ */
+export function applyKeyframes<T extends AnimatableItem>(item: T, frame: number): T {
+  if (!item.keyframes) return item;
+
+  return getAnimatableProperties(item).reduce(
+    (animated, property) =>
+      isAnimated(item, property)
+        ? setStaticValue(animated, property, getAnimatedValue(item, property, frame))
+        : animated,
+    item
+  );
+}
+
+/**
+ * Relative frames holding at least one keyframe, for timeline markers
+ */
+export function getKeyframeFrames(item: AnimatableItem): number[] {
+  const frames = new Set<number>();
+  Object.values(item.keyframes ?? {}).forEach(keyframes => {
+    keyframes?.forEach(keyframe => frames.add(keyframe.frame));
+  });
+  return [...frames].sort((a, b) => a - b);
+}
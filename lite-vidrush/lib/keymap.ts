@@ -0,0 +1,311 @@
+/**
+ * Keymap
+ * Editor commands, their default key bindings and the user's remapped
+ * bindings persisted in localStorage. Key combos are strings such as
+ * "Mod+Shift+Z": modifiers in a fixed order, then the key. "Mod" is Ctrl,
+ * or Cmd on macOS.
+ */
+
+import { z } from 'zod';
+
+export type CommandId =
+  | 'playPause'
+  | 'shuttleReverse'
+  | 'shuttleStop'
+  | 'shuttleForward'
+  | 'stepBack'
+  | 'stepForward'
+  | 'stepBackSecond'
+  | 'stepForwardSecond'
+  | 'goToStart'
+  | 'goToEnd'
+  | 'markIn'
+  | 'markOut'
+  | 'goToIn'
+  | 'goToOut'
+  | 'clearMarks'
+  | 'deleteSelected'
+  | 'rippleDeleteSelected'
+  | 'duplicateSelected'
+  | 'duplicateInPlace'
+  | 'copy'
+  | 'cut'
+  | 'paste'
+  | 'splitSelected'
+  | 'splitAll'
+  | 'selectAll'
+  | 'selectForward'
+  | 'deselectAll'
+  | 'razorTool'
+  | 'slipTool'
+  | 'slideTool'
+  | 'rollTool'
+  | 'selectTool'
+  | 'toggleSnapping'
+  | 'nudgeLeft'
+  | 'nudgeRight'
+  | 'nudgeLeftSecond'
+  | 'nudgeRightSecond'
+  | 'undo'
+  | 'redo'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'zoomToFit'
+  | 'scrollToPlayhead'
+  | 'showShortcuts';
+
+export type CommandCategory = 'Playback' | 'Marks' | 'Selection' | 'Editing' | 'Tools' | 'View' | 'Help';
+
+export interface CommandInfo {
+  id: CommandId;
+  label: string;
+  category: CommandCategory;
+  keys: string[]; // Default bindings
+}
+
+// Every command with its default bindings, in the order the help lists them
+export const COMMANDS: CommandInfo[] = [
+  { id: 'playPause', label: 'Play / pause', category: 'Playback', keys: ['Space'] },
+  { id: 'shuttleReverse', label: 'Shuttle backward (press again to speed up)', category: 'Playback', keys: ['J'] },
+  { id: 'shuttleStop', label: 'Shuttle stop', category: 'Playback', keys: ['K'] },
+  { id: 'shuttleForward', label: 'Shuttle forward (press again to speed up)', category: 'Playback', keys: ['L'] },
+  { id: 'stepBack', label: 'Previous frame', category: 'Playback', keys: ['ArrowLeft'] },
+  { id: 'stepForward', label: 'Next frame', category: 'Playback', keys: ['ArrowRight'] },
+  { id: 'stepBackSecond', label: 'Back one second', category: 'Playback', keys: ['Shift+ArrowLeft'] },
+  { id: 'stepForwardSecond', label: 'Forward one second', category: 'Playback', keys: ['Shift+ArrowRight'] },
+  { id: 'goToStart', label: 'Go to start', category: 'Playback', keys: ['Home'] },
+  { id: 'goToEnd', label: 'Go to end of content', category: 'Playback', keys: ['End'] },
+  { id: 'markIn', label: 'Mark in', category: 'Marks', keys: ['I'] },
+  { id: 'markOut', label: 'Mark out', category: 'Marks', keys: ['O'] },
+  { id: 'goToIn', label: 'Go to in point', category: 'Marks', keys: ['Shift+I'] },
+  { id: 'goToOut', label: 'Go to out point', category: 'Marks', keys: ['Shift+O'] },
+  { id: 'clearMarks', label: 'Clear in and out', category: 'Marks', keys: ['Mod+Shift+X'] },
+  { id: 'selectAll', label: 'Select all', category: 'Selection', keys: ['Mod+A'] },
+  { id: 'selectForward', label: 'Select everything from the playhead on', category: 'Selection', keys: ['A'] },
+  { id: 'deselectAll', label: 'Deselect all', category: 'Selection', keys: ['Mod+Shift+A'] },
+  { id: 'deleteSelected', label: 'Delete selected items', category: 'Editing', keys: ['Delete', 'Backspace'] },
+  { id: 'rippleDeleteSelected', label: 'Ripple delete selected items', category: 'Editing', keys: ['Shift+Delete', 'Shift+Backspace'] },
+  { id: 'copy', label: 'Copy selected items', category: 'Editing', keys: ['Mod+C'] },
+  { id: 'cut', label: 'Cut selected items', category: 'Editing', keys: ['Mod+X'] },
+  { id: 'paste', label: 'Paste at playhead', category: 'Editing', keys: ['Mod+V'] },
+  { id: 'duplicateSelected', label: 'Duplicate selected items', category: 'Editing', keys: ['Mod+D'] },
+  { id: 'duplicateInPlace', label: 'Duplicate selected items in place (onto new tracks)', category: 'Editing', keys: ['Mod+Shift+D'] },
+  { id: 'splitSelected', label: 'Split selected items at playhead', category: 'Editing', keys: ['Mod+K'] },
+  { id: 'splitAll', label: 'Split all tracks at playhead', category: 'Editing', keys: ['Mod+Shift+K'] },
+  { id: 'nudgeLeft', label: 'Nudge selected items left', category: 'Editing', keys: ['Alt+ArrowLeft'] },
+  { id: 'nudgeRight', label: 'Nudge selected items right', category: 'Editing', keys: ['Alt+ArrowRight'] },
+  { id: 'nudgeLeftSecond', label: 'Nudge selected items left one second', category: 'Editing', keys: ['Alt+Shift+ArrowLeft'] },
+  { id: 'nudgeRightSecond', label: 'Nudge selected items right one second', category: 'Editing', keys: ['Alt+Shift+ArrowRight'] },
+  { id: 'undo', label: 'Undo', category: 'Editing', keys: ['Mod+Z'] },
+  { id: 'redo', label: 'Redo', category: 'Editing', keys: ['Mod+Shift+Z', 'Mod+Y'] },
+  { id: 'selectTool', label: 'Selection tool', category: 'Tools', keys: ['V'] },
+  { id: 'razorTool', label: 'Razor tool (click a clip to cut it)', category: 'Tools', keys: ['C'] },
+  { id: 'slipTool', label: 'Slip tool (drag a clip to change which part of its source plays)', category: 'Tools', keys: ['Y'] },
+  { id: 'slideTool', label: 'Slide tool (drag a clip between its neighbours)', category: 'Tools', keys: ['U'] },
+  { id: 'rollTool', label: 'Roll tool (drag a clip edge to move the cut with its neighbour)', category: 'Tools', keys: ['N'] },
+  { id: 'toggleSnapping', label: 'Snapping on / off (hold Alt while dragging to skip it)', category: 'Tools', keys: ['S'] },
+  { id: 'zoomIn', label: 'Zoom in', category: 'View', keys: ['=', '+'] },
+  { id: 'zoomOut', label: 'Zoom out', category: 'View', keys: ['-'] },
+  { id: 'zoomToFit', label: 'Zoom timeline to fit content', category: 'View', keys: ['Mod+F'] },
+  { id: 'scrollToPlayhead', label: 'Scroll timeline to playhead', category: 'View', keys: ['Mod+G'] },
+  { id: 'showShortcuts', label: 'Show keyboard shortcuts', category: 'Help', keys: ['?'] },
+];
+
+export type Keymap = Record<CommandId, string[]>;
+
+export const KEYMAP_STORAGE_KEY = 'lite-vidrush:keymap';
+
+const MODIFIERS = ['Mod', 'Alt', 'Shift'] as const;
+
+// Names shown for keys whose event name is not readable as is
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Backspace: '⌫',
+  Delete: 'Del',
+  Escape: 'Esc',
+};
+
+const MAC_MODIFIER_LABELS: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+
+// Keys that are only ever part of a combo
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock', 'OS']);
+
+/**
+ * Default bindings of every command
+ */
+export function getDefaultKeymap(): Keymap {
+  return Object.fromEntries(COMMANDS.map(command => [command.id, [...command.keys]])) as Keymap;
+}
+
+// Split a combo into modifiers and key; a trailing "+" is the plus key itself
+function splitKeyCombo(combo: string): string[] {
+  return combo.endsWith('+') ? [...combo.slice(0, -1).split('+').filter(Boolean), '+'] : combo.split('+');
+}
+
+/**
+ * Canonical form of a key combo ("shift+mod+z" → "Mod+Shift+Z"), or null if
+ * it names no key
+ */
+export function normalizeKeyCombo(combo: string): string | null {
+  const parts = splitKeyCombo(combo);
+  const key = parts.pop();
+  if (!key) return null;
+
+  const modifiers = new Set<string>();
+  for (const part of parts) {
+    const modifier = MODIFIERS.find(m => m.toLowerCase() === part.toLowerCase());
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+
+  const name = key === ' ' || key.toLowerCase() === 'space' ? 'Space' : key.length === 1 ? key.toUpperCase() : key;
+  return [...MODIFIERS.filter(m => modifiers.has(m)), name].join('+');
+}
+
+/**
+ * Key combo of a keydown event, or null for a bare modifier press
+ * Shift is left out for symbols (it is already part of "?" or "+"), and
+ * letters come from the physical key so Alt/Option combos don't turn into
+ * special characters.
+ */
+export function getKeyCombo(
+  event: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  const letter = /^Key([A-Z])$/.exec(event.code)?.[1];
+  const key = letter ?? (event.key === ' ' ? 'Space' : event.key);
+  const isSymbol = !letter && key.length === 1;
+
+  const modifiers: string[] = [];
+  if (event.ctrlKey || event.metaKey) modifiers.push('Mod');
+  if (event.altKey) modifiers.push('Alt');
+  if (event.shiftKey && !isSymbol) modifiers.push('Shift');
+  return normalizeKeyCombo([...modifiers, key].join('+'));
+}
+
+/**
+ * Human readable form of a key combo
+ */
+export function formatKeyCombo(combo: string, isMac = false): string {
+  const labels = splitKeyCombo(combo).map(part =>
+    isMac && MAC_MODIFIER_LABELS[part] ? MAC_MODIFIER_LABELS[part] : part === 'Mod' ? 'Ctrl' : KEY_LABELS[part] ?? part
+  );
+  return labels.join(isMac ? '' : '+');
+}
+
+/**
+ * Command bound to a key combo
+ */
+export function findCommand(keymap: Keymap, combo: string): CommandId | undefined {
+  return COMMANDS.find(command => keymap[command.id].includes(combo))?.id;
+}
+
+/**
+ * Bind a combo to a command, taking it away from any other command
+ */
+export function assignKey(keymap: Keymap, id: CommandId, combo: string): Keymap {
+  const next = { ...keymap };
+  for (const command of COMMANDS) {
+    if (command.id !== id && next[command.id].includes(combo)) {
+      next[command.id] = next[command.id].filter(key => key !== combo);
+    }
+  }
+  if (!next[id].includes(combo)) next[id] = [...next[id], combo];
+  return next;
+}
+
+/**
+ * Remove one binding of a command
+ */
+export function removeKey(keymap: Keymap, id: CommandId, combo: string): Keymap {
+  return { ...keymap, [id]: keymap[id].filter(key => key !== combo) };
+}
+
+/**
+ * Commands whose bindings differ from the defaults, as stored
+ */
+export function getKeymapOverrides(keymap: Keymap): Partial<Keymap> {
+  const overrides: Partial<Keymap> = {};
+  for (const command of COMMANDS) {
+    const keys = keymap[command.id];
+    if (keys.length !== command.keys.length || keys.some((key, i) => key !== command.keys[i])) {
+      overrides[command.id] = keys;
+    }
+  }
+  return overrides;
+}
+
+const KeymapOverridesSchema = z.record(z.string(), z.array(z.string()));
+
+/**
+ * Keymap from stored overrides; unknown commands and invalid combos are
+ * dropped, and a combo claimed by an override no longer triggers its default
+ * command
+ */
+export function applyKeymapOverrides(data: unknown): Keymap {
+  let keymap = getDefaultKeymap();
+  const parsed = KeymapOverridesSchema.safeParse(data);
+  if (!parsed.success) return keymap;
+
+  for (const command of COMMANDS) {
+    const keys = parsed.data[command.id];
+    if (!keys) continue;
+    keymap = { ...keymap, [command.id]: [] };
+    for (const key of keys) {
+      const combo = normalizeKeyCombo(key);
+      if (combo) keymap = assignKey(keymap, command.id, combo);
+    }
+  }
+  return keymap;
+}
+
+/**
+ * The user's keymap from localStorage (defaults when none is saved)
+ */
+export function loadKeymap(): Keymap {
+  if (typeof window === 'undefined') return getDefaultKeymap();
+  try {
+    const stored = window.localStorage.getItem(KEYMAP_STORAGE_KEY);
+    return applyKeymapOverrides(stored ? JSON.parse(stored) : {});
+  } catch (error) {
+    console.warn('⚠️ Ignoring unreadable keymap:', error);
+    return getDefaultKeymap();
+  }
+}
+
+/**
+ * Persist the bindings that differ from the defaults
+ */
+export function saveKeymap(keymap: Keymap): void {
+  try {
+    const overrides = getKeymapOverrides(keymap);
+    if (Object.keys(overrides).length === 0) {
+      window.localStorage.removeItem(KEYMAP_STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(overrides));
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not save keymap:', error);
+  }
+}
+
+/**
+ * Whether key presses on an element belong to it (text fields, selects,
+ * sliders, editable content) rather than to the editor's shortcuts
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!target || !(target as HTMLElement).tagName) return false;
+  const element = target as HTMLElement;
+  const tag = element.tagName;
+
+  if (tag === 'TEXTAREA' || tag === 'SELECT' || element.isContentEditable) return true;
+  if (tag === 'INPUT') {
+    const type = (element as HTMLInputElement).type;
+    return !['button', 'checkbox', 'radio', 'submit', 'reset', 'file', 'color'].includes(type);
+  }
+  return element.getAttribute('role') === 'slider';
+}
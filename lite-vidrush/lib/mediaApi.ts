@@ -0,0 +1,63 @@
+/**
+ * Client helpers for the /api/media endpoints
+ */
+
+import { ThumbnailSprite, WaveformPeaks } from './types';
+import { DEFAULT_THUMBNAIL_INTERVAL } from './filmstrip';
+import { PeakLevel, decodeWaveformLevels } from './waveform';
+import { getUploadFilename } from './utils';
+
+// Results by request, kept for the session so every clip of a file (and
+// every zoom level) shares one request
+const cache = new Map<string, Promise<unknown>>();
+
+function fetchCached<T>(url: string, read: (result: Record<string, unknown>) => T): Promise<T | null> {
+  let request = cache.get(url) as Promise<T | null> | undefined;
+  if (!request) {
+    request = fetch(url)
+      .then(async (response) => {
+        if (!response.ok) {
+          // The server answered; asking again won't give a different result
+          if (response.status < 500) return null;
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return read(await response.json());
+      })
+      .catch((error) => {
+        // Let a later render retry after network or extraction errors
+        cache.delete(url);
+        throw error;
+      });
+    cache.set(url, request);
+  }
+  return request;
+}
+
+/**
+ * Load the thumbnail sprite of an uploaded video
+ * Resolves to null for sources without thumbnails (audio-only or external files)
+ */
+export function fetchThumbnailSprite(
+  src: string,
+  interval = DEFAULT_THUMBNAIL_INTERVAL
+): Promise<ThumbnailSprite | null> {
+  const filename = getUploadFilename(src);
+  if (!filename) return Promise.resolve(null);
+  return fetchCached(
+    `/api/media/thumbnails?filename=${encodeURIComponent(filename)}&interval=${interval}`,
+    result => result.sprite as ThumbnailSprite
+  );
+}
+
+/**
+ * Load and decode the waveform peaks of an uploaded file
+ * Resolves to null for sources without peaks (silent or external files)
+ */
+export function fetchWaveformPeaks(src: string): Promise<PeakLevel[] | null> {
+  const filename = getUploadFilename(src);
+  if (!filename) return Promise.resolve(null);
+  return fetchCached(
+    `/api/media/peaks?filename=${encodeURIComponent(filename)}`,
+    result => decodeWaveformLevels((result.waveform as WaveformPeaks).levels)
+  );
+}
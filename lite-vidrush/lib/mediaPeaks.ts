@@ -0,0 +1,109 @@
+/**
+ * Audio peaks
+ * Decodes the audio of uploads with ffmpeg into waveform peaks at several
+ * resolutions (server-only). Results are cached next to the uploads.
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import ffmpegPath from 'ffmpeg-static';
+import { WaveformPeaks } from './types';
+import { getMediaMetadata } from './mediaProbe';
+import {
+  BASE_PEAKS_PER_SECOND,
+  PEAK_SAMPLE_RATE,
+  buildPeakLevels,
+  createPeakAccumulator,
+  encodeWaveform,
+} from './waveform';
+
+const DECODE_TIMEOUT = 120000; // ms
+const PEAKS_DIR = '.peaks';
+
+// Decodes in progress, so concurrent requests share one ffmpeg run
+const pending = new Map<string, Promise<WaveformPeaks | null>>();
+
+function getPeaksPath(filePath: string): string {
+  return path.join(path.dirname(filePath), PEAKS_DIR, `${path.basename(filePath)}.json`);
+}
+
+/**
+ * Decode a file's audio to mono 16-bit PCM and collect its base peaks
+ * Samples are streamed from ffmpeg, so long files never sit in memory
+ */
+function decodePeaks(filePath: string): Promise<Int8Array> {
+  return new Promise((resolve, reject) => {
+    if (!ffmpegPath) {
+      reject(new Error('ffmpeg binary is not available'));
+      return;
+    }
+
+    const ffmpeg = spawn(
+      ffmpegPath,
+      ['-v', 'error', '-i', filePath, '-vn', '-ac', '1', '-ar', String(PEAK_SAMPLE_RATE), '-f', 's16le', 'pipe:1'],
+      { timeout: DECODE_TIMEOUT }
+    );
+    const accumulator = createPeakAccumulator(PEAK_SAMPLE_RATE / BASE_PEAKS_PER_SECOND);
+    let leftover: Buffer | null = null; // Odd byte split between chunks
+    let stderr = '';
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => {
+      const data: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      leftover = usable < data.length ? data.subarray(usable) : null;
+      // Copy so the samples are 2-byte aligned
+      const samples = new Int16Array(new Uint8Array(data.subarray(0, usable)).buffer);
+      accumulator.push(samples);
+    });
+    ffmpeg.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve(accumulator.finish());
+      } else {
+        reject(new Error(stderr.trim() || `ffmpeg exited with ${signal ?? `code ${code}`}`));
+      }
+    });
+  });
+}
+
+async function extractPeaks(filePath: string): Promise<WaveformPeaks | null> {
+  const metadata = await getMediaMetadata(filePath);
+  if (!metadata?.audioCodec || !metadata.duration) return null;
+
+  const waveform = encodeWaveform(metadata.duration, buildPeakLevels(await decodePeaks(filePath)));
+  const peaksPath = getPeaksPath(filePath);
+  await fs.mkdir(path.dirname(peaksPath), { recursive: true });
+  await fs.writeFile(peaksPath, JSON.stringify(waveform));
+
+  console.log(`🔊 Extracted waveform peaks of ${path.basename(filePath)} (${waveform.levels.length} levels)`);
+  return waveform;
+}
+
+/**
+ * Waveform peaks of an uploaded file, decoding its audio on the first request
+ * Returns null when the file has no audio
+ */
+export async function getWaveformPeaks(filePath: string): Promise<WaveformPeaks | null> {
+  const peaksPath = getPeaksPath(filePath);
+  try {
+    return JSON.parse(await fs.readFile(peaksPath, 'utf-8')) as WaveformPeaks;
+  } catch {
+    // Not extracted yet
+  }
+
+  let extraction = pending.get(peaksPath);
+  if (!extraction) {
+    extraction = extractPeaks(filePath).finally(() => pending.delete(peaksPath));
+    pending.set(peaksPath, extraction);
+  }
+  return extraction;
+}
+
+/**
+ * Remove the cached peaks of a deleted upload
+ */
+export async function deleteWaveformPeaks(filePath: string): Promise<void> {
+  await fs.rm(getPeaksPath(filePath), { force: true });
+}
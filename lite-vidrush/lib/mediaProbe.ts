@@ -0,0 +1,160 @@
+/**
+ * Media probing
+ * Reads duration, dimensions, codecs and rotation of uploaded files with
+ * ffprobe (server-only). Results are cached next to the uploads.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { path as ffprobePath } from 'ffprobe-static';
+import { MediaMetadata } from './types';
+
+const execFileAsync = promisify(execFile);
+
+const PROBE_TIMEOUT = 15000; // ms
+const METADATA_DIR = '.meta';
+
+// Subset of ffprobe's `-print_format json -show_format -show_streams` output
+interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  r_frame_rate?: string;
+  channels?: number;
+  sample_rate?: string;
+  duration?: string;
+  tags?: Record<string, string>;
+  side_data_list?: { side_data_type?: string; rotation?: number }[];
+  disposition?: { attached_pic?: number };
+}
+
+interface ProbeOutput {
+  streams?: ProbeStream[];
+  format?: { duration?: string; format_name?: string };
+}
+
+// Formats ffprobe reports for still images
+const IMAGE_FORMATS = ['image2', 'png_pipe', 'jpeg_pipe', 'webp_pipe', 'gif'];
+
+/**
+ * Parse an ffprobe rate such as "30000/1001"; "0/0" means unknown
+ */
+export function parseFrameRate(rate: string | undefined): number | undefined {
+  if (!rate) return undefined;
+  const [num, den = '1'] = rate.split('/');
+  const value = Number(num) / Number(den);
+  return Number.isFinite(value) && value > 0 ? Math.round(value * 1000) / 1000 : undefined;
+}
+
+/**
+ * Normalize a rotation to clockwise degrees in [0, 360)
+ * ffprobe's display matrix rotation is counter-clockwise, the legacy tag clockwise
+ */
+export function normalizeRotation(degrees: number): number {
+  const rounded = Math.round(degrees / 90) * 90;
+  return ((rounded % 360) + 360) % 360;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function getRotation(stream: ProbeStream): number {
+  const tag = parseNumber(stream.tags?.rotate);
+  if (tag !== undefined) return normalizeRotation(tag);
+
+  const matrix = stream.side_data_list?.find(data => data.rotation !== undefined);
+  return matrix?.rotation !== undefined ? normalizeRotation(-matrix.rotation) : 0;
+}
+
+/**
+ * Extract media metadata from ffprobe's JSON output
+ */
+export function parseProbeOutput(output: ProbeOutput): MediaMetadata {
+  const streams = output.streams ?? [];
+  // Embedded cover art shows up as a video stream; it is not the picture track
+  const video = streams.find(s => s.codec_type === 'video' && !s.disposition?.attached_pic);
+  const audio = streams.find(s => s.codec_type === 'audio');
+  const isImage = !audio && IMAGE_FORMATS.includes(output.format?.format_name ?? '');
+
+  const metadata: MediaMetadata = {};
+
+  if (!isImage) {
+    const duration = parseNumber(output.format?.duration) ?? parseNumber(video?.duration ?? audio?.duration);
+    if (duration !== undefined && duration > 0) metadata.duration = duration;
+  }
+
+  if (video) {
+    const rotation = getRotation(video);
+    const sideways = rotation === 90 || rotation === 270;
+    metadata.width = sideways ? video.height : video.width;
+    metadata.height = sideways ? video.width : video.height;
+    metadata.videoCodec = video.codec_name;
+    metadata.rotation = rotation;
+    if (!isImage) {
+      metadata.frameRate = parseFrameRate(video.avg_frame_rate) ?? parseFrameRate(video.r_frame_rate);
+    }
+  }
+
+  if (audio) {
+    metadata.audioCodec = audio.codec_name;
+    metadata.audioChannels = audio.channels;
+    metadata.sampleRate = parseNumber(audio.sample_rate);
+  }
+
+  // Drop fields ffprobe did not report
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as MediaMetadata;
+}
+
+/**
+ * Run ffprobe on a file
+ */
+export async function probeMedia(filePath: string): Promise<MediaMetadata> {
+  const { stdout } = await execFileAsync(
+    ffprobePath,
+    ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath],
+    { timeout: PROBE_TIMEOUT, maxBuffer: 10 * 1024 * 1024 }
+  );
+  return parseProbeOutput(JSON.parse(stdout) as ProbeOutput);
+}
+
+function getMetadataPath(filePath: string): string {
+  return path.join(path.dirname(filePath), METADATA_DIR, `${path.basename(filePath)}.json`);
+}
+
+/**
+ * Metadata for an uploaded file, probing it on the first request
+ * Returns null when the file cannot be probed
+ */
+export async function getMediaMetadata(filePath: string): Promise<MediaMetadata | null> {
+  const metadataPath = getMetadataPath(filePath);
+  try {
+    return JSON.parse(await fs.readFile(metadataPath, 'utf-8')) as MediaMetadata;
+  } catch {
+    // Not cached yet
+  }
+
+  try {
+    const metadata = await probeMedia(filePath);
+    await fs.mkdir(path.dirname(metadataPath), { recursive: true });
+    await fs.writeFile(metadataPath, JSON.stringify(metadata));
+    return metadata;
+  } catch (error) {
+    console.warn(`⚠️ Could not probe ${path.basename(filePath)}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Remove the cached metadata of a deleted upload
+ */
+export async function deleteMediaMetadata(filePath: string): Promise<void> {
+  await fs.rm(getMetadataPath(filePath), { force: true });
+}
@@ -0,0 +1,118 @@
+/**
+ * Video thumbnails
+ * Extracts thumbnail sprite sheets of uploaded videos with ffmpeg
+ * (server-only). Sheets are cached on disk per file and interval.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import ffmpegPath from 'ffmpeg-static';
+import { ThumbnailSprite } from './types';
+import { getMediaMetadata } from './mediaProbe';
+import { THUMBNAIL_HEIGHT } from './filmstrip';
+
+const execFileAsync = promisify(execFile);
+
+const EXTRACT_TIMEOUT = 60000; // ms
+const MAX_THUMBNAILS = 400; // Longer videos get a wider interval
+const SPRITE_COLUMNS = 20;
+
+// Extractions in progress, so concurrent requests share one ffmpeg run
+const pending = new Map<string, Promise<ThumbnailSprite | null>>();
+
+/**
+ * Directory holding the sprite sheets of all uploads
+ */
+export function getThumbnailsDir(): string {
+  return path.join(process.cwd(), 'public', 'thumbnails');
+}
+
+function getSpriteBase(filename: string, interval: number): string {
+  return path.join(getThumbnailsDir(), filename, String(interval));
+}
+
+/**
+ * Sprite sheet layout for a video
+ * Widens the interval when the video would need more than MAX_THUMBNAILS
+ */
+export function planThumbnailSprite(
+  filename: string,
+  metadata: { duration: number; width: number; height: number },
+  interval: number
+): ThumbnailSprite {
+  const effectiveInterval = Math.max(interval, metadata.duration / MAX_THUMBNAILS);
+  const count = Math.max(1, Math.ceil(metadata.duration / effectiveInterval));
+  // Even sizes keep ffmpeg's scaler happy
+  const tileWidth = Math.max(2, Math.round((THUMBNAIL_HEIGHT * metadata.width) / metadata.height / 2) * 2);
+
+  return {
+    url: `/thumbnails/${encodeURIComponent(filename)}/${interval}.jpg`,
+    interval: effectiveInterval,
+    count,
+    columns: Math.min(count, SPRITE_COLUMNS),
+    tileWidth,
+    tileHeight: THUMBNAIL_HEIGHT,
+  };
+}
+
+async function extractSprite(filePath: string, interval: number): Promise<ThumbnailSprite | null> {
+  const filename = path.basename(filePath);
+  const metadata = await getMediaMetadata(filePath);
+  if (!metadata?.duration || !metadata.width || !metadata.height) return null;
+  if (!ffmpegPath) throw new Error('ffmpeg binary is not available');
+
+  const sprite = planThumbnailSprite(
+    filename,
+    { duration: metadata.duration, width: metadata.width, height: metadata.height },
+    interval
+  );
+  const rows = Math.ceil(sprite.count / sprite.columns);
+  const base = getSpriteBase(filename, interval);
+  await fs.mkdir(path.dirname(base), { recursive: true });
+
+  // Write to temp files first so readers never see a half-written sheet
+  const tempImage = `${base}.${process.pid}.tmp.jpg`;
+  await execFileAsync(
+    ffmpegPath,
+    [
+      '-v', 'error', '-y', '-i', filePath,
+      '-vf', `fps=1/${sprite.interval},scale=${sprite.tileWidth}:${sprite.tileHeight},tile=${sprite.columns}x${rows}`,
+      '-frames:v', '1', '-q:v', '5', tempImage,
+    ],
+    { timeout: EXTRACT_TIMEOUT }
+  );
+  await fs.rename(tempImage, `${base}.jpg`);
+  await fs.writeFile(`${base}.json`, JSON.stringify(sprite));
+
+  console.log(`🎞️ Extracted ${sprite.count} thumbnails of ${filename}`);
+  return sprite;
+}
+
+/**
+ * Thumbnail sprite of an uploaded video, extracting it on the first request
+ * Returns null when the file has no video to take thumbnails of
+ */
+export async function getThumbnailSprite(filePath: string, interval: number): Promise<ThumbnailSprite | null> {
+  const base = getSpriteBase(path.basename(filePath), interval);
+  try {
+    return JSON.parse(await fs.readFile(`${base}.json`, 'utf-8')) as ThumbnailSprite;
+  } catch {
+    // Not extracted yet
+  }
+
+  let extraction = pending.get(base);
+  if (!extraction) {
+    extraction = extractSprite(filePath, interval).finally(() => pending.delete(base));
+    pending.set(base, extraction);
+  }
+  return extraction;
+}
+
+/**
+ * Remove the cached sprite sheets of a deleted upload
+ */
+export async function deleteThumbnailSprites(filePath: string): Promise<void> {
+  await fs.rm(path.join(getThumbnailsDir(), path.basename(filePath)), { recursive: true, force: true });
+}
@@ -0,0 +1,71 @@
+/**
+ * Mixer metering
+ * Peak/RMS levels of sample blocks, the ballistics of the mixer meters and
+ * fader/pan labels
+ */
+
+export const METER_FLOOR_DB = -60; // Bottom of the meter scale
+const METER_RELEASE_DB = 1.5; // dB a meter falls per update once the signal drops
+
+export interface MeterLevels {
+  peak: number; // dBFS
+  rms: number; // dBFS
+}
+
+export const SILENT_LEVELS: MeterLevels = { peak: -Infinity, rms: -Infinity };
+
+/**
+ * Convert a linear amplitude to dBFS
+ */
+export function toDecibels(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+}
+
+/**
+ * Peak and RMS of a block of samples in dBFS
+ */
+export function measureLevels(samples: Float32Array): MeterLevels {
+  if (samples.length === 0) return SILENT_LEVELS;
+
+  let peak = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.abs(samples[i]);
+    if (sample > peak) peak = sample;
+    sumOfSquares += sample * sample;
+  }
+
+  return { peak: toDecibels(peak), rms: toDecibels(Math.sqrt(sumOfSquares / samples.length)) };
+}
+
+/**
+ * Meter reading after a new measurement: rises at once, falls slowly
+ */
+export function smoothLevels(previous: MeterLevels, next: MeterLevels): MeterLevels {
+  const release = (from: number, to: number) => Math.max(to, from - METER_RELEASE_DB);
+  return { peak: release(previous.peak, next.peak), rms: release(previous.rms, next.rms) };
+}
+
+/**
+ * Share of the meter a level fills (0 at the floor, 1 at 0 dBFS)
+ */
+export function getMeterFill(db: number): number {
+  if (!(db > METER_FLOOR_DB)) return 0;
+  return Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB);
+}
+
+/**
+ * Label of a fader gain in dB
+ */
+export function formatGain(volume: number): string {
+  const db = toDecibels(volume);
+  return db === -Infinity ? '-∞ dB' : `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+}
+
+/**
+ * Label of a pan position (C, or L/R and a percentage)
+ */
+export function formatPan(pan: number): string {
+  if (Math.abs(pan) < 0.005) return 'C';
+  return `${pan < 0 ? 'L' : 'R'} ${Math.round(Math.abs(pan) * 100)}`;
+}
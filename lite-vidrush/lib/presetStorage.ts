@@ -0,0 +1,108 @@
+/**
+ * Render preset storage
+ * Persists custom render presets as JSON files next to public/projects and
+ * merges them with the built-in presets (server-only)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RenderPreset, RenderSettings } from './types';
+import { BUILT_IN_PRESETS, getBuiltInPreset } from './renderPresets';
+import { generateId } from './timelineOps';
+
+export type PresetDeleteResult = 'ok' | 'not-found' | 'built-in';
+
+// Custom preset IDs come from generateId(), so they are always base36
+const PRESET_ID_PATTERN = /^[a-z0-9]+$/i;
+
+/**
+ * Directory holding one JSON file per custom preset
+ */
+export function getPresetsDir(): string {
+  return path.join(process.cwd(), 'public', 'presets');
+}
+
+function getPresetPath(id: string): string {
+  if (!PRESET_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid preset ID: ${id}`);
+  }
+  return path.join(getPresetsDir(), `${id}.json`);
+}
+
+// Write to a temp file first so readers never see a half-written preset
+async function writePreset(preset: RenderPreset): Promise<void> {
+  await fs.mkdir(getPresetsDir(), { recursive: true });
+  const filePath = getPresetPath(preset.id);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(preset, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Load a built-in or custom preset, or null if it does not exist
+ */
+export async function getRenderPreset(id: string): Promise<RenderPreset | null> {
+  const builtIn = getBuiltInPreset(id);
+  if (builtIn) return builtIn;
+  if (!PRESET_ID_PATTERN.test(id)) return null;
+
+  try {
+    return JSON.parse(await fs.readFile(getPresetPath(id), 'utf-8')) as RenderPreset;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * List the built-in presets followed by the custom ones (by name)
+ */
+export async function listRenderPresets(): Promise<RenderPreset[]> {
+  await fs.mkdir(getPresetsDir(), { recursive: true });
+  const files = await fs.readdir(getPresetsDir());
+  const custom: RenderPreset[] = [];
+
+  for (const filename of files) {
+    if (!filename.endsWith('.json')) continue;
+    const preset = await getRenderPreset(path.basename(filename, '.json'));
+    if (preset) custom.push(preset);
+  }
+
+  return [...BUILT_IN_PRESETS, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+/**
+ * Store a new custom preset
+ */
+export async function createRenderPreset(input: {
+  name: string;
+  description?: string;
+  settings: RenderSettings;
+}): Promise<RenderPreset> {
+  const preset: RenderPreset = {
+    id: generateId(),
+    name: input.name.trim(),
+    description: input.description?.trim() || undefined,
+    builtIn: false,
+    settings: input.settings,
+  };
+
+  await writePreset(preset);
+  return preset;
+}
+
+/**
+ * Delete a custom preset; built-in presets can't be removed
+ */
+export async function deleteRenderPreset(id: string): Promise<PresetDeleteResult> {
+  if (getBuiltInPreset(id)) return 'built-in';
+  if (!PRESET_ID_PATTERN.test(id)) return 'not-found';
+
+  try {
+    await fs.unlink(getPresetPath(id));
+    return 'ok';
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 'not-found';
+    throw error;
+  }
+}
@@ -0,0 +1,366 @@
+/**
+ * Project file format
+ * Versioned JSON document wrapping the editable parts of EditorState,
+ * with migrations that upgrade files saved by older versions
+ */
+
+import { z } from 'zod';
+import { DEFAULT_CANVAS, EditorState } from './types';
+
+export const PROJECT_FORMAT = 'lite-vidrush-project';
+export const PROJECT_VERSION = 4;
+export const PROJECT_FILE_EXTENSION = 'vidrush.json';
+
+const PositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+const ScaleSchema = z.object({
+  width: z.number(),
+  height: z.number(),
+});
+
+const AnchorSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+const CropSchema = z.object({
+  top: z.number().min(0).max(100),
+  right: z.number().min(0).max(100),
+  bottom: z.number().min(0).max(100),
+  left: z.number().min(0).max(100),
+});
+
+const KeyframeSchema = z.object({
+  id: z.string(),
+  frame: z.number().nonnegative(),
+  value: z.number(),
+  easing: z.enum(['linear', 'ease-in', 'ease-out', 'ease-in-out', 'bezier', 'hold']),
+  bezier: z.tuple([z.number(), z.number(), z.number(), z.number()]).optional(),
+});
+
+const KeyframeTracksSchema = z.partialRecord(
+  z.enum(['position.x', 'position.y', 'scale.width', 'scale.height', 'rotation', 'opacity', 'volume', 'fontSize']),
+  z.array(KeyframeSchema)
+);
+
+export const TransitionSchema = z.object({
+  id: z.string(),
+  trackId: z.string(),
+  fromClipId: z.string(),
+  toClipId: z.string(),
+  type: z.enum(['crossfade', 'wipe', 'slide', 'dip-to-color']),
+  duration: z.number().positive(),
+  alignment: z.enum(['center', 'start', 'end']),
+  direction: z.enum(['left', 'right', 'up', 'down']).optional(),
+  color: z.string().optional(),
+});
+
+const TrackSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(['video', 'audio', 'text']),
+  order: z.number(),
+  muted: z.boolean(),
+  solo: z.boolean(),
+  locked: z.boolean(),
+  hidden: z.boolean(),
+  volume: z.number().min(0).max(1).optional(),
+  pan: z.number().min(-1).max(1).optional(),
+});
+
+export const ClipSchema = z.object({
+  id: z.string(),
+  trackId: z.string(),
+  src: z.string(),
+  startFrame: z.number(),
+  endFrame: z.number(),
+  order: z.number(),
+  type: z.enum(['video', 'audio', 'image']),
+  position: PositionSchema.optional(),
+  scale: ScaleSchema.optional(),
+  rotation: z.number().optional(),
+  anchor: AnchorSchema.optional(),
+  crop: CropSchema.optional(),
+  opacity: z.number().min(0).max(1).optional(),
+  fit: z.enum(['fit', 'letterbox', 'fill']).optional(),
+  volume: z.number().optional(),
+  muted: z.boolean().optional(),
+  fadeIn: z.number().min(0).optional(),
+  fadeOut: z.number().min(0).optional(),
+  pan: z.number().min(-1).max(1).optional(),
+  sourceDuration: z.number().positive().optional(),
+  trimStart: z.number().optional(),
+  trimEnd: z.number().optional(),
+  keyframes: KeyframeTracksSchema.optional(),
+});
+
+export const TextOverlaySchema = z.object({
+  id: z.string(),
+  trackId: z.string(),
+  text: z.string(),
+  startFrame: z.number(),
+  endFrame: z.number(),
+  position: PositionSchema,
+  scale: ScaleSchema.optional(),
+  rotation: z.number().optional(),
+  anchor: AnchorSchema.optional(),
+  style: z.object({
+    fontSize: z.number(),
+    fontFamily: z.string(),
+    color: z.string(),
+    backgroundColor: z.string().optional(),
+    opacity: z.number(),
+    fontWeight: z.enum(['normal', 'bold']),
+    textAlign: z.enum(['left', 'center', 'right']),
+  }),
+  keyframes: KeyframeTracksSchema.optional(),
+});
+
+// Validation schema for the current project file version
+export const ProjectFileSchema = z.object({
+  format: z.literal(PROJECT_FORMAT),
+  version: z.literal(PROJECT_VERSION),
+  savedAt: z.string(),
+  project: z.object({
+    tracks: z.array(TrackSchema),
+    media: z.array(ClipSchema),
+    texts: z.array(TextOverlaySchema),
+    transitions: z.array(TransitionSchema),
+    canvas: z.object({
+      width: z.number().int().positive(),
+      height: z.number().int().positive(),
+      backgroundColor: z.string(),
+    }),
+    frameRate: z.number().positive(),
+    duration: z.number().nonnegative(),
+    audio: z.object({
+      masterVolume: z.number().min(0).max(1),
+      muted: z.boolean(),
+    }),
+  }),
+});
+
+export type ProjectFile = z.infer<typeof ProjectFileSchema>;
+
+type ProjectDocument = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Each one returns a document of the next version.
+ */
+const MIGRATIONS: Record<number, (doc: ProjectDocument) => ProjectDocument> = {
+  // v0: a bare EditorState dump (e.g. copied from a render request body)
+  0: (doc) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    savedAt: new Date(0).toISOString(),
+    project: {
+      ...(doc.tracks ? { tracks: doc.tracks } : {}), // Dumps from multi-track editors
+      ...(doc.transitions ? { transitions: doc.transitions } : {}),
+      ...(doc.canvas ? { canvas: doc.canvas } : {}),
+      media: doc.media ?? [],
+      texts: doc.texts ?? [],
+      frameRate: doc.frameRate ?? 30,
+      duration: doc.duration ?? 900,
+      audio: {
+        masterVolume: doc.masterVolume ?? 1.0,
+        muted: doc.muted ?? false,
+      },
+    },
+  }),
+
+  // v1 -> v2: fixed Video/Audio/Text lanes become real tracks
+  1: (doc) => {
+    const project = doc.project as ProjectDocument;
+    if (Array.isArray(project.tracks)) {
+      return { ...doc, version: 2 };
+    }
+
+    const track = (id: string, name: string, kind: string, order: number) => ({
+      id, name, kind, order, muted: false, solo: false, locked: false, hidden: false,
+    });
+    const media = (project.media as ProjectDocument[]) ?? [];
+    const texts = (project.texts as ProjectDocument[]) ?? [];
+
+    return {
+      ...doc,
+      version: 2,
+      project: {
+        ...project,
+        tracks: [
+          track('text-1', 'Text 1', 'text', 0),
+          track('video-1', 'Video 1', 'video', 1),
+          track('audio-1', 'Audio 1', 'audio', 2),
+        ],
+        media: media.map(clip => ({
+          ...clip,
+          trackId: clip.type === 'audio' ? 'audio-1' : 'video-1',
+        })),
+        texts: texts.map(text => ({ ...text, trackId: 'text-1' })),
+      },
+    };
+  },
+
+  // v2 -> v3: transitions between clips
+  2: (doc) => {
+    const project = doc.project as ProjectDocument;
+    return {
+      ...doc,
+      version: 3,
+      project: {
+        ...project,
+        transitions: Array.isArray(project.transitions) ? project.transitions : [],
+      },
+    };
+  },
+
+  // v3 -> v4: project canvas (earlier versions always rendered at 1280x720)
+  3: (doc) => {
+    const project = doc.project as ProjectDocument;
+    return {
+      ...doc,
+      version: 4,
+      project: {
+        ...project,
+        canvas: project.canvas ?? DEFAULT_CANVAS,
+      },
+    };
+  },
+};
+
+/**
+ * Detect the version of a raw project document
+ */
+export function getProjectVersion(doc: ProjectDocument): number {
+  if (doc.format !== PROJECT_FORMAT) return 0;
+  return typeof doc.version === 'number' ? doc.version : 0;
+}
+
+/**
+ * Upgrade a raw project document to the current version
+ */
+export function migrateProject(raw: unknown): ProjectDocument {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Project file must be a JSON object');
+  }
+
+  let doc = raw as ProjectDocument;
+  let version = getProjectVersion(doc);
+
+  if (version > PROJECT_VERSION) {
+    throw new Error(
+      `Project was saved by a newer version (v${version}); this editor supports up to v${PROJECT_VERSION}`
+    );
+  }
+
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available from project version ${version}`);
+    }
+    doc = migrate(doc);
+    version = getProjectVersion(doc);
+  }
+
+  return doc;
+}
+
+/**
+ * Migrate and validate a raw project document
+ */
+export function parseProjectFile(raw: unknown): ProjectFile {
+  const validation = ProjectFileSchema.safeParse(migrateProject(raw));
+  if (!validation.success) {
+    const issue = validation.error.issues[0];
+    throw new Error(`Invalid project file at "${issue.path.join('.')}": ${issue.message}`);
+  }
+  return validation.data;
+}
+
+/**
+ * Build a project file from the current editor state
+ */
+export function createProjectFile(state: EditorState): ProjectFile {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    project: {
+      tracks: state.tracks,
+      media: state.media,
+      texts: state.texts,
+      transitions: state.transitions,
+      canvas: state.canvas,
+      frameRate: state.frameRate,
+      duration: state.duration,
+      audio: {
+        masterVolume: state.masterVolume,
+        muted: state.muted,
+      },
+    },
+  };
+}
+
+/**
+ * The parts of the editor state a project file holds, for watching them
+ * for changes that need saving. Keep in step with createProjectFile
+ */
+export function getProjectFields(state: EditorState): unknown[] {
+  return [
+    state.tracks,
+    state.media,
+    state.texts,
+    state.transitions,
+    state.canvas,
+    state.frameRate,
+    state.duration,
+    state.masterVolume,
+    state.muted,
+  ];
+}
+
+/**
+ * Serialize the editor state as a pretty-printed project file
+ */
+export function serializeProject(state: EditorState): string {
+  return JSON.stringify(createProjectFile(state), null, 2);
+}
+
+/**
+ * Pick a thumbnail for project listings: the first image on the timeline
+ */
+export function getProjectThumbnail(file: ProjectFile): string | null {
+  const image = [...file.project.media]
+    .sort((a, b) => a.startFrame - b.startFrame)
+    .find(clip => clip.type === 'image');
+  return image?.src ?? null;
+}
+
+/**
+ * Replace the document part of the editor state with a loaded project
+ * Playback, selection and in/out marks are reset; view settings are kept
+ */
+export function applyProjectFile(state: EditorState, file: ProjectFile): EditorState {
+  const { project } = file;
+  return {
+    ...state,
+    tracks: project.tracks,
+    media: project.media,
+    texts: project.texts,
+    transitions: project.transitions,
+    canvas: project.canvas,
+    frameRate: project.frameRate,
+    duration: project.duration,
+    masterVolume: project.audio.masterVolume,
+    muted: project.audio.muted,
+    selectedIds: [],
+    playhead: 0,
+    isPlaying: false,
+    playbackRate: 1,
+    markIn: undefined,
+    markOut: undefined,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Client helpers for the /api/projects endpoints
+ */
+
+import { ProjectFile } from './project';
+import type { ProjectRecord, ProjectSummary } from './projectStorage';
+
+export type SaveProjectResult =
+  | { status: 'saved'; record: ProjectRecord }
+  | { status: 'conflict'; revision: number; message: string };
+
+async function readError(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({ error: response.statusText }));
+  return errorData.details || errorData.message || errorData.error || `HTTP ${response.status}`;
+}
+
+/**
+ * List stored projects
+ */
+export async function fetchProjects(): Promise<ProjectSummary[]> {
+  const response = await fetch('/api/projects');
+  if (!response.ok) throw new Error(await readError(response));
+  const result = await response.json();
+  return result.projects;
+}
+
+/**
+ * Load a stored project by ID
+ */
+export async function fetchProject(id: string): Promise<ProjectRecord> {
+  const response = await fetch(`/api/projects/${encodeURIComponent(id)}`);
+  if (!response.ok) throw new Error(await readError(response));
+  const result = await response.json();
+  return result.project;
+}
+
+/**
+ * Store a new project on the server
+ */
+export async function createRemoteProject(project: ProjectFile, title?: string): Promise<ProjectRecord> {
+  const response = await fetch('/api/projects', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title, project }),
+  });
+  if (!response.ok) throw new Error(await readError(response));
+  const result = await response.json();
+  return result.project;
+}
+
+/**
+ * Save a project, reporting a conflict if the server has a newer revision
+ */
+export async function saveRemoteProject(
+  id: string,
+  revision: number,
+  project: ProjectFile
+): Promise<SaveProjectResult> {
+  const response = await fetch(`/api/projects/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ revision, project }),
+  });
+
+  if (response.status === 409) {
+    const result = await response.json();
+    return { status: 'conflict', revision: result.revision, message: result.message };
+  }
+  if (!response.ok) throw new Error(await readError(response));
+
+  const result = await response.json();
+  return { status: 'saved', record: result.project };
+}
+
+export interface Autosave {
+  /** Note a change and (re)start the delay before saving */
+  schedule(): void;
+  /** Whether changes arrived that the last save did not include */
+  hasPendingChanges(): boolean;
+  /** Stop saving; a save already in flight still finishes */
+  cancel(): void;
+}
+
+/**
+ * Debounce saves and run them one at a time. A change made while a save is
+ * in flight is saved after it finishes, so each save sees the revision the
+ * previous one returned. `save` handles its own errors.
+ */
+export function createAutosave(save: () => Promise<void>, delayMs: number): Autosave {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let saving = false;
+  let dirty = false;
+  let cancelled = false;
+
+  const run = () => {
+    timeoutId = undefined;
+    // The save in flight starts the next one when it finishes
+    if (saving || cancelled) return;
+
+    dirty = false;
+    saving = true;
+    save().finally(() => {
+      saving = false;
+      if (dirty && !cancelled && timeoutId === undefined) run();
+    });
+  };
+
+  return {
+    schedule() {
+      if (cancelled) return;
+      dirty = true;
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(run, delayMs);
+    },
+    hasPendingChanges: () => dirty,
+    cancel() {
+      cancelled = true;
+      clearTimeout(timeoutId);
+      timeoutId = undefined;
+    },
+  };
+}
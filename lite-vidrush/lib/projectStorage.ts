@@ -0,0 +1,200 @@
+/**
+ * Project storage
+ * Persists project records as JSON files next to public/uploads (server-only)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ProjectFile, getProjectThumbnail, parseProjectFile } from './project';
+import { generateId } from './timelineOps';
+
+export interface ProjectRecord {
+  id: string;
+  title: string;
+  createdAt: string; // ISO timestamp
+  modifiedAt: string; // ISO timestamp
+  revision: number; // Incremented on every update (optimistic concurrency)
+  thumbnail: string | null; // URL or data URL of a preview image
+  project: ProjectFile;
+}
+
+export type ProjectSummary = Omit<ProjectRecord, 'project'>;
+
+export interface ProjectUpdate {
+  revision: number; // Revision the caller last saw
+  title?: string;
+  project?: ProjectFile;
+  thumbnail?: string | null;
+}
+
+export type ProjectUpdateResult =
+  | { status: 'ok'; record: ProjectRecord }
+  | { status: 'not-found' }
+  | { status: 'conflict'; record: ProjectRecord };
+
+// Project IDs come from generateId(), so they are always base36
+const PROJECT_ID_PATTERN = /^[a-z0-9]+$/i;
+
+// Updates of each project run one at a time, so two saves of the same
+// revision can't both pass the revision check
+const updateQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Directory holding one JSON file per project
+ */
+export function getProjectsDir(): string {
+  return path.join(process.cwd(), 'public', 'projects');
+}
+
+/**
+ * Check that an ID is safe to use as a filename
+ */
+export function isValidProjectId(id: string): boolean {
+  return PROJECT_ID_PATTERN.test(id);
+}
+
+function getProjectPath(id: string): string {
+  if (!isValidProjectId(id)) {
+    throw new Error(`Invalid project ID: ${id}`);
+  }
+  return path.join(getProjectsDir(), `${id}.json`);
+}
+
+// Write to a temp file first so readers never see a half-written project.
+// Temp names are unique so overlapping writes don't share one
+async function writeRecord(record: ProjectRecord): Promise<void> {
+  await fs.mkdir(getProjectsDir(), { recursive: true });
+  const filePath = getProjectPath(record.id);
+  const tempPath = `${filePath}.${process.pid}.${generateId()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(record, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+// Run a task after the project's earlier updates have finished
+function withUpdateLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = updateQueues.get(id) ?? Promise.resolve();
+  const result = previous.then(task);
+  const done = result.catch(() => undefined);
+  updateQueues.set(id, done);
+  void done.then(() => {
+    if (updateQueues.get(id) === done) updateQueues.delete(id);
+  });
+  return result;
+}
+
+function toSummary(record: ProjectRecord): ProjectSummary {
+  const { id, title, createdAt, modifiedAt, revision, thumbnail } = record;
+  return { id, title, createdAt, modifiedAt, revision, thumbnail };
+}
+
+/**
+ * Load a project record, or null if it does not exist
+ */
+export async function getProject(id: string): Promise<ProjectRecord | null> {
+  if (!isValidProjectId(id)) return null;
+
+  try {
+    const json = await fs.readFile(getProjectPath(id), 'utf-8');
+    const record = JSON.parse(json) as ProjectRecord;
+    // Upgrade projects stored by older versions of the editor
+    return { ...record, project: parseProjectFile(record.project) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * List all stored projects, most recently modified first
+ * Records that can't be read are skipped so one bad file doesn't hide the rest.
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  await fs.mkdir(getProjectsDir(), { recursive: true });
+  const files = await fs.readdir(getProjectsDir());
+  const summaries: ProjectSummary[] = [];
+
+  for (const filename of files) {
+    if (!filename.endsWith('.json')) continue;
+    try {
+      const record = await getProject(path.basename(filename, '.json'));
+      if (record) summaries.push(toSummary(record));
+    } catch (error) {
+      console.warn(`⚠️ Skipping unreadable project ${filename}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return summaries.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+}
+
+/**
+ * Store a new project with revision 1
+ */
+export async function createProject(input: {
+  title?: string;
+  project: ProjectFile;
+  thumbnail?: string | null;
+}): Promise<ProjectRecord> {
+  const now = new Date().toISOString();
+  const record: ProjectRecord = {
+    id: generateId(),
+    title: input.title?.trim() || 'Untitled Project',
+    createdAt: now,
+    modifiedAt: now,
+    revision: 1,
+    thumbnail: input.thumbnail ?? getProjectThumbnail(input.project),
+    project: input.project,
+  };
+
+  await writeRecord(record);
+  return record;
+}
+
+/**
+ * Update a project if the caller saw the latest revision
+ */
+export async function updateProject(id: string, input: ProjectUpdate): Promise<ProjectUpdateResult> {
+  return withUpdateLock(id, () => applyUpdate(id, input));
+}
+
+async function applyUpdate(id: string, input: ProjectUpdate): Promise<ProjectUpdateResult> {
+  const current = await getProject(id);
+  if (!current) return { status: 'not-found' };
+
+  // Someone else saved in the meantime; the caller must reload first
+  if (current.revision !== input.revision) {
+    return { status: 'conflict', record: current };
+  }
+
+  const project = input.project ?? current.project;
+  const record: ProjectRecord = {
+    ...current,
+    title: input.title?.trim() || current.title,
+    modifiedAt: new Date().toISOString(),
+    revision: current.revision + 1,
+    thumbnail:
+      input.thumbnail !== undefined
+        ? input.thumbnail
+        : input.project
+          ? getProjectThumbnail(project)
+          : current.thumbnail,
+    project,
+  };
+
+  await writeRecord(record);
+  return { status: 'ok', record };
+}
+
+/**
+ * Delete a project; returns false if it did not exist
+ */
+export async function deleteProject(id: string): Promise<boolean> {
+  if (!isValidProjectId(id)) return false;
+
+  try {
+    await fs.unlink(getProjectPath(id));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Client helpers for the /api/render endpoints
+ */
+
+import { EditorState, RenderEvent, RenderJob, RenderPreset, RenderSettings } from './types';
+import { createServerSentEventParser, isFinalRenderEvent } from './renderEvents';
+import { createProjectFile } from './project';
+
+async function readError(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({ error: response.statusText }));
+  return errorData.details || errorData.message || errorData.error || `HTTP ${response.status}`;
+}
+
+/**
+ * Queue a render of the project in the editor state
+ * Settings override those of the preset, if one is given
+ */
+export async function startRender(
+  editorState: EditorState,
+  settings?: Partial<RenderSettings>,
+  presetId?: string
+): Promise<RenderJob> {
+  // Only the document is sent, not the undo history or UI state
+  const project = createProjectFile(editorState);
+  const response = await fetch('/api/render', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ project, presetId, settings }),
+  });
+  if (!response.ok) throw new Error(await readError(response));
+  const result = await response.json();
+  return result.job;
+}
+
+/**
+ * Load the current status of a render job
+ */
+export async function fetchRenderJob(id: string): Promise<RenderJob> {
+  const response = await fetch(`/api/render/${encodeURIComponent(id)}`);
+  if (!response.ok) throw new Error(await readError(response));
+  const result = await response.json();
+  return result.job;
+}
+
+/**
+ * Cancel a queued or running render
+ */
+export async function cancelRender(id: string): Promise<RenderJob> {
+  const response = await fetch(`/api/render/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) throw new Error(await readError(response));
+  const result = await response.json();
+  return result.job;
+}
+
+/**
+ * Load the built-in and custom render presets
+ */
+export async function fetchRenderPresets(): Promise<RenderPreset[]> {
+  const response = await fetch('/api/render/presets');
+  if (!response.ok) throw new Error(await readError(response));
+  const result = await response.json();
+  return result.presets;
+}
+
+/**
+ * Add a custom render preset
+ */
+export async function createRenderPreset(input: {
+  name: string;
+  description?: string;
+  settings: Partial<RenderSettings>;
+}): Promise<RenderPreset> {
+  const response = await fetch('/api/render/presets', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) throw new Error(await readError(response));
+  const result = await response.json();
+  return result.preset;
+}
+
+/**
+ * Delete a custom render preset
+ */
+export async function deleteRenderPreset(id: string): Promise<void> {
+  const response = await fetch(`/api/render/presets/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) throw new Error(await readError(response));
+}
+
+/**
+ * Follow a render through its event stream until it finishes
+ * Uses fetch rather than EventSource so it also works in Node scripts
+ * (pass `baseUrl`, e.g. http://localhost:3000).
+ */
+export async function streamRenderEvents(
+  id: string,
+  onEvent: (event: RenderEvent) => void,
+  options: { signal?: AbortSignal; baseUrl?: string } = {}
+): Promise<void> {
+  const response = await fetch(`${options.baseUrl ?? ''}/api/render/${encodeURIComponent(id)}/events`, {
+    headers: { Accept: 'text/event-stream' },
+    signal: options.signal,
+  });
+  if (!response.ok || !response.body) throw new Error(await readError(response));
+
+  let finished = false;
+  const parse = createServerSentEventParser(event => {
+    finished = finished || isFinalRenderEvent(event);
+    onEvent(event);
+  });
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  try {
+    while (!finished) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      parse(value);
+    }
+  } finally {
+    // Drop the connection once the render has finished
+    await reader.cancel().catch(() => {});
+  }
+
+  if (!finished) throw new Error('Render event stream ended unexpectedly');
+}
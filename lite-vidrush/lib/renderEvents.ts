@@ -0,0 +1,49 @@
+/**
+ * Render event stream format
+ * Encodes render events as server-sent events and parses them back, so the
+ * editor and headless scripts can follow a render without polling
+ */
+
+import { RenderEvent } from './types';
+
+/**
+ * Encode an event as an SSE message (`event:` is the event type, `data:` its JSON)
+ */
+export function formatServerSentEvent(event: RenderEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Check whether an event ends the stream
+ */
+export function isFinalRenderEvent(event: RenderEvent): boolean {
+  if (event.type === 'done' || event.type === 'error') return true;
+  return event.type === 'status' && ['done', 'failed', 'cancelled'].includes(event.job.state);
+}
+
+/**
+ * Create a parser for an SSE text stream
+ * Feed it chunks as they arrive; complete messages are passed to `onEvent`.
+ * Comment lines (heartbeats) are ignored.
+ */
+export function createServerSentEventParser(onEvent: (event: RenderEvent) => void): (chunk: string) => void {
+  let buffer = '';
+
+  return (chunk) => {
+    buffer += chunk.replace(/\r\n/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+
+    while (boundary !== -1) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const data = message
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) onEvent(JSON.parse(data) as RenderEvent);
+    }
+  };
+}
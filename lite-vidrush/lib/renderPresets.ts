@@ -0,0 +1,95 @@
+/**
+ * Built-in render presets
+ * Shipped with the app and always available next to the custom presets
+ * stored on the server
+ */
+
+import { RenderPreset } from './types';
+
+export const BUILT_IN_PRESETS: RenderPreset[] = [
+  {
+    id: 'youtube-1080p',
+    name: '1080p YouTube',
+    description: 'Full HD H.264 at high quality',
+    builtIn: true,
+    settings: {
+      width: 1920,
+      height: 1080,
+      fps: 30,
+      codec: 'h264',
+      crf: 18,
+      audioBitrate: '320k',
+      pixelFormat: 'yuv420p',
+      outputFormat: 'mp4',
+    },
+  },
+  {
+    id: 'shorts-vertical',
+    name: 'Vertical 9:16 Shorts',
+    description: 'Portrait video for Shorts, Reels and TikTok',
+    builtIn: true,
+    settings: {
+      width: 1080,
+      height: 1920,
+      fps: 30,
+      codec: 'h264',
+      crf: 20,
+      audioBitrate: '192k',
+      pixelFormat: 'yuv420p',
+      outputFormat: 'mp4',
+    },
+  },
+  {
+    id: 'instagram-square',
+    name: 'Square 1:1 Instagram',
+    description: 'Square video for feed posts',
+    builtIn: true,
+    settings: {
+      width: 1080,
+      height: 1080,
+      fps: 30,
+      codec: 'h264',
+      crf: 20,
+      audioBitrate: '192k',
+      pixelFormat: 'yuv420p',
+      outputFormat: 'mp4',
+    },
+  },
+  {
+    id: 'draft-480p',
+    name: 'Draft 480p fast',
+    description: 'Small, quick renders for review',
+    builtIn: true,
+    settings: {
+      width: 854,
+      height: 480,
+      fps: 24,
+      codec: 'h264',
+      crf: 32,
+      audioBitrate: '96k',
+      pixelFormat: 'yuv420p',
+      outputFormat: 'mp4',
+    },
+  },
+  {
+    id: 'archive-prores',
+    name: 'Archive ProRes',
+    description: '10-bit ProRes master for archiving and further editing',
+    builtIn: true,
+    settings: {
+      width: 1920,
+      height: 1080,
+      fps: 30,
+      codec: 'prores',
+      pixelFormat: 'yuv422p10le',
+      outputFormat: 'mov',
+    },
+  },
+];
+
+/**
+ * Find a built-in preset by ID
+ */
+export function getBuiltInPreset(id: string): RenderPreset | undefined {
+  return BUILT_IN_PRESETS.find(preset => preset.id === id);
+}
@@ -0,0 +1,280 @@
+/**
+ * Render job queue
+ * Runs renders in the background with a concurrency limit, tracks their
+ * progress, notifies subscribers and persists finished jobs next to their
+ * output (server-only)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RenderContainer, RenderEvent, RenderJob, RenderJobState, RenderSettings, RenderStage, EditorState } from './types';
+import { generateId } from './timelineOps';
+
+export interface RenderInput {
+  editorState: EditorState;
+  settings: RenderSettings;
+}
+
+export interface RenderProgress {
+  stage: RenderStage;
+  progress: number; // 0-1
+  renderedFrames: number;
+  encodedFrames: number;
+  totalFrames: number | null;
+}
+
+export interface RenderContext {
+  outputPath: string;
+  signal: AbortSignal; // Aborted when the job is cancelled
+  onBundleProgress: (progress: number) => void;
+  onComposition: (composition: Omit<Extract<RenderEvent, { type: 'composition' }>, 'type'>) => void;
+  onProgress: (progress: RenderProgress) => void;
+}
+
+export type RenderEventListener = (event: RenderEvent) => void;
+
+export type RenderRunner = (input: RenderInput, context: RenderContext) => Promise<void>;
+
+export interface RenderQueueOptions {
+  concurrency: number;
+  outputDir: string;
+  run: RenderRunner;
+  maxFinishedJobs?: number; // Finished jobs kept in memory; older ones are read from disk
+}
+
+export interface RenderQueue {
+  enqueue: (input: RenderInput) => RenderJob;
+  getJob: (id: string) => Promise<RenderJob | null>;
+  listJobs: () => RenderJob[];
+  cancelJob: (id: string) => RenderJob | null;
+  getOutputPath: (id: string, format: RenderContainer) => string;
+  subscribe: (id: string, listener: RenderEventListener) => () => void;
+}
+
+// Job IDs come from generateId(), so they are always base36
+const JOB_ID_PATTERN = /^[a-z0-9]+$/i;
+
+const FINISHED_STATES: RenderJobState[] = ['done', 'failed', 'cancelled'];
+
+const DEFAULT_MAX_FINISHED_JOBS = 50;
+
+/**
+ * Check whether a job has stopped running
+ */
+export function isJobFinished(job: RenderJob): boolean {
+  return FINISHED_STATES.includes(job.state);
+}
+
+/**
+ * Estimate the seconds left from the time spent so far
+ */
+export function estimateRemaining(elapsedMs: number, progress: number): number | null {
+  if (progress <= 0 || progress >= 1) return progress >= 1 ? 0 : null;
+  return Math.round((elapsedMs / 1000) * (1 - progress) / progress);
+}
+
+/**
+ * Create a queue that runs at most `concurrency` renders at a time
+ * A job's input, abort controller and listeners are dropped when it finishes,
+ * and only the latest finished jobs stay in memory (listJobs lists those).
+ */
+export function createRenderQueue({
+  concurrency,
+  outputDir,
+  run,
+  maxFinishedJobs = DEFAULT_MAX_FINISHED_JOBS,
+}: RenderQueueOptions): RenderQueue {
+  const jobs = new Map<string, RenderJob>();
+  const inputs = new Map<string, RenderInput>();
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Map<string, Set<RenderEventListener>>();
+  const pending: string[] = [];
+  const finishedIds: string[] = []; // Finished jobs in memory, oldest first
+  let running = 0;
+
+  const getOutputPath = (id: string, format: RenderContainer) => {
+    if (!JOB_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid render job ID: ${id}`);
+    }
+    return path.join(outputDir, `${id}.${format}`);
+  };
+  const getRecordPath = (id: string) => path.join(outputDir, `${id}.json`);
+
+  const update = (id: string, changes: Partial<RenderJob>) => {
+    const job = jobs.get(id);
+    if (job) jobs.set(id, { ...job, ...changes });
+    return jobs.get(id)!;
+  };
+
+  const emit = (id: string, event: RenderEvent) => {
+    listeners.get(id)?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`❌ Render event listener for ${id} failed:`, error);
+      }
+    });
+  };
+
+  // Forget the oldest finished jobs beyond the limit; getJob reads them from disk
+  const evictFinishedJobs = () => {
+    while (finishedIds.length > maxFinishedJobs) {
+      jobs.delete(finishedIds.shift()!);
+    }
+  };
+
+  // Write finished jobs to disk so their results survive a restart
+  const finish = async (id: string, state: RenderJobState, error: string | null = null) => {
+    const job = update(id, {
+      state,
+      error,
+      eta: state === 'done' ? 0 : null,
+      finishedAt: new Date().toISOString(),
+      outputUrl: state === 'done' ? `/api/render/${id}/output` : null,
+      ...(state === 'done' ? { progress: 1 } : {}),
+    });
+    inputs.delete(id);
+    controllers.delete(id);
+
+    if (state === 'done') emit(id, { type: 'done', job });
+    else if (state === 'failed') emit(id, { type: 'error', job, error: error ?? 'Render failed' });
+    else emit(id, { type: 'status', job });
+    listeners.delete(id);
+
+    try {
+      if (state !== 'done') {
+        await fs.rm(getOutputPath(id, job.outputFormat), { force: true });
+      }
+      await fs.writeFile(getRecordPath(id), JSON.stringify(jobs.get(id), null, 2));
+      finishedIds.push(id);
+      evictFinishedJobs();
+    } catch (persistError) {
+      console.error(`❌ Could not persist render job ${id}:`, persistError);
+    }
+  };
+
+  const start = async (id: string) => {
+    const input = inputs.get(id);
+    if (!input) return;
+
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    running++;
+
+    const startedAt = Date.now();
+    emit(id, { type: 'status', job: update(id, { state: 'rendering', startedAt: new Date(startedAt).toISOString() }) });
+    console.log(`🎬 Render job ${id} started (${running}/${concurrency} running)`);
+
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+      await run(input, {
+        outputPath: getOutputPath(id, input.settings.outputFormat),
+        signal: controller.signal,
+        onBundleProgress: (progress) => emit(id, { type: 'bundle', progress }),
+        onComposition: (composition) => {
+          update(id, { totalFrames: composition.durationInFrames });
+          emit(id, { type: 'composition', ...composition });
+        },
+        onProgress: ({ stage, progress, renderedFrames, encodedFrames, totalFrames }) => {
+          const job = update(id, {
+            progress,
+            renderedFrames,
+            encodedFrames,
+            totalFrames,
+            eta: estimateRemaining(Date.now() - startedAt, progress),
+          });
+          emit(id, { type: 'progress', stage, job });
+        },
+      });
+      await finish(id, 'done');
+      console.log(`✅ Render job ${id} finished in ${Date.now() - startedAt}ms`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        await finish(id, 'cancelled');
+        console.log(`🛑 Render job ${id} cancelled`);
+      } else {
+        await finish(id, 'failed', error instanceof Error ? error.message : 'Unknown render error');
+        console.error(`❌ Render job ${id} failed:`, error);
+      }
+    } finally {
+      running--;
+      startNext();
+    }
+  };
+
+  const startNext = () => {
+    while (running < concurrency && pending.length > 0) {
+      void start(pending.shift()!);
+    }
+  };
+
+  return {
+    enqueue: (input) => {
+      const job: RenderJob = {
+        id: generateId(),
+        state: 'queued',
+        progress: 0,
+        renderedFrames: 0,
+        encodedFrames: 0,
+        totalFrames: null,
+        eta: null,
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        error: null,
+        outputUrl: null,
+        outputFormat: input.settings.outputFormat,
+      };
+      jobs.set(job.id, job);
+      inputs.set(job.id, input);
+      pending.push(job.id);
+      console.log(`📥 Render job ${job.id} queued (${pending.length} waiting)`);
+
+      startNext();
+      return jobs.get(job.id)!;
+    },
+
+    getJob: async (id) => {
+      const job = jobs.get(id);
+      if (job) return job;
+      if (!JOB_ID_PATTERN.test(id)) return null;
+
+      // Finished jobs from earlier server runs
+      try {
+        return JSON.parse(await fs.readFile(getRecordPath(id), 'utf-8')) as RenderJob;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    listJobs: () => [...jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+
+    cancelJob: (id) => {
+      const job = jobs.get(id);
+      if (!job || isJobFinished(job)) return job ?? null;
+
+      const queuedIndex = pending.indexOf(id);
+      if (queuedIndex !== -1) {
+        pending.splice(queuedIndex, 1);
+        void finish(id, 'cancelled');
+      } else {
+        // The runner rejects once Remotion has stopped; start() records the cancellation
+        controllers.get(id)?.abort();
+      }
+      return jobs.get(id)!;
+    },
+
+    getOutputPath,
+
+    subscribe: (id, listener) => {
+      const set = listeners.get(id) ?? new Set();
+      set.add(listener);
+      listeners.set(id, set);
+      return () => {
+        set.delete(listener);
+        if (set.size === 0 && listeners.get(id) === set) listeners.delete(id);
+      };
+    },
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Render settings
+ * Codec/container compatibility, validation and output file details shared
+ * by the render API and the export UI
+ */
+
+import { z } from 'zod';
+import { RenderCodec, RenderContainer, RenderPixelFormat, RenderSettings } from './types';
+
+// Containers each codec can be written to (matches what Remotion accepts)
+export const CODEC_CONTAINERS: Record<RenderCodec, RenderContainer[]> = {
+  h264: ['mp4', 'mov', 'mkv'],
+  h265: ['mp4', 'mkv'],
+  vp8: ['webm', 'mkv'],
+  vp9: ['webm', 'mkv'],
+  prores: ['mov', 'mkv'],
+  gif: ['gif'],
+};
+
+export const CODEC_LABELS: Record<RenderCodec, string> = {
+  h264: 'H.264',
+  h265: 'H.265',
+  vp8: 'VP8',
+  vp9: 'VP9',
+  prores: 'ProRes',
+  gif: 'GIF',
+};
+
+export const CONTAINER_MIME_TYPES: Record<RenderContainer, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mkv: 'video/x-matroska',
+  gif: 'image/gif',
+};
+
+export const MAX_RENDER_FPS = 120;
+export const MAX_RENDER_DIMENSION = 7680; // 8K
+
+// e.g. '8M', '2.5M', '800k' or a plain number of bits per second
+const BITRATE_PATTERN = /^\d+(\.\d+)?[kKmM]?$/;
+
+// Codecs that are encoded with a quality profile instead of a bitrate
+const FIXED_QUALITY_CODECS: RenderCodec[] = ['prores', 'gif'];
+
+// Constant quality (CRF) values each encoder accepts
+export const CODEC_CRF_RANGES: Partial<Record<RenderCodec, [number, number]>> = {
+  h264: [1, 51],
+  h265: [0, 51],
+  vp8: [4, 63],
+  vp9: [0, 63],
+};
+
+// Pixel formats limited to some codecs (alpha is only kept by VP8/VP9 and ProRes)
+const PIXEL_FORMAT_CODECS: Partial<Record<RenderPixelFormat, RenderCodec[]>> = {
+  yuva420p: ['vp8', 'vp9'],
+  yuva444p10le: ['prores'],
+};
+
+// Chroma-subsampled codecs need even frame sizes
+const EVEN_DIMENSION_CODECS: RenderCodec[] = ['h264', 'h265'];
+
+// Shape of (partial) render settings in API requests; combinations are
+// checked by validateRenderSettings once merged with the defaults
+export const RenderSettingsSchema = z.object({
+  width: z.number().optional(),
+  height: z.number().optional(),
+  fps: z.number().optional(),
+  codec: z.enum(['h264', 'h265', 'vp8', 'vp9', 'prores', 'gif']).optional(),
+  bitrate: z.string().optional(),
+  crf: z.number().optional(),
+  audioBitrate: z.string().optional(),
+  pixelFormat: z.enum(['yuv420p', 'yuva420p', 'yuv422p10le', 'yuv444p', 'yuv444p10le', 'yuva444p10le']).optional(),
+  outputFormat: z.enum(['mp4', 'webm', 'mov', 'mkv', 'gif']).optional(),
+});
+
+/**
+ * Apply explicit settings on top of a preset's. Bitrate and CRF are two ways
+ * to pick the quality, so choosing one drops the other the preset had
+ */
+export function overrideRenderSettings(
+  base: Partial<RenderSettings>,
+  overrides: Partial<RenderSettings>
+): Partial<RenderSettings> {
+  const merged = { ...base, ...overrides };
+  if (overrides.bitrate !== undefined && overrides.crf === undefined) delete merged.crf;
+  if (overrides.crf !== undefined && overrides.bitrate === undefined) delete merged.bitrate;
+  return merged;
+}
+
+/**
+ * List the problems with a set of render settings (empty when valid)
+ */
+export function validateRenderSettings(settings: RenderSettings): string[] {
+  const { width, height, fps, codec, bitrate, crf, audioBitrate, pixelFormat, outputFormat } = settings;
+  const errors: string[] = [];
+
+  for (const [name, value] of [['Width', width], ['Height', height]] as const) {
+    if (!Number.isInteger(value) || value < 1 || value > MAX_RENDER_DIMENSION) {
+      errors.push(`${name} must be a whole number of pixels between 1 and ${MAX_RENDER_DIMENSION}.`);
+    } else if (EVEN_DIMENSION_CODECS.includes(codec) && value % 2 !== 0) {
+      errors.push(`${CODEC_LABELS[codec]} needs an even ${name.toLowerCase()} (got ${value}).`);
+    }
+  }
+
+  if (!(fps > 0 && fps <= MAX_RENDER_FPS)) {
+    errors.push(`Frame rate must be above 0 and at most ${MAX_RENDER_FPS} fps.`);
+  }
+
+  if (!CODEC_CONTAINERS[codec].includes(outputFormat)) {
+    errors.push(
+      `${CODEC_LABELS[codec]} can't be written to ${outputFormat}; use ${CODEC_CONTAINERS[codec].join(' or ')}.`
+    );
+  }
+
+  if (bitrate !== undefined) {
+    if (FIXED_QUALITY_CODECS.includes(codec)) {
+      errors.push(`${CODEC_LABELS[codec]} doesn't take a bitrate.`);
+    } else if (!BITRATE_PATTERN.test(bitrate)) {
+      errors.push(`Bitrate "${bitrate}" should look like 8M or 800k.`);
+    }
+  }
+
+  if (crf !== undefined) {
+    const range = CODEC_CRF_RANGES[codec];
+    if (!range) {
+      errors.push(`${CODEC_LABELS[codec]} doesn't take a CRF.`);
+    } else if (!Number.isInteger(crf) || crf < range[0] || crf > range[1]) {
+      errors.push(`CRF for ${CODEC_LABELS[codec]} must be a whole number from ${range[0]} to ${range[1]}.`);
+    } else if (bitrate !== undefined) {
+      errors.push('Use either a bitrate or a CRF, not both.');
+    }
+  }
+
+  if (audioBitrate !== undefined) {
+    if (codec === 'gif') {
+      errors.push("GIF has no audio, so it doesn't take an audio bitrate.");
+    } else if (!BITRATE_PATTERN.test(audioBitrate)) {
+      errors.push(`Audio bitrate "${audioBitrate}" should look like 320k.`);
+    }
+  }
+
+  if (pixelFormat !== undefined) {
+    const codecs = PIXEL_FORMAT_CODECS[pixelFormat];
+    if (codec === 'gif') {
+      errors.push("GIF doesn't take a pixel format.");
+    } else if (codecs && !codecs.includes(codec)) {
+      errors.push(`${CODEC_LABELS[codec]} can't use the ${pixelFormat} pixel format.`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Name for a downloaded render
+ */
+export function getOutputFilename(id: string, format: RenderContainer): string {
+  return `vidrush-export-${id}.${format}`;
+}
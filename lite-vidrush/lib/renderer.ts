@@ -0,0 +1,188 @@
+/**
+ * Remotion renderer
+ * Bundles the composition (cached between renders), renders an editor state
+ * to a file and owns the shared render queue used by the API routes
+ * (server-only)
+ */
+
+import path from 'path';
+import { promises as fs } from 'fs';
+import { createRenderQueue, RenderQueue, RenderRunner } from './renderQueue';
+import { BundleCache, BundleCacheStatus, createBundleCache } from './bundleCache';
+import { retimeEditorState } from './timelineOps';
+import { applyClipPans } from './audioPan';
+
+// Maximum number of renders running at once; extra jobs wait in the queue
+const RENDER_CONCURRENCY = Math.max(1, parseInt(process.env.RENDER_CONCURRENCY ?? '1', 10) || 1);
+
+/**
+ * Directory holding finished renders and their job records
+ */
+export function getRendersDir(): string {
+  return path.join(process.cwd(), 'public', 'renders');
+}
+
+/**
+ * Bundle the Remotion entry point
+ */
+async function bundleComposition(onProgress: (progress: number) => void): Promise<string> {
+  const { bundle } = await import('@remotion/bundler');
+
+  const entryPoint = path.resolve(process.cwd(), 'remotion/index.tsx');
+  try {
+    await fs.access(entryPoint);
+  } catch {
+    throw new Error(`Entry point file not found: ${entryPoint}`);
+  }
+
+  console.log('📦 Starting Remotion bundle process...');
+  const startedAt = Date.now();
+  const location = await bundle({
+    entryPoint,
+    webpackOverride: (config) => {
+      // Minimal webpack override to avoid conflicts
+      return {
+        ...config,
+        resolve: {
+          ...config.resolve,
+          alias: {
+            ...config.resolve?.alias,
+            '@': path.resolve(process.cwd()),
+          },
+          extensions: ['.ts', '.tsx', '.js', '.jsx', '.json'],
+        },
+        externals: {
+          // Don't bundle Next.js specific modules
+          'next': 'commonjs next',
+          'next/server': 'commonjs next/server',
+        },
+      };
+    },
+    onProgress: (percent) => {
+      console.log(`📦 Bundle progress: ${Math.round(percent)}%`);
+      onProgress(percent / 100);
+    },
+  });
+  console.log(`✅ Bundle created at: ${location} (${Date.now() - startedAt}ms)`);
+  return location;
+}
+
+// Keep one bundle cache and render queue per server process, even when Next
+// reloads this module in development
+const globalForRender = globalThis as typeof globalThis & {
+  bundleCache?: BundleCache;
+  renderQueue?: RenderQueue;
+};
+
+// The bundle is rebuilt when the composition or the lib modules it imports change
+function getBundleCache(): BundleCache {
+  globalForRender.bundleCache ??= createBundleCache({
+    sources: [
+      path.resolve(process.cwd(), 'remotion'),
+      path.resolve(process.cwd(), 'lib'),
+    ],
+    build: bundleComposition,
+  });
+  return globalForRender.bundleCache;
+}
+
+/**
+ * Whether the next render can reuse the cached bundle
+ */
+export function getBundleCacheStatus(): Promise<BundleCacheStatus> {
+  return getBundleCache().getStatus();
+}
+
+/**
+ * Build the bundle ahead of the first render (called on server start)
+ */
+export async function warmBundleCache(): Promise<void> {
+  try {
+    const { status, release } = await getBundleCache().getBundle();
+    await release();
+    console.log(`🔥 Remotion bundle warmed (${status})`);
+  } catch (error) {
+    console.error('❌ Could not warm the Remotion bundle:', error);
+  }
+}
+
+/**
+ * Render an editor state with Remotion, reporting frame progress
+ * The timeline is retimed to the output frame rate and the composition is
+ * sized to the output resolution. Aborting the signal stops the render
+ * through Remotion's cancel signal.
+ */
+export const renderEditorState: RenderRunner = async (
+  { editorState, settings },
+  { outputPath, signal, onBundleProgress, onComposition, onProgress }
+) => {
+  const { renderMedia, selectComposition, makeCancelSignal } = await import('@remotion/renderer');
+
+  const { location: bundleLocation, status, release } = await getBundleCache().getBundle(onBundleProgress);
+  console.log(`📦 Using ${status === 'hit' ? 'cached' : 'new'} bundle: ${bundleLocation}`);
+
+  // Hold the bundle until the render is done, so a rebuild can't remove it meanwhile
+  try {
+    signal.throwIfAborted();
+
+    // calculateMetadata takes the duration and fps from the retimed state
+    const pannedState = await applyClipPans(editorState);
+    signal.throwIfAborted();
+    const inputProps = { editorState: retimeEditorState(pannedState, settings.fps) };
+    const selected = await selectComposition({
+      serveUrl: bundleLocation,
+      id: 'VideoEditor',
+      inputProps,
+    });
+    const composition = { ...selected, width: settings.width, height: settings.height };
+    const { id, width, height, fps, durationInFrames } = composition;
+    console.log(`✅ Found composition: ${id} (${width}x${height}, ${fps}fps, ${durationInFrames} frames)`);
+    onComposition({ id, width, height, fps, durationInFrames });
+    signal.throwIfAborted();
+
+    const { cancelSignal, cancel } = makeCancelSignal();
+    signal.addEventListener('abort', () => cancel(), { once: true });
+
+    await renderMedia({
+      composition,
+      serveUrl: bundleLocation,
+      codec: settings.codec,
+      videoBitrate: settings.bitrate ?? null,
+      crf: settings.crf ?? null,
+      audioBitrate: settings.audioBitrate ?? null,
+      pixelFormat: settings.pixelFormat,
+      outputLocation: outputPath,
+      inputProps,
+      cancelSignal,
+      onProgress: ({ progress, renderedFrames, encodedFrames, stitchStage }) => {
+        onProgress({
+          stage: renderedFrames < durationInFrames ? 'rendering' : stitchStage,
+          progress,
+          renderedFrames,
+          encodedFrames,
+          totalFrames: durationInFrames,
+        });
+      },
+      onDownload: (src) => {
+        console.log(`📥 Downloaded: ${src}`);
+      },
+      overwrite: true,
+      imageFormat: 'jpeg',
+      jpegQuality: 90,
+    });
+  } finally {
+    await release();
+  }
+};
+
+/**
+ * The shared render queue
+ */
+export function getRenderQueue(): RenderQueue {
+  globalForRender.renderQueue ??= createRenderQueue({
+    concurrency: RENDER_CONCURRENCY,
+    outputDir: getRendersDir(),
+    run: renderEditorState,
+  });
+  return globalForRender.renderQueue;
+}
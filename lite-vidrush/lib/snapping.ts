@@ -0,0 +1,133 @@
+/**
+ * Timeline snapping
+ * Pulls dragged edges and the playhead onto nearby points of interest:
+ * other items' edges, the playhead, the in/out marks, whole seconds and the
+ * time ruler's ticks. The reach is a fixed distance on screen, so it covers
+ * fewer frames as the timeline zooms in.
+ */
+
+import { EditorState } from './types';
+
+export const SNAP_DISTANCE = 8; // Pixels
+
+// Whole seconds only attract when they are this far apart on screen,
+// otherwise every frame would be near one
+const MIN_GRID_SPACING = SNAP_DISTANCE * 3; // Pixels
+
+export type SnapKind = 'edge' | 'playhead' | 'mark' | 'second' | 'tick';
+
+export interface SnapPoint {
+  frame: number;
+  kind: SnapKind;
+}
+
+export interface SnapContext {
+  points: SnapPoint[]; // Edges, playhead and marks
+  grids: { interval: number; kind: SnapKind }[]; // Repeating points, in frames
+  threshold: number; // Reach in frames
+}
+
+export interface SnapResult {
+  frame: number; // Snapped frame (of the edge that was tested)
+  delta: number; // How far the edge moved to snap
+  point: SnapPoint; // Where it snapped; draw the guide here
+}
+
+/**
+ * Frames between the time ruler's ticks at a zoom level
+ */
+export function getRulerInterval(zoom: number, frameRate: number): number {
+  return Math.max(1, Math.floor(30 / zoom)) * frameRate;
+}
+
+/**
+ * Snap reach in frames at a timeline scale
+ */
+export function getSnapThreshold(pixelsPerFrame: number): number {
+  return SNAP_DISTANCE / pixelsPerFrame;
+}
+
+/**
+ * Points an edge can snap to
+ * Pass the items being dragged in excludeIds so they don't snap to themselves,
+ * and includePlayhead: false when the playhead itself is being moved.
+ */
+export function createSnapContext(
+  state: Pick<EditorState, 'media' | 'texts' | 'playhead' | 'markIn' | 'markOut' | 'frameRate' | 'zoom'>,
+  { pixelsPerFrame, excludeIds = [], includePlayhead = true }: {
+    pixelsPerFrame: number;
+    excludeIds?: string[];
+    includePlayhead?: boolean;
+  }
+): SnapContext {
+  const points: SnapPoint[] = [];
+  for (const item of [...state.media, ...state.texts]) {
+    if (excludeIds.includes(item.id)) continue;
+    points.push({ frame: item.startFrame, kind: 'edge' }, { frame: item.endFrame, kind: 'edge' });
+  }
+  if (includePlayhead) points.push({ frame: state.playhead, kind: 'playhead' });
+  if (state.markIn !== undefined) points.push({ frame: state.markIn, kind: 'mark' });
+  if (state.markOut !== undefined) points.push({ frame: state.markOut, kind: 'mark' });
+
+  const grids: SnapContext['grids'] = [{ interval: getRulerInterval(state.zoom, state.frameRate), kind: 'tick' }];
+  if (state.frameRate * pixelsPerFrame >= MIN_GRID_SPACING) {
+    grids.push({ interval: state.frameRate, kind: 'second' });
+  }
+
+  return { points, grids, threshold: getSnapThreshold(pixelsPerFrame) };
+}
+
+/**
+ * Snap a single frame (a trim edge, a cut or the playhead), or null when
+ * nothing is within reach. Edges, the playhead and marks win over the grid.
+ */
+export function snapFrame(context: SnapContext, frame: number): SnapResult | null {
+  let best: SnapPoint | null = null;
+  for (const point of context.points) {
+    const distance = Math.abs(point.frame - frame);
+    if (distance <= context.threshold && (!best || distance < Math.abs(best.frame - frame))) {
+      best = point;
+    }
+  }
+
+  if (!best) {
+    for (const grid of context.grids) {
+      const nearest = Math.round(frame / grid.interval) * grid.interval;
+      const distance = Math.abs(nearest - frame);
+      if (distance <= context.threshold && (!best || distance < Math.abs(best.frame - frame))) {
+        best = { frame: nearest, kind: grid.kind };
+      }
+    }
+  }
+
+  return best ? { frame: best.frame, delta: best.frame - frame, point: best } : null;
+}
+
+/**
+ * Snap a moved item by whichever of its edges is closer to a snap point
+ * Returns the snapped start frame and where it snapped, or null.
+ */
+export function snapRange(
+  context: SnapContext,
+  startFrame: number,
+  length: number
+): { startFrame: number; point: SnapPoint } | null {
+  const start = snapFrame(context, startFrame);
+  const end = snapFrame(context, startFrame + length);
+
+  // Object snaps beat grid snaps, then the shorter move wins
+  const rank = (result: SnapResult) => [isGrid(result.point) ? 1 : 0, Math.abs(result.delta)];
+  const candidates = [start, end].filter((result): result is SnapResult => result !== null);
+  if (candidates.length === 0) return null;
+
+  const best = candidates.reduce((a, b) => {
+    const [gridA, deltaA] = rank(a);
+    const [gridB, deltaB] = rank(b);
+    return gridB < gridA || (gridB === gridA && deltaB < deltaA) ? b : a;
+  });
+  return { startFrame: startFrame + best.delta, point: best.point };
+}
+
+function isGrid(point: SnapPoint): boolean {
+  return point.kind === 'second' || point.kind === 'tick';
+}
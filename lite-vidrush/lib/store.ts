@@ -6,48 +6,161 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { subscribeWithSelector } from 'zustand/middleware';
+import { applyPatches, Draft, produceWithPatches } from 'immer';
 import {
   EditorState,
+  Canvas,
   Clip,
+  CopiedItems,
   TextOverlay,
+  Track,
+  TrackKind,
+  AnimatableProperty,
+  Keyframe,
+  KeyframeEasing,
   DEFAULT_EDITOR_STATE,
   DEFAULT_TEXT_STYLE,
 } from './types';
 import {
+  NewClip,
+  NewTextOverlay,
+  SelectionMode,
+  TransitionOptions,
   addClip,
   addTextOverlay,
+  addTrack,
+  removeTrack,
+  reorderTracks,
+  updateTrack,
+  moveItemToTrack,
+  addKeyframe,
+  moveKeyframe,
+  updateKeyframe,
+  removeKeyframe,
+  setAnimatedProperty,
+  setAnimatedProperties,
+  addTransition,
+  updateTransition,
+  removeTransition,
   removeItem,
+  removeItems,
   trimClip,
+  slipClip,
+  setClipTrim,
+  setClipFades,
+  setClipPan,
+  rippleDelete,
+  rippleDeleteItems,
+  rippleTrim,
+  rollEdit,
+  slideEdit,
+  splitItem,
+  splitItems,
+  splitAllAtFrame,
+  setCanvas,
   trimTextOverlay,
   reorderClips,
   setPlayhead,
   togglePlayback,
+  shuttle,
+  setMarkIn,
+  setMarkOut,
+  clearMarks,
+  nudgeItem,
+  moveItems,
+  duplicateItems,
+  duplicateItemsInPlace,
+  pasteItems,
   setZoom,
   selectItem,
+  selectItems,
+  selectAll,
+  selectForward,
+  getSelectedItems,
   calculateTimelineDuration,
   autoAdjustTimelineDuration,
   fitTimelineToContent,
   getMinimumTimelineDuration,
   getOptimalTimelineDuration,
+  isItemLocked,
 } from './timelineOps';
+import {
+  HistoryState,
+  EMPTY_HISTORY,
+  createHistoryEntry,
+  recordHistoryEntry,
+  beginTransaction,
+  endTransaction,
+  takeUndo,
+  takeRedo,
+} from './history';
+import { ProjectFile, applyProjectFile } from './project';
 
 interface EditorStore extends EditorState {
+  // Undo/redo history (not part of the document)
+  history: HistoryState;
+
   // Actions
-  addClip: (clip: Omit<Clip, 'id' | 'order'>) => void;
-  addTextOverlay: (text: Omit<TextOverlay, 'id'>) => void;
+  addClip: (clip: NewClip) => void;
+  addTextOverlay: (text: NewTextOverlay) => void;
   removeItem: (id: string) => void;
+  removeItems: (ids: string[]) => void;
   trimClip: (clipId: string, startFrame: number, endFrame: number) => void;
+  slipClip: (clipId: string, trimStart: number) => void;
+  setClipTrim: (clipId: string, trimStart: number, trimEnd: number) => void;
+  rippleDelete: (id: string) => void;
+  rippleDeleteItems: (ids: string[]) => void;
+  rippleTrim: (id: string, edge: 'start' | 'end', frame: number) => void;
+  rollEdit: (fromClipId: string, toClipId: string, cutFrame: number) => void;
+  slideEdit: (clipId: string, startFrame: number) => void;
+  nudgeItem: (id: string, delta: number) => void;
+  moveItems: (ids: string[], delta: number) => void;
+  nudgeItems: (ids: string[], delta: number) => void;
+  duplicateItems: (ids: string[]) => void;
+  duplicateItemsInPlace: (ids: string[]) => void;
+  cutItems: (ids: string[]) => void;
+  pasteItems: (copied: CopiedItems, frame: number) => void;
+  splitItem: (id: string, frame: number) => void;
+  splitItems: (ids: string[], frame: number) => void;
+  splitAllAtFrame: (frame: number) => void;
   trimTextOverlay: (textId: string, startFrame: number, endFrame: number) => void;
   reorderClips: (fromIndex: number, toIndex: number) => void;
+  addTrack: (kind: TrackKind, name?: string) => void;
+  removeTrack: (trackId: string) => void;
+  reorderTracks: (fromIndex: number, toIndex: number) => void;
+  updateTrack: (trackId: string, updates: Partial<Omit<Track, 'id' | 'kind' | 'order'>>) => void;
+  moveItemToTrack: (id: string, trackId: string) => void;
+  addKeyframe: (id: string, property: AnimatableProperty, frame: number, value?: number, easing?: KeyframeEasing) => void;
+  moveKeyframe: (id: string, property: AnimatableProperty, keyframeId: string, frame: number) => void;
+  updateKeyframe: (
+    id: string,
+    property: AnimatableProperty,
+    keyframeId: string,
+    updates: Partial<Pick<Keyframe, 'value' | 'easing' | 'bezier'>>
+  ) => void;
+  removeKeyframe: (id: string, property: AnimatableProperty, keyframeId: string) => void;
+  setAnimatedProperty: (id: string, property: AnimatableProperty, value: number, frame: number) => void;
+  setAnimatedProperties: (ids: string[], property: AnimatableProperty, value: number, frame: number) => void;
+  addTransition: (fromClipId: string, toClipId: string, options?: TransitionOptions) => void;
+  updateTransition: (id: string, updates: TransitionOptions) => void;
+  removeTransition: (id: string) => void;
   setPlayhead: (frame: number) => void;
   seekTo: (frame: number) => void;
   togglePlayback: () => void;
+  shuttle: (direction: -1 | 0 | 1) => void;
+  setMarkIn: (frame: number) => void;
+  setMarkOut: (frame: number) => void;
+  clearMarks: () => void;
   setZoom: (zoom: number) => void;
   selectItem: (id: string | null) => void;
+  selectItems: (ids: string[], mode?: SelectionMode) => void;
+  selectAll: () => void;
+  selectForward: (frame: number) => void;
   updateClip: (id: string, updates: Partial<Clip>) => void;
   updateTextOverlay: (id: string, updates: Partial<TextOverlay>) => void;
   setDuration: (duration: number) => void;
   setFrameRate: (frameRate: number) => void;
+  setCanvas: (changes: Partial<Canvas>) => void;
   extendTimeline: (additionalSeconds: number) => void;
   shrinkTimeline: (secondsToRemove: number) => void;
   fitTimelineToContent: () => void;
@@ -55,11 +168,21 @@ interface EditorStore extends EditorState {
   setMasterVolume: (volume: number) => void;
   toggleMute: () => void;
   setClipVolume: (clipId: string, volume: number) => void;
+  setClipFades: (clipId: string, fadeIn: number, fadeOut: number) => void;
+  setClipPan: (clipId: string, pan: number) => void;
   toggleClipMute: (clipId: string) => void;
   resetState: () => void;
+  loadProject: (file: ProjectFile) => void;
+
+  // History
+  undo: () => void;
+  redo: () => void;
+  beginTransaction: (label: string) => void;
+  endTransaction: () => void;
   
   // Computed values
   getSelectedItem: () => Clip | TextOverlay | null;
+  getSelectedItems: () => (Clip | TextOverlay)[];
   getTimelineDuration: () => number;
   
   // Playback control
@@ -70,250 +193,581 @@ interface EditorStore extends EditorState {
 
 export const useEditorStore = create<EditorStore>()(
   subscribeWithSelector(
-    immer((set, get) => ({
-      ...DEFAULT_EDITOR_STATE,
-
-      // Timeline operations
-      addClip: (clip) => {
-        set((state) => {
-          let newState = addClip(state, clip);
-          // Auto-adjust timeline duration to fit new content
-          newState = autoAdjustTimelineDuration(newState);
-          Object.assign(state, newState);
-        });
-      },
-
-      addTextOverlay: (text) => {
-        set((state) => {
-          // Use default style merged with provided style
-          const textWithDefaults = {
-            ...text,
-            style: { ...DEFAULT_TEXT_STYLE, ...text.style },
-          };
-          let newState = addTextOverlay(state, textWithDefaults);
-          // Auto-adjust timeline duration to fit new content
-          newState = autoAdjustTimelineDuration(newState);
-          Object.assign(state, newState);
-        });
-      },
-
-      removeItem: (id) => {
-        set((state) => {
-          const newState = removeItem(state, id);
-          // Note: Don't auto-shrink timeline when removing items to avoid unexpected behavior
-          // User can manually use "Fit to Content" if desired
-          Object.assign(state, newState);
-        });
-      },
-
-      trimClip: (clipId, startFrame, endFrame) => {
-        set((state) => {
-          let newState = trimClip(state, clipId, startFrame, endFrame);
-          // Auto-extend timeline if clip was trimmed to extend beyond current duration
-          const maxFrame = Math.max(startFrame, endFrame);
-          if (maxFrame > state.duration) {
+    immer((set, get) => {
+      // Apply a document change and record it as one undoable entry
+      const commit = (label: string, recipe: (state: Draft<EditorStore>) => void) => {
+        const [nextState, patches, inversePatches] = produceWithPatches(get(), recipe);
+        if (patches.length === 0) return;
+
+        const entry = createHistoryEntry(label, patches, inversePatches);
+        set({ ...nextState, history: recordHistoryEntry(nextState.history, entry) });
+      };
+
+      return {
+        ...DEFAULT_EDITOR_STATE,
+        history: EMPTY_HISTORY,
+
+        // Timeline operations
+        addClip: (clip) => {
+          commit('Add clip', (state) => {
+            let newState = addClip(state, clip);
+            // Auto-adjust timeline duration to fit new content
             newState = autoAdjustTimelineDuration(newState);
-          }
-          Object.assign(state, newState);
-        });
-      },
-
-      trimTextOverlay: (textId, startFrame, endFrame) => {
-        set((state) => {
-          let newState = trimTextOverlay(state, textId, startFrame, endFrame);
-          // Auto-extend timeline if text was trimmed to extend beyond current duration
-          const maxFrame = Math.max(startFrame, endFrame);
-          if (maxFrame > state.duration) {
+            Object.assign(state, newState);
+          });
+        },
+
+        addTextOverlay: (text) => {
+          commit('Add text', (state) => {
+            // Use default style merged with provided style
+            const textWithDefaults = {
+              ...text,
+              style: { ...DEFAULT_TEXT_STYLE, ...text.style },
+            };
+            let newState = addTextOverlay(state, textWithDefaults);
+            // Auto-adjust timeline duration to fit new content
             newState = autoAdjustTimelineDuration(newState);
-          }
-          Object.assign(state, newState);
-        });
-      },
-
-      reorderClips: (fromIndex, toIndex) => {
-        set((state) => {
-          const newState = reorderClips(state, fromIndex, toIndex);
-          Object.assign(state, newState);
-        });
-      },
-
-      setPlayhead: (frame) => {
-        set((state) => {
-          state.playhead = Math.max(0, Math.min(frame, state.duration));
-          // Don't stop playback when setting playhead programmatically
-        });
-      },
-
-      // Manual seek (stops playback)
-      seekTo: (frame: number) => {
-        set((state) => {
-          state.playhead = Math.max(0, Math.min(frame, state.duration));
-          state.isPlaying = false; // Stop playback when manually seeking
-        });
-      },
-
-      togglePlayback: () => {
-        set((state) => {
-          const newState = togglePlayback(state);
-          Object.assign(state, newState);
-        });
-      },
-
-      setZoom: (zoom) => {
-        set((state) => {
-          const newState = setZoom(state, zoom);
-          Object.assign(state, newState);
-        });
-      },
-
-      selectItem: (id) => {
-        set((state) => {
-          const newState = selectItem(state, id);
-          Object.assign(state, newState);
-        });
-      },
-
-      updateClip: (id, updates) => {
-        set((state) => {
-          state.media = state.media.map((clip) =>
-            clip.id === id ? { ...clip, ...updates } : clip
-          );
-          // Auto-adjust timeline if clip was moved/extended beyond current duration
-          if (updates.endFrame && updates.endFrame > state.duration) {
-            const newState = autoAdjustTimelineDuration(state);
             Object.assign(state, newState);
-          }
-        });
-      },
-
-      updateTextOverlay: (id, updates) => {
-        set((state) => {
-          state.texts = state.texts.map((text) =>
-            text.id === id ? { ...text, ...updates } : text
-          );
-          // Auto-adjust timeline if text was moved/extended beyond current duration
-          if (updates.endFrame && updates.endFrame > state.duration) {
+          });
+        },
+
+        removeItem: (id) => {
+          commit('Delete item', (state) => {
+            const newState = removeItem(state, id);
+            // Note: Don't auto-shrink timeline when removing items to avoid unexpected behavior
+            // User can manually use "Fit to Content" if desired
+            Object.assign(state, newState);
+          });
+        },
+
+        removeItems: (ids) => {
+          commit('Delete items', (state) => {
+            Object.assign(state, removeItems(state, ids));
+          });
+        },
+
+        trimClip: (clipId, startFrame, endFrame) => {
+          commit('Trim clip', (state) => {
+            let newState = trimClip(state, clipId, startFrame, endFrame);
+            // Auto-extend timeline if clip was trimmed to extend beyond current duration
+            const maxFrame = Math.max(startFrame, endFrame);
+            if (maxFrame > state.duration) {
+              newState = autoAdjustTimelineDuration(newState);
+            }
+            Object.assign(state, newState);
+          });
+        },
+
+        slipClip: (clipId, trimStart) => {
+          commit('Slip clip', (state) => {
+            Object.assign(state, slipClip(state, clipId, trimStart));
+          });
+        },
+
+        setClipTrim: (clipId, trimStart, trimEnd) => {
+          commit('Trim clip', (state) => {
+            let newState = setClipTrim(state, clipId, trimStart, trimEnd);
+            newState = autoAdjustTimelineDuration(newState);
+            Object.assign(state, newState);
+          });
+        },
+
+        rippleDelete: (id) => {
+          commit('Ripple delete', (state) => {
+            Object.assign(state, rippleDelete(state, id));
+          });
+        },
+
+        rippleDeleteItems: (ids) => {
+          commit('Ripple delete', (state) => {
+            Object.assign(state, rippleDeleteItems(state, ids));
+          });
+        },
+
+        rippleTrim: (id, edge, frame) => {
+          commit('Ripple trim', (state) => {
+            Object.assign(state, autoAdjustTimelineDuration(rippleTrim(state, id, edge, frame)));
+          });
+        },
+
+        rollEdit: (fromClipId, toClipId, cutFrame) => {
+          commit('Roll edit', (state) => {
+            Object.assign(state, rollEdit(state, fromClipId, toClipId, cutFrame));
+          });
+        },
+
+        slideEdit: (clipId, startFrame) => {
+          commit('Slide clip', (state) => {
+            Object.assign(state, slideEdit(state, clipId, startFrame));
+          });
+        },
+
+        nudgeItem: (id, delta) => {
+          commit('Nudge item', (state) => {
+            Object.assign(state, autoAdjustTimelineDuration(nudgeItem(state, id, delta)));
+          });
+        },
+
+        moveItems: (ids, delta) => {
+          commit('Move items', (state) => {
+            Object.assign(state, autoAdjustTimelineDuration(moveItems(state, ids, delta)));
+          });
+        },
+
+        nudgeItems: (ids, delta) => {
+          commit('Nudge items', (state) => {
+            Object.assign(state, autoAdjustTimelineDuration(moveItems(state, ids, delta)));
+          });
+        },
+
+        duplicateItems: (ids) => {
+          commit('Duplicate items', (state) => {
+            Object.assign(state, autoAdjustTimelineDuration(duplicateItems(state, ids)));
+          });
+        },
+
+        duplicateItemsInPlace: (ids) => {
+          commit('Duplicate in place', (state) => {
+            Object.assign(state, duplicateItemsInPlace(state, ids));
+          });
+        },
+
+        // Removes the items; copying them is up to the caller (see lib/clipboard.ts)
+        cutItems: (ids) => {
+          commit('Cut', (state) => {
+            Object.assign(state, removeItems(state, ids));
+          });
+        },
+
+        pasteItems: (copied, frame) => {
+          commit('Paste', (state) => {
+            Object.assign(state, autoAdjustTimelineDuration(pasteItems(state, copied, frame)));
+          });
+        },
+
+        splitItem: (id, frame) => {
+          commit('Split item', (state) => {
+            Object.assign(state, splitItem(state, id, frame));
+          });
+        },
+
+        splitItems: (ids, frame) => {
+          commit('Split items', (state) => {
+            Object.assign(state, splitItems(state, ids, frame));
+          });
+        },
+
+        splitAllAtFrame: (frame) => {
+          commit('Split at playhead', (state) => {
+            Object.assign(state, splitAllAtFrame(state, frame));
+          });
+        },
+
+        trimTextOverlay: (textId, startFrame, endFrame) => {
+          commit('Trim text', (state) => {
+            let newState = trimTextOverlay(state, textId, startFrame, endFrame);
+            // Auto-extend timeline if text was trimmed to extend beyond current duration
+            const maxFrame = Math.max(startFrame, endFrame);
+            if (maxFrame > state.duration) {
+              newState = autoAdjustTimelineDuration(newState);
+            }
+            Object.assign(state, newState);
+          });
+        },
+
+        reorderClips: (fromIndex, toIndex) => {
+          commit('Reorder clips', (state) => {
+            const newState = reorderClips(state, fromIndex, toIndex);
+            Object.assign(state, newState);
+          });
+        },
+
+        // Track operations
+        addTrack: (kind, name) => {
+          commit('Add track', (state) => {
+            Object.assign(state, addTrack(state, kind, name));
+          });
+        },
+
+        removeTrack: (trackId) => {
+          commit('Delete track', (state) => {
+            Object.assign(state, removeTrack(state, trackId));
+          });
+        },
+
+        reorderTracks: (fromIndex, toIndex) => {
+          commit('Reorder tracks', (state) => {
+            Object.assign(state, reorderTracks(state, fromIndex, toIndex));
+          });
+        },
+
+        updateTrack: (trackId, updates) => {
+          commit('Edit track', (state) => {
+            Object.assign(state, updateTrack(state, trackId, updates));
+          });
+        },
+
+        moveItemToTrack: (id, trackId) => {
+          commit('Move to track', (state) => {
+            Object.assign(state, moveItemToTrack(state, id, trackId));
+          });
+        },
+
+        // Keyframe operations (frames are relative to the item's start)
+        addKeyframe: (id, property, frame, value, easing) => {
+          commit('Add keyframe', (state) => {
+            Object.assign(state, addKeyframe(state, id, property, frame, value, easing));
+          });
+        },
+
+        moveKeyframe: (id, property, keyframeId, frame) => {
+          commit('Move keyframe', (state) => {
+            Object.assign(state, moveKeyframe(state, id, property, keyframeId, frame));
+          });
+        },
+
+        updateKeyframe: (id, property, keyframeId, updates) => {
+          commit('Edit keyframe', (state) => {
+            Object.assign(state, updateKeyframe(state, id, property, keyframeId, updates));
+          });
+        },
+
+        removeKeyframe: (id, property, keyframeId) => {
+          commit('Delete keyframe', (state) => {
+            Object.assign(state, removeKeyframe(state, id, property, keyframeId));
+          });
+        },
+
+        setAnimatedProperty: (id, property, value, frame) => {
+          commit('Change property', (state) => {
+            Object.assign(state, setAnimatedProperty(state, id, property, value, frame));
+          });
+        },
+
+        setAnimatedProperties: (ids, property, value, frame) => {
+          commit('Change property', (state) => {
+            Object.assign(state, setAnimatedProperties(state, ids, property, value, frame));
+          });
+        },
+
+        // Transition operations
+        addTransition: (fromClipId, toClipId, options) => {
+          commit('Add transition', (state) => {
+            Object.assign(state, addTransition(state, fromClipId, toClipId, options));
+          });
+        },
+
+        updateTransition: (id, updates) => {
+          commit('Edit transition', (state) => {
+            Object.assign(state, updateTransition(state, id, updates));
+          });
+        },
+
+        removeTransition: (id) => {
+          commit('Delete transition', (state) => {
+            Object.assign(state, removeTransition(state, id));
+          });
+        },
+
+        setPlayhead: (frame) => {
+          set((state) => {
+            state.playhead = Math.max(0, Math.min(frame, state.duration));
+            // Don't stop playback when setting playhead programmatically
+          });
+        },
+
+        // Manual seek (stops playback)
+        seekTo: (frame: number) => {
+          set((state) => {
+            state.playhead = Math.max(0, Math.min(frame, state.duration));
+            state.isPlaying = false; // Stop playback when manually seeking
+          });
+        },
+
+        togglePlayback: () => {
+          set((state) => {
+            const newState = togglePlayback(state);
+            Object.assign(state, newState);
+          });
+        },
+
+        shuttle: (direction) => {
+          set((state) => {
+            Object.assign(state, shuttle(state, direction));
+          });
+        },
+
+        setMarkIn: (frame) => {
+          set((state) => {
+            Object.assign(state, setMarkIn(state, frame));
+          });
+        },
+
+        setMarkOut: (frame) => {
+          set((state) => {
+            Object.assign(state, setMarkOut(state, frame));
+          });
+        },
+
+        clearMarks: () => {
+          set((state) => {
+            Object.assign(state, clearMarks(state));
+          });
+        },
+
+        setZoom: (zoom) => {
+          set((state) => {
+            const newState = setZoom(state, zoom);
+            Object.assign(state, newState);
+          });
+        },
+
+        selectItem: (id) => {
+          set((state) => {
+            const newState = selectItem(state, id);
+            Object.assign(state, newState);
+          });
+        },
+
+        selectItems: (ids, mode) => {
+          set((state) => {
+            Object.assign(state, selectItems(state, ids, mode));
+          });
+        },
+
+        selectAll: () => {
+          set((state) => {
+            Object.assign(state, selectAll(state));
+          });
+        },
+
+        selectForward: (frame) => {
+          set((state) => {
+            Object.assign(state, selectForward(state, frame));
+          });
+        },
+
+        // Items on locked tracks are left alone, as in every timeline operation
+        updateClip: (id, updates) => {
+          if (isItemLocked(get(), id)) return;
+          commit('Edit clip', (state) => {
+            state.media = state.media.map((clip) =>
+              clip.id === id ? { ...clip, ...updates } : clip
+            );
+            // Auto-adjust timeline if clip was moved/extended beyond current duration
+            if (updates.endFrame && updates.endFrame > state.duration) {
+              const newState = autoAdjustTimelineDuration(state);
+              Object.assign(state, newState);
+            }
+          });
+        },
+
+        updateTextOverlay: (id, updates) => {
+          if (isItemLocked(get(), id)) return;
+          commit('Edit text', (state) => {
+            state.texts = state.texts.map((text) =>
+              text.id === id ? { ...text, ...updates } : text
+            );
+            // Auto-adjust timeline if text was moved/extended beyond current duration
+            if (updates.endFrame && updates.endFrame > state.duration) {
+              const newState = autoAdjustTimelineDuration(state);
+              Object.assign(state, newState);
+            }
+          });
+        },
+
+        setDuration: (duration) => {
+          commit('Set duration', (state) => {
+            state.duration = Math.max(0, duration);
+          });
+        },
+
+        setFrameRate: (frameRate) => {
+          commit('Set frame rate', (state) => {
+            state.frameRate = Math.max(1, frameRate);
+          });
+        },
+
+        setCanvas: (changes) => {
+          commit('Change canvas', (state) => {
+            Object.assign(state, setCanvas(state, changes));
+          });
+        },
+
+        extendTimeline: (additionalSeconds) => {
+          commit('Extend timeline', (state) => {
+            const additionalFrames = additionalSeconds * state.frameRate;
+            state.duration = state.duration + additionalFrames;
+          });
+        },
+
+        shrinkTimeline: (secondsToRemove) => {
+          commit('Shrink timeline', (state) => {
+            const framesToRemove = secondsToRemove * state.frameRate;
+            const minDuration = getMinimumTimelineDuration(state);
+            const newDuration = Math.max(state.duration - framesToRemove, minDuration);
+            state.duration = newDuration;
+          });
+        },
+
+        fitTimelineToContent: () => {
+          commit('Fit timeline', (state) => {
+            const newState = fitTimelineToContent(state);
+            Object.assign(state, newState);
+          });
+        },
+
+        autoAdjustTimeline: () => {
+          commit('Adjust timeline', (state) => {
             const newState = autoAdjustTimelineDuration(state);
             Object.assign(state, newState);
-          }
-        });
-      },
-
-      setDuration: (duration) => {
-        set((state) => {
-          state.duration = Math.max(0, duration);
-        });
-      },
-
-      setFrameRate: (frameRate) => {
-        set((state) => {
-          state.frameRate = Math.max(1, frameRate);
-        });
-      },
-
-      extendTimeline: (additionalSeconds) => {
-        set((state) => {
-          const additionalFrames = additionalSeconds * state.frameRate;
-          state.duration = state.duration + additionalFrames;
-        });
-      },
-
-      shrinkTimeline: (secondsToRemove) => {
-        set((state) => {
-          const framesToRemove = secondsToRemove * state.frameRate;
-          const minDuration = getMinimumTimelineDuration(state);
-          const newDuration = Math.max(state.duration - framesToRemove, minDuration);
-          state.duration = newDuration;
-        });
-      },
-
-      fitTimelineToContent: () => {
-        set((state) => {
-          const newState = fitTimelineToContent(state);
-          Object.assign(state, newState);
-        });
-      },
-
-      autoAdjustTimeline: () => {
-        set((state) => {
-          const newState = autoAdjustTimelineDuration(state);
-          Object.assign(state, newState);
-        });
-      },
-
-      setMasterVolume: (volume) => {
-        set((state) => {
-          state.masterVolume = Math.max(0, Math.min(1, volume));
-        });
-      },
-
-      toggleMute: () => {
-        set((state) => {
-          state.muted = !state.muted;
-        });
-      },
-
-      setClipVolume: (clipId, volume) => {
-        set((state) => {
-          const clip = state.media.find(c => c.id === clipId);
-          if (clip) {
-            clip.volume = Math.max(0, Math.min(1, volume));
-          }
-        });
-      },
-
-      toggleClipMute: (clipId) => {
-        set((state) => {
-          const clip = state.media.find(c => c.id === clipId);
-          if (clip) {
-            clip.muted = !clip.muted;
-          }
-        });
-      },
-
-      resetState: () => {
-        set(() => ({ ...DEFAULT_EDITOR_STATE }));
-      },
-
-      // Computed values
-      getSelectedItem: () => {
-        const state = get();
-        if (!state.selectedId) return null;
-        
-        const clip = state.media.find((c) => c.id === state.selectedId);
-        if (clip) return clip;
-        
-        const text = state.texts.find((t) => t.id === state.selectedId);
-        return text || null;
-      },
-
-      getTimelineDuration: () => {
-        return calculateTimelineDuration(get());
-      },
-
-      // Playback controls
-      play: () => {
-        set((state) => {
-          state.isPlaying = true;
-        });
-      },
-
-      pause: () => {
-        set((state) => {
-          state.isPlaying = false;
-        });
-      },
-
-      stop: () => {
-        set((state) => {
-          state.isPlaying = false;
-          state.playhead = 0;
-        });
-      },
-    }))
+          });
+        },
+
+        setMasterVolume: (volume) => {
+          commit('Set master volume', (state) => {
+            state.masterVolume = Math.max(0, Math.min(1, volume));
+          });
+        },
+
+        toggleMute: () => {
+          commit(get().muted ? 'Unmute' : 'Mute', (state) => {
+            state.muted = !state.muted;
+          });
+        },
+
+        setClipVolume: (clipId, volume) => {
+          commit('Set clip volume', (state) => {
+            const clip = state.media.find(c => c.id === clipId);
+            if (clip) {
+              clip.volume = Math.max(0, Math.min(1, volume));
+            }
+          });
+        },
+
+        setClipFades: (clipId, fadeIn, fadeOut) => {
+          commit('Set clip fades', (state) => {
+            Object.assign(state, setClipFades(state, clipId, fadeIn, fadeOut));
+          });
+        },
+
+        setClipPan: (clipId, pan) => {
+          commit('Set clip pan', (state) => {
+            Object.assign(state, setClipPan(state, clipId, pan));
+          });
+        },
+
+        toggleClipMute: (clipId) => {
+          commit('Toggle clip mute', (state) => {
+            const clip = state.media.find(c => c.id === clipId);
+            if (clip) {
+              clip.muted = !clip.muted;
+            }
+          });
+        },
+
+        resetState: () => {
+          // Marks are optional, so they must be cleared explicitly
+          set(() => ({ ...DEFAULT_EDITOR_STATE, markIn: undefined, markOut: undefined, history: EMPTY_HISTORY }));
+        },
+
+        // Replace the document with a loaded project; history starts fresh
+        loadProject: (file) => {
+          set((state) => {
+            Object.assign(state, applyProjectFile(state, file));
+            state.history = EMPTY_HISTORY;
+          });
+        },
+
+        // History
+        undo: () => {
+          const result = takeUndo(get().history);
+          if (!result) return;
+          set((state) => {
+            applyPatches(state, result.entry.inversePatches);
+            state.history = result.history;
+            pruneSelection(state);
+          });
+        },
+
+        redo: () => {
+          const result = takeRedo(get().history);
+          if (!result) return;
+          set((state) => {
+            applyPatches(state, result.entry.patches);
+            state.history = result.history;
+            pruneSelection(state);
+          });
+        },
+
+        beginTransaction: (label) => {
+          set((state) => {
+            state.history = beginTransaction(state.history, label);
+          });
+        },
+
+        endTransaction: () => {
+          set((state) => {
+            state.history = endTransaction(state.history);
+          });
+        },
+
+        // Computed values
+        // The primary selection: the item selected last
+        getSelectedItem: () => {
+          const state = get();
+          const selectedId = state.selectedIds[state.selectedIds.length - 1];
+          if (!selectedId) return null;
+          
+          const clip = state.media.find((c) => c.id === selectedId);
+          if (clip) return clip;
+          
+          const text = state.texts.find((t) => t.id === selectedId);
+          return text || null;
+        },
+
+        getSelectedItems: () => {
+          return getSelectedItems(get());
+        },
+
+        getTimelineDuration: () => {
+          return calculateTimelineDuration(get());
+        },
+
+        // Playback controls
+        play: () => {
+          set((state) => {
+            state.isPlaying = true;
+            state.playbackRate = 1;
+          });
+        },
+
+        pause: () => {
+          set((state) => {
+            state.isPlaying = false;
+          });
+        },
+
+        stop: () => {
+          set((state) => {
+            state.isPlaying = false;
+            state.playhead = 0;
+          });
+        },
+      };
+    })
   )
 );
 
+// Drop selected items that undo/redo removed
+function pruneSelection(state: Draft<EditorStore>) {
+  if (state.selectedIds.length === 0) return;
+  state.selectedIds = state.selectedIds.filter((id) =>
+    state.media.some((clip) => clip.id === id) ||
+    state.texts.some((text) => text.id === id)
+  );
+}
+
 // Selector hooks for optimized re-renders
 export const usePlayhead = () => useEditorStore((state) => state.playhead);
 export const useIsPlaying = () => useEditorStore((state) => state.isPlaying);
@@ -323,6 +777,13 @@ export const useTextOverlays = () => useEditorStore((state) => state.texts);
 export const useTimelineZoom = () => useEditorStore((state) => state.zoom);
 export const useFrameRate = () => useEditorStore((state) => state.frameRate);
 export const useDuration = () => useEditorStore((state) => state.duration);
+export const useCanUndo = () =>
+  useEditorStore((state) => state.history.past.length > 0 || (state.history.pending?.patches.length ?? 0) > 0);
+export const useCanRedo = () => useEditorStore((state) => state.history.future.length > 0);
+export const useUndoLabel = () =>
+  useEditorStore((state) => state.history.past[state.history.past.length - 1]?.label ?? null);
+export const useRedoLabel = () =>
+  useEditorStore((state) => state.history.future[state.history.future.length - 1]?.label ?? null);
 
 // Playback timing is now handled by the Remotion Player in Preview component
 // This prevents conflicts between our custom animation loop and Remotion's internal timing
@@ -343,6 +804,3 @@ useEditorStore.subscribe(
 );
 
 // TODO: Add persistence middleware to save state to localStorage
-// TODO: Add undo/redo functionality
-// TODO: Add keyboard shortcuts
-// TODO: Add project save/load functionality
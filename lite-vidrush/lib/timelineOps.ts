@@ -3,38 +3,151 @@
  * These functions handle clip manipulation, reordering, and timeline calculations
  */
 
-import { Clip, TextOverlay, EditorState, TimelineItem } from './types';
+import {
+  Canvas,
+  Clip,
+  CopiedItems,
+  TextOverlay,
+  EditorState,
+  TimelineItem,
+  Track,
+  TrackKind,
+  AnimatableProperty,
+  Keyframe,
+  KeyframeTracks,
+  KeyframeEasing,
+  Transition,
+} from './types';
+import { getAnimatableProperties, getAnimatedValue, isAnimated, setStaticValue, sortKeyframes } from './keyframes';
+import {
+  DEFAULT_TRANSITION_DURATION,
+  getMaxTransitionDuration,
+  getTransitionErrors,
+} from './transitions';
+
+// How a click or marquee changes the selection (see selectItems)
+export type SelectionMode = 'replace' | 'add' | 'toggle';
+
+export type TransitionOptions = Partial<Pick<Transition, 'type' | 'duration' | 'alignment' | 'direction' | 'color'>>;
+
+// New items may omit the track; they land on the top track of their kind.
+// Clips may also omit their end, in which case they are sized from the source.
+export type NewClip = Omit<Clip, 'id' | 'order' | 'trackId' | 'endFrame'> & { trackId?: string; endFrame?: number };
+export type NewTextOverlay = Omit<TextOverlay, 'id' | 'trackId'> & { trackId?: string };
+
+// Length of new clips whose source duration is unknown
+const DEFAULT_CLIP_SECONDS: Record<Clip['type'], number> = {
+  video: 10,
+  audio: 10,
+  image: 5,
+};
+
+const TRACK_NAMES: Record<TrackKind, string> = {
+  video: 'Video',
+  audio: 'Audio',
+  text: 'Text',
+};
+
+/**
+ * Get the track kind that can hold a clip type
+ */
+export function getTrackKindForClip(type: Clip['type']): TrackKind {
+  return type === 'audio' ? 'audio' : 'video';
+}
+
+/**
+ * Get tracks sorted by stacking order (top layer first)
+ */
+export function getTracksInOrder(state: Pick<EditorState, 'tracks'>): Track[] {
+  return [...state.tracks].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Find a track by ID
+ */
+export function getTrack(state: EditorState, trackId: string): Track | undefined {
+  return state.tracks.find(track => track.id === trackId);
+}
+
+/**
+ * Check whether the track holding an item is locked
+ */
+export function isItemLocked(state: EditorState, id: string): boolean {
+  const item = state.media.find(clip => clip.id === id) || state.texts.find(text => text.id === id);
+  return item ? getTrack(state, item.trackId)?.locked === true : false;
+}
+
+/**
+ * Make sure a track of the given kind exists, creating one if needed
+ * Returns the state and the ID of the top-most track of that kind
+ */
+function ensureTrack(state: EditorState, kind: TrackKind, trackId?: string): { state: EditorState; trackId: string } {
+  if (trackId) {
+    const track = getTrack(state, trackId);
+    if (track && track.kind === kind) {
+      return { state, trackId };
+    }
+  }
+
+  const existing = getTracksInOrder(state).find(track => track.kind === kind);
+  if (existing) {
+    return { state, trackId: existing.id };
+  }
+
+  const newState = addTrack(state, kind);
+  return { state: newState, trackId: newState.tracks[newState.tracks.length - 1].id };
+}
 
 /**
  * Add a new clip to the timeline
+ * Without an end frame the clip spans its whole source (or a default length)
  */
-export function addClip(state: EditorState, clip: Omit<Clip, 'id' | 'order'>): EditorState {
+export function addClip(state: EditorState, clip: NewClip): EditorState {
+  const { state: baseState, trackId } = ensureTrack(state, getTrackKindForClip(clip.type), clip.trackId);
+  const trimStart = clip.trimStart ?? 0;
+  const available = clip.sourceDuration !== undefined ? Math.max(1, clip.sourceDuration - trimStart) : Infinity;
+  const defaultLength = available !== Infinity
+    ? available
+    : Math.round(DEFAULT_CLIP_SECONDS[clip.type] * state.frameRate);
+  const length = Math.min(
+    available,
+    clip.endFrame !== undefined ? Math.max(1, clip.endFrame - clip.startFrame) : defaultLength
+  );
+
   const newClip: Clip = {
     ...clip,
+    endFrame: clip.startFrame + length,
     id: generateId(),
-    order: state.media.length,
+    trackId,
+    order: baseState.media.length,
   };
+  if (clip.sourceDuration !== undefined) {
+    newClip.trimStart = trimStart;
+    newClip.trimEnd = Math.max(0, clip.sourceDuration - trimStart - length);
+  }
 
   return {
-    ...state,
-    media: [...state.media, newClip],
-    selectedId: newClip.id,
+    ...baseState,
+    media: [...baseState.media, newClip],
+    selectedIds: [newClip.id],
   };
 }
 
 /**
  * Add a new text overlay to the timeline
  */
-export function addTextOverlay(state: EditorState, text: Omit<TextOverlay, 'id'>): EditorState {
+export function addTextOverlay(state: EditorState, text: NewTextOverlay): EditorState {
+  const { state: baseState, trackId } = ensureTrack(state, 'text', text.trackId);
   const newText: TextOverlay = {
     ...text,
     id: generateId(),
+    trackId,
   };
 
   return {
-    ...state,
-    texts: [...state.texts, newText],
-    selectedId: newText.id,
+    ...baseState,
+    texts: [...baseState.texts, newText],
+    selectedIds: [newText.id],
   };
 }
 
@@ -42,11 +155,14 @@ export function addTextOverlay(state: EditorState, text: Omit<TextOverlay, 'id'>
  * Remove a clip or text overlay by ID
  */
 export function removeItem(state: EditorState, id: string): EditorState {
+  if (isItemLocked(state, id)) return state;
+
   const newState = {
     ...state,
     media: state.media.filter(clip => clip.id !== id),
     texts: state.texts.filter(text => text.id !== id),
-    selectedId: state.selectedId === id ? null : state.selectedId,
+    transitions: state.transitions.filter(t => t.fromClipId !== id && t.toClipId !== id),
+    selectedIds: state.selectedIds.filter(selectedId => selectedId !== id),
   };
 
   // Reorder remaining clips
@@ -58,8 +174,18 @@ export function removeItem(state: EditorState, id: string): EditorState {
   return newState;
 }
 
+/**
+ * Remove several items at once; items on locked tracks are kept
+ */
+export function removeItems(state: EditorState, ids: string[]): EditorState {
+  return ids.reduce((current, id) => removeItem(current, id), state);
+}
+
 /**
  * Trim a clip's duration
+ * Moving the left edge advances the source in-point by the same amount, so the
+ * source frame at the cut stays put. Clips with a known source duration cannot
+ * be extended past either end of the media.
  */
 export function trimClip(
   state: EditorState,
@@ -67,20 +193,143 @@ export function trimClip(
   newStartFrame: number,
   newEndFrame: number
 ): EditorState {
+  if (isItemLocked(state, clipId)) return state;
+
   return {
     ...state,
-    media: state.media.map(clip =>
-      clip.id === clipId
-        ? {
-            ...clip,
-            startFrame: Math.max(0, newStartFrame),
-            endFrame: Math.max(newStartFrame + 1, newEndFrame),
-          }
-        : clip
+    media: state.media.map(clip => {
+      if (clip.id !== clipId) return clip;
+
+      let startFrame = Math.max(0, newStartFrame);
+      if (clip.type === 'image') {
+        return { ...clip, startFrame, endFrame: Math.max(startFrame + 1, newEndFrame) };
+      }
+
+      const source = clip.sourceDuration;
+      const oldTrimStart = clip.trimStart ?? 0;
+      if (source !== undefined) {
+        // No source frames exist before the start of the media
+        startFrame = Math.max(startFrame, clip.startFrame - oldTrimStart);
+      }
+
+      let trimStart = Math.max(0, oldTrimStart + startFrame - clip.startFrame);
+      if (source !== undefined) trimStart = Math.min(trimStart, source - 1);
+
+      let endFrame = Math.max(startFrame + 1, newEndFrame);
+      if (source !== undefined) {
+        endFrame = Math.min(endFrame, startFrame + source - trimStart);
+      }
+
+      return {
+        ...clip,
+        startFrame,
+        endFrame,
+        trimStart,
+        trimEnd: getTrimEnd(clip, trimStart, endFrame - startFrame),
+      };
+    }),
+  };
+}
+
+// Source frames left after a clip once its in-point and length change
+function getTrimEnd(clip: Clip, trimStart: number, length: number): number | undefined {
+  if (clip.sourceDuration !== undefined) {
+    return Math.max(0, clip.sourceDuration - trimStart - length);
+  }
+  if (clip.trimEnd === undefined) return undefined;
+
+  // Unknown source length: shift the out-point by however far it moved
+  const oldOut = (clip.trimStart ?? 0) + clip.endFrame - clip.startFrame;
+  return Math.max(0, clip.trimEnd - (trimStart + length - oldOut));
+}
+
+/**
+ * Slip a clip: change which part of the source plays without moving or
+ * resizing the clip on the timeline
+ */
+export function slipClip(state: EditorState, clipId: string, newTrimStart: number): EditorState {
+  const clip = state.media.find(c => c.id === clipId);
+  if (!clip || clip.type === 'image' || isItemLocked(state, clipId)) return state;
+
+  const length = clip.endFrame - clip.startFrame;
+  let trimStart = Math.max(0, Math.round(newTrimStart));
+  if (clip.sourceDuration !== undefined) {
+    trimStart = Math.min(trimStart, Math.max(0, clip.sourceDuration - length));
+  }
+  if (trimStart === (clip.trimStart ?? 0)) return state;
+
+  return {
+    ...state,
+    media: state.media.map(c =>
+      c.id === clipId ? { ...c, trimStart, trimEnd: getTrimEnd(clip, trimStart, length) } : c
     ),
   };
 }
 
+/**
+ * Set a clip's source in/out handles from numeric values
+ * The clip keeps its timeline start and its length follows the new source range.
+ * Ranges that leave no frames to play are ignored.
+ */
+export function setClipTrim(state: EditorState, clipId: string, trimStart: number, trimEnd: number): EditorState {
+  const clip = state.media.find(c => c.id === clipId);
+  if (!clip || clip.type === 'image' || isItemLocked(state, clipId)) return state;
+
+  const nextTrimStart = Math.max(0, Math.round(trimStart));
+  const nextTrimEnd = Math.max(0, Math.round(trimEnd));
+  const length = clip.sourceDuration !== undefined
+    ? clip.sourceDuration - nextTrimStart - nextTrimEnd
+    : clip.endFrame - clip.startFrame - (nextTrimStart - (clip.trimStart ?? 0)) - (nextTrimEnd - (clip.trimEnd ?? 0));
+  if (length < 1) return state;
+
+  return {
+    ...state,
+    media: state.media.map(c =>
+      c.id === clipId
+        ? { ...c, endFrame: clip.startFrame + length, trimStart: nextTrimStart, trimEnd: nextTrimEnd }
+        : c
+    ),
+  };
+}
+
+/**
+ * Set a clip's fade-in and fade-out lengths in frames
+ * Fades are shortened so together they never exceed the clip.
+ */
+export function setClipFades(state: EditorState, clipId: string, fadeIn: number, fadeOut: number): EditorState {
+  const clip = state.media.find(c => c.id === clipId);
+  if (!clip || clip.type === 'image' || isItemLocked(state, clipId)) return state;
+
+  const length = clip.endFrame - clip.startFrame;
+  const nextFadeIn = Math.min(length, Math.max(0, Math.round(fadeIn)));
+  const nextFadeOut = Math.min(length - nextFadeIn, Math.max(0, Math.round(fadeOut)));
+
+  return {
+    ...state,
+    media: state.media.map(c => (c.id === clipId ? { ...c, fadeIn: nextFadeIn, fadeOut: nextFadeOut } : c)),
+  };
+}
+
+/**
+ * Set a clip's stereo pan (-1 = left, 1 = right)
+ */
+export function setClipPan(state: EditorState, clipId: string, pan: number): EditorState {
+  const clip = state.media.find(c => c.id === clipId);
+  if (!clip || clip.type === 'image' || isItemLocked(state, clipId)) return state;
+
+  return {
+    ...state,
+    media: state.media.map(c => (c.id === clipId ? { ...c, pan: Math.min(1, Math.max(-1, pan)) } : c)),
+  };
+}
+
+/**
+ * Convert a source duration in seconds to timeline frames
+ */
+export function getSourceDurationFrames(seconds: number | undefined, frameRate: number): number | undefined {
+  return seconds !== undefined && seconds > 0 ? Math.max(1, Math.round(seconds * frameRate)) : undefined;
+}
+
 /**
  * Trim a text overlay's duration
  */
@@ -90,6 +339,8 @@ export function trimTextOverlay(
   newStartFrame: number,
   newEndFrame: number
 ): EditorState {
+  if (isItemLocked(state, textId)) return state;
+
   return {
     ...state,
     texts: state.texts.map(text =>
@@ -124,6 +375,392 @@ export function reorderClips(state: EditorState, fromIndex: number, toIndex: num
   };
 }
 
+/**
+ * Add a track of the given kind
+ * New tracks go above existing tracks of the same kind (or at the bottom)
+ */
+export function addTrack(state: EditorState, kind: TrackKind, name?: string): EditorState {
+  const ordered = getTracksInOrder(state);
+  const sameKindCount = ordered.filter(track => track.kind === kind).length;
+  const newTrack: Track = {
+    id: generateId(),
+    name: name || `${TRACK_NAMES[kind]} ${sameKindCount + 1}`,
+    kind,
+    order: 0,
+    muted: false,
+    solo: false,
+    locked: false,
+    hidden: false,
+  };
+
+  const firstOfKind = ordered.findIndex(track => track.kind === kind);
+  const insertAt = firstOfKind === -1 ? ordered.length : firstOfKind;
+  ordered.splice(insertAt, 0, newTrack);
+
+  return {
+    ...state,
+    tracks: ordered.map((track, index) => ({ ...track, order: index })),
+  };
+}
+
+/**
+ * Remove a track together with all items on it
+ */
+export function removeTrack(state: EditorState, trackId: string): EditorState {
+  const track = getTrack(state, trackId);
+  if (!track || track.locked) return state;
+
+  const media = state.media.filter(clip => clip.trackId !== trackId);
+  const texts = state.texts.filter(text => text.trackId !== trackId);
+
+  return {
+    ...state,
+    tracks: getTracksInOrder(state)
+      .filter(t => t.id !== trackId)
+      .map((t, index) => ({ ...t, order: index })),
+    media: media.map((clip, index) => ({ ...clip, order: index })),
+    texts,
+    transitions: state.transitions.filter(t => t.trackId !== trackId),
+    selectedIds: state.selectedIds.filter(id => media.some(clip => clip.id === id) || texts.some(text => text.id === id)),
+  };
+}
+
+/**
+ * Move a track to a new position in the stacking order
+ */
+export function reorderTracks(state: EditorState, fromIndex: number, toIndex: number): EditorState {
+  const ordered = getTracksInOrder(state);
+  if (fromIndex < 0 || fromIndex >= ordered.length || toIndex < 0 || toIndex >= ordered.length) {
+    return state;
+  }
+
+  const [movedTrack] = ordered.splice(fromIndex, 1);
+  ordered.splice(toIndex, 0, movedTrack);
+
+  return {
+    ...state,
+    tracks: ordered.map((track, index) => ({ ...track, order: index })),
+  };
+}
+
+/**
+ * Update track flags or name
+ */
+export function updateTrack(
+  state: EditorState,
+  trackId: string,
+  updates: Partial<Omit<Track, 'id' | 'kind' | 'order'>>
+): EditorState {
+  return {
+    ...state,
+    tracks: state.tracks.map(track =>
+      track.id === trackId ? { ...track, ...updates } : track
+    ),
+  };
+}
+
+/**
+ * Move a clip or text overlay onto another track of a compatible kind
+ */
+export function moveItemToTrack(state: EditorState, id: string, trackId: string): EditorState {
+  const target = getTrack(state, trackId);
+  if (!target || target.locked || isItemLocked(state, id)) return state;
+
+  const clip = state.media.find(c => c.id === id);
+  if (clip) {
+    if (getTrackKindForClip(clip.type) !== target.kind) return state;
+    return {
+      ...state,
+      media: state.media.map(c => (c.id === id ? { ...c, trackId } : c)),
+      // Transitions belong to a cut on the old track
+      transitions: state.transitions.filter(t => t.fromClipId !== id && t.toClipId !== id),
+    };
+  }
+
+  const text = state.texts.find(t => t.id === id);
+  if (text && target.kind === 'text') {
+    return {
+      ...state,
+      texts: state.texts.map(t => (t.id === id ? { ...t, trackId } : t)),
+    };
+  }
+
+  return state;
+}
+
+/**
+ * Get the items on a track sorted by start frame
+ */
+export function getTrackItems(state: EditorState, trackId: string): TimelineItem[] {
+  return getTimelineItems(state).filter(item => item.trackId === trackId);
+}
+
+/**
+ * Check whether a track is audible, honoring mute and solo
+ */
+export function isTrackAudible(state: Pick<EditorState, 'tracks'>, track: Track): boolean {
+  const anySolo = state.tracks.some(t => t.solo);
+  return !track.muted && (!anySolo || track.solo);
+}
+
+// Apply a change to a single clip or text overlay, skipping locked items
+function updateItem(
+  state: EditorState,
+  id: string,
+  update: (item: Clip | TextOverlay) => Clip | TextOverlay
+): EditorState {
+  if (isItemLocked(state, id)) return state;
+
+  return {
+    ...state,
+    media: state.media.map(clip => (clip.id === id ? (update(clip) as Clip) : clip)),
+    texts: state.texts.map(text => (text.id === id ? (update(text) as TextOverlay) : text)),
+  };
+}
+
+// Replace the keyframe track of one property, dropping it when empty
+function withKeyframes<T extends Clip | TextOverlay>(
+  item: T,
+  property: AnimatableProperty,
+  keyframes: Keyframe[]
+): T {
+  const tracks = { ...item.keyframes };
+  if (keyframes.length > 0) {
+    tracks[property] = sortKeyframes(keyframes);
+  } else {
+    delete tracks[property];
+  }
+  return { ...item, keyframes: tracks };
+}
+
+// Keyframe frames are relative to the item and stay within its duration
+function clampKeyframeFrame(item: Clip | TextOverlay, frame: number): number {
+  return Math.max(0, Math.min(Math.round(frame), item.endFrame - item.startFrame));
+}
+
+/**
+ * Add a keyframe at a frame relative to the item's start
+ * Defaults to the property's current value; replaces the value of an
+ * existing keyframe on the same frame
+ */
+export function addKeyframe(
+  state: EditorState,
+  id: string,
+  property: AnimatableProperty,
+  frame: number,
+  value?: number,
+  easing: KeyframeEasing = 'linear'
+): EditorState {
+  return updateItem(state, id, item => {
+    const keyframeFrame = clampKeyframeFrame(item, frame);
+    const keyframeValue = value ?? getAnimatedValue(item, property, keyframeFrame);
+    const keyframes = item.keyframes?.[property] ?? [];
+    const existing = keyframes.find(keyframe => keyframe.frame === keyframeFrame);
+
+    if (existing) {
+      return withKeyframes(item, property, keyframes.map(keyframe =>
+        keyframe === existing ? { ...keyframe, value: keyframeValue } : keyframe
+      ));
+    }
+
+    return withKeyframes(item, property, [
+      ...keyframes,
+      { id: generateId(), frame: keyframeFrame, value: keyframeValue, easing },
+    ]);
+  });
+}
+
+/**
+ * Move a keyframe to another frame; a keyframe already there is replaced
+ */
+export function moveKeyframe(
+  state: EditorState,
+  id: string,
+  property: AnimatableProperty,
+  keyframeId: string,
+  frame: number
+): EditorState {
+  return updateItem(state, id, item => {
+    const keyframes = item.keyframes?.[property] ?? [];
+    if (!keyframes.some(keyframe => keyframe.id === keyframeId)) return item;
+
+    const keyframeFrame = clampKeyframeFrame(item, frame);
+    return withKeyframes(item, property, keyframes
+      .filter(keyframe => keyframe.id === keyframeId || keyframe.frame !== keyframeFrame)
+      .map(keyframe => (keyframe.id === keyframeId ? { ...keyframe, frame: keyframeFrame } : keyframe))
+    );
+  });
+}
+
+/**
+ * Change the value or interpolation of a keyframe
+ */
+export function updateKeyframe(
+  state: EditorState,
+  id: string,
+  property: AnimatableProperty,
+  keyframeId: string,
+  updates: Partial<Pick<Keyframe, 'value' | 'easing' | 'bezier'>>
+): EditorState {
+  return updateItem(state, id, item => {
+    const keyframes = item.keyframes?.[property] ?? [];
+    return withKeyframes(item, property, keyframes.map(keyframe =>
+      keyframe.id === keyframeId ? { ...keyframe, ...updates } : keyframe
+    ));
+  });
+}
+
+/**
+ * Delete a keyframe; the last value it produced becomes the static value
+ */
+export function removeKeyframe(
+  state: EditorState,
+  id: string,
+  property: AnimatableProperty,
+  keyframeId: string
+): EditorState {
+  return updateItem(state, id, item => {
+    const keyframes = item.keyframes?.[property] ?? [];
+    const removed = keyframes.find(keyframe => keyframe.id === keyframeId);
+    if (!removed) return item;
+
+    const remaining = keyframes.filter(keyframe => keyframe.id !== keyframeId);
+    // Without keyframes the property falls back to its static value, so keep what was showing
+    const base = remaining.length === 0 ? setStaticValue(item, property, removed.value) : item;
+    return withKeyframes(base, property, remaining);
+  });
+}
+
+/**
+ * Set a property from the editor: animated properties get a keyframe at
+ * the given relative frame, others change their static value
+ */
+export function setAnimatedProperty(
+  state: EditorState,
+  id: string,
+  property: AnimatableProperty,
+  value: number,
+  frame: number
+): EditorState {
+  const item = [...state.media, ...state.texts].find(i => i.id === id);
+  if (!item) return state;
+
+  if (isAnimated(item, property)) {
+    return addKeyframe(state, id, property, frame, value);
+  }
+  return updateItem(state, id, current => setStaticValue(current, property, value));
+}
+
+/**
+ * Animatable properties that every item in a group has, so they can be
+ * edited together
+ */
+export function getSharedProperties(state: Pick<EditorState, 'media' | 'texts'>, ids: string[]): AnimatableProperty[] {
+  const items = getSelectedItems({ ...state, selectedIds: ids });
+  if (items.length === 0) return [];
+  return items
+    .map(item => getAnimatableProperties(item))
+    .reduce((shared, properties) => shared.filter(property => properties.includes(property)));
+}
+
+/**
+ * Set a property on a group of items at a timeline frame, as
+ * setAnimatedProperty does for each item that has it
+ */
+export function setAnimatedProperties(
+  state: EditorState,
+  ids: string[],
+  property: AnimatableProperty,
+  value: number,
+  frame: number
+): EditorState {
+  return ids.reduce((current, id) => {
+    const item = [...current.media, ...current.texts].find(i => i.id === id);
+    if (!item || !getAnimatableProperties(item).includes(property)) return current;
+    return setAnimatedProperty(current, id, property, value, frame - item.startFrame);
+  }, state);
+}
+
+/**
+ * Add a transition at the cut between two adjacent clips on the same track
+ * The duration is shortened to the available handle frames; the timeline is
+ * left unchanged when the clips cannot take a transition
+ */
+export function addTransition(
+  state: EditorState,
+  fromClipId: string,
+  toClipId: string,
+  options: TransitionOptions = {}
+): EditorState {
+  const from = state.media.find(clip => clip.id === fromClipId);
+  const to = state.media.find(clip => clip.id === toClipId);
+  if (!from || !to || isItemLocked(state, fromClipId) || isItemLocked(state, toClipId)) return state;
+
+  const alignment = options.alignment ?? 'center';
+  const maxDuration = getMaxTransitionDuration(from, to, alignment);
+  const transition: Transition = {
+    id: generateId(),
+    trackId: from.trackId,
+    fromClipId,
+    toClipId,
+    type: options.type ?? 'crossfade',
+    duration: Math.min(options.duration ?? DEFAULT_TRANSITION_DURATION, maxDuration),
+    alignment,
+    ...(options.direction ? { direction: options.direction } : {}),
+    ...(options.color ? { color: options.color } : {}),
+  };
+
+  // One transition per cut
+  const others = state.transitions.filter(t => !(t.fromClipId === fromClipId && t.toClipId === toClipId));
+  if (getTransitionErrors({ ...state, transitions: others }, transition).length > 0) return state;
+
+  return { ...state, transitions: [...others, transition] };
+}
+
+/**
+ * Change a transition; updates that would make it invalid are ignored
+ */
+export function updateTransition(
+  state: EditorState,
+  id: string,
+  updates: TransitionOptions
+): EditorState {
+  const current = state.transitions.find(t => t.id === id);
+  if (!current || isItemLocked(state, current.fromClipId) || isItemLocked(state, current.toClipId)) return state;
+
+  const updated = { ...current, ...updates };
+  if (getTransitionErrors(state, updated).length > 0) return state;
+
+  return {
+    ...state,
+    transitions: state.transitions.map(t => (t.id === id ? updated : t)),
+  };
+}
+
+/**
+ * Remove a transition, restoring the hard cut
+ */
+export function removeTransition(state: EditorState, id: string): EditorState {
+  const current = state.transitions.find(t => t.id === id);
+  if (!current || isItemLocked(state, current.fromClipId)) return state;
+
+  return {
+    ...state,
+    transitions: state.transitions.filter(t => t.id !== id),
+  };
+}
+
+/**
+ * Find the clip that starts exactly where a clip ends on the same track
+ */
+export function getNextAdjacentClip(state: Pick<EditorState, 'media'>, clipId: string): Clip | undefined {
+  const clip = state.media.find(c => c.id === clipId);
+  if (!clip) return undefined;
+  return state.media.find(
+    c => c.id !== clip.id && c.trackId === clip.trackId && c.startFrame === clip.endFrame
+  );
+}
+
 /**
  * Move playhead to specific frame
  */
@@ -136,15 +773,60 @@ export function setPlayhead(state: EditorState, frame: number): EditorState {
 }
 
 /**
- * Toggle playback state
+ * Toggle playback state (always at normal speed, ending any shuttle)
  */
 export function togglePlayback(state: EditorState): EditorState {
   return {
     ...state,
     isPlaying: !state.isPlaying,
+    playbackRate: 1,
   };
 }
 
+// Shuttle speeds J and L step through, fastest last
+const SHUTTLE_RATES = [1, 2, 4];
+
+/**
+ * J/K/L shuttle: 1 plays forward, -1 backward, each further press in the
+ * same direction speeds up; 0 pauses and resets the speed
+ */
+export function shuttle(state: EditorState, direction: -1 | 0 | 1): EditorState {
+  if (direction === 0) {
+    return { ...state, isPlaying: false, playbackRate: 1 };
+  }
+
+  const rate = state.playbackRate ?? 1;
+  const speed = state.isPlaying && Math.sign(rate) === direction
+    ? SHUTTLE_RATES.find(r => r > Math.abs(rate)) ?? SHUTTLE_RATES[SHUTTLE_RATES.length - 1]
+    : SHUTTLE_RATES[0];
+  return { ...state, isPlaying: true, playbackRate: speed * direction };
+}
+
+/**
+ * Set the in point; an out point at or before it is dropped
+ */
+export function setMarkIn(state: EditorState, frame: number): EditorState {
+  const markIn = Math.max(0, Math.min(Math.round(frame), state.duration));
+  const markOut = state.markOut !== undefined && state.markOut > markIn ? state.markOut : undefined;
+  return { ...state, markIn, markOut };
+}
+
+/**
+ * Set the out point; an in point at or after it is dropped
+ */
+export function setMarkOut(state: EditorState, frame: number): EditorState {
+  const markOut = Math.max(0, Math.min(Math.round(frame), state.duration));
+  const markIn = state.markIn !== undefined && state.markIn < markOut ? state.markIn : undefined;
+  return { ...state, markIn, markOut };
+}
+
+/**
+ * Remove the in and out points
+ */
+export function clearMarks(state: EditorState): EditorState {
+  return { ...state, markIn: undefined, markOut: undefined };
+}
+
 /**
  * Update timeline zoom level
  */
@@ -156,15 +838,80 @@ export function setZoom(state: EditorState, zoom: number): EditorState {
 }
 
 /**
- * Select an item (clip or text overlay)
+ * Select a single item (clip or text overlay), or clear the selection with null
  */
 export function selectItem(state: EditorState, id: string | null): EditorState {
   return {
     ...state,
-    selectedId: id,
+    selectedIds: id ? [id] : [],
   };
 }
 
+/**
+ * Change the selection
+ * replace: select exactly these items (a plain click or marquee)
+ * add: extend the selection (Shift)
+ * toggle: flip each item in or out of the selection (Ctrl/Cmd)
+ * The items named last become the primary selection.
+ */
+export function selectItems(state: EditorState, ids: string[], mode: SelectionMode = 'replace'): EditorState {
+  const unique = [...new Set(ids)];
+  const others = state.selectedIds.filter(id => !unique.includes(id));
+
+  let selectedIds: string[];
+  if (mode === 'replace') {
+    selectedIds = unique;
+  } else if (mode === 'add') {
+    selectedIds = [...others, ...unique];
+  } else {
+    selectedIds = [...others, ...unique.filter(id => !state.selectedIds.includes(id))];
+  }
+  return { ...state, selectedIds };
+}
+
+/**
+ * Get the selected clips and text overlays, in selection order
+ */
+export function getSelectedItems(state: Pick<EditorState, 'media' | 'texts' | 'selectedIds'>): (Clip | TextOverlay)[] {
+  return state.selectedIds
+    .map(id => state.media.find(clip => clip.id === id) ?? state.texts.find(text => text.id === id))
+    .filter((item): item is Clip | TextOverlay => item !== undefined);
+}
+
+// Items that group selections pick up: everything not on a locked track
+function getSelectableItems(state: EditorState): TimelineItem[] {
+  return getTimelineItems(state).filter(item => getTrack(state, item.trackId)?.locked !== true);
+}
+
+/**
+ * IDs of the items a marquee covers: those on the given tracks that overlap
+ * the frame range (in either order)
+ */
+export function getItemsInRange(state: EditorState, fromFrame: number, toFrame: number, trackIds: string[]): string[] {
+  const start = Math.min(fromFrame, toFrame);
+  const end = Math.max(fromFrame, toFrame);
+  return getSelectableItems(state)
+    .filter(item => trackIds.includes(item.trackId) && item.startFrame <= end && item.endFrame > start)
+    .map(item => item.id);
+}
+
+/**
+ * Select every item on unlocked tracks
+ */
+export function selectAll(state: EditorState): EditorState {
+  return selectItems(state, getSelectableItems(state).map(item => item.id));
+}
+
+/**
+ * Select every item on unlocked tracks that starts at or after a frame
+ */
+export function selectForward(state: EditorState, frame: number): EditorState {
+  return selectItems(
+    state,
+    getSelectableItems(state).filter(item => item.startFrame >= frame).map(item => item.id)
+  );
+}
+
 /**
  * Get all timeline items (clips and text overlays) sorted by start time
  */
@@ -172,6 +919,7 @@ export function getTimelineItems(state: EditorState): TimelineItem[] {
   const clipItems: TimelineItem[] = state.media.map(clip => ({
     id: clip.id,
     type: 'clip' as const,
+    trackId: clip.trackId,
     startFrame: clip.startFrame,
     endFrame: clip.endFrame,
     order: clip.order,
@@ -181,6 +929,7 @@ export function getTimelineItems(state: EditorState): TimelineItem[] {
   const textItems: TimelineItem[] = state.texts.map(text => ({
     id: text.id,
     type: 'text' as const,
+    trackId: text.trackId,
     startFrame: text.startFrame,
     endFrame: text.endFrame,
     order: 0, // Text overlays don't have order
@@ -270,6 +1019,96 @@ export function timeToFrames(timeString: string, frameRate: number): number {
   return (minutes * 60 + seconds) * frameRate;
 }
 
+// Move keyframes to the same times at another frame rate
+function retimeKeyframes(keyframes: KeyframeTracks | undefined, scale: number): KeyframeTracks | undefined {
+  if (!keyframes) return keyframes;
+  return Object.fromEntries(
+    Object.entries(keyframes).map(([property, track]) => [
+      property,
+      track.map(keyframe => ({ ...keyframe, frame: Math.round(keyframe.frame * scale) })),
+    ])
+  );
+}
+
+/**
+ * Convert every frame position in the state to another frame rate, keeping
+ * all items at the same times (used to render at a different fps)
+ */
+export function retimeEditorState(state: EditorState, frameRate: number): EditorState {
+  if (frameRate === state.frameRate) return state;
+  const scale = frameRate / state.frameRate;
+  const toFrames = (frame: number) => Math.round(frame * scale);
+  const toOptionalFrames = (frame: number | undefined) => (frame === undefined ? undefined : toFrames(frame));
+
+  // Edges are rounded on their own so adjacent items stay adjacent
+  const retimeRange = <T extends { startFrame: number; endFrame: number }>(item: T): T => {
+    const startFrame = toFrames(item.startFrame);
+    return { ...item, startFrame, endFrame: Math.max(startFrame + 1, toFrames(item.endFrame)) };
+  };
+
+  return {
+    ...state,
+    frameRate,
+    playhead: toFrames(state.playhead),
+    duration: Math.max(1, toFrames(state.duration)),
+    media: state.media.map(clip => ({
+      ...retimeRange(clip),
+      trimStart: toOptionalFrames(clip.trimStart),
+      trimEnd: toOptionalFrames(clip.trimEnd),
+      sourceDuration: clip.sourceDuration === undefined ? undefined : Math.max(1, toFrames(clip.sourceDuration)),
+      fadeIn: toOptionalFrames(clip.fadeIn),
+      fadeOut: toOptionalFrames(clip.fadeOut),
+      keyframes: retimeKeyframes(clip.keyframes, scale),
+    })),
+    texts: state.texts.map(text => ({
+      ...retimeRange(text),
+      keyframes: retimeKeyframes(text.keyframes, scale),
+    })),
+    transitions: state.transitions.map(transition => ({
+      ...transition,
+      duration: Math.max(1, toFrames(transition.duration)),
+    })),
+  };
+}
+
+// Smallest canvas side; sizes are kept even because H.264/H.265 need it
+const MIN_CANVAS_SIZE = 16;
+
+/**
+ * Change the project canvas
+ * Positions are percentages of the canvas, so items keep their relative
+ * placement. Text sizes follow the canvas' shorter side so titles keep their
+ * proportion when the resolution or aspect ratio changes.
+ */
+export function setCanvas(state: EditorState, changes: Partial<Canvas>): EditorState {
+  const toSize = (value: number) => Math.max(MIN_CANVAS_SIZE, Math.round(value / 2) * 2);
+  const canvas: Canvas = {
+    ...state.canvas,
+    ...changes,
+    width: toSize(changes.width ?? state.canvas.width),
+    height: toSize(changes.height ?? state.canvas.height),
+  };
+
+  const scale = Math.min(canvas.width, canvas.height) / Math.min(state.canvas.width, state.canvas.height);
+  if (scale === 1) return { ...state, canvas };
+
+  const toFontSize = (size: number) => Math.max(1, Math.round(size * scale));
+  return {
+    ...state,
+    canvas,
+    texts: state.texts.map(text => ({
+      ...text,
+      style: { ...text.style, fontSize: toFontSize(text.style.fontSize) },
+      keyframes: text.keyframes?.fontSize
+        ? {
+          ...text.keyframes,
+          fontSize: text.keyframes.fontSize.map(keyframe => ({ ...keyframe, value: toFontSize(keyframe.value) })),
+        }
+        : text.keyframes,
+    })),
+  };
+}
+
 /**
  * Generate a unique ID
  */
@@ -283,15 +1122,45 @@ export function generateId(): string {
 export function validateTimelineState(state: EditorState): string[] {
   const errors: string[] = [];
 
-  // Check for overlapping clips in the same track
-  const sortedClips = [...state.media].sort((a, b) => a.startFrame - b.startFrame);
-  for (let i = 0; i < sortedClips.length - 1; i++) {
-    const current = sortedClips[i];
-    const next = sortedClips[i + 1];
-    if (current.endFrame > next.startFrame) {
-      errors.push(`Clip ${current.id} overlaps with clip ${next.id}`);
+  // Check for overlapping items in the same track
+  // Items on different tracks may overlap (picture-in-picture, layered text)
+  const itemsByTrack = new Map<string, TimelineItem[]>();
+  getTimelineItems(state).forEach(item => {
+    itemsByTrack.set(item.trackId, [...(itemsByTrack.get(item.trackId) || []), item]);
+  });
+  itemsByTrack.forEach((items, trackId) => {
+    for (let i = 0; i < items.length - 1; i++) {
+      const current = items[i];
+      const next = items[i + 1];
+      if (current.endFrame > next.startFrame) {
+        const label = current.type === 'clip' ? 'Clip' : 'Text';
+        errors.push(`${label} ${current.id} overlaps with ${next.type} ${next.id} on track ${trackId}`);
+      }
     }
-  }
+  });
+
+  // Check that every item sits on an existing track of a compatible kind
+  state.media.forEach(clip => {
+    const track = getTrack(state, clip.trackId);
+    if (!track) {
+      errors.push(`Clip ${clip.id} references missing track ${clip.trackId}`);
+    } else if (track.kind !== getTrackKindForClip(clip.type)) {
+      errors.push(`Clip ${clip.id} (${clip.type}) is on ${track.kind} track ${track.id}`);
+    }
+  });
+  state.texts.forEach(text => {
+    const track = getTrack(state, text.trackId);
+    if (!track) {
+      errors.push(`Text ${text.id} references missing track ${text.trackId}`);
+    } else if (track.kind !== 'text') {
+      errors.push(`Text ${text.id} is on ${track.kind} track ${track.id}`);
+    }
+  });
+
+  // Check that transitions still sit on a cut with enough handle frames
+  state.transitions.forEach(transition => {
+    errors.push(...getTransitionErrors(state, transition));
+  });
 
   // Check for invalid frame ranges
   [...state.media, ...state.texts].forEach(item => {
@@ -306,10 +1175,417 @@ export function validateTimelineState(state: EditorState): string[] {
   return errors;
 }
 
-// TODO: Implement these advanced features
-// - Snap to grid functionality
-// - Ripple edit (moving clips affects subsequent clips)
-// - Slip edit (changing clip content without changing duration)
-// - Slide edit (moving clip without changing duration)
-// - Multi-track support
-// - Keyframe animation support
+// Keep an edit only if it does not introduce new validation errors
+// (overlaps, transitions losing their handles, ...)
+function keepIfValid(before: EditorState, after: EditorState): EditorState {
+  const existing = new Set(validateTimelineState(before));
+  return validateTimelineState(after).some(error => !existing.has(error)) ? before : after;
+}
+
+// Move every item on a track that starts at or after a frame
+function shiftTrackItems(
+  state: EditorState,
+  trackId: string,
+  fromFrame: number,
+  delta: number,
+  excludeId?: string
+): EditorState {
+  if (delta === 0) return state;
+  const shift = <T extends Clip | TextOverlay>(item: T): T =>
+    item.trackId === trackId && item.id !== excludeId && item.startFrame >= fromFrame
+      ? { ...item, startFrame: item.startFrame + delta, endFrame: item.endFrame + delta }
+      : item;
+
+  return { ...state, media: state.media.map(shift), texts: state.texts.map(shift) };
+}
+
+function getItemLength(state: EditorState, id: string): number {
+  const item = state.media.find(clip => clip.id === id) || state.texts.find(text => text.id === id);
+  return item ? item.endFrame - item.startFrame : 0;
+}
+
+// Clips touching a clip's edges on the same track
+function getNeighbors(state: EditorState, clip: Clip): { prev?: Clip; next?: Clip } {
+  const sameTrack = state.media.filter(c => c.trackId === clip.trackId && c.id !== clip.id);
+  return {
+    prev: sameTrack.find(c => c.endFrame === clip.startFrame),
+    next: sameTrack.find(c => c.startFrame === clip.endFrame),
+  };
+}
+
+// Frames a clip's out-point can move right before running out of source
+function getTailRoom(clip: Clip): number {
+  return clip.type !== 'image' && clip.sourceDuration !== undefined ? (clip.trimEnd ?? 0) : Infinity;
+}
+
+// Frames a clip's in-point can move left before running out of source
+function getHeadRoom(clip: Clip): number {
+  return clip.type !== 'image' && clip.sourceDuration !== undefined ? (clip.trimStart ?? 0) : Infinity;
+}
+
+/**
+ * Delete an item and close the gap it leaves on its track
+ */
+export function rippleDelete(state: EditorState, id: string): EditorState {
+  const item = state.media.find(clip => clip.id === id) || state.texts.find(text => text.id === id);
+  if (!item || isItemLocked(state, id)) return state;
+
+  const removed = removeItem(state, id);
+  return keepIfValid(
+    state,
+    shiftTrackItems(removed, item.trackId, item.endFrame, item.startFrame - item.endFrame)
+  );
+}
+
+/**
+ * Ripple delete several items, closing each gap on its track
+ */
+export function rippleDeleteItems(state: EditorState, ids: string[]): EditorState {
+  // Latest first, so closing a gap never moves an item still to be deleted
+  const items = [...state.media, ...state.texts]
+    .filter(item => ids.includes(item.id))
+    .sort((a, b) => b.startFrame - a.startFrame);
+  return items.reduce((current, item) => rippleDelete(current, item.id), state);
+}
+
+/**
+ * Trim one edge of an item and shift everything after it on the track by the same amount
+ * Trimming the start keeps the item in place and changes its source in-point instead.
+ */
+export function rippleTrim(state: EditorState, id: string, edge: 'start' | 'end', frame: number): EditorState {
+  const clip = state.media.find(c => c.id === id);
+  const item = clip || state.texts.find(text => text.id === id);
+  if (!item || isItemLocked(state, id)) return state;
+
+  const oldLength = item.endFrame - item.startFrame;
+  const trim = (s: EditorState, start: number, end: number) =>
+    clip ? trimClip(s, id, start, end) : trimTextOverlay(s, id, start, end);
+
+  let trimmed = edge === 'end'
+    ? trim(state, item.startFrame, frame)
+    : trim(state, Math.min(frame, item.endFrame - 1), item.endFrame);
+  const length = getItemLength(trimmed, id);
+
+  if (edge === 'start') {
+    // Pull the item back to where it started
+    const place = <T extends Clip | TextOverlay>(i: T): T =>
+      i.id === id ? { ...i, startFrame: item.startFrame, endFrame: item.startFrame + length } : i;
+    trimmed = { ...trimmed, media: trimmed.media.map(place), texts: trimmed.texts.map(place) };
+  }
+
+  const delta = length - oldLength;
+  return keepIfValid(state, shiftTrackItems(trimmed, item.trackId, item.endFrame, delta, id));
+}
+
+/**
+ * Roll edit: move the cut between two adjacent clips
+ * The outgoing clip's end and the incoming clip's start move together, so
+ * nothing else on the track changes.
+ */
+export function rollEdit(state: EditorState, fromClipId: string, toClipId: string, cutFrame: number): EditorState {
+  const from = state.media.find(c => c.id === fromClipId);
+  const to = state.media.find(c => c.id === toClipId);
+  if (!from || !to || from.trackId !== to.trackId || from.endFrame !== to.startFrame) return state;
+  if (isItemLocked(state, fromClipId)) return state;
+
+  const cut = from.endFrame;
+  const min = Math.max(from.startFrame + 1, cut - getHeadRoom(to));
+  const max = Math.min(to.endFrame - 1, cut + getTailRoom(from));
+  const newCut = Math.max(min, Math.min(max, Math.round(cutFrame)));
+  if (newCut === cut) return state;
+
+  const rolled = trimClip(trimClip(state, fromClipId, from.startFrame, newCut), toClipId, newCut, to.endFrame);
+  return keepIfValid(state, rolled);
+}
+
+/**
+ * Move a clip or text overlay by a number of frames, stopping at frame 0
+ * The nudge is refused if it would overlap another item or break a transition.
+ */
+export function nudgeItem(state: EditorState, id: string, delta: number): EditorState {
+  return moveItems(state, [id], delta);
+}
+
+/**
+ * Move a group of items by the same number of frames, keeping their spacing
+ * Items on locked tracks stay put. The group stops when its first item
+ * reaches frame 0, and the move is refused if it would overlap another item
+ * or break a transition.
+ */
+export function moveItems(state: EditorState, ids: string[], delta: number): EditorState {
+  const moving = new Set(ids.filter(id => !isItemLocked(state, id)));
+  const items = [...state.media, ...state.texts].filter(item => moving.has(item.id));
+  if (items.length === 0) return state;
+
+  const shift = Math.max(-Math.min(...items.map(item => item.startFrame)), Math.round(delta));
+  if (shift === 0) return state;
+
+  const move = <T extends Clip | TextOverlay>(i: T): T =>
+    moving.has(i.id) ? { ...i, startFrame: i.startFrame + shift, endFrame: i.endFrame + shift } : i;
+  return keepIfValid(state, { ...state, media: state.media.map(move), texts: state.texts.map(move) });
+}
+
+// Insert copies of clips and text overlays with fresh IDs, moved by an offset,
+// and select them. Transitions between two copied clips are copied too.
+function insertCopies(
+  state: EditorState,
+  clips: Clip[],
+  texts: TextOverlay[],
+  transitions: Transition[],
+  offset: number
+): EditorState {
+  const newIds = new Map<string, string>();
+  const place = <T extends Clip | TextOverlay>(item: T): T => {
+    const id = generateId();
+    newIds.set(item.id, id);
+    return { ...item, id, startFrame: item.startFrame + offset, endFrame: item.endFrame + offset };
+  };
+
+  const newClips = clips.map((clip, index) => ({ ...place(clip), order: state.media.length + index }));
+  const newTexts = texts.map(place);
+  const newTransitions = transitions
+    .filter(transition => newIds.has(transition.fromClipId) && newIds.has(transition.toClipId))
+    .map(transition => ({
+      ...transition,
+      id: generateId(),
+      fromClipId: newIds.get(transition.fromClipId)!,
+      toClipId: newIds.get(transition.toClipId)!,
+    }));
+
+  return {
+    ...state,
+    media: [...state.media, ...newClips],
+    texts: [...state.texts, ...newTexts],
+    transitions: [...state.transitions, ...newTransitions],
+    selectedIds: [...newIds.values()],
+  };
+}
+
+/**
+ * Duplicate a group of items on their own tracks, keeping their spacing, and
+ * select the copies
+ * The copies go right after the group, or after the last item on those
+ * tracks when that space is taken. Items on locked tracks are not copied.
+ */
+export function duplicateItems(state: EditorState, ids: string[]): EditorState {
+  const unlocked = ids.filter(id => !isItemLocked(state, id));
+  const clips = state.media.filter(clip => unlocked.includes(clip.id));
+  const texts = state.texts.filter(text => unlocked.includes(text.id));
+  const items = [...clips, ...texts];
+  if (items.length === 0) return state;
+
+  const start = Math.min(...items.map(item => item.startFrame));
+  const end = Math.max(...items.map(item => item.endFrame));
+  const afterGroup = keepIfValid(state, insertCopies(state, clips, texts, state.transitions, end - start));
+  if (afterGroup !== state) return afterGroup;
+
+  const trackIds = new Set(items.map(item => item.trackId));
+  const trackEnd = Math.max(
+    ...[...state.media, ...state.texts].filter(item => trackIds.has(item.trackId)).map(item => item.endFrame)
+  );
+  return keepIfValid(state, insertCopies(state, clips, texts, state.transitions, trackEnd - start));
+}
+
+/**
+ * Collect items for the clipboard, with the transitions between them
+ */
+export function getCopiedItems(state: EditorState, ids: string[]): CopiedItems {
+  const clips = state.media.filter(clip => ids.includes(clip.id));
+  const texts = state.texts.filter(text => ids.includes(text.id));
+  const transitions = state.transitions.filter(
+    transition => ids.includes(transition.fromClipId) && ids.includes(transition.toClipId)
+  );
+  return { clips, texts, transitions };
+}
+
+/**
+ * Paste copied items with fresh IDs so the earliest starts at a frame,
+ * keeping their spacing, and select them
+ * Items go back onto their own tracks when this project has them (unlocked
+ * and with room for the items), otherwise onto new tracks of the same kinds.
+ */
+export function pasteItems(state: EditorState, copied: CopiedItems, frame: number): EditorState {
+  const items = [...copied.clips, ...copied.texts];
+  if (items.length === 0) return state;
+  const offset = Math.max(0, Math.round(frame)) - Math.min(...items.map(item => item.startFrame));
+
+  // Kind of track each copied track holds
+  const trackKinds = new Map<string, TrackKind>();
+  copied.clips.forEach(clip => trackKinds.set(clip.trackId, getTrackKindForClip(clip.type)));
+  copied.texts.forEach(text => trackKinds.set(text.trackId, 'text'));
+
+  const place = (target: EditorState, trackIds: Map<string, string>) => {
+    const retrack = <T extends { trackId: string }>(item: T): T =>
+      ({ ...item, trackId: trackIds.get(item.trackId) ?? item.trackId });
+    return insertCopies(
+      target,
+      copied.clips.map(retrack),
+      copied.texts.map(retrack),
+      copied.transitions.map(retrack),
+      offset
+    );
+  };
+
+  const ownTracksUsable = [...trackKinds].every(([trackId, kind]) => {
+    const track = getTrack(state, trackId);
+    return track !== undefined && track.kind === kind && !track.locked;
+  });
+  if (ownTracksUsable) {
+    const pasted = keepIfValid(state, place(state, new Map()));
+    if (pasted !== state) return pasted;
+  }
+
+  let withTracks = state;
+  const newTrackIds = new Map<string, string>();
+  trackKinds.forEach((kind, trackId) => {
+    const before = withTracks;
+    withTracks = addTrack(withTracks, kind);
+    newTrackIds.set(trackId, withTracks.tracks.find(track => !getTrack(before, track.id))!.id);
+  });
+  return keepIfValid(state, place(withTracks, newTrackIds));
+}
+
+/**
+ * Duplicate items at the same frames; the copies go onto new tracks
+ */
+export function duplicateItemsInPlace(state: EditorState, ids: string[]): EditorState {
+  const copied = getCopiedItems(state, ids);
+  const items = [...copied.clips, ...copied.texts];
+  if (items.length === 0) return state;
+  return pasteItems(state, copied, Math.min(...items.map(item => item.startFrame)));
+}
+
+// Split keyframe tracks at a frame relative to the item's start. Each half
+// gets a keyframe at the cut holding the value there, so neither half's
+// animation changes (eased segments cut in two keep their easing).
+function splitKeyframeTracks(
+  item: Clip | TextOverlay,
+  offset: number
+): [KeyframeTracks | undefined, KeyframeTracks | undefined] {
+  if (!item.keyframes) return [undefined, undefined];
+
+  const head: KeyframeTracks = {};
+  const tail: KeyframeTracks = {};
+  for (const [property, track] of Object.entries(item.keyframes) as [AnimatableProperty, Keyframe[]][]) {
+    if (!track?.length) continue;
+    const sorted = sortKeyframes(track);
+    const value = getAnimatedValue(item, property, offset);
+    const segment = [...sorted].reverse().find(keyframe => keyframe.frame <= offset) ?? sorted[0];
+    const cut = { ...segment, value };
+
+    head[property] = [
+      ...sorted.filter(keyframe => keyframe.frame < offset),
+      { ...cut, id: generateId(), frame: offset },
+    ];
+    tail[property] = [
+      { ...cut, id: generateId(), frame: 0 },
+      ...sorted
+        .filter(keyframe => keyframe.frame > offset)
+        .map(keyframe => ({ ...keyframe, frame: keyframe.frame - offset })),
+    ];
+  }
+  return [head, tail];
+}
+
+/**
+ * Split a clip or text overlay in two at a timeline frame
+ * The second half continues the source where the first stops (trimStart and
+ * trimEnd are adjusted), keeps the fade-out and takes over transitions out of
+ * the item. Frames at or outside the item's edges leave the state unchanged.
+ */
+export function splitItem(state: EditorState, id: string, frame: number): EditorState {
+  const item = state.media.find(c => c.id === id) ?? state.texts.find(t => t.id === id);
+  const cutFrame = Math.round(frame);
+  if (!item || isItemLocked(state, id) || cutFrame <= item.startFrame || cutFrame >= item.endFrame) {
+    return state;
+  }
+
+  const offset = cutFrame - item.startFrame;
+  const [headKeyframes, tailKeyframes] = splitKeyframeTracks(item, offset);
+  const tailId = generateId();
+
+  if ('text' in item) {
+    const head: TextOverlay = { ...item, endFrame: cutFrame, keyframes: headKeyframes };
+    const tail: TextOverlay = { ...item, id: tailId, startFrame: cutFrame, keyframes: tailKeyframes };
+    const index = state.texts.indexOf(item);
+    return {
+      ...state,
+      texts: [...state.texts.slice(0, index), head, tail, ...state.texts.slice(index + 1)],
+    };
+  }
+
+  const clip: Clip = item;
+  const head: Clip = { ...clip, endFrame: cutFrame, keyframes: headKeyframes };
+  const tail: Clip = {
+    ...clip,
+    id: tailId,
+    startFrame: cutFrame,
+    order: state.media.length,
+    keyframes: tailKeyframes,
+  };
+  if (clip.type !== 'image') {
+    head.trimEnd = getTrimEnd(clip, clip.trimStart ?? 0, offset);
+    tail.trimStart = (clip.trimStart ?? 0) + offset;
+  }
+  if (clip.fadeOut !== undefined) head.fadeOut = 0;
+  if (clip.fadeIn !== undefined) tail.fadeIn = 0;
+
+  const index = state.media.indexOf(clip);
+  const split: EditorState = {
+    ...state,
+    media: [...state.media.slice(0, index), head, tail, ...state.media.slice(index + 1)],
+    transitions: state.transitions.map(transition =>
+      transition.fromClipId === id ? { ...transition, fromClipId: tailId } : transition
+    ),
+  };
+  return keepIfValid(state, split);
+}
+
+/**
+ * Split several items at a frame; items the frame doesn't cross are left alone
+ */
+export function splitItems(state: EditorState, ids: string[], frame: number): EditorState {
+  return ids.reduce((current, id) => splitItem(current, id, frame), state);
+}
+
+/**
+ * Split every item under a frame on all unlocked tracks
+ */
+export function splitAllAtFrame(state: EditorState, frame: number): EditorState {
+  return splitItems(state, getItemsAtFrame(state, frame).map(item => item.id), frame);
+}
+
+/**
+ * Slide edit: move a clip between its neighbors without changing its content
+ * The clip before it absorbs the move at its end and the clip after it at its start.
+ */
+export function slideEdit(state: EditorState, clipId: string, newStartFrame: number): EditorState {
+  const clip = state.media.find(c => c.id === clipId);
+  if (!clip || isItemLocked(state, clipId)) return state;
+
+  const { prev, next } = getNeighbors(state, clip);
+  let minDelta = -clip.startFrame;
+  let maxDelta = Infinity;
+  if (prev) {
+    minDelta = Math.max(minDelta, 1 - (prev.endFrame - prev.startFrame));
+    maxDelta = Math.min(maxDelta, getTailRoom(prev));
+  }
+  if (next) {
+    maxDelta = Math.min(maxDelta, next.endFrame - next.startFrame - 1);
+    minDelta = Math.max(minDelta, -getHeadRoom(next));
+  }
+
+  const delta = Math.max(minDelta, Math.min(maxDelta, Math.round(newStartFrame) - clip.startFrame));
+  if (delta === 0) return state;
+
+  let slid: EditorState = {
+    ...state,
+    media: state.media.map(c =>
+      c.id === clipId ? { ...c, startFrame: c.startFrame + delta, endFrame: c.endFrame + delta } : c
+    ),
+  };
+  if (prev) slid = trimClip(slid, prev.id, prev.startFrame, prev.endFrame + delta);
+  if (next) slid = trimClip(slid, next.id, next.startFrame + delta, next.endFrame);
+
+  return keepIfValid(state, slid);
+}
@@ -0,0 +1,109 @@
+/**
+ * Visual transforms for clips and text overlays
+ * Shared by the Remotion composition and the editor so that preview,
+ * on-canvas handles and the final render place items identically
+ */
+
+import type { CSSProperties } from 'react';
+import { Clip, TextOverlay, Anchor, Canvas, ClipFit, Crop } from './types';
+
+export interface ResolvedTransform {
+  position: { x: number; y: number }; // Percent of the frame
+  scale: { width: number; height: number };
+  rotation: number; // Degrees, clockwise
+  anchor: Anchor; // Fraction of the item box (0-1)
+  crop: Crop; // Percent of the item box hidden on each side
+}
+
+export const DEFAULT_POSITION = { x: 50, y: 50 };
+export const DEFAULT_SCALE = { width: 1, height: 1 };
+export const DEFAULT_ANCHOR: Anchor = { x: 0.5, y: 0.5 };
+export const DEFAULT_CROP: Crop = { top: 0, right: 0, bottom: 0, left: 0 };
+
+/**
+ * Fill in defaults for the optional transform fields of an item
+ * Clips default to a centered, full-frame layer (the pre-transform behaviour)
+ */
+export function resolveTransform(item: Clip | TextOverlay): ResolvedTransform {
+  return {
+    position: item.position ?? DEFAULT_POSITION,
+    scale: item.scale ?? DEFAULT_SCALE,
+    rotation: item.rotation ?? 0,
+    anchor: item.anchor ?? DEFAULT_ANCHOR,
+    crop: 'crop' in item && item.crop ? item.crop : DEFAULT_CROP,
+  };
+}
+
+/**
+ * Clamp a crop rectangle so that at least 1% of each axis stays visible
+ */
+export function clampCrop(crop: Crop): Crop {
+  const clamp = (value: number) => Math.max(0, Math.min(99, value));
+  const top = clamp(crop.top);
+  const left = clamp(crop.left);
+  return {
+    top,
+    left,
+    bottom: Math.min(clamp(crop.bottom), 99 - top),
+    right: Math.min(clamp(crop.right), 99 - left),
+  };
+}
+
+/**
+ * CSS `clip-path` for a crop rectangle, or undefined when nothing is cropped
+ */
+export function getCropClipPath(crop: Crop): string | undefined {
+  const { top, right, bottom, left } = clampCrop(crop);
+  if (top === 0 && right === 0 && bottom === 0 && left === 0) return undefined;
+  return `inset(${top}% ${right}% ${bottom}% ${left}%)`;
+}
+
+/**
+ * Absolute positioning style placing the item's anchor point at its position.
+ * Scale and rotation are applied around the anchor, so the anchor stays put.
+ */
+export function getTransformStyle(transform: ResolvedTransform): CSSProperties {
+  const { position, scale, rotation, anchor } = transform;
+  const anchorX = anchor.x * 100;
+  const anchorY = anchor.y * 100;
+
+  return {
+    position: 'absolute',
+    left: `${position.x}%`,
+    top: `${position.y}%`,
+    transform: `translate(${-anchorX}%, ${-anchorY}%) rotate(${rotation}deg) scale(${scale.width}, ${scale.height})`,
+    transformOrigin: `${anchorX}% ${anchorY}%`,
+  };
+}
+
+/**
+ * Style of a clip's picture inside its frame-sized layer
+ */
+export function getClipFitStyle(fit: ClipFit = 'fit'): CSSProperties {
+  return {
+    width: '100%',
+    height: '100%',
+    objectFit: fit === 'fill' ? 'cover' : 'contain',
+    backgroundColor: fit === 'letterbox' ? '#000000' : undefined,
+  };
+}
+
+/**
+ * Place the project canvas inside an output frame of another size
+ * The canvas is scaled uniformly and centered, so a different aspect ratio
+ * is letterboxed rather than stretched.
+ */
+export function getCanvasFrameStyle(canvas: Canvas, width: number, height: number): CSSProperties {
+  const scale = Math.min(width / canvas.width, height / canvas.height);
+  return {
+    position: 'absolute',
+    left: (width - canvas.width * scale) / 2,
+    top: (height - canvas.height * scale) / 2,
+    width: canvas.width,
+    height: canvas.height,
+    transform: `scale(${scale})`,
+    transformOrigin: 'top left',
+    backgroundColor: canvas.backgroundColor,
+    overflow: 'hidden',
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * Transitions between adjacent clips
+ * Timing, handle validation and per-frame styling shared by the editor
+ * and the Remotion composition
+ */
+
+import type { CSSProperties } from 'react';
+import { Clip, EditorState, Transition, TransitionAlignment } from './types';
+
+export interface TransitionWindow {
+  start: number; // First frame of the transition (inclusive)
+  end: number; // Last frame of the transition (exclusive)
+}
+
+export type TransitionRole = 'from' | 'to';
+
+export const DEFAULT_TRANSITION_DURATION = 15; // Frames
+export const DEFAULT_DIP_COLOR = '#000000';
+
+/**
+ * Frames covered by a transition around a cut
+ */
+export function getTransitionWindow(
+  cut: number,
+  duration: number,
+  alignment: TransitionAlignment
+): TransitionWindow {
+  switch (alignment) {
+    case 'start':
+      return { start: cut, end: cut + duration };
+    case 'end':
+      return { start: cut - duration, end: cut };
+    case 'center': {
+      const before = Math.floor(duration / 2);
+      return { start: cut - before, end: cut - before + duration };
+    }
+  }
+}
+
+// Source frames available beyond a clip's edge; stills can be held indefinitely
+function getHeadHandle(clip: Clip): number {
+  return clip.type === 'image' ? Infinity : (clip.trimStart ?? 0);
+}
+
+function getTailHandle(clip: Clip): number {
+  return clip.type === 'image' ? Infinity : (clip.trimEnd ?? 0);
+}
+
+/**
+ * Find the two clips joined by a transition
+ */
+export function getTransitionClips(
+  state: Pick<EditorState, 'media'>,
+  transition: Transition
+): { from: Clip; to: Clip } | null {
+  const from = state.media.find(clip => clip.id === transition.fromClipId);
+  const to = state.media.find(clip => clip.id === transition.toClipId);
+  return from && to ? { from, to } : null;
+}
+
+/**
+ * Longest transition that fits the handles and lengths of two adjacent clips
+ */
+export function getMaxTransitionDuration(from: Clip, to: Clip, alignment: TransitionAlignment): number {
+  // Frames the transition may extend before and after the cut
+  const maxBefore = Math.min(from.endFrame - from.startFrame, getHeadHandle(to));
+  const maxAfter = Math.min(to.endFrame - to.startFrame, getTailHandle(from));
+
+  switch (alignment) {
+    case 'start':
+      return maxAfter;
+    case 'end':
+      return maxBefore;
+    case 'center':
+      // Centered windows put floor(d/2) frames before the cut and the rest after
+      return Math.min(2 * maxBefore + 1, 2 * maxAfter);
+  }
+}
+
+/**
+ * Check a transition against the current timeline
+ * Both clips must exist, touch at the cut on the same track, and have
+ * enough handle frames to play through the transition window
+ */
+export function getTransitionErrors(
+  state: Pick<EditorState, 'media' | 'tracks' | 'transitions'>,
+  transition: Transition
+): string[] {
+  const errors: string[] = [];
+  const clips = getTransitionClips(state, transition);
+  if (!clips) {
+    return [`Transition ${transition.id} references a missing clip`];
+  }
+
+  const { from, to } = clips;
+  if (from.trackId !== transition.trackId || to.trackId !== transition.trackId) {
+    errors.push(`Transition ${transition.id} joins clips that are not on track ${transition.trackId}`);
+  }
+  if (from.endFrame !== to.startFrame) {
+    errors.push(`Transition ${transition.id} joins clips ${from.id} and ${to.id} that are not adjacent`);
+    return errors;
+  }
+  if (transition.duration < 1) {
+    errors.push(`Transition ${transition.id} must last at least one frame`);
+  }
+
+  const track = state.tracks.find(t => t.id === transition.trackId);
+  if (track?.kind === 'audio' && transition.type !== 'crossfade') {
+    errors.push(`Transition ${transition.id} is a ${transition.type}; audio tracks only support crossfades`);
+  }
+
+  const cut = from.endFrame;
+  const window = getTransitionWindow(cut, transition.duration, transition.alignment);
+  const headNeeded = cut - window.start;
+  const tailNeeded = window.end - cut;
+
+  if (headNeeded > getHeadHandle(to)) {
+    errors.push(
+      `Transition ${transition.id} needs ${headNeeded} handle frames before clip ${to.id} but only ${getHeadHandle(to)} are available`
+    );
+  }
+  if (tailNeeded > getTailHandle(from)) {
+    errors.push(
+      `Transition ${transition.id} needs ${tailNeeded} handle frames after clip ${from.id} but only ${getTailHandle(from)} are available`
+    );
+  }
+  if (window.start < from.startFrame || window.end > to.endFrame) {
+    errors.push(`Transition ${transition.id} is longer than the clips it joins`);
+  }
+
+  // A clip's incoming and outgoing transitions must not overlap
+  const incoming = state.transitions.find(t => t.toClipId === from.id && t.id !== transition.id);
+  if (incoming) {
+    const incomingWindow = getTransitionWindow(from.startFrame, incoming.duration, incoming.alignment);
+    if (incomingWindow.end > window.start) {
+      errors.push(`Transition ${transition.id} overlaps transition ${incoming.id} on clip ${from.id}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Transitions that can currently be rendered
+ * Invalid ones (e.g. after a clip was moved away from the cut) fall back to a hard cut
+ */
+export function getActiveTransitions(state: Pick<EditorState, 'media' | 'tracks' | 'transitions'>): Transition[] {
+  return (state.transitions ?? []).filter(transition => getTransitionErrors(state, transition).length === 0);
+}
+
+/**
+ * Frames a clip occupies in the output, including transition overlaps
+ * `head` and `tail` are the frames rendered before its start and after its end
+ */
+export function getClipRenderRange(
+  clip: Clip,
+  transitions: Transition[]
+): { start: number; end: number; head: number; tail: number } {
+  const incoming = transitions.find(t => t.toClipId === clip.id);
+  const outgoing = transitions.find(t => t.fromClipId === clip.id);
+
+  const head = incoming
+    ? clip.startFrame - getTransitionWindow(clip.startFrame, incoming.duration, incoming.alignment).start
+    : 0;
+  const tail = outgoing
+    ? getTransitionWindow(clip.endFrame, outgoing.duration, outgoing.alignment).end - clip.endFrame
+    : 0;
+
+  return { start: clip.startFrame - head, end: clip.endFrame + tail, head, tail };
+}
+
+/**
+ * Progress (0-1) through a transition at a timeline frame
+ */
+export function getTransitionProgress(window: TransitionWindow, frame: number): number {
+  const length = window.end - window.start;
+  if (length <= 0) return 1;
+  return Math.max(0, Math.min(1, (frame - window.start) / length));
+}
+
+/**
+ * Transition affecting a clip at a frame, with the clip's role and progress
+ */
+export function getClipTransitionAt(
+  clip: Clip,
+  transitions: Transition[],
+  frame: number
+): { transition: Transition; role: TransitionRole; progress: number } | null {
+  for (const transition of transitions) {
+    const role: TransitionRole | null =
+      transition.fromClipId === clip.id ? 'from' : transition.toClipId === clip.id ? 'to' : null;
+    if (!role) continue;
+
+    const cut = role === 'from' ? clip.endFrame : clip.startFrame;
+    const window = getTransitionWindow(cut, transition.duration, transition.alignment);
+    if (frame >= window.start && frame < window.end) {
+      return { transition, role, progress: getTransitionProgress(window, frame) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Style applied to a clip's frame-sized wrapper during a transition
+ * The incoming clip is drawn above the outgoing one
+ */
+export function getTransitionStyle(transition: Transition, role: TransitionRole, progress: number): CSSProperties {
+  const direction = transition.direction ?? 'left';
+
+  switch (transition.type) {
+    case 'crossfade':
+      return role === 'to' ? { opacity: progress } : {};
+
+    case 'wipe': {
+      if (role === 'from') return {};
+      // Reveal the incoming clip starting from the side it enters from
+      const hidden = `${(1 - progress) * 100}%`;
+      const insets = {
+        left: `inset(0 ${hidden} 0 0)`,
+        right: `inset(0 0 0 ${hidden})`,
+        up: `inset(0 0 ${hidden} 0)`,
+        down: `inset(${hidden} 0 0 0)`,
+      };
+      return { clipPath: insets[direction] };
+    }
+
+    case 'slide': {
+      if (role === 'from') return {};
+      const offset = `${(1 - progress) * 100}%`;
+      const translations = {
+        left: `translateX(-${offset})`,
+        right: `translateX(${offset})`,
+        up: `translateY(-${offset})`,
+        down: `translateY(${offset})`,
+      };
+      return { transform: translations[direction] };
+    }
+
+    case 'dip-to-color':
+      // Outgoing clip shows for the first half, incoming for the second
+      return { opacity: (role === 'from') === (progress < 0.5) ? 1 : 0 };
+  }
+}
+
+/**
+ * Opacity of the color overlay for dip-to-color transitions
+ */
+export function getDipOpacity(progress: number): number {
+  return 1 - Math.abs(2 * progress - 1);
+}
+
+/**
+ * Audio gain for a clip during a transition
+ * Every type crossfades audio, except dips which fade out then in
+ */
+export function getTransitionVolume(transition: Transition, role: TransitionRole, progress: number): number {
+  if (transition.type === 'dip-to-color') {
+    return role === 'from' ? Math.max(0, 1 - 2 * progress) : Math.max(0, 2 * progress - 1);
+  }
+  return role === 'from' ? 1 - progress : progress;
+}
+
+/**
+ * Transitions on a track that are in progress at a frame
+ */
+export function getTrackTransitionsAt(
+  state: Pick<EditorState, 'media'>,
+  transitions: Transition[],
+  trackId: string,
+  frame: number
+): { transition: Transition; progress: number }[] {
+  return transitions.flatMap(transition => {
+    const clips = getTransitionClips(state, transition);
+    if (transition.trackId !== trackId || !clips) return [];
+
+    const window = getTransitionWindow(clips.from.endFrame, transition.duration, transition.alignment);
+    return frame >= window.start && frame < window.end
+      ? [{ transition, progress: getTransitionProgress(window, frame) }]
+      : [];
+  });
+}
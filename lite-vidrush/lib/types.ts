@@ -2,8 +2,76 @@
  * Core data models for the video editor
  */
 
+export type TrackKind = 'video' | 'audio' | 'text';
+
+export interface Track {
+  id: string;
+  name: string;
+  kind: TrackKind; // Video tracks hold video and image clips
+  order: number; // Stacking order: 0 is the top layer / first row
+  muted: boolean;
+  solo: boolean;
+  locked: boolean; // Locked tracks reject edits
+  hidden: boolean; // Hidden tracks are not rendered
+  volume?: number; // Mixer fader (0.0 to 1.0, default 1.0)
+  pan?: number; // Mixer pan applied after the clips' own pan (-1 = left, 1 = right)
+}
+
+// Point of an item's box that sits at its position and that scale and
+// rotation pivot around, as fractions (0,0 = top-left, 0.5,0.5 = center)
+export interface Anchor {
+  x: number;
+  y: number;
+}
+
+// Percent of an item's box hidden from each edge (0-100)
+export interface Crop {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Interpolation from a keyframe towards the next one
+export type KeyframeEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'bezier' | 'hold';
+
+export interface Keyframe {
+  id: string;
+  frame: number; // Frame relative to the item's start
+  value: number;
+  easing: KeyframeEasing;
+  bezier?: [number, number, number, number]; // Control points (x1, y1, x2, y2) for 'bezier'
+}
+
+// Numeric properties that can carry a keyframe track
+export type AnimatableProperty =
+  | 'position.x'
+  | 'position.y'
+  | 'scale.width'
+  | 'scale.height'
+  | 'rotation'
+  | 'opacity'
+  | 'volume'
+  | 'fontSize';
+
+export type KeyframeTracks = Partial<Record<AnimatableProperty, Keyframe[]>>;
+
+// How a clip's picture fills its frame when the aspect ratios differ
+// fit: whole picture, uncovered areas show the layers below
+// letterbox: whole picture on black bars
+// fill: covers the frame, cropping the overflow
+export type ClipFit = 'fit' | 'letterbox' | 'fill';
+
+// Size and background of the video frame; positions are percentages of it
+export interface Canvas {
+  width: number; // Pixels
+  height: number; // Pixels
+  backgroundColor: string;
+}
+
 export interface Clip {
   id: string;
+  trackId: string; // Track this clip lives on
   src: string; // URL or path to the media file
   startFrame: number; // Start frame in the timeline
   endFrame: number; // End frame in the timeline
@@ -19,16 +87,26 @@ export interface Clip {
     height: number; // Scale factor (1.0 = original size)
   };
   rotation?: number; // Rotation in degrees
+  anchor?: Anchor; // Transform anchor (default: center)
+  crop?: Crop; // Crop rectangle (default: uncropped)
+  opacity?: number; // Opacity (0.0 to 1.0, default 1.0)
+  fit?: ClipFit; // Default: fit
   // Audio properties
-  volume?: number; // Volume level (0.0 to 1.0, default 1.0)
+  volume?: number; // Volume level (0.0 to 1.0, default 1.0); volume keyframes form its envelope
   muted?: boolean; // Whether the clip is muted
-  // TODO: Add support for trim in/out points
-  trimStart?: number; // Trim start in source media frames
-  trimEnd?: number; // Trim end in source media frames
+  fadeIn?: number; // Fade-in length in frames
+  fadeOut?: number; // Fade-out length in frames
+  pan?: number; // Stereo pan (-1 = left, 0 = center, 1 = right)
+  audioSrc?: string; // Set by the renderer: pre-panned audio played instead of the source's sound
+  sourceDuration?: number; // Length of the source media in frames (unset for images)
+  trimStart?: number; // Source frames skipped before the clip (head handle)
+  trimEnd?: number; // Source frames left after the clip (tail handle)
+  keyframes?: KeyframeTracks; // Animated properties
 }
 
 export interface TextOverlay {
   id: string;
+  trackId: string; // Track this overlay lives on
   text: string;
   startFrame: number;
   endFrame: number;
@@ -41,6 +119,7 @@ export interface TextOverlay {
     height: number; // Scale factor (1.0 = original size)
   };
   rotation?: number; // Rotation in degrees
+  anchor?: Anchor; // Transform anchor (default: center)
   style: {
     fontSize: number;
     fontFamily: string;
@@ -50,18 +129,52 @@ export interface TextOverlay {
     fontWeight: 'normal' | 'bold';
     textAlign: 'left' | 'center' | 'right';
   };
+  keyframes?: KeyframeTracks; // Animated properties
+}
+
+export type TransitionType = 'crossfade' | 'wipe' | 'slide' | 'dip-to-color';
+
+// Where the transition sits relative to the cut
+// center: straddles the cut, start: begins at the cut, end: finishes at the cut
+export type TransitionAlignment = 'center' | 'start' | 'end';
+
+export type TransitionDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface Transition {
+  id: string;
+  trackId: string;
+  fromClipId: string; // Outgoing clip, ending at the cut
+  toClipId: string; // Incoming clip, starting at the cut
+  type: TransitionType;
+  duration: number; // Length in frames
+  alignment: TransitionAlignment;
+  direction?: TransitionDirection; // Side the incoming clip enters from (wipe, slide)
+  color?: string; // Dip color (dip-to-color)
+}
+
+// Clips and text overlays copied together, with the transitions between them
+export interface CopiedItems {
+  clips: Clip[];
+  texts: TextOverlay[];
+  transitions: Transition[];
 }
 
 export interface EditorState {
+  tracks: Track[];
   media: Clip[];
   texts: TextOverlay[];
-  selectedId: string | null; // Currently selected clip or text overlay
+  transitions: Transition[]; // Transitions at cuts between adjacent clips
+  selectedIds: string[]; // Selected clips and text overlays; the last one is the primary selection
   playhead: number; // Current playhead position in frames
+  canvas: Canvas; // Project frame size and background
   // Timeline configuration
   frameRate: number; // Default 30fps
   duration: number; // Total timeline duration in frames
   // Playback state
   isPlaying: boolean;
+  playbackRate?: number; // J/K/L shuttle speed; negative plays backwards (default 1)
+  markIn?: number; // In point in frames, set with the I key
+  markOut?: number; // Out point in frames, set with the O key
   // Audio settings
   masterVolume: number; // Master volume (0.0 to 1.0, default 1.0)
   muted: boolean; // Master mute
@@ -70,18 +183,40 @@ export interface EditorState {
   scrollPosition: number; // Timeline scroll position
 }
 
+export type RenderCodec = 'h264' | 'h265' | 'vp8' | 'vp9' | 'prores' | 'gif';
+
+// File format of a render; each codec only fits some containers
+export type RenderContainer = 'mp4' | 'webm' | 'mov' | 'mkv' | 'gif';
+
+// Pixel formats the encoders accept; alpha formats need a codec that keeps it
+export type RenderPixelFormat = 'yuv420p' | 'yuva420p' | 'yuv422p10le' | 'yuv444p' | 'yuv444p10le' | 'yuva444p10le';
+
 export interface RenderSettings {
   width: number;
   height: number;
-  fps: number;
-  codec: 'h264' | 'h265';
-  bitrate?: string;
-  outputFormat: 'mp4' | 'webm';
+  fps: number; // The timeline is retimed to this rate before rendering
+  codec: RenderCodec;
+  bitrate?: string; // Target video bitrate, e.g. '8M' or '800k'
+  crf?: number; // Constant quality instead of a bitrate (lower is better)
+  audioBitrate?: string; // e.g. '320k'
+  pixelFormat?: RenderPixelFormat;
+  outputFormat: RenderContainer;
+}
+
+// Named render settings; built-in presets ship with the app, custom ones
+// are added through /api/render/presets
+export interface RenderPreset {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn: boolean;
+  settings: RenderSettings;
 }
 
 export interface TimelineItem {
   id: string;
   type: 'clip' | 'text';
+  trackId: string;
   startFrame: number;
   endFrame: number;
   order: number;
@@ -90,10 +225,42 @@ export interface TimelineItem {
 
 // API Types
 export interface RenderRequest {
-  editorState: EditorState;
+  editorState?: EditorState; // Inline state to render
+  projectId?: string; // Or the ID of a stored project
+  presetId?: string; // Preset the settings start from
   settings?: Partial<RenderSettings>;
 }
 
+export type RenderJobState = 'queued' | 'rendering' | 'done' | 'failed' | 'cancelled';
+
+// Status of an asynchronous render, as reported by /api/render/[id]
+export interface RenderJob {
+  id: string;
+  state: RenderJobState;
+  progress: number; // 0-1
+  renderedFrames: number;
+  encodedFrames: number;
+  totalFrames: number | null; // Known once the composition is selected
+  eta: number | null; // Estimated seconds remaining
+  createdAt: string; // ISO timestamp
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+  outputUrl: string | null; // Download URL once the render is done
+  outputFormat: RenderContainer;
+}
+
+export type RenderStage = 'rendering' | 'encoding' | 'muxing';
+
+// Server-sent events streamed by /api/render/[id]/events
+export type RenderEvent =
+  | { type: 'status'; job: RenderJob } // Current job state (sent first and on state changes)
+  | { type: 'bundle'; progress: number } // Webpack bundling, 0-1
+  | { type: 'composition'; id: string; width: number; height: number; fps: number; durationInFrames: number }
+  | { type: 'progress'; stage: RenderStage; job: RenderJob }
+  | { type: 'done'; job: RenderJob }
+  | { type: 'error'; job: RenderJob; error: string };
+
 export interface RenderResponse {
   success: boolean;
   videoUrl?: string;
@@ -106,23 +273,68 @@ export interface MediaUploadResponse {
   url?: string;
   filename?: string;
   error?: string;
-  metadata?: {
-    duration?: number;
-    width?: number;
-    height?: number;
-    size: number;
-  };
+  metadata?: MediaMetadata & { size: number };
+}
+
+// Media properties reported by ffprobe
+export interface MediaMetadata {
+  duration?: number; // Seconds (unset for still images)
+  width?: number; // Display width in pixels (after rotation)
+  height?: number; // Display height in pixels (after rotation)
+  frameRate?: number; // Frames per second of the video stream
+  videoCodec?: string;
+  audioCodec?: string;
+  audioChannels?: number;
+  sampleRate?: number; // Audio sample rate in Hz
+  rotation?: number; // Clockwise display rotation in degrees (0, 90, 180, 270)
+}
+
+// Thumbnails of a video laid out in one sprite sheet, left to right then top to bottom
+export interface ThumbnailSprite {
+  url: string; // Sprite sheet image
+  interval: number; // Seconds between thumbnails
+  count: number; // Thumbnails in the sheet
+  columns: number; // Thumbnails per row
+  tileWidth: number; // Size of one thumbnail in pixels
+  tileHeight: number;
+}
+
+// Audio peaks of an upload at several resolutions, finest first
+export interface WaveformPeaks {
+  duration: number; // Seconds of audio
+  levels: WaveformLevel[];
+}
+
+export interface WaveformLevel {
+  peaksPerSecond: number;
+  peaks: string; // Base64 of interleaved min/max pairs as signed bytes
 }
 
 // Default values
+export const DEFAULT_TRACKS: Track[] = [
+  { id: 'text-1', name: 'Text 1', kind: 'text', order: 0, muted: false, solo: false, locked: false, hidden: false },
+  { id: 'video-1', name: 'Video 1', kind: 'video', order: 1, muted: false, solo: false, locked: false, hidden: false },
+  { id: 'audio-1', name: 'Audio 1', kind: 'audio', order: 2, muted: false, solo: false, locked: false, hidden: false },
+];
+
+export const DEFAULT_CANVAS: Canvas = {
+  width: 1280,
+  height: 720,
+  backgroundColor: '#1f2937',
+};
+
 export const DEFAULT_EDITOR_STATE: EditorState = {
+  tracks: DEFAULT_TRACKS,
   media: [],
   texts: [],
-  selectedId: null,
+  transitions: [],
+  selectedIds: [],
   playhead: 0,
+  canvas: DEFAULT_CANVAS,
   frameRate: 30,
   duration: 900, // 30 seconds at 30fps
   isPlaying: false,
+  playbackRate: 1,
   masterVolume: 1.0,
   muted: false,
   zoom: 1.0,
@@ -172,3 +172,19 @@ export function generateTimestampedFilename(prefix: string, extension: string):
   return `${prefix}_${timestamp}.${extension}`;
 }
 
+
+/**
+ * Filename of an uploaded file from its URL, or null for other sources
+ * Accepts both root-relative (/uploads/…) and absolute URLs, as the editor
+ * stores clips with the server's origin.
+ */
+export function getUploadFilename(src: string): string | null {
+  let pathname: string;
+  try {
+    pathname = new URL(src, 'http://localhost').pathname;
+  } catch {
+    return null;
+  }
+  const match = /^\/uploads\/([^/]+)$/.exec(pathname);
+  return match ? decodeURIComponent(match[1]) : null;
+}
@@ -0,0 +1,172 @@
+/**
+ * Waveform peaks
+ * Min/max peak extraction from PCM samples, the multi-resolution levels
+ * stored for each upload and the per-pixel columns drawn on timeline clips
+ */
+
+import { WaveformLevel, WaveformPeaks } from './types';
+
+export const PEAK_SAMPLE_RATE = 8000; // Hz audio is decoded at for peak extraction
+export const BASE_PEAKS_PER_SECOND = 200; // Finest level; 10x zoom draws 600 px/s at 30fps
+const LEVEL_FACTOR = 4; // Each level holds a quarter of the peaks of the one before
+const MIN_LEVEL_PEAKS = 64; // Stop adding coarser levels below this many peaks
+
+// A level with its peaks decoded: interleaved min/max pairs from -127 to 127
+export interface PeakLevel {
+  peaksPerSecond: number;
+  peaks: Int8Array;
+}
+
+/**
+ * Collects 16-bit PCM samples into min/max peaks, one per samplesPerPeak samples
+ * Samples can arrive in chunks of any size (as they do from ffmpeg's stdout)
+ */
+export function createPeakAccumulator(samplesPerPeak: number) {
+  const peaks: number[] = [];
+  let min = 0;
+  let max = 0;
+  let count = 0;
+
+  const flush = () => {
+    peaks.push(Math.round((min / 32768) * 127), Math.round((max / 32767) * 127));
+    min = 0;
+    max = 0;
+    count = 0;
+  };
+
+  return {
+    push(samples: Int16Array) {
+      for (let i = 0; i < samples.length; i++) {
+        const sample = samples[i];
+        if (sample < min) min = sample;
+        if (sample > max) max = sample;
+        if (++count === samplesPerPeak) flush();
+      }
+    },
+    finish(): Int8Array {
+      if (count > 0) flush();
+      return Int8Array.from(peaks);
+    },
+  };
+}
+
+/**
+ * Merge every `factor` min/max pairs into one
+ */
+export function downsamplePeaks(peaks: Int8Array, factor: number): Int8Array {
+  const pairs = peaks.length / 2;
+  const result = new Int8Array(Math.ceil(pairs / factor) * 2);
+
+  for (let i = 0; i < result.length / 2; i++) {
+    let min = 0;
+    let max = 0;
+    for (let j = i * factor; j < Math.min(pairs, (i + 1) * factor); j++) {
+      min = Math.min(min, peaks[j * 2]);
+      max = Math.max(max, peaks[j * 2 + 1]);
+    }
+    result[i * 2] = min;
+    result[i * 2 + 1] = max;
+  }
+
+  return result;
+}
+
+/**
+ * Build the finest-first levels from the base peaks
+ */
+export function buildPeakLevels(base: Int8Array, peaksPerSecond = BASE_PEAKS_PER_SECOND): PeakLevel[] {
+  const levels: PeakLevel[] = [{ peaksPerSecond, peaks: base }];
+
+  while (levels[levels.length - 1].peaks.length / 2 / LEVEL_FACTOR >= MIN_LEVEL_PEAKS) {
+    const previous = levels[levels.length - 1];
+    levels.push({
+      peaksPerSecond: previous.peaksPerSecond / LEVEL_FACTOR,
+      peaks: downsamplePeaks(previous.peaks, LEVEL_FACTOR),
+    });
+  }
+
+  return levels;
+}
+
+function toBase64(bytes: Int8Array): string {
+  const view = new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let binary = '';
+  // Chunked so large arrays don't overflow the argument list
+  for (let i = 0; i < view.length; i += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Int8Array {
+  const binary = atob(data);
+  const bytes = new Int8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i); // Wraps to the signed value
+  }
+  return bytes;
+}
+
+/**
+ * Serialize levels as stored next to the upload and sent to the client
+ */
+export function encodeWaveform(duration: number, levels: PeakLevel[]): WaveformPeaks {
+  return {
+    duration,
+    levels: levels.map(level => ({ peaksPerSecond: level.peaksPerSecond, peaks: toBase64(level.peaks) })),
+  };
+}
+
+/**
+ * Decode the levels of a stored waveform
+ */
+export function decodeWaveformLevels(levels: WaveformLevel[]): PeakLevel[] {
+  return levels.map(level => ({ peaksPerSecond: level.peaksPerSecond, peaks: fromBase64(level.peaks) }));
+}
+
+/**
+ * Coarsest level that still has a peak for every pixel
+ */
+export function pickPeakLevel(levels: PeakLevel[], pixelsPerSecond: number): PeakLevel {
+  let picked = levels[0];
+  for (const level of levels) {
+    if (level.peaksPerSecond >= pixelsPerSecond) picked = level;
+  }
+  return picked;
+}
+
+/**
+ * Min/max of the source under each pixel column of a clip, from -1 to 1
+ * Columns past the end of the source are silent.
+ */
+export function getWaveformColumns(
+  level: PeakLevel,
+  options: {
+    startSeconds: number; // Source time at the clip's left edge
+    pixelsPerSecond: number;
+    width: number; // Columns to compute
+    gain?: number; // Scales the amplitude (clip volume)
+  }
+): Float32Array {
+  const { startSeconds, pixelsPerSecond, width, gain = 1 } = options;
+  const columns = new Float32Array(Math.max(0, Math.ceil(width)) * 2);
+  const pairs = level.peaks.length / 2;
+  const peaksPerPixel = level.peaksPerSecond / pixelsPerSecond;
+  const firstPeak = startSeconds * level.peaksPerSecond;
+
+  for (let x = 0; x < columns.length / 2; x++) {
+    const from = Math.floor(firstPeak + x * peaksPerPixel);
+    // Always read at least one peak, also when zoomed in past the finest level
+    const to = Math.max(from + 1, Math.floor(firstPeak + (x + 1) * peaksPerPixel));
+    let min = 0;
+    let max = 0;
+    for (let i = Math.max(0, from); i < Math.min(pairs, to); i++) {
+      if (level.peaks[i * 2] < min) min = level.peaks[i * 2];
+      if (level.peaks[i * 2 + 1] > max) max = level.peaks[i * 2 + 1];
+    }
+    columns[x * 2] = Math.max(-1, (min / 127) * gain);
+    columns[x * 2 + 1] = Math.min(1, (max / 127) * gain);
+  }
+
+  return columns;
+}
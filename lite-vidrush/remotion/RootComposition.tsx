@@ -3,7 +3,7 @@
  * Renders video based on EditorState
  */
 
-import React from 'react';
+import React, { useRef } from 'react';
 import {
   AbsoluteFill,
   Audio,
@@ -14,7 +14,28 @@ import {
   useVideoConfig,
   Video,
 } from 'remotion';
-import { EditorState, Clip, TextOverlay } from '@/lib/types';
+import { EditorState, Clip, TextOverlay, Track, Transition, DEFAULT_CANVAS } from '@/lib/types';
+import { isTrackAudible } from '@/lib/timelineOps';
+import {
+  resolveTransform,
+  getTransformStyle,
+  getCropClipPath,
+  getClipFitStyle,
+  getCanvasFrameStyle,
+} from '@/lib/transform';
+import { applyKeyframes, isAnimated } from '@/lib/keyframes';
+import { getClipGain } from '@/lib/audio';
+import {
+  DEFAULT_DIP_COLOR,
+  getActiveTransitions,
+  getClipRenderRange,
+  getClipTransitionAt,
+  getDipOpacity,
+  getTrackTransitionsAt,
+  getTransitionStyle,
+  getTransitionVolume,
+} from '@/lib/transitions';
+import { useAudioRouting } from './audioGraph';
 
 interface RootCompositionProps {
   editorState?: EditorState;
@@ -22,52 +43,89 @@ interface RootCompositionProps {
 
 export const RootComposition: React.FC<RootCompositionProps> = ({ editorState }) => {
   const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
+  const { fps, width, height } = useVideoConfig();
 
   // Ensure editorState exists and has required properties
   const safeEditorState = {
+    tracks: [],
     media: [],
     texts: [],
+    transitions: [],
     masterVolume: 1.0,
     muted: false,
+    canvas: DEFAULT_CANVAS,
     ...editorState,
   };
 
 
-  // Get clips that should be visible at current frame
-  const visibleClips = safeEditorState.media.filter(
-    clip => frame >= clip.startFrame && frame < clip.endFrame
-  );
-
-  // Get text overlays that should be visible at current frame
-  const visibleTexts = safeEditorState.texts.filter(
-    text => frame >= text.startFrame && frame < text.endFrame
-  );
+  // Composite tracks bottom-up: the track with order 0 is drawn last (on top)
+  const layers = [...safeEditorState.tracks]
+    .filter(track => !track.hidden)
+    .sort((a, b) => b.order - a.order);
 
+  // Transitions that no longer fit their cut fall back to a hard cut
+  const transitions = getActiveTransitions(safeEditorState);
 
+  // Items are laid out on the project canvas, which is fitted into the output size
   return (
-    <AbsoluteFill style={{ backgroundColor: '#1f2937' }}>
-
-      {/* Render media clips */}
-      {visibleClips.map((clip) => (
-        <ClipRenderer
-          key={clip.id}
-          clip={clip}
-          currentFrame={frame}
-          fps={fps}
-          editorState={editorState}
-        />
-      ))}
-
-      {/* Render text overlays */}
-      {visibleTexts.map((text) => (
-        <TextRenderer
-          key={text.id}
-          text={text}
-          currentFrame={frame}
-        />
-      ))}
+    <AbsoluteFill style={{ backgroundColor: '#000000' }}>
+      <div style={getCanvasFrameStyle(safeEditorState.canvas, width, height)}>
+        {layers.map((track) => {
+          // Get clips and text overlays on this track visible at current frame
+          // Clips stay visible through the transition overlap; incoming clips draw above outgoing ones
+          const visibleClips = safeEditorState.media
+            .filter(clip => {
+              if (clip.trackId !== track.id) return false;
+              const range = getClipRenderRange(clip, transitions);
+              return frame >= range.start && frame < range.end;
+            })
+            .sort((a, b) => a.startFrame - b.startFrame);
+          const visibleTexts = safeEditorState.texts.filter(
+            text => text.trackId === track.id && frame >= text.startFrame && frame < text.endFrame
+          );
+          const trackMuted = !isTrackAudible(safeEditorState, track);
+
+          return (
+            <React.Fragment key={track.id}>
+              {/* Render media clips */}
+              {visibleClips.map((clip) => (
+                <ClipRenderer
+                  key={clip.id}
+                  clip={clip}
+                  currentFrame={frame}
+                  fps={fps}
+                  editorState={editorState}
+                  track={track}
+                  trackMuted={trackMuted}
+                  transitions={transitions}
+                />
+              ))}
+
+              {/* Dip-to-color overlays */}
+              {getTrackTransitionsAt(safeEditorState, transitions, track.id, frame)
+                .filter(({ transition }) => transition.type === 'dip-to-color')
+                .map(({ transition, progress }) => (
+                  <AbsoluteFill
+                    key={transition.id}
+                    style={{
+                      backgroundColor: transition.color ?? DEFAULT_DIP_COLOR,
+                      opacity: getDipOpacity(progress),
+                    }}
+                  />
+                ))}
 
+              {/* Render text overlays */}
+              {visibleTexts.map((text) => (
+                <TextRenderer
+                  key={text.id}
+                  text={text}
+                  currentFrame={frame}
+                />
+              ))}
+            </React.Fragment>
+          );
+        })}
+      </div>
     </AbsoluteFill>
   );
 };
@@ -77,57 +135,100 @@ interface ClipRendererProps {
   currentFrame: number;
   fps: number;
   editorState: any; // Pass the entire editor state for volume controls
+  track: Track; // Mixer fader and pan
+  trackMuted: boolean; // Track is muted or another track is soloed
+  transitions: Transition[]; // Active transitions of the composition
 }
 
-const ClipRenderer: React.FC<ClipRendererProps> = ({ clip, currentFrame, fps, editorState }) => {
+const ClipRenderer: React.FC<ClipRendererProps> = ({ clip, currentFrame, fps, editorState, track, trackMuted, transitions }) => {
   // Calculate the relative frame within this clip
   const clipFrame = currentFrame - clip.startFrame;
-  const clipDuration = clip.endFrame - clip.startFrame;
+
+  // Transitions extend the clip into its handles before its start and after its end
+  const range = getClipRenderRange(clip, transitions);
+  const transitionState = getClipTransitionAt(clip, transitions, currentFrame);
+  const transitionStyle = transitionState
+    ? getTransitionStyle(transitionState.transition, transitionState.role, transitionState.progress)
+    : {};
 
   // Handle trim start/end for source media
-  const sourceStartTime = (clip.trimStart || 0) / fps;
+  const sourceStartTime = Math.max(0, (clip.trimStart || 0) - range.head) / fps;
   const playbackRate = 1.0; // Keep normal playback speed
 
   const commonProps = {
-    style: {
-      width: '100%',
-      height: '100%',
-      objectFit: 'contain' as const,
-    },
+    style: getClipFitStyle(clip.fit),
   };
 
+  // Visual clips are frame-sized layers moved, scaled, rotated and cropped around their anchor
+  const animated = applyKeyframes(clip, clipFrame);
+  const transform = resolveTransform(animated);
+  const layerStyle: React.CSSProperties = {
+    ...getTransformStyle(transform),
+    width: '100%',
+    height: '100%',
+    opacity: animated.opacity ?? 1,
+    clipPath: getCropClipPath(transform.crop),
+  };
+
+  // Volume is evaluated per frame of the sequence so the envelope, fades and transitions are sample
+  // accurate; the track fader and master volume scale it like mixer buses
+  const busVolume = (track.volume ?? 1.0) * (editorState.masterVolume ?? 1.0);
+  const volume = (sequenceFrame: number) => {
+    const timelineFrame = range.start + sequenceFrame;
+    const transitionAt = getClipTransitionAt(clip, transitions, timelineFrame);
+    const gain = transitionAt
+      ? getTransitionVolume(transitionAt.transition, transitionAt.role, transitionAt.progress)
+      : 1;
+    return getClipGain(clip, timelineFrame - clip.startFrame) * gain * busVolume;
+  };
+  const muted = clip.muted || trackMuted || editorState.muted || false;
+
+  // Renders play pre-panned audio (audioSrc); the preview pans and meters the element itself
+  const mediaRef = useRef<HTMLMediaElement>(null);
+  useAudioRouting(mediaRef, { trackId: track.id, pan: clip.pan ?? 0, trackPan: track.pan ?? 0 });
+
   return (
     <Sequence
-      from={clip.startFrame}
-      durationInFrames={clipDuration}
+      from={range.start}
+      durationInFrames={range.end - range.start}
       name={`clip-${clip.id}`}
     >
       {clip.type === 'video' && (
-        <Video
-          src={clip.src}
-          volume={(clip.volume || 1.0) * (editorState.masterVolume || 1.0)}
-          muted={clip.muted || editorState.muted || false}
-          startFrom={Math.floor(sourceStartTime * fps)}
-          playbackRate={playbackRate}
-          {...commonProps}
-        />
+        <AbsoluteFill style={transitionStyle}>
+          <div style={layerStyle}>
+            <Video
+              ref={mediaRef as React.RefObject<HTMLVideoElement>}
+              src={clip.src}
+              volume={volume}
+              muted={muted || Boolean(clip.audioSrc)}
+              startFrom={Math.floor(sourceStartTime * fps)}
+              playbackRate={playbackRate}
+              {...commonProps}
+            />
+          </div>
+        </AbsoluteFill>
       )}
 
-      {clip.type === 'audio' && (
+      {(clip.type === 'audio' || (clip.type === 'video' && clip.audioSrc)) && (
         <Audio
-          src={clip.src}
-          volume={(clip.volume || 1.0) * (editorState.masterVolume || 1.0)}
-          muted={clip.muted || editorState.muted || false}
+          ref={clip.type === 'audio' ? (mediaRef as React.RefObject<HTMLAudioElement>) : undefined}
+          src={clip.audioSrc ?? clip.src}
+          volume={volume}
+          muted={muted}
           startFrom={Math.floor(sourceStartTime * fps)}
           playbackRate={playbackRate}
         />
       )}
 
       {clip.type === 'image' && (
-        <Img
-          src={clip.src}
-          {...commonProps}
-        />
+        <AbsoluteFill style={transitionStyle}>
+          <div style={layerStyle}>
+            <Img
+              src={clip.src}
+              {...commonProps}
+            />
+          </div>
+        </AbsoluteFill>
       )}
     </Sequence>
   );
@@ -142,16 +243,20 @@ const TextRenderer: React.FC<TextRendererProps> = ({ text, currentFrame }) => {
   const textFrame = currentFrame - text.startFrame;
   const textDuration = text.endFrame - text.startFrame;
 
-  // Simple fade in/out animation
-  const opacity = interpolate(
-    textFrame,
-    [0, 10, textDuration - 10, textDuration],
-    [0, text.style.opacity, text.style.opacity, 0],
-    {
-      extrapolateLeft: 'clamp',
-      extrapolateRight: 'clamp',
-    }
-  );
+  const animated = applyKeyframes(text, textFrame);
+
+  // Simple fade in/out animation unless opacity is keyframed
+  const opacity = isAnimated(text, 'opacity')
+    ? animated.style.opacity
+    : interpolate(
+      textFrame,
+      [0, 10, textDuration - 10, textDuration],
+      [0, text.style.opacity, text.style.opacity, 0],
+      {
+        extrapolateLeft: 'clamp',
+        extrapolateRight: 'clamp',
+      }
+    );
 
   return (
     <Sequence
@@ -162,11 +267,8 @@ const TextRenderer: React.FC<TextRendererProps> = ({ text, currentFrame }) => {
       <AbsoluteFill>
         <div
           style={{
-            position: 'absolute',
-            left: `${text.position.x}%`,
-            top: `${text.position.y}%`,
-            transform: 'translate(-50%, -50%)',
-            fontSize: text.style.fontSize,
+            ...getTransformStyle(resolveTransform(animated)),
+            fontSize: animated.style.fontSize,
             fontFamily: text.style.fontFamily,
             color: text.style.color,
             backgroundColor: text.style.backgroundColor,
@@ -193,16 +295,14 @@ export const compositionConfig = {
   component: RootComposition,
   durationInFrames: 900, // 30 seconds at 30fps (will be overridden)
   fps: 30,
-  width: 1280,
-  height: 720,
+  width: DEFAULT_CANVAS.width,
+  height: DEFAULT_CANVAS.height,
 };
 
 // TODO: Add support for:
-// - Transitions between clips
 // - Video effects and filters
-// - Audio mixing and effects
+// - Audio effects
 // - Advanced text animations
-// - Multiple video tracks/layers
 // - Chroma key / green screen
 // - Speed ramping
 // - Audio waveform visualization
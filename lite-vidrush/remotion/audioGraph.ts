@@ -0,0 +1,119 @@
+/**
+ * Preview audio graph
+ * Remotion has no pan or metering, so while previewing every clip's media
+ * element is routed through Web Audio:
+ *   element → clip panner → track bus (panner, meter) → master meter → speakers
+ * Renders use pre-panned audio instead (see lib/audioPan.ts).
+ */
+
+import { RefObject, useEffect } from 'react';
+import { getRemotionEnvironment } from 'remotion';
+
+interface TrackBus {
+  panner: StereoPannerNode;
+  analyser: AnalyserNode;
+}
+
+interface RoutedElement {
+  panner: StereoPannerNode;
+  trackId: string;
+}
+
+const ANALYSER_SIZE = 2048;
+
+let audioContext: AudioContext | null = null;
+let masterAnalyser: AnalyserNode | null = null;
+const buses = new Map<string, TrackBus>();
+
+// An element can only be connected to Web Audio once, so its nodes are kept
+const routed = new WeakMap<HTMLMediaElement, RoutedElement>();
+
+// Upmix mono sources so they pan like stereo ones do in renders
+function createPanner(context: AudioContext): StereoPannerNode {
+  const panner = context.createStereoPanner();
+  panner.channelCount = 2;
+  panner.channelCountMode = 'explicit';
+  return panner;
+}
+
+function getContext(): AudioContext {
+  if (!audioContext) {
+    audioContext = new AudioContext();
+    masterAnalyser = audioContext.createAnalyser();
+    masterAnalyser.fftSize = ANALYSER_SIZE;
+    masterAnalyser.connect(audioContext.destination);
+  }
+  return audioContext;
+}
+
+function getBus(trackId: string): TrackBus {
+  let bus = buses.get(trackId);
+  if (!bus) {
+    const context = getContext();
+    bus = { panner: createPanner(context), analyser: context.createAnalyser() };
+    bus.analyser.fftSize = ANALYSER_SIZE;
+    bus.panner.connect(bus.analyser).connect(masterAnalyser!);
+    buses.set(trackId, bus);
+  }
+  return bus;
+}
+
+// Browsers can't read the samples of media from other origins without CORS
+function isSameOrigin(src: string): boolean {
+  try {
+    return new URL(src, window.location.href).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Route a clip's media element through its track bus while previewing
+ * The player reuses audio elements, so an element follows the clip that
+ * currently owns it.
+ */
+export function useAudioRouting(
+  ref: RefObject<HTMLMediaElement | null>,
+  { trackId, pan, trackPan }: { trackId: string; pan: number; trackPan: number }
+): void {
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || getRemotionEnvironment().isRendering || typeof AudioContext === 'undefined') return;
+    if (!routed.has(element) && !isSameOrigin(element.currentSrc || element.src)) return;
+
+    const context = getContext();
+    let route = routed.get(element);
+    if (!route) {
+      route = { panner: createPanner(context), trackId };
+      context.createMediaElementSource(element).connect(route.panner);
+      route.panner.connect(getBus(trackId).panner);
+      routed.set(element, route);
+    } else if (route.trackId !== trackId) {
+      route.panner.disconnect();
+      route.panner.connect(getBus(trackId).panner);
+      route.trackId = trackId;
+    }
+    route.panner.pan.value = pan;
+    getBus(trackId).panner.pan.value = trackPan;
+
+    // Browsers start audio contexts suspended until the user interacts
+    const resume = () => { void context.resume(); };
+    resume();
+    element.addEventListener('play', resume);
+    return () => element.removeEventListener('play', resume);
+  }, [ref, trackId, pan, trackPan]);
+}
+
+/**
+ * Meter tap of a track bus, or null before any of its clips played
+ */
+export function getTrackAnalyser(trackId: string): AnalyserNode | null {
+  return buses.get(trackId)?.analyser ?? null;
+}
+
+/**
+ * Meter tap of the master bus, or null before anything played
+ */
+export function getMasterAnalyser(): AnalyserNode | null {
+  return masterAnalyser;
+}
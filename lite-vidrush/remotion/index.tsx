@@ -6,13 +6,17 @@
 import React from 'react';
 import { Composition, registerRoot } from 'remotion';
 import { RootComposition } from './RootComposition';
+import { Canvas, DEFAULT_CANVAS, DEFAULT_TRACKS } from '@/lib/types';
 
 // Default editor state for fallback
 const defaultEditorState = {
+  tracks: DEFAULT_TRACKS,
   media: [],
   texts: [],
-  selectedId: null,
+  transitions: [],
+  selectedIds: [],
   playhead: 0,
+  canvas: DEFAULT_CANVAS,
   frameRate: 30,
   duration: 900,
   isPlaying: false,
@@ -28,17 +32,21 @@ registerRoot(() => {
       component={RootComposition}
       durationInFrames={900} // This will be overridden by renderMedia()
       fps={30}
-      width={1280}
-      height={720}
+      width={DEFAULT_CANVAS.width}
+      height={DEFAULT_CANVAS.height}
       defaultProps={{
         editorState: defaultEditorState,
       }}
       // Calculate duration function that can be overridden
       calculateMetadata={({ props }) => {
         const editorState = props.editorState || defaultEditorState;
+        const canvas = (editorState as { canvas?: Canvas }).canvas ?? DEFAULT_CANVAS;
         return {
           durationInFrames: Math.max(editorState.duration || 900, 30), // At least 1 second
           fps: editorState.frameRate || 30,
+          // The project canvas; renders may override it with their output size
+          width: canvas.width,
+          height: canvas.height,
         };
       }}
     />
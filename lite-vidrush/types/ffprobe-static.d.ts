@@ -0,0 +1,4 @@
+declare module 'ffprobe-static' {
+  // Absolute path to the bundled ffprobe binary
+  export const path: string;
+}